@@ -0,0 +1,63 @@
+// config/auth.js
+// Sign-in settings. Requests carry a short-lived access token (a JWT in the Authorization header); the
+// browser keeps a refresh token in an httpOnly cookie and trades it for a new access token when one
+// expires. JWT_SECRET signs the access tokens and is required in production. Elsewhere a random secret is
+// made per process, so access tokens stop working on restart and the app quietly refreshes them.
+
+const crypto = require('crypto');
+
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && !Number.isNaN(parsed) ? parsed : fallback;
+};
+
+let developmentSecret;
+
+const getAccessSecret = () => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  if (!developmentSecret) {
+    developmentSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('JWT_SECRET not set; using a random secret for this process - do not run production like this');
+  }
+  return developmentSecret;
+};
+
+const getAuthConfig = () => {
+  const env = process.env;
+
+  return {
+    accessSecret: getAccessSecret(),
+    accessTokenTtlSeconds: readNumber(env.ACCESS_TOKEN_TTL_SECONDS, 15 * 60),
+    refreshTokenTtlDays: readNumber(env.REFRESH_TOKEN_TTL_DAYS, 30),
+    // A refresh token replaced this recently is let through once more without counting as reuse,
+    // for tabs that refreshed at the same moment
+    refreshReuseGraceSeconds: readNumber(env.REFRESH_REUSE_GRACE_SECONDS, 30),
+    // Browser origins allowed to call the API with credentials (the refresh cookie)
+    allowedOrigins: (env.CORS_ORIGINS || env.APP_URL || 'http://localhost:3000')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+    mfa: {
+      // Name shown next to the account in authenticator apps
+      issuer: env.MFA_ISSUER || 'Prior Auth Disputes',
+      // How long the code step of a two-step sign-in stays open after the password step
+      challengeTtlSeconds: readNumber(env.MFA_CHALLENGE_TTL_SECONDS, 5 * 60),
+      maxFailedAttempts: readNumber(env.MFA_MAX_FAILED_ATTEMPTS, 5),
+      lockoutMinutes: readNumber(env.MFA_LOCKOUT_MINUTES, 15),
+    },
+    cookie: {
+      name: 'refresh_token',
+      path: '/api/auth',
+      // Set COOKIE_SECURE=false to test a production build over plain http
+      secure: env.COOKIE_SECURE ? env.COOKIE_SECURE === 'true' : env.NODE_ENV === 'production',
+      // "none" when the app and API are on different sites (requires a secure cookie)
+      sameSite: env.COOKIE_SAME_SITE || 'lax',
+    },
+  };
+};
+
+module.exports = { getAuthConfig };
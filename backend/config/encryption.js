@@ -0,0 +1,72 @@
+// config/encryption.js
+// Key-encryption keys for PHI field encryption and the key for blind indexes.
+// Keys come from ENCRYPTION_KEYS (JSON) or the key file at ENCRYPTION_KEY_FILE. Outside production a
+// key file is generated on first use so development works without setup; production refuses to start
+// without one.
+//
+// Key file format:
+// {
+//   "currentKeyVersion": 2,
+//   "keys": { "1": "<base64, 32 bytes>", "2": "<base64, 32 bytes>" },
+//   "blindIndexKey": "<base64, 32 bytes>"
+// }
+// Add a new version and make it current to rotate; keep old versions until `npm run migrate:encryption`
+// has re-encrypted everything under the new one.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_KEY_FILE = path.join(__dirname, '..', '.keys', 'encryption-keys.json');
+
+const decodeKey = (value, name) => {
+  const key = Buffer.from(value || '', 'base64');
+  if (key.length !== 32) {
+    throw new Error(`Encryption key ${name} must be 32 bytes, base64 encoded`);
+  }
+  return key;
+};
+
+const generateKeyFile = (keyFile) => {
+  const keySet = {
+    currentKeyVersion: 1,
+    keys: { 1: crypto.randomBytes(32).toString('base64') },
+    blindIndexKey: crypto.randomBytes(32).toString('base64'),
+  };
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+  fs.writeFileSync(keyFile, JSON.stringify(keySet, null, 2), { mode: 0o600 });
+  console.warn(`Generated development encryption keys at ${keyFile} - do not use them in production`);
+  return keySet;
+};
+
+const getEncryptionConfig = () => {
+  const env = process.env;
+  const keyFile = env.ENCRYPTION_KEY_FILE || DEFAULT_KEY_FILE;
+
+  let keySet;
+  if (env.ENCRYPTION_KEYS) {
+    keySet = JSON.parse(env.ENCRYPTION_KEYS);
+  } else if (fs.existsSync(keyFile)) {
+    keySet = JSON.parse(fs.readFileSync(keyFile, 'utf8'));
+  } else if (env.NODE_ENV !== 'production') {
+    keySet = generateKeyFile(keyFile);
+  } else {
+    throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY_FILE must be set in production');
+  }
+
+  const keys = new Map(
+    Object.entries(keySet.keys || {}).map(([version, value]) => [Number(version), decodeKey(value, `version ${version}`)])
+  );
+  const currentKeyVersion = Number(keySet.currentKeyVersion);
+  if (!keys.has(currentKeyVersion)) {
+    throw new Error(`Current encryption key version ${keySet.currentKeyVersion} is not in the key set`);
+  }
+
+  return {
+    currentKeyVersion,
+    keys,
+    blindIndexKey: decodeKey(keySet.blindIndexKey, 'blindIndexKey'),
+  };
+};
+
+module.exports = { getEncryptionConfig };
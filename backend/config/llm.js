@@ -0,0 +1,52 @@
+// config/llm.js
+// LLM settings for the two AI roles: "analyzer" (denial analysis) and "disputer" (document generation).
+// Role-specific variables (e.g. ANALYZER_MODEL) override the shared LLM_* defaults.
+// The offline mock provider answers from fixtures. It is used when chosen with LLM_PROVIDER=mock, and by
+// default only under NODE_ENV test or development; anywhere else a role without an API key is a
+// configuration error, so a deployment never saves fixture output as a real analysis.
+
+const DEFAULT_MODEL = 'claude-3-sonnet-20240229';
+const MOCK_BY_DEFAULT_ENVIRONMENTS = ['test', 'development'];
+
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && !Number.isNaN(parsed) ? parsed : fallback;
+};
+
+const getLLMConfig = (role) => {
+  const prefix = role.toUpperCase();
+  const env = process.env;
+  const apiKey = env[`${prefix}_API`];
+
+  let provider = env[`${prefix}_PROVIDER`] || env.LLM_PROVIDER;
+  if (!provider) {
+    if (env.NODE_ENV === 'test') {
+      provider = 'mock';
+    } else if (apiKey) {
+      provider = 'anthropic';
+    } else if (MOCK_BY_DEFAULT_ENVIRONMENTS.includes(env.NODE_ENV)) {
+      provider = 'mock';
+    } else {
+      throw new Error(`${prefix}_API must be set (or LLM_PROVIDER=mock to run from fixtures)`);
+    }
+  }
+  if (provider === 'anthropic' && !apiKey) {
+    throw new Error(`${prefix}_API must be set to use the anthropic provider`);
+  }
+
+  return {
+    role,
+    provider,
+    apiKey,
+    model: env[`${prefix}_MODEL`] || env.LLM_MODEL || DEFAULT_MODEL,
+    temperature: readNumber(env[`${prefix}_TEMPERATURE`] ?? env.LLM_TEMPERATURE, role === 'analyzer' ? 0 : 0.4),
+    maxTokens: readNumber(env[`${prefix}_MAX_TOKENS`] ?? env.LLM_MAX_TOKENS, 2000),
+    timeoutMs: readNumber(env[`${prefix}_TIMEOUT_MS`] ?? env.LLM_TIMEOUT_MS, 60 * 1000),
+    maxRetries: readNumber(env[`${prefix}_MAX_RETRIES`] ?? env.LLM_MAX_RETRIES, 2),
+    // Extra attempts with a repair prompt when structured output fails validation
+    repairAttempts: readNumber(env[`${prefix}_REPAIR_ATTEMPTS`] ?? env.LLM_REPAIR_ATTEMPTS, 2),
+    fixturesDir: env.LLM_FIXTURES_DIR,
+  };
+};
+
+module.exports = { getLLMConfig };
@@ -0,0 +1,37 @@
+// config/notifications.js
+// Settings for the email (SMTP) and Web Push notification channels and delivery retries.
+// Without SMTP_HOST, emails are rendered and logged instead of sent; point it at a local
+// SMTP sink (e.g. MailHog on port 1025) to inspect real messages.
+
+const readNumber = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && !Number.isNaN(parsed) ? parsed : fallback;
+};
+
+const getNotificationConfig = () => {
+  const env = process.env;
+
+  return {
+    appUrl: (env.APP_URL || 'http://localhost:3000').replace(/\/$/, ''),
+    email: {
+      host: env.SMTP_HOST,
+      port: readNumber(env.SMTP_PORT, 587),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER,
+      password: env.SMTP_PASS,
+      from: env.EMAIL_FROM || 'Prior Auth Disputes <no-reply@localhost>',
+    },
+    push: {
+      publicKey: env.VAPID_PUBLIC_KEY,
+      privateKey: env.VAPID_PRIVATE_KEY,
+      subject: env.VAPID_SUBJECT || 'mailto:admin@localhost',
+      ttlSeconds: readNumber(env.PUSH_TTL_SECONDS, 24 * 60 * 60),
+    },
+    delivery: {
+      maxAttempts: readNumber(env.NOTIFICATION_MAX_ATTEMPTS, 5),
+      retryBaseDelayMs: readNumber(env.NOTIFICATION_RETRY_BASE_MS, 60 * 1000),
+    },
+  };
+};
+
+module.exports = { getNotificationConfig };
@@ -0,0 +1,37 @@
+// config/storage.js
+// Where uploaded patient documents and denial letters are kept. STORAGE_DRIVER picks the backend:
+// "local" (a directory on this host, the default) or "s3" (any S3-compatible service, e.g. AWS or MinIO).
+// Run more than one API instance only with "s3", or with a local directory they all share.
+
+const path = require('path');
+
+const DEFAULT_LOCAL_DIR = path.join(__dirname, '..', 'uploads', 'storage');
+
+const readBoolean = (value, fallback) => (value === undefined || value === '' ? fallback : value === 'true');
+
+// `driver` overrides STORAGE_DRIVER, so the migration command can open both ends of a move
+const getStorageConfig = (driver) => {
+  const env = process.env;
+
+  return {
+    driver: driver || env.STORAGE_DRIVER || 'local',
+    local: {
+      directory: env.STORAGE_LOCAL_DIR || DEFAULT_LOCAL_DIR,
+    },
+    s3: {
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || 'us-east-1',
+      // Set for MinIO and other S3-compatible services; leave unset for AWS
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: readBoolean(env.S3_FORCE_PATH_STYLE, !!env.S3_ENDPOINT),
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      prefix: env.S3_PREFIX || '',
+      // "AES256", "aws:kms" (with S3_KMS_KEY_ID) or "none" for services without server-side encryption
+      serverSideEncryption: env.S3_SERVER_SIDE_ENCRYPTION || 'AES256',
+      kmsKeyId: env.S3_KMS_KEY_ID,
+    },
+  };
+};
+
+module.exports = { getStorageConfig };
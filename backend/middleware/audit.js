@@ -0,0 +1,33 @@
+const auditLogService = require('../services/auditLogService');
+
+// Records every authenticated request handled by the router in the audit log once the response is sent.
+// Mount with router.use() ahead of the routes; `auth` on each route supplies req.user.
+const audit = (resourceType) => (req, res, next) => {
+  res.on('finish', () => {
+    // Unauthenticated requests never reach PHI, and unmatched paths have no route to record
+    if (!req.user || !req.route) return;
+
+    const { id, ...params } = req.params;
+
+    auditLogService.record({
+      timestamp: new Date(),
+      user: req.user._id,
+      userEmail: req.user.email,
+      userName: `${req.user.firstName} ${req.user.lastName}`,
+      action: auditLogService.getAction(req.method),
+      method: req.method,
+      route: req.route.path === '/' ? req.baseUrl : `${req.baseUrl}${req.route.path}`,
+      resourceType,
+      // Create routes name the new record through res.locals
+      resourceId: id || res.locals.auditResourceId?.toString(),
+      params,
+      statusCode: res.statusCode,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+    });
+  });
+
+  next();
+};
+
+module.exports = audit;
@@ -1,5 +1,4 @@
-const jwt = require('jsonwebtoken');
-const User = require('../models/User');
+const sessionService = require('../services/sessionService');
 
 const auth = async (req, res, next) => {
   try {
@@ -9,19 +8,20 @@ const auth = async (req, res, next) => {
       return res.status(401).json({ message: 'No token, authorization denied' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    const user = await User.findById(decoded.id).select('-password');
-
-    if (!user) {
-      return res.status(401).json({ message: 'Token is not valid' });
-    }
+    const { user, session } = await sessionService.authenticate(token);
 
     req.user = user;
+    req.sessionId = session._id;
+    // Whether this session passed a two-factor check; some patient groups require it
+    req.mfaVerified = Boolean(user.mfa?.enabled && session.mfaVerifiedAt);
     next();
   } catch (error) {
+    if (error instanceof sessionService.SessionError) {
+      return res.status(401).json({ message: error.message });
+    }
     console.error('Auth middleware error:', error);
     res.status(401).json({ message: 'Token is not valid' });
   }
 };
 
-module.exports = auth;
\ No newline at end of file
+module.exports = auth;
@@ -0,0 +1,90 @@
+const { validationResult } = require('express-validator');
+const PatientGroup = require('../models/PatientGroup');
+const Patient = require('../models/Patient');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const permissionService = require('../services/permissionService');
+
+// Where a route finds the patient group it acts on. `find` resolves to the group's id, or null when
+// the record named in the request doesn't exist (answered with `notFound`).
+const inGroup = (param = 'id', from = 'params') => ({
+  notFound: 'Patient group not found',
+  isGroup: true,
+  find: async req => req[from][param],
+});
+
+const ofPatient = (param = 'id', from = 'params') => ({
+  notFound: 'Patient not found',
+  find: async req => (await Patient.findOne({
+    _id: req[from][param],
+    isActive: true,
+  }).select('patientGroup'))?.patientGroup,
+});
+
+const ofDispute = (param = 'id') => ({
+  notFound: 'Dispute not found',
+  find: async req => (await PriorAuthorization.findOne({
+    _id: req.params[param],
+    isActive: true,
+  }).select('patientGroup'))?.patientGroup,
+});
+
+// Previewing a file only needs view access; downloading a copy of it is an export
+const filePermission = mode => (mode === 'download' ? 'patient.export' : 'patient.view');
+
+// Lets a request through when the user's roles grant `permission` in the group `locate` finds.
+// `permission` can be a function of the request for routes whose body decides what is needed.
+// Mount after `auth` (and after multer on upload routes, so the body is parsed). The loaded group
+// and the user's access are left on req.patientGroup and req.access for the handler.
+const requirePermission = (permission, locate) => async (req, res, next) => {
+  // An invalid body or id is rejected here, before it is used to find the group; it never reaches
+  // the handler without a permission check
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const groupId = await locate.find(req);
+    if (!groupId) {
+      return res.status(404).json({ message: locate.notFound });
+    }
+
+    const patientGroup = await PatientGroup.findOne({
+      _id: groupId,
+      isActive: true,
+    });
+    const access = patientGroup && await permissionService.getAccess(patientGroup, req.user.id);
+
+    // Groups the user can't see at all are hidden rather than forbidden
+    if (!access && locate.isGroup) {
+      return res.status(404).json({ message: locate.notFound });
+    }
+
+    const required = typeof permission === 'function' ? permission(req) : permission;
+    if (!access || !access.permissions.includes(required)) {
+      return res.status(403).json({ message: 'Insufficient permissions', permission: required });
+    }
+
+    if (permissionService.isPatientDataPermission(required) && permissionService.isBlockedByMfa(patientGroup, req)) {
+      return res.status(403).json({
+        message: 'This patient group requires two-factor authentication. Set it up in your profile settings, or sign in again with your code if it is already on.',
+        mfaRequired: true,
+      });
+    }
+
+    req.patientGroup = patientGroup;
+    req.access = access;
+    next();
+  } catch (error) {
+    console.error('Permission check error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+module.exports = {
+  requirePermission,
+  filePermission,
+  inGroup,
+  ofPatient,
+  ofDispute,
+};
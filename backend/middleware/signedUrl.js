@@ -0,0 +1,37 @@
+const User = require('../models/User');
+const Session = require('../models/Session');
+const auth = require('./auth');
+const signedUrlService = require('../services/signedUrlService');
+
+// Authenticates with a `signature` query parameter from signedUrlService when present, and falls back
+// to the usual Authorization header otherwise. A link stops working once the session it was issued to
+// is signed out or expires.
+const signedUrl = async (req, res, next) => {
+  const { signature } = req.query;
+  if (!signature) {
+    return auth(req, res, next);
+  }
+
+  try {
+    const { userId, sessionId } = signedUrlService.verify(signature, `${req.baseUrl}${req.path}`);
+    const session = await Session.findById(sessionId);
+    if (!session || !session.isActive() || !session.user.equals(userId)) {
+      return res.status(401).json({ message: 'Link is no longer valid' });
+    }
+
+    const user = await User.findById(userId).select('-password');
+    if (!user) {
+      return res.status(401).json({ message: 'Link is not valid' });
+    }
+
+    req.user = user;
+    req.sessionId = session._id;
+    // Same as the auth middleware: the group's MFA requirement is checked against the issuing session
+    req.mfaVerified = Boolean(user.mfa?.enabled && session.mfaVerifiedAt);
+    next();
+  } catch (error) {
+    res.status(401).json({ message: 'Link has expired or is not valid' });
+  }
+};
+
+module.exports = signedUrl;
@@ -0,0 +1,111 @@
+const mongoose = require('mongoose');
+
+// One row per authenticated request to a PHI route. Rows are never changed or removed:
+// each one stores the hash of the row before it, so an edited or deleted row breaks the chain.
+const auditLogSchema = new mongoose.Schema({
+  // Position in the chain, starting at 1
+  sequence: {
+    type: Number,
+    required: true,
+  },
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  // Copied at write time so the entry still reads correctly if the account changes
+  userEmail: {
+    type: String,
+  },
+  userName: {
+    type: String,
+  },
+  action: {
+    type: String,
+    enum: ['read', 'create', 'update', 'delete'],
+    required: true,
+  },
+  method: {
+    type: String,
+    required: true,
+  },
+  // Route pattern, e.g. /api/disputes/:id/documents/:documentId/export
+  route: {
+    type: String,
+    required: true,
+  },
+  resourceType: {
+    type: String,
+    enum: ['patient', 'dispute', 'patient_group'],
+    required: true,
+  },
+  resourceId: {
+    type: String,
+  },
+  // Route params other than the resource id (documentId, attachmentId, roundId...)
+  params: {
+    type: Map,
+    of: String,
+  },
+  patientGroup: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PatientGroup',
+  },
+  patient: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+  },
+  statusCode: {
+    type: Number,
+  },
+  ip: {
+    type: String,
+  },
+  userAgent: {
+    type: String,
+  },
+  previousHash: {
+    type: String,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+  },
+}, {
+  // `timestamp` is part of the hash; Mongoose-managed timestamps would not be
+  timestamps: false,
+  versionKey: false,
+});
+
+// Unique sequence and previous hash stop two writers from forking the chain
+auditLogSchema.index({ sequence: 1 }, { unique: true });
+auditLogSchema.index({ previousHash: 1 }, { unique: true });
+auditLogSchema.index({ patientGroup: 1, timestamp: -1 });
+auditLogSchema.index({ patient: 1, timestamp: -1 });
+auditLogSchema.index({ user: 1, timestamp: -1 });
+
+// Append-only: block every write path other than inserting a new row
+const rejectChange = function (next) {
+  next(new Error('Audit log entries cannot be modified or deleted'));
+};
+
+auditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return rejectChange(next);
+  }
+  next();
+});
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'].forEach(operation => {
+  auditLogSchema.pre(operation, rejectChange);
+});
+
+['deleteOne', 'deleteMany', 'findOneAndDelete'].forEach(operation => {
+  auditLogSchema.pre(operation, { document: true, query: true }, rejectChange);
+});
+
+module.exports = mongoose.model('AuditLog', auditLogSchema);
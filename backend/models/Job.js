@@ -0,0 +1,89 @@
+const mongoose = require('mongoose');
+
+const jobSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['dispute_analysis', 'document_generation'],
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'succeeded', 'failed', 'cancelled'],
+    default: 'queued',
+  },
+  dispute: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PriorAuthorization',
+  },
+  patientGroup: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PatientGroup',
+  },
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  progress: {
+    percent: {
+      type: Number,
+      min: 0,
+      max: 100,
+      default: 0,
+    },
+    message: {
+      type: String,
+      default: 'Waiting to start',
+    },
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3,
+  },
+  runAfter: {
+    type: Date,
+    default: Date.now,
+  },
+  cancelRequested: {
+    type: Boolean,
+    default: false,
+  },
+  result: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  error: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+  },
+  heartbeatAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+// Index for efficient queries
+jobSchema.index({ status: 1, runAfter: 1 });
+jobSchema.index({ dispute: 1, createdAt: -1 });
+
+// Virtual for whether the job is still in flight
+jobSchema.virtual('isActive').get(function() {
+  return ['queued', 'running'].includes(this.status);
+});
+
+jobSchema.set('toJSON', { virtuals: true });
+
+module.exports = mongoose.model('Job', jobSchema);
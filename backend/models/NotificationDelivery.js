@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+
+// One row per notification per channel, recording every attempt to deliver it
+const notificationDeliverySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  type: {
+    type: String,
+    required: true,
+  },
+  channel: {
+    type: String,
+    enum: ['email', 'push', 'in_app'],
+    required: true,
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'normal', 'high', 'critical'],
+    default: 'normal',
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sent', 'failed', 'skipped'],
+    default: 'pending',
+  },
+  // Why the channel was not used (preference off, not configured, no subscriptions...)
+  skipReason: {
+    type: String,
+  },
+  payload: {
+    title: String,
+    message: String,
+    // Optional rich email body used instead of `message` (digests)
+    html: String,
+    url: String,
+    disputeId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PriorAuthorization',
+    },
+    relatedGroup: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PatientGroup',
+    },
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    default: 5,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  attemptLog: [{
+    attemptedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    success: Boolean,
+    response: String,
+    error: String,
+  }],
+  lastError: {
+    type: String,
+  },
+  sentAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+});
+
+// Index for efficient queries
+notificationDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+notificationDeliverySchema.index({ user: 1, createdAt: -1 });
+
+module.exports = mongoose.model('NotificationDelivery', notificationDeliverySchema);
@@ -0,0 +1,140 @@
+const mongoose = require('mongoose');
+const path = require('path');
+const deadlineCalculator = require('../services/deadlineCalculator');
+
+const ORGANIZATION_ROLES = ['org_admin', 'billing_manager', 'auditor', 'member'];
+
+// Permission an organization role grants in every group the organization owns; plain members only
+// get access through their own group memberships
+const ROLE_GROUP_PERMISSIONS = {
+  org_admin: 'admin',
+  billing_manager: 'edit',
+  auditor: 'view',
+};
+
+// File extensions an organization can allow for patient documents and denial letters
+const UPLOAD_TYPES = ['pdf', 'doc', 'docx', 'txt', 'csv', 'xlsx', 'xls', 'jpg', 'jpeg', 'png', 'gif'];
+
+const organizationSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  // Group invitations and new members are limited to these domains; empty allows any address
+  emailDomains: [{
+    type: String,
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid email domain'],
+  }],
+  members: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ORGANIZATION_ROLES,
+      default: 'member',
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  settings: {
+    // Deadline settings new groups start with; each group can change its own afterwards
+    deadlineDefaults: {
+      timeZone: {
+        type: String,
+        default: 'UTC',
+        validate: {
+          validator: deadlineCalculator.isValidTimeZone,
+          message: 'Unknown time zone',
+        },
+      },
+      warningDays: {
+        type: Number,
+        min: 1,
+        default: 7,
+      },
+      urgentDays: {
+        type: Number,
+        min: 0,
+        default: 3,
+      },
+      reminderDayType: {
+        type: String,
+        enum: ['calendar', 'business'],
+        default: 'calendar',
+      },
+      filingClockStart: {
+        type: String,
+        enum: ['denial_date', 'received_date'],
+        default: 'denial_date',
+      },
+    },
+    allowedUploadTypes: {
+      type: [{
+        type: String,
+        enum: UPLOAD_TYPES,
+      }],
+      default: () => [...UPLOAD_TYPES],
+    },
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true,
+});
+
+organizationSchema.index({ 'members.user': 1 });
+
+organizationSchema.methods.getMember = function(userId) {
+  return this.members.find(member => (member.user._id || member.user).toString() === userId.toString());
+};
+
+organizationSchema.methods.getRole = function(userId) {
+  return this.getMember(userId)?.role || null;
+};
+
+organizationSchema.methods.isEmailAllowed = function(email) {
+  if (!this.emailDomains || this.emailDomains.length === 0) return true;
+  const domain = String(email).split('@').pop().toLowerCase();
+  return this.emailDomains.includes(domain);
+};
+
+// `file` is a multer file; its extension must be one the organization allows
+organizationSchema.methods.isUploadAllowed = function(file) {
+  const extension = path.extname(file.originalname || '').slice(1).toLowerCase();
+  return this.settings.allowedUploadTypes.includes(extension);
+};
+
+// The user's role in the organization, or null when they aren't an active member
+organizationSchema.statics.getMemberRole = async function(organizationId, userId) {
+  if (!organizationId) return null;
+
+  const organization = await this.findOne({
+    _id: organizationId,
+    isActive: true,
+    'members.user': userId,
+  }).select('members');
+
+  return organization ? organization.getRole(userId) : null;
+};
+
+// Group permission the user's organization role grants, or null
+organizationSchema.statics.getGroupPermission = async function(organizationId, userId) {
+  return ROLE_GROUP_PERMISSIONS[await this.getMemberRole(organizationId, userId)] || null;
+};
+
+module.exports = mongoose.model('Organization', organizationSchema);
@@ -1,28 +1,32 @@
 const mongoose = require('mongoose');
+const encryptedFields = require('./plugins/encryptedFields');
 
+const { encrypted, encryptedDate } = encryptedFields;
+
+// Identifying, insurance, contact and clinical details are encrypted at rest (see plugins/encryptedFields)
 const patientSchema = new mongoose.Schema({
   firstName: {
-    type: String,
+    ...encrypted,
     required: true,
     trim: true,
   },
   lastName: {
-    type: String,
+    ...encrypted,
     required: true,
     trim: true,
   },
   dateOfBirth: {
-    type: Date,
+    ...encryptedDate,
     required: true,
   },
   gender: {
     type: String,
     enum: ['male', 'female', 'other'],
   },
+  // Looked up through its blind index, patientIdIndex
   patientId: {
-    type: String,
-    unique: true,
-    sparse: true,
+    ...encrypted,
+    trim: true,
   },
   insuranceInfo: {
     provider: {
@@ -30,18 +34,24 @@ const patientSchema = new mongoose.Schema({
       required: true,
     },
     policyNumber: {
-      type: String,
+      ...encrypted,
       required: true,
+      trim: true,
     },
     groupNumber: {
-      type: String,
+      ...encrypted,
     },
     subscriberId: {
-      type: String,
+      ...encrypted,
     },
     planName: {
       type: String,
     },
+    // Payer profile matching the provider, if one is on file
+    payer: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payer',
+    },
     effectiveDate: {
       type: Date,
     },
@@ -51,38 +61,41 @@ const patientSchema = new mongoose.Schema({
   },
   contactInfo: {
     phone: {
-      type: String,
+      ...encrypted,
     },
     email: {
-      type: String,
+      ...encrypted,
     },
     address: {
-      street: String,
-      city: String,
-      state: String,
-      zipCode: String,
+      street: encrypted,
+      city: encrypted,
+      state: encrypted,
+      zipCode: encrypted,
     },
   },
   medicalInfo: {
     diagnosis: [{
-      code: String,
-      description: String,
+      code: encrypted,
+      description: encrypted,
       date: Date,
     }],
     medications: [{
-      name: String,
-      dosage: String,
-      frequency: String,
+      name: encrypted,
+      dosage: encrypted,
+      frequency: encrypted,
       prescribedDate: Date,
     }],
-    allergies: [String],
-    primaryPhysician: String,
+    allergies: [encrypted],
+    primaryPhysician: encrypted,
   },
   documents: [{
+    // Storage key (see services/documentStorageService.js)
     filename: {
       type: String,
       required: true,
     },
+    // SHA-256 of the contents; missing on files uploaded before storage drivers
+    contentHash: String,
     originalName: {
       type: String,
       required: true,
@@ -130,7 +143,7 @@ const patientSchema = new mongoose.Schema({
     default: true,
   },
   notes: [{
-    content: String,
+    content: encrypted,
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -144,10 +157,18 @@ const patientSchema = new mongoose.Schema({
   timestamps: true,
 });
 
+patientSchema.plugin(encryptedFields, {
+  blindIndexes: {
+    patientId: 'patientIdIndex',
+    'insuranceInfo.policyNumber': 'insuranceInfo.policyNumberIndex',
+  },
+});
+
 // Index for efficient queries
 patientSchema.index({ patientGroup: 1, isActive: 1 });
 patientSchema.index({ 'insuranceInfo.provider': 1 });
-patientSchema.index({ lastName: 1, firstName: 1 });
+patientSchema.index({ patientIdIndex: 1 }, { unique: true, sparse: true });
+patientSchema.index({ patientGroup: 1, 'insuranceInfo.policyNumberIndex': 1 });
 
 // Virtual for full name
 patientSchema.virtual('fullName').get(function() {
@@ -1,4 +1,7 @@
 const mongoose = require('mongoose');
+const deadlineCalculator = require('../services/deadlineCalculator');
+const Organization = require('./Organization');
+const { PERMISSION_NAMES } = require('../services/permissionService');
 
 const patientGroupSchema = new mongoose.Schema({
   name: {
@@ -15,6 +18,11 @@ const patientGroupSchema = new mongoose.Schema({
     ref: 'User',
     required: true,
   },
+  // Set for groups created by an organization member; its org-level roles apply here too
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+  },
   members: [{
     user: {
       type: mongoose.Schema.Types.ObjectId,
@@ -26,6 +34,10 @@ const patientGroupSchema = new mongoose.Schema({
       enum: ['view', 'edit', 'admin'],
       default: 'view',
     },
+    // One of the group's custom roles; its permissions replace the built-in level's while it is set
+    role: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
     joinedAt: {
       type: Date,
       default: Date.now,
@@ -41,6 +53,9 @@ const patientGroupSchema = new mongoose.Schema({
       enum: ['view', 'edit'],
       default: 'view',
     },
+    role: {
+      type: mongoose.Schema.Types.ObjectId,
+    },
     invitedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -50,10 +65,37 @@ const patientGroupSchema = new mongoose.Schema({
       type: Date,
       default: Date.now,
     },
+    // SHA-256 of the token in the emailed join link
     token: {
       type: String,
       required: true,
     },
+    expiresAt: {
+      type: Date,
+    },
+    lastSentAt: {
+      type: Date,
+    },
+    sendCount: {
+      type: Number,
+      default: 0,
+    },
+  }],
+  // Roles group admins define on top of view/edit/admin, each bundling named permissions
+  roles: [{
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    permissions: [{
+      type: String,
+      enum: PERMISSION_NAMES,
+    }],
   }],
   patients: [{
     type: mongoose.Schema.Types.ObjectId,
@@ -63,6 +105,105 @@ const patientGroupSchema = new mongoose.Schema({
     type: Boolean,
     default: true,
   },
+  // Practice details printed on exported appeal letters
+  letterhead: {
+    practiceName: {
+      type: String,
+      trim: true,
+    },
+    address: {
+      street: String,
+      city: String,
+      state: String,
+      zipCode: String,
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    fax: {
+      type: String,
+      trim: true,
+    },
+    npi: {
+      type: String,
+      trim: true,
+      match: [/^\d{10}$/, 'NPI must be 10 digits'],
+    },
+    logo: {
+      // Storage key and SHA-256 of the contents, as on patient documents
+      filename: String,
+      contentHash: String,
+      originalName: String,
+      mimeType: String,
+      size: Number,
+      uploadedAt: Date,
+    },
+    signature: {
+      name: {
+        type: String,
+        trim: true,
+      },
+      credentials: {
+        type: String,
+        trim: true,
+      },
+      title: {
+        type: String,
+        trim: true,
+      },
+      closing: {
+        type: String,
+        trim: true,
+        default: 'Sincerely,',
+      },
+    },
+  },
+  // How appeal deadlines are counted and when reminders start for this group's disputes
+  deadlineSettings: {
+    timeZone: {
+      type: String,
+      default: 'UTC',
+      validate: {
+        validator: deadlineCalculator.isValidTimeZone,
+        message: 'Unknown time zone',
+      },
+    },
+    warningDays: {
+      type: Number,
+      min: 1,
+      default: 7,
+    },
+    urgentDays: {
+      type: Number,
+      min: 0,
+      default: 3,
+    },
+    // Whether the warning/urgent thresholds count calendar or business days
+    reminderDayType: {
+      type: String,
+      enum: ['calendar', 'business'],
+      default: 'calendar',
+    },
+    // Start of the filing clock when the payer profile doesn't say
+    filingClockStart: {
+      type: String,
+      enum: ['denial_date', 'received_date'],
+      default: 'denial_date',
+    },
+    // Days the practice is closed; skipped when counting business days
+    holidays: [{
+      date: {
+        type: String,
+        required: true,
+        match: /^\d{4}-\d{2}-\d{2}$/,
+      },
+      name: {
+        type: String,
+        trim: true,
+      },
+    }],
+  },
   settings: {
     allowMemberInvites: {
       type: Boolean,
@@ -72,6 +213,11 @@ const patientGroupSchema = new mongoose.Schema({
       type: Boolean,
       default: false,
     },
+    // Members only reach patients and disputes from a session signed in with two-factor authentication
+    requireMfa: {
+      type: Boolean,
+      default: false,
+    },
   },
 }, {
   timestamps: true,
@@ -80,6 +226,48 @@ const patientGroupSchema = new mongoose.Schema({
 // Index for efficient queries
 patientGroupSchema.index({ owner: 1, isActive: 1 });
 patientGroupSchema.index({ 'members.user': 1 });
+patientGroupSchema.index({ organization: 1, isActive: 1 });
+patientGroupSchema.index({ 'pendingInvitations.token': 1 });
+
+// Query conditions for the groups a user can open: owned, joined, or in their organization when
+// their role there covers every group
+patientGroupSchema.statics.accessibleBy = async function(user) {
+  const conditions = [
+    { owner: user._id },
+    { 'members.user': user._id },
+  ];
+
+  if (await Organization.getGroupPermission(user.organization, user._id)) {
+    conditions.push({ organization: user.organization });
+  }
+
+  return { $or: conditions, isActive: true };
+};
+
+// Whether the group's organization allows this upload's file type; groups outside an organization
+// only have the route's own file filter
+patientGroupSchema.statics.isUploadAllowed = async function(groupId, file) {
+  const group = await this.findById(groupId).select('organization').populate('organization');
+  return !group?.organization || group.organization.isUploadAllowed(file);
+};
+
+// Deadline settings with defaults filled in, in the shape deadlineCalculator expects
+patientGroupSchema.methods.getDeadlineSettings = function() {
+  const settings = this.deadlineSettings || {};
+  return deadlineCalculator.resolveSettings({
+    timeZone: settings.timeZone,
+    warningDays: settings.warningDays,
+    urgentDays: settings.urgentDays,
+    reminderDayType: settings.reminderDayType,
+    filingClockStart: settings.filingClockStart,
+    holidays: settings.holidays,
+  });
+};
+
+patientGroupSchema.statics.getDeadlineSettings = async function(groupId) {
+  const group = groupId && await this.findById(groupId).select('deadlineSettings');
+  return group ? group.getDeadlineSettings() : deadlineCalculator.resolveSettings();
+};
 
 // Virtual for member count
 patientGroupSchema.virtual('memberCount').get(function() {
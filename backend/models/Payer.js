@@ -0,0 +1,230 @@
+const mongoose = require('mongoose');
+const deadlineCalculator = require('../services/deadlineCalculator');
+
+const addressSchema = {
+  attention: String,
+  street: String,
+  city: String,
+  state: String,
+  zipCode: String,
+};
+
+const payerSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  // Other spellings seen in patients' insurance provider field, used for matching
+  aliases: [{
+    type: String,
+    trim: true,
+  }],
+  // Clearinghouse / EDI payer ID
+  payerId: {
+    type: String,
+    trim: true,
+  },
+  planType: {
+    type: String,
+    enum: ['commercial', 'medicare_advantage', 'medicaid', 'other'],
+    default: 'commercial',
+  },
+  appealLevels: [{
+    level: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    // Days from the denial (or prior level decision) to file the appeal
+    filingWindowDays: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    filingDayType: {
+      type: String,
+      enum: ['calendar', 'business'],
+      default: 'calendar',
+    },
+    // Whether the filing clock starts on the date printed on the letter or the date it was received.
+    // Unset means the patient group's default.
+    filingClockStart: {
+      type: String,
+      enum: ['denial_date', 'received_date'],
+    },
+    // Days the payer has to decide a standard appeal at this level
+    decisionTurnaroundDays: {
+      type: Number,
+      min: 1,
+    },
+    decisionDayType: {
+      type: String,
+      enum: ['calendar', 'business'],
+      default: 'calendar',
+    },
+  }],
+  expeditedReview: {
+    available: {
+      type: Boolean,
+      default: true,
+    },
+    turnaroundHours: {
+      type: Number,
+      default: 72,
+    },
+  },
+  // State or independent external review after the last internal level
+  externalReview: {
+    available: {
+      type: Boolean,
+      default: true,
+    },
+    // Days from the final internal denial to request external review
+    filingWindowDays: {
+      type: Number,
+      min: 1,
+      default: 120,
+    },
+    filingDayType: {
+      type: String,
+      enum: ['calendar', 'business'],
+      default: 'calendar',
+    },
+    decisionTurnaroundDays: {
+      type: Number,
+      min: 1,
+      default: 45,
+    },
+  },
+  submission: {
+    preferredChannel: {
+      type: String,
+      enum: ['fax', 'portal', 'mail'],
+      default: 'fax',
+    },
+    fax: String,
+    phone: String,
+    portalUrl: String,
+    mailingAddress: addressSchema,
+  },
+  requiredForms: [{
+    name: {
+      type: String,
+      required: true,
+    },
+    formNumber: String,
+    url: String,
+    // Leave empty if the form is required at every appeal level
+    appealLevel: Number,
+    notes: String,
+  }],
+  denialCodes: [{
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    category: {
+      type: String,
+      enum: ['medical_necessity', 'documentation', 'coding', 'eligibility', 'network', 'experimental', 'other'],
+      default: 'other',
+    },
+    appealGuidance: String,
+  }],
+  notes: String,
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  isActive: {
+    type: Boolean,
+    default: true,
+  },
+}, {
+  timestamps: true,
+});
+
+payerSchema.index({ name: 1 });
+payerSchema.index({ aliases: 1 });
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Find the payer whose name or alias matches a free-text insurance provider (case-insensitive)
+payerSchema.statics.findByProviderName = function(provider) {
+  if (!provider || !provider.trim()) return Promise.resolve(null);
+
+  const pattern = new RegExp(`^${escapeRegex(provider.trim())}$`, 'i');
+  return this.findOne({
+    isActive: true,
+    $or: [{ name: pattern }, { aliases: pattern }],
+  });
+};
+
+payerSchema.methods.getAppealLevel = function(level = 1) {
+  return this.appealLevels.find(item => item.level === level) || null;
+};
+
+// Last day to file an appeal at the given level, or null if the payer has no rule for it.
+// `settings` are the patient group's deadline settings (time zone, holidays).
+payerSchema.methods.getFilingDeadline = function(fromDate, level = 1, settings) {
+  const appealLevel = this.getAppealLevel(level);
+  if (!appealLevel || !fromDate) return null;
+  return deadlineCalculator.calculateDeadline(fromDate, appealLevel.filingWindowDays, {
+    dayType: appealLevel.filingDayType,
+    settings,
+  });
+};
+
+// When the payer owes a decision on an appeal submitted at `submittedAt`
+payerSchema.methods.getDecisionDueDate = function(submittedAt, { level = 1, expedited = false, settings } = {}) {
+  if (!submittedAt) return null;
+
+  if (expedited && this.expeditedReview?.available && this.expeditedReview.turnaroundHours) {
+    return new Date(new Date(submittedAt).getTime() + this.expeditedReview.turnaroundHours * 60 * 60 * 1000);
+  }
+
+  const appealLevel = this.getAppealLevel(level);
+  if (!appealLevel?.decisionTurnaroundDays) return null;
+  return deadlineCalculator.calculateDeadline(submittedAt, appealLevel.decisionTurnaroundDays, {
+    dayType: appealLevel.decisionDayType,
+    settings,
+  });
+};
+
+payerSchema.methods.findDenialCode = function(code) {
+  if (!code) return null;
+  const normalized = code.trim().toUpperCase();
+  return this.denialCodes.find(item => item.code.toUpperCase() === normalized) || null;
+};
+
+payerSchema.methods.getRequiredForms = function(level = 1) {
+  return this.requiredForms.filter(form => !form.appealLevel || form.appealLevel === level);
+};
+
+// Where to send the appeal, according to the payer's preferred channel
+payerSchema.methods.getSubmissionTarget = function() {
+  const submission = this.submission || {};
+  switch (submission.preferredChannel) {
+    case 'portal':
+      return submission.portalUrl ? { channel: 'portal', value: submission.portalUrl } : null;
+    case 'mail':
+      return submission.mailingAddress?.street ? { channel: 'mail', value: submission.mailingAddress } : null;
+    default:
+      return submission.fax ? { channel: 'fax', value: submission.fax } : null;
+  }
+};
+
+module.exports = mongoose.model('Payer', payerSchema);
@@ -1,4 +1,44 @@
 const mongoose = require('mongoose');
+const deadlineCalculator = require('../services/deadlineCalculator');
+const encryptedFields = require('./plugins/encryptedFields');
+
+const { encrypted } = encryptedFields;
+
+// Appeal filing window used when the payer has no profile
+const DEFAULT_FILING_WINDOW_DAYS = 30;
+// Without a payer profile, assume two internal levels before external review
+const DEFAULT_INTERNAL_LEVELS = 2;
+// Federal external review filing window (4 months) when the payer profile doesn't say
+const DEFAULT_EXTERNAL_REVIEW_DAYS = 120;
+
+const ROUND_TYPES = ['internal_appeal', 'external_review', 'peer_to_peer'];
+const DISPUTE_STATUSES = ['pending', 'in_progress', 'submitted', 'under_review', 'approved', 'denied', 'withdrawn'];
+const OUTCOMES = ['approved', 'denied', 'partial_approval', 'withdrawn'];
+// Outcomes that let the practice escalate to the next round
+const APPEALABLE_OUTCOMES = ['denied', 'partial_approval'];
+
+const getRoundName = (type, level) => {
+  if (type === 'external_review') return 'External review';
+  if (type === 'peer_to_peer') return 'Peer-to-peer review';
+  if (level === 1) return 'First-level internal appeal';
+  if (level === 2) return 'Second-level internal appeal';
+  return `Level ${level} internal appeal`;
+};
+
+// How a computed filing deadline was counted
+const deadlineBasisSchema = {
+  clockStart: {
+    type: String,
+    enum: ['denial_date', 'received_date'],
+  },
+  startDate: Date,
+  days: Number,
+  dayType: {
+    type: String,
+    enum: ['calendar', 'business'],
+  },
+  timeZone: String,
+};
 
 const priorAuthorizationSchema = new mongoose.Schema({
   patient: {
@@ -11,6 +51,11 @@ const priorAuthorizationSchema = new mongoose.Schema({
     ref: 'PatientGroup',
     required: true,
   },
+  // Payer profile whose appeal rules drive deadlines, validation and documents
+  payer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payer',
+  },
   createdBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
@@ -37,7 +82,7 @@ const priorAuthorizationSchema = new mongoose.Schema({
       default: 'routine',
     },
     clinicalJustification: {
-      type: String,
+      ...encrypted,
       required: true,
     },
   },
@@ -46,15 +91,21 @@ const priorAuthorizationSchema = new mongoose.Schema({
       type: Date,
       required: true,
     },
+    // When the practice actually received the letter; some payers start the filing clock here
+    receivedDate: {
+      type: Date,
+    },
     denialReason: {
-      type: String,
+      ...encrypted,
       required: true,
     },
     denialCode: {
       type: String,
     },
     denialDocument: {
+      // Storage key and SHA-256 of the contents, as on patient documents
       filename: String,
+      contentHash: String,
       originalName: String,
       mimeType: String,
       size: Number,
@@ -62,6 +113,40 @@ const priorAuthorizationSchema = new mongoose.Schema({
         type: Date,
         default: Date.now,
       },
+      extractedText: {
+        ...encrypted,
+      },
+      extraction: {
+        status: {
+          type: String,
+          enum: ['pending', 'completed', 'failed', 'unsupported'],
+          default: 'pending',
+        },
+        method: {
+          type: String,
+          enum: ['plain_text', 'pdf_text', 'pdf_mixed', 'docx', 'ocr', 'none'],
+        },
+        confidence: {
+          type: Number,
+          min: 0,
+          max: 100,
+        },
+        pages: [{
+          pageNumber: Number,
+          method: {
+            type: String,
+            enum: ['plain_text', 'pdf_text', 'docx', 'ocr'],
+          },
+          confidence: {
+            type: Number,
+            min: 0,
+            max: 100,
+          },
+          characterCount: Number,
+        }],
+        error: String,
+        extractedAt: Date,
+      },
     },
     insuranceReviewer: {
       type: String,
@@ -76,9 +161,20 @@ const priorAuthorizationSchema = new mongoose.Schema({
     analysisDate: {
       type: Date,
     },
+    // 'failed' only on analyses recorded before failures moved to analysisRun
+    status: {
+      type: String,
+      enum: ['completed', 'failed'],
+    },
+    attempts: {
+      type: Number,
+    },
     analysisResult: {
       type: String,
     },
+    aiModel: {
+      type: String,
+    },
     disputeOpportunities: [{
       category: {
         type: String,
@@ -104,10 +200,35 @@ const priorAuthorizationSchema = new mongoose.Schema({
     keyArguments: [String],
     supportingEvidence: [String],
   },
+  // The latest analysis run. A failed run is recorded here and leaves `analysis` with the last good result.
+  analysisRun: {
+    status: {
+      type: String,
+      enum: ['completed', 'failed'],
+    },
+    attemptedAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+    validationErrors: [String],
+    attempts: {
+      type: Number,
+    },
+    // The output that failed validation
+    output: {
+      type: String,
+    },
+    aiModel: {
+      type: String,
+    },
+  },
+  // Status, submission and deadlines of the current appeal round; see appealRounds for the history
   dispute: {
     status: {
       type: String,
-      enum: ['pending', 'in_progress', 'submitted', 'under_review', 'approved', 'denied', 'withdrawn'],
+      enum: DISPUTE_STATUSES,
       default: 'pending',
     },
     submittedDate: {
@@ -131,6 +252,82 @@ const priorAuthorizationSchema = new mongoose.Schema({
         type: mongoose.Schema.Types.ObjectId,
         ref: 'User',
       },
+      aiModel: {
+        type: String,
+      },
+      // Number of the appeal round the document was written for
+      appealRound: {
+        type: Number,
+        default: 1,
+      },
+      // Every AI generation and human edit is kept; `content` mirrors the current version
+      versions: [{
+        versionNumber: {
+          type: Number,
+          required: true,
+        },
+        content: {
+          type: String,
+          required: true,
+        },
+        format: {
+          type: String,
+          enum: ['text', 'html'],
+          default: 'text',
+        },
+        source: {
+          type: String,
+          enum: ['ai', 'edit'],
+          required: true,
+        },
+        createdBy: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+        aiModel: {
+          type: String,
+        },
+        note: {
+          type: String,
+        },
+      }],
+      currentVersion: {
+        type: Number,
+        default: 1,
+      },
+      format: {
+        type: String,
+        enum: ['text', 'html'],
+        default: 'text',
+      },
+      status: {
+        type: String,
+        enum: ['draft', 'approved', 'sent'],
+        default: 'draft',
+      },
+      approval: {
+        approvedBy: {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: 'User',
+        },
+        approvedAt: {
+          type: Date,
+        },
+        versionNumber: {
+          type: Number,
+        },
+      },
+      sentAt: {
+        type: Date,
+      },
+      sentBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+      },
     }],
     followUpDate: {
       type: Date,
@@ -138,7 +335,7 @@ const priorAuthorizationSchema = new mongoose.Schema({
     resolution: {
       outcome: {
         type: String,
-        enum: ['approved', 'denied', 'partial_approval', 'withdrawn'],
+        enum: OUTCOMES,
       },
       resolutionDate: {
         type: Date,
@@ -151,18 +348,30 @@ const priorAuthorizationSchema = new mongoose.Schema({
       type: Date,
       required: true,
       default: function() {
-        // Default to 30 days from denial date for standard appeals
+        // Default to 30 days from denial date for standard appeals; applyPayerRules replaces it with the payer's window
         const denialDate = this.denial?.denialDate || new Date();
-        return new Date(denialDate.getTime() + (30 * 24 * 60 * 60 * 1000));
+        return deadlineCalculator.calculateDeadline(denialDate, DEFAULT_FILING_WINDOW_DAYS);
       }
     },
+    // Where responseDeadline came from, so payer changes don't overwrite a deadline set by hand
+    deadlineSource: {
+      type: String,
+      enum: ['default', 'payer', 'manual'],
+      default: 'default',
+    },
+    // How a computed responseDeadline was counted
+    deadlineBasis: deadlineBasisSchema,
+    // When the payer owes a decision, set once the appeal is submitted
+    decisionDueDate: {
+      type: Date,
+    },
     urgentResponseDeadline: {
       type: Date,
       // Set if urgent/expedited review is needed
     },
     externalReviewDeadline: {
       type: Date,
-      // Set if external review is required
+      // Set when an internal appeal is lost and external review is the next round
     },
     deadlineFlags: [{
       type: {
@@ -174,6 +383,12 @@ const priorAuthorizationSchema = new mongoose.Schema({
         type: Number,
         required: true
       },
+      // Whether daysRemaining counts calendar or business days
+      dayType: {
+        type: String,
+        enum: ['calendar', 'business'],
+        default: 'calendar'
+      },
       flaggedAt: {
         type: Date,
         default: Date.now
@@ -184,6 +399,78 @@ const priorAuthorizationSchema = new mongoose.Schema({
       }
     }]
   },
+  // Appeal rounds in the order they were started: internal levels, then external review, with
+  // peer-to-peer calls alongside. The latest round other than peer-to-peer is mirrored in `dispute` and `deadlines`.
+  appealRounds: [{
+    number: {
+      type: Number,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ROUND_TYPES,
+      required: true,
+    },
+    // Payer appeal level for internal appeals
+    level: {
+      type: Number,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: DISPUTE_STATUSES,
+      default: 'pending',
+    },
+    // The notice that started this round's filing clock: the denial for the first round, the previous decision after that
+    noticeDate: Date,
+    noticeReceivedDate: Date,
+    filingDeadline: Date,
+    deadlineSource: {
+      type: String,
+      enum: ['default', 'payer', 'manual'],
+    },
+    deadlineBasis: deadlineBasisSchema,
+    decisionDueDate: Date,
+    // When a peer-to-peer call is booked
+    scheduledAt: Date,
+    submission: {
+      submittedAt: Date,
+      submittedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      channel: {
+        type: String,
+        enum: ['fax', 'portal', 'mail', 'phone', 'email'],
+      },
+      confirmationNumber: String,
+      notes: String,
+    },
+    outcome: {
+      result: {
+        type: String,
+        enum: OUTCOMES,
+      },
+      decisionDate: Date,
+      receivedDate: Date,
+      notes: String,
+      recordedBy: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    startedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  }],
   validation: {
     preSubmissionChecks: [{
       checkType: {
@@ -195,7 +482,8 @@ const priorAuthorizationSchema = new mongoose.Schema({
           'insurance_verification',
           'medical_necessity',
           'documentation_completeness',
-          'prior_authorization_history'
+          'prior_authorization_history',
+          'payer_requirements'
         ],
         required: true
       },
@@ -238,7 +526,9 @@ const priorAuthorizationSchema = new mongoose.Schema({
     notes: String,
   }],
   attachments: [{
+    // Storage key and SHA-256 of the contents, as on patient documents
     filename: String,
+    contentHash: String,
     originalName: String,
     mimeType: String,
     size: Number,
@@ -252,9 +542,28 @@ const priorAuthorizationSchema = new mongoose.Schema({
     },
     documentType: {
       type: String,
-      enum: ['medical_records', 'lab_results', 'imaging', 'correspondence', 'other'],
+      enum: ['medical_records', 'lab_results', 'imaging', 'correspondence', 'appeal_packet', 'other'],
       default: 'other',
     },
+    description: String,
+    // Contents of an assembled appeal packet, in page order
+    packet: {
+      batesPrefix: String,
+      batesStart: Number,
+      batesEnd: Number,
+      pageCount: Number,
+      sections: [{
+        exhibit: String,
+        title: String,
+        sourceType: {
+          type: String,
+          enum: ['cover', 'generated_document', 'denial_letter', 'patient_document', 'attachment'],
+        },
+        sourceId: String,
+        batesStart: Number,
+        batesEnd: Number,
+      }],
+    },
   }],
   isActive: {
     type: Boolean,
@@ -264,6 +573,8 @@ const priorAuthorizationSchema = new mongoose.Schema({
   timestamps: true,
 });
 
+priorAuthorizationSchema.plugin(encryptedFields);
+
 // Index for efficient queries
 priorAuthorizationSchema.index({ patient: 1, createdAt: -1 });
 priorAuthorizationSchema.index({ patientGroup: 1, 'dispute.status': 1 });
@@ -278,6 +589,16 @@ priorAuthorizationSchema.virtual('disputeAge').get(function() {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 });
 
+// Keep the current appeal round in step with the status and deadlines edited on `dispute`
+priorAuthorizationSchema.pre('save', function(next) {
+  if (this.appealRounds.length === 0) {
+    this.getCurrentRound();
+  } else {
+    this.syncCurrentRound();
+  }
+  next();
+});
+
 // Method to add timeline entry
 priorAuthorizationSchema.methods.addTimelineEntry = function(action, performedBy, notes) {
   this.timeline.push({
@@ -288,37 +609,327 @@ priorAuthorizationSchema.methods.addTimelineEntry = function(action, performedBy
   });
 };
 
-// Method to check and update deadline flags
-priorAuthorizationSchema.methods.updateDeadlineFlags = function() {
-  const now = new Date();
+// Method to store text extraction results on the denial document
+priorAuthorizationSchema.methods.setDenialExtraction = function(extractionResult) {
+  if (!this.denial.denialDocument) return;
+
+  this.denial.denialDocument.extractedText = extractionResult.text;
+  this.denial.denialDocument.extraction = {
+    status: extractionResult.status,
+    method: extractionResult.method,
+    confidence: extractionResult.confidence,
+    pages: extractionResult.pages,
+    error: extractionResult.error,
+    extractedAt: new Date(),
+  };
+};
+
+// Method to backfill version 1 for documents generated before versioning existed
+priorAuthorizationSchema.methods.ensureDocumentVersions = function(document) {
+  if (document.versions.length > 0) return;
+
+  document.versions.push({
+    versionNumber: 1,
+    content: document.content,
+    format: document.format || 'text',
+    source: 'ai',
+    createdBy: document.generatedBy,
+    createdAt: document.generatedAt,
+    aiModel: document.aiModel,
+  });
+  document.currentVersion = 1;
+};
+
+// Method to add a new version to a generated document. Sent documents are locked.
+priorAuthorizationSchema.methods.addDocumentVersion = function(document, { content, format = 'text', source, userId, aiModel, note }) {
+  if (document.status === 'sent') {
+    throw new Error('Document has been sent and can no longer be edited');
+  }
+
+  this.ensureDocumentVersions(document);
+
+  const versionNumber = Math.max(...document.versions.map(version => version.versionNumber)) + 1;
+  document.versions.push({
+    versionNumber,
+    content,
+    format,
+    source,
+    createdBy: userId,
+    aiModel,
+    note,
+  });
+
+  document.content = content;
+  document.format = format;
+  document.currentVersion = versionNumber;
+
+  // Approval applies to a specific version, so any change sends the document back to draft
+  if (document.status === 'approved') {
+    document.status = 'draft';
+    document.approval = undefined;
+  }
+
+  return document.versions[document.versions.length - 1];
+};
+
+// The patient group's deadline settings (time zone, holidays, thresholds), with defaults filled in
+priorAuthorizationSchema.methods.loadDeadlineSettings = async function() {
+  return mongoose.model('PatientGroup').getDeadlineSettings(this.patientGroup);
+};
+
+// Latest appeal round other than a peer-to-peer call; disputes from before appeal rounds get a first round built from `dispute`
+priorAuthorizationSchema.methods.getCurrentRound = function() {
+  if (this.appealRounds.length === 0) {
+    this.appealRounds.push({
+      number: 1,
+      type: 'internal_appeal',
+      level: 1,
+      name: getRoundName('internal_appeal', 1),
+      noticeDate: this.denial.denialDate,
+      noticeReceivedDate: this.denial.receivedDate,
+      startedAt: this.createdAt || new Date(),
+      startedBy: this.createdBy,
+    });
+    this.syncCurrentRound();
+  }
+
+  return [...this.appealRounds].reverse().find(round => round.type !== 'peer_to_peer');
+};
+
+// Copy the current round's view in `dispute` and `deadlines` onto the round itself
+priorAuthorizationSchema.methods.syncCurrentRound = function() {
+  const round = [...this.appealRounds].reverse().find(item => item.type !== 'peer_to_peer');
+  if (!round) return;
+
+  round.status = this.dispute.status;
+  round.filingDeadline = this.deadlines.responseDeadline;
+  round.deadlineSource = this.deadlines.deadlineSource;
+  round.deadlineBasis = this.deadlines.deadlineBasis;
+  round.decisionDueDate = this.deadlines.decisionDueDate;
+  if (this.dispute.submittedDate && !round.submission?.submittedAt) {
+    round.submission = { ...round.submission, submittedAt: this.dispute.submittedDate };
+  }
+};
+
+// Filing deadline for a round from the payer's rules, counted from the notice that opened it
+priorAuthorizationSchema.methods.calculateRoundDeadline = function(payer, round, settings) {
+  if (round.type === 'peer_to_peer') return null;
+
+  const resolved = deadlineCalculator.resolveSettings(settings);
+  let days;
+  let dayType;
+  let clockStart = resolved.filingClockStart;
+  let source;
+
+  if (round.type === 'external_review') {
+    days = payer?.externalReview?.filingWindowDays || DEFAULT_EXTERNAL_REVIEW_DAYS;
+    dayType = payer?.externalReview?.filingDayType || 'calendar';
+    source = payer?.externalReview?.filingWindowDays ? 'payer' : 'default';
+  } else {
+    const appealLevel = payer && payer.getAppealLevel(round.level);
+    days = appealLevel?.filingWindowDays || DEFAULT_FILING_WINDOW_DAYS;
+    dayType = appealLevel?.filingDayType || 'calendar';
+    clockStart = appealLevel?.filingClockStart || clockStart;
+    source = appealLevel ? 'payer' : 'default';
+  }
+
+  // Fall back to the notice date until the received date is recorded
+  const useReceivedDate = clockStart === 'received_date' && round.noticeReceivedDate;
+  const startDate = useReceivedDate ? round.noticeReceivedDate : round.noticeDate;
+
+  return {
+    deadline: deadlineCalculator.calculateDeadline(startDate, days, { dayType, settings: resolved }),
+    source,
+    basis: {
+      clockStart: useReceivedDate ? 'received_date' : 'denial_date',
+      startDate,
+      days,
+      dayType,
+      timeZone: resolved.timeZone,
+    },
+  };
+};
+
+// Without a payer profile, DEFAULT_INTERNAL_LEVELS internal levels are assumed
+const hasInternalLevel = (payer, level) => (payer ? Boolean(payer.getAppealLevel(level)) : level <= DEFAULT_INTERNAL_LEVELS);
+
+// The round that follows a lost or partly lost current round, with its deadline pre-calculated; null when there is none
+priorAuthorizationSchema.methods.getNextRoundOffer = function(payer, settings) {
+  const current = this.getCurrentRound();
+  if (!current || !APPEALABLE_OUTCOMES.includes(current.outcome?.result)) return null;
+  if (current.type === 'external_review') return null;
+
+  const nextLevel = current.level + 1;
+  let offer;
+  if (hasInternalLevel(payer, nextLevel)) {
+    offer = {
+      type: 'internal_appeal',
+      level: nextLevel,
+      name: payer?.getAppealLevel(nextLevel)?.name || getRoundName('internal_appeal', nextLevel),
+    };
+  } else if (payer?.externalReview?.available !== false) {
+    offer = {
+      type: 'external_review',
+      name: getRoundName('external_review'),
+    };
+  } else {
+    return null;
+  }
+
+  offer.noticeDate = current.outcome.decisionDate;
+  offer.noticeReceivedDate = current.outcome.receivedDate;
+
+  const { deadline, source, basis } = this.calculateRoundDeadline(payer, offer, settings);
+  return { ...offer, filingDeadline: deadline, deadlineSource: source, deadlineBasis: basis };
+};
+
+// Record the payer's decision on a round. A win or withdrawal resolves the dispute; losing the final round does too.
+// Losing an internal round before external review pre-calculates externalReviewDeadline.
+priorAuthorizationSchema.methods.recordRoundOutcome = function(round, { result, decisionDate, receivedDate, notes }, userId, { payer, settings } = {}) {
+  round.outcome = {
+    result,
+    decisionDate: decisionDate || new Date(),
+    receivedDate,
+    notes,
+    recordedBy: userId,
+  };
+
+  const status = ['approved', 'partial_approval'].includes(result) ? 'approved' : result;
+  if (round.type === 'peer_to_peer') {
+    round.status = status;
+    // Only a peer-to-peer that overturns the denial changes the dispute; otherwise the appeal round carries on
+    if (status !== 'approved') return null;
+  }
+
+  const oldStatus = this.dispute.status;
+  this.dispute.status = status;
+  if (oldStatus !== status) {
+    this.addTimelineEntry(`Status changed from ${oldStatus} to ${status}`, userId, `${round.name}: ${result.replace('_', ' ')}`);
+  }
+
+  const nextRound = this.getNextRoundOffer(payer, settings);
+  if (nextRound?.type === 'external_review') {
+    this.deadlines.externalReviewDeadline = nextRound.filingDeadline;
+  }
+
+  if (!nextRound || !APPEALABLE_OUTCOMES.includes(result)) {
+    this.dispute.resolution = {
+      outcome: result,
+      resolutionDate: round.outcome.decisionDate,
+      notes,
+    };
+  }
+
+  return nextRound;
+};
+
+// Start the next round from an offer (or a peer-to-peer call) and move the dispute's deadlines onto it
+priorAuthorizationSchema.methods.startAppealRound = function(offer, userId, { filingDeadline, scheduledAt } = {}) {
+  const round = {
+    number: this.appealRounds.length + 1,
+    type: offer.type,
+    level: offer.level,
+    name: offer.name,
+    noticeDate: offer.noticeDate,
+    noticeReceivedDate: offer.noticeReceivedDate,
+    startedBy: userId,
+  };
+
+  if (offer.type === 'peer_to_peer') {
+    this.appealRounds.push({ ...round, scheduledAt });
+    return this.appealRounds[this.appealRounds.length - 1];
+  }
+
+  this.appealRounds.push(round);
+
+  this.dispute.status = 'pending';
+  this.dispute.submittedDate = undefined;
+  this.dispute.resolution = undefined;
+  this.deadlines.responseDeadline = filingDeadline || offer.filingDeadline;
+  this.deadlines.deadlineSource = filingDeadline ? 'manual' : offer.deadlineSource;
+  this.deadlines.deadlineBasis = filingDeadline ? undefined : offer.deadlineBasis;
+  this.deadlines.decisionDueDate = undefined;
+  if (offer.type === 'external_review') {
+    this.deadlines.externalReviewDeadline = this.deadlines.responseDeadline;
+  }
+  this.deadlines.deadlineFlags.forEach(flag => {
+    flag.resolved = true;
+  });
+  // The new round has its own filing window and forms, so it must be validated again before submitting
+  this.validation.canSubmit = false;
+  this.validation.overallValidationStatus = 'pending';
+
+  this.syncCurrentRound();
+  return this.appealRounds[this.appealRounds.length - 1];
+};
+
+// Link a payer profile and recompute the current round's deadlines from its rules. Deadlines set by hand are kept.
+// `settings` are the patient group's deadline settings (see loadDeadlineSettings).
+priorAuthorizationSchema.methods.applyPayerRules = function(payer, settings) {
+  const resolved = deadlineCalculator.resolveSettings(settings);
+  this.payer = payer ? payer._id : undefined;
+
+  const round = this.getCurrentRound();
+  // The first round's notice is the denial letter itself
+  if (round.number === 1) {
+    round.noticeDate = this.denial.denialDate;
+    round.noticeReceivedDate = this.denial.receivedDate;
+  }
+  if (round.type === 'internal_appeal') {
+    round.name = payer?.getAppealLevel(round.level)?.name || getRoundName('internal_appeal', round.level);
+  }
+
+  if (this.deadlines.deadlineSource !== 'manual') {
+    const { deadline, source, basis } = this.calculateRoundDeadline(payer, round, resolved);
+    this.deadlines.responseDeadline = deadline;
+    this.deadlines.deadlineSource = source;
+    this.deadlines.deadlineBasis = basis;
+  }
+
+  this.setDecisionDueDate(payer, resolved);
+};
+
+// Expected payer decision date for the current round once submitted (expedited turnaround for urgent requests)
+priorAuthorizationSchema.methods.setDecisionDueDate = function(payer, settings) {
+  if (!this.dispute.submittedDate || !payer) {
+    this.deadlines.decisionDueDate = undefined;
+    return;
+  }
+
+  const round = this.getCurrentRound();
+  if (round.type === 'external_review') {
+    const turnaroundDays = payer.externalReview?.decisionTurnaroundDays;
+    this.deadlines.decisionDueDate = turnaroundDays
+      ? deadlineCalculator.calculateDeadline(this.dispute.submittedDate, turnaroundDays, { settings })
+      : undefined;
+    return;
+  }
+
+  this.deadlines.decisionDueDate = payer.getDecisionDueDate(this.dispute.submittedDate, {
+    level: round.level,
+    expedited: this.requestDetails.urgency !== 'routine',
+    settings,
+  }) || undefined;
+};
+
+// Method to check and update deadline flags, counted in the group's time zone and reminder day type
+priorAuthorizationSchema.methods.updateDeadlineFlags = function(settings) {
   const responseDeadline = this.deadlines.responseDeadline;
   
   if (!responseDeadline) return;
   
-  const daysRemaining = Math.ceil((responseDeadline - now) / (1000 * 60 * 60 * 24));
+  const resolved = deadlineCalculator.resolveSettings(settings);
+  const daysRemaining = deadlineCalculator.getDaysRemaining(responseDeadline, { settings: resolved });
+  const type = deadlineCalculator.classify(daysRemaining, resolved);
   
   // Clear existing unresolved flags
   this.deadlines.deadlineFlags = this.deadlines.deadlineFlags.filter(flag => flag.resolved);
   
-  if (daysRemaining < 0) {
-    // Overdue
+  if (type) {
     this.deadlines.deadlineFlags.push({
-      type: 'overdue',
+      type,
       daysRemaining: Math.abs(daysRemaining),
-      flaggedAt: new Date()
-    });
-  } else if (daysRemaining <= 3) {
-    // Urgent - 3 days or less
-    this.deadlines.deadlineFlags.push({
-      type: 'urgent',
-      daysRemaining,
-      flaggedAt: new Date()
-    });
-  } else if (daysRemaining <= 7) {
-    // Warning - 7 days or less
-    this.deadlines.deadlineFlags.push({
-      type: 'warning',
-      daysRemaining,
+      dayType: resolved.reminderDayType,
       flaggedAt: new Date()
     });
   }
@@ -355,6 +966,10 @@ priorAuthorizationSchema.methods.runPreSubmissionValidation = async function() {
   // Prior Authorization History
   const historyValidation = await this.validatePriorAuthHistory();
   validationResults.push(historyValidation);
+
+  // Payer Appeal Requirements
+  const payerValidation = await this.validatePayerRequirements();
+  validationResults.push(payerValidation);
   
   // Update validation status
   this.validation.preSubmissionChecks = validationResults;
@@ -704,4 +1319,100 @@ priorAuthorizationSchema.methods.validatePriorAuthHistory = async function() {
   };
 };
 
+priorAuthorizationSchema.methods.validatePayerRequirements = async function() {
+  await this.populate(['payer', 'patient']);
+  const payer = this.payer;
+
+  if (!payer) {
+    return {
+      checkType: 'payer_requirements',
+      status: 'warning',
+      message: `No payer profile linked - the filing deadline uses the ${DEFAULT_FILING_WINDOW_DAYS}-day default`,
+      details: { missingPayer: true }
+    };
+  }
+
+  const issues = [];
+  const warnings = [];
+  const details = { payer: payer.name };
+
+  const round = this.getCurrentRound();
+  const appealLevel = round.type === 'internal_appeal' ? payer.getAppealLevel(round.level) : null;
+  if (appealLevel || round.type === 'external_review') {
+    const computed = this.calculateRoundDeadline(payer, round, await this.loadDeadlineSettings());
+    details.appealLevel = appealLevel ? appealLevel.name : round.name;
+    details.filingWindowDays = computed.basis.days;
+
+    const filingDeadline = this.deadlines.deadlineSource === 'payer' ? this.deadlines.responseDeadline : computed.deadline;
+    const dayLabel = computed.basis.dayType === 'business' ? 'business days' : 'days';
+    if (!this.dispute.submittedDate && filingDeadline < new Date()) {
+      issues.push(`${payer.name} filing window (${computed.basis.days} ${dayLabel}) closed on ${filingDeadline.toLocaleDateString()}`);
+    }
+  } else {
+    warnings.push(`${payer.name} has no filing window on file for the ${round.name.toLowerCase()}`);
+  }
+
+  if (this.requestDetails.urgency !== 'routine' && !payer.expeditedReview?.available) {
+    warnings.push(`${payer.name} does not offer expedited review - plan for the standard turnaround`);
+  }
+
+  if (this.denial.denialCode && payer.denialCodes.length > 0) {
+    const denialCode = payer.findDenialCode(this.denial.denialCode);
+    if (denialCode) {
+      details.denialCode = {
+        code: denialCode.code,
+        description: denialCode.description,
+        appealGuidance: denialCode.appealGuidance,
+      };
+    } else {
+      warnings.push(`Denial code ${this.denial.denialCode} is not a known ${payer.name} code - check it against the denial letter`);
+    }
+  }
+
+  // A form counts as included when a patient document or dispute attachment names it
+  // External review has no payer level, so only forms required at every level apply
+  const requiredForms = payer.getRequiredForms(round.level || 0);
+  const fileLabels = [
+    ...(this.patient?.documents || []),
+    ...this.attachments,
+  ].map(file => `${file.originalName || ''} ${file.description || ''}`.toLowerCase());
+
+  const missingForms = requiredForms.filter(form => !fileLabels.some(label =>
+    label.includes(form.name.toLowerCase()) || (form.formNumber && label.includes(form.formNumber.toLowerCase()))
+  ));
+  if (missingForms.length > 0) {
+    details.missingForms = missingForms.map(form => form.formNumber ? `${form.name} (${form.formNumber})` : form.name);
+    warnings.push(`${payer.name} requires: ${details.missingForms.join(', ')}`);
+  }
+
+  if (!payer.getSubmissionTarget()) {
+    warnings.push(`${payer.name} has no ${payer.submission?.preferredChannel || 'fax'} contact on file for submitting the appeal`);
+  }
+
+  if (issues.length > 0) {
+    return {
+      checkType: 'payer_requirements',
+      status: 'failed',
+      message: 'Payer appeal requirements are not met',
+      details: { ...details, issues, warnings }
+    };
+  }
+
+  if (warnings.length > 0) {
+    return {
+      checkType: 'payer_requirements',
+      status: 'warning',
+      message: 'Review payer appeal requirements before submitting',
+      details: { ...details, warnings }
+    };
+  }
+
+  return {
+    checkType: 'payer_requirements',
+    status: 'passed',
+    message: `Meets ${payer.name} appeal requirements`,
+    details: { ...details, validated: true }
+  };
+};
+
 module.exports = mongoose.model('PriorAuthorization', priorAuthorizationSchema);
\ No newline at end of file
@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+
+// One signed-in device. Its refresh token rotates on every use; only hashes of the current and the
+// previous token are kept, so presenting any older token shows it was copied and ends the session.
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+  },
+  previousTokenHash: {
+    type: String,
+  },
+  rotatedAt: {
+    type: Date,
+  },
+  userAgent: {
+    type: String,
+  },
+  ip: {
+    type: String,
+  },
+  // When this device passed a two-factor check, at sign-in or by setting MFA up
+  mfaVerifiedAt: {
+    type: Date,
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout_all', 'revoked', 'password_change', 'password_reset', 'token_reuse'],
+  },
+}, {
+  timestamps: true,
+});
+
+sessionSchema.methods.isActive = function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+// Index for efficient queries
+sessionSchema.index({ user: 1, revokedAt: 1 });
+// Sessions are deleted a while after they expire; revoked ones stay until then for the record
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+module.exports = mongoose.model('Session', sessionSchema);
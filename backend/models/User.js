@@ -39,6 +39,11 @@ const userSchema = new mongoose.Schema({
   passwordResetExpires: {
     type: Date,
   },
+  // Practice the user belongs to; their role there is kept on Organization.members
+  organization: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Organization',
+  },
   patientGroups: [{
     group: {
       type: mongoose.Schema.Types.ObjectId,
@@ -86,6 +91,30 @@ const userSchema = new mongoose.Schema({
       default: Date.now,
     },
   }],
+  // Browsers that opted in to Web Push notifications
+  pushSubscriptions: [{
+    endpoint: {
+      type: String,
+      required: true,
+    },
+    keys: {
+      p256dh: {
+        type: String,
+        required: true,
+      },
+      auth: {
+        type: String,
+        required: true,
+      },
+    },
+    userAgent: {
+      type: String,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }],
   preferences: {
     theme: {
       type: String,
@@ -122,6 +151,77 @@ const userSchema = new mongoose.Schema({
         default: true,
       },
     },
+    // Summary email of deadlines and dispute activity, sent at `time` in the user's timezone
+    digest: {
+      frequency: {
+        type: String,
+        enum: ['off', 'daily', 'weekly'],
+        default: 'off',
+      },
+      time: {
+        type: String,
+        match: /^([01]\d|2[0-3]):[0-5]\d$/,
+        default: '07:00',
+      },
+      // 0 = Sunday; only used for weekly digests
+      dayOfWeek: {
+        type: Number,
+        min: 0,
+        max: 6,
+        default: 1,
+      },
+      timezone: {
+        type: String,
+        default: 'UTC',
+      },
+    },
+  },
+  lastDigestSentAt: {
+    type: Date,
+  },
+  // TOTP two-factor authentication (see services/mfaService). Secrets are encrypted and recovery codes
+  // hashed; none of them are loaded unless asked for.
+  mfa: {
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    enabledAt: {
+      type: Date,
+    },
+    secret: {
+      type: String,
+      select: false,
+    },
+    // Set up but not yet confirmed with a code
+    pendingSecret: {
+      type: String,
+      select: false,
+    },
+    // Time step of the last accepted code, so a code can't be used twice
+    lastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    recoveryCodes: {
+      type: [{
+        hash: {
+          type: String,
+          required: true,
+        },
+        usedAt: {
+          type: Date,
+        },
+      }],
+      select: false,
+    },
+    failedAttempts: {
+      type: Number,
+      default: 0,
+    },
+    lockedUntil: {
+      type: Date,
+    },
   },
 }, {
   timestamps: true,
@@ -0,0 +1,156 @@
+const encryptionService = require('../../services/encryptionService');
+
+const isEmpty = (value) => value === undefined || value === null || value === '';
+
+// Spread into a schema path to store it encrypted and read it back as plaintext:
+//   firstName: { ...encrypted, required: true, trim: true }
+// Encrypted paths can't be queried, sorted or indexed; use a blind index for exact matches.
+const encrypted = {
+  type: String,
+  encrypted: true,
+  get: value => encryptionService.decrypt(value),
+  set: value => encryptionService.encrypt(value),
+};
+
+// Same for dates: stored as an encrypted ISO string, read back as a Date
+const encryptedDate = {
+  type: String,
+  encrypted: true,
+  get: (value) => {
+    const plaintext = encryptionService.decrypt(value);
+    return isEmpty(plaintext) ? plaintext : new Date(plaintext);
+  },
+  set: (value) => {
+    if (isEmpty(value) || encryptionService.isEncrypted(value)) return value;
+    const date = value instanceof Date ? value : new Date(value);
+    return encryptionService.encrypt(Number.isNaN(date.getTime()) ? String(value) : date.toISOString());
+  },
+};
+
+const getValue = (object, path) => path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), object);
+
+// Re-run a path's setters on its plaintext so it is encrypted under the current key
+const reencrypt = (schemaType, value) => schemaType.applySetters(encryptionService.decrypt(value), null);
+
+// $set entries for every stored value under `schema` that is plaintext or encrypted under an older key
+const collectEncryptionUpdates = (schema, raw, prefix, updates) => {
+  schema.eachPath((path, schemaType) => {
+    const value = getValue(raw, path);
+    const fullPath = `${prefix}${path}`;
+
+    if (schemaType.options.encrypted) {
+      if (encryptionService.needsEncryption(value)) {
+        updates[fullPath] = reencrypt(schemaType, value);
+      }
+    } else if (schemaType.caster?.options?.encrypted && Array.isArray(value)) {
+      if (value.some(item => encryptionService.needsEncryption(item))) {
+        updates[fullPath] = value.map(item => reencrypt(schemaType.caster, item));
+      }
+    } else if (schemaType.schema && Array.isArray(value)) {
+      value.forEach((item, index) => collectEncryptionUpdates(schemaType.schema, item, `${fullPath}.${index}.`, updates));
+    } else if (schemaType.schema && value) {
+      collectEncryptionUpdates(schemaType.schema, value, `${fullPath}.`, updates);
+    }
+  });
+  return updates;
+};
+
+// Serialises encrypted paths as plaintext and keeps blind indexes in step with their source paths.
+// `blindIndexes` maps a source path to the path holding its index, e.g. { patientId: 'patientIdIndex' }.
+const encryptedFields = (schema, { blindIndexes = {} } = {}) => {
+  // Blind indexes stay out of API responses
+  const transform = (doc, ret) => {
+    Object.values(blindIndexes).forEach(indexPath => {
+      const keys = indexPath.split('.');
+      const parent = keys.length > 1 ? getValue(ret, keys.slice(0, -1).join('.')) : ret;
+      if (parent) delete parent[keys[keys.length - 1]];
+    });
+    return ret;
+  };
+
+  schema.set('toJSON', { getters: true, virtuals: false, transform, ...schema.get('toJSON') });
+  schema.set('toObject', { getters: true, virtuals: false, ...schema.get('toObject') });
+
+  Object.values(blindIndexes).forEach(indexPath => {
+    schema.add({ [indexPath]: { type: String, select: false } });
+  });
+
+  // Arrays of encrypted values ([encrypted]) only run their elements' getters on index access, so
+  // map, filter and slice would see ciphertext. Reading the array runs each element through them
+  // instead. The result is a plain array: assign a new one to change the path.
+  schema.eachPath((path, schemaType) => {
+    if (schemaType.caster?.options?.encrypted) {
+      schemaType.get(values => values?.map(value => schemaType.caster.applyGetters(value)));
+    }
+  });
+
+  schema.pre('validate', function (next) {
+    Object.entries(blindIndexes).forEach(([path, indexPath]) => {
+      if (this.isNew || this.isModified(path)) {
+        this.set(indexPath, encryptionService.blindIndex(this.get(path)));
+      }
+    });
+    next();
+  });
+
+  // Query filter for an exact match on a blind-indexed path: Patient.find(Patient.blindIndexFilter('patientId', value))
+  schema.statics.blindIndexFilter = function (path, value) {
+    if (!blindIndexes[path]) {
+      throw new Error(`${path} has no blind index`);
+    }
+    return { [blindIndexes[path]]: encryptionService.blindIndex(value) };
+  };
+
+  // Encrypt plaintext values left from before encryption, re-encrypt values under retired keys and fill in
+  // missing blind indexes. Works on the raw collection so save hooks don't run. Safe to run repeatedly.
+  schema.statics.migrateEncryption = async function ({ batchSize = 100 } = {}) {
+    let scanned = 0;
+    let updated = 0;
+    let operations = [];
+
+    const flush = async () => {
+      if (operations.length > 0) {
+        await this.collection.bulkWrite(operations, { ordered: false });
+        operations = [];
+      }
+    };
+
+    for await (const raw of this.collection.find({})) {
+      scanned++;
+      const $set = collectEncryptionUpdates(this.schema, raw, '', {});
+      const $unset = {};
+
+      Object.entries(blindIndexes).forEach(([path, indexPath]) => {
+        const expected = encryptionService.blindIndex(encryptionService.decrypt(getValue(raw, path)));
+        if (getValue(raw, indexPath) !== expected) {
+          if (expected) $set[indexPath] = expected;
+          else $unset[indexPath] = '';
+        }
+      });
+
+      if (Object.keys($set).length > 0 || Object.keys($unset).length > 0) {
+        operations.push({
+          updateOne: {
+            filter: { _id: raw._id },
+            update: {
+              ...(Object.keys($set).length > 0 && { $set }),
+              ...(Object.keys($unset).length > 0 && { $unset }),
+            },
+          },
+        });
+        updated++;
+      }
+
+      if (operations.length >= batchSize) {
+        await flush();
+      }
+    }
+    await flush();
+
+    return { scanned, updated };
+  };
+};
+
+module.exports = encryptedFields;
+module.exports.encrypted = encrypted;
+module.exports.encryptedDate = encryptedDate;
@@ -1,27 +1,29 @@
 const express = require('express');
-const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
 const crypto = require('crypto');
 const User = require('../models/User');
 const { body, validationResult } = require('express-validator');
 const auth = require('../middleware/auth');
+const { isValidTimeZone } = require('../services/deadlineCalculator');
+const invitationService = require('../services/invitationService');
+const sessionService = require('../services/sessionService');
+const mfaService = require('../services/mfaService');
 
-const router = express.Router();
+const { InvitationError } = invitationService;
+const { SessionError } = sessionService;
+const { MfaError } = mfaService;
 
-// Generate JWT token
-const generateToken = (id) => {
-  return jwt.sign({ id }, process.env.JWT_SECRET || 'fallback_secret', {
-    expiresIn: '7d',
-  });
-};
+const router = express.Router();
 
 // @route   POST /api/auth/register
-// @desc    Register a new user
+// @desc    Register a new user; with an `inviteToken` they join the inviting patient group straight away
 // @access  Public
 router.post('/register', [
   body('email').isEmail().normalizeEmail(),
   body('password').isLength({ min: 6 }),
   body('firstName').notEmpty().trim(),
   body('lastName').notEmpty().trim(),
+  body('inviteToken').optional().isString(),
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -29,7 +31,7 @@ router.post('/register', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { email, password, firstName, lastName } = req.body;
+    const { email, password, firstName, lastName, inviteToken } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ email });
@@ -37,6 +39,14 @@ router.post('/register', [
       return res.status(400).json({ message: 'User already exists' });
     }
 
+    // Check the invitation before creating the account, so a bad link doesn't leave a half-finished signup
+    if (inviteToken) {
+      const { invitation } = await invitationService.findByToken(inviteToken);
+      if (invitation.email !== email) {
+        return res.status(400).json({ message: `This invitation was sent to ${invitation.email}. Sign up with that address to accept it.` });
+      }
+    }
+
     // Create new user
     const user = new User({
       email,
@@ -47,12 +57,15 @@ router.post('/register', [
 
     await user.save();
 
-    // Generate token
-    const token = generateToken(user._id);
+    const joinedGroup = inviteToken ? await invitationService.accept(inviteToken, user) : null;
+
+    // Sign this device in
+    const token = await sessionService.start(req, res, user);
 
     res.status(201).json({
       success: true,
       token,
+      joinedGroup: joinedGroup?._id,
       user: {
         id: user._id,
         email: user.email,
@@ -63,13 +76,16 @@ router.post('/register', [
       },
     });
   } catch (error) {
+    if (error instanceof InvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('Registration error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
 // @route   POST /api/auth/login
-// @desc    Login user
+// @desc    Login user; with MFA on this only checks the password and returns an `mfaToken` for /mfa/verify
 // @access  Public
 router.post('/login', [
   body('email').isEmail().normalizeEmail(),
@@ -95,8 +111,16 @@ router.post('/login', [
       return res.status(400).json({ message: 'Invalid credentials' });
     }
 
-    // Generate token
-    const token = generateToken(user._id);
+    if (user.mfa.enabled) {
+      return res.json({
+        success: true,
+        mfaRequired: true,
+        mfaToken: mfaService.issueChallenge(user),
+      });
+    }
+
+    // Sign this device in
+    const token = await sessionService.start(req, res, user);
 
     res.json({
       success: true,
@@ -108,6 +132,7 @@ router.post('/login', [
         lastName: user.lastName,
         role: user.role,
         preferences: user.preferences,
+        mfaEnabled: false,
       },
     });
   } catch (error) {
@@ -186,13 +211,25 @@ router.post('/reset-password', [
     user.passwordResetExpires = undefined;
     await user.save();
 
-    // Generate new JWT token
-    const jwtToken = generateToken(user._id);
+    // Whoever knew the old password may still be signed in somewhere
+    await sessionService.revokeAll(user._id, 'password_reset');
+
+    // A reset link proves the email address, not the second factor
+    if (user.mfa.enabled) {
+      return res.json({
+        success: true,
+        message: 'Password reset successful',
+        mfaRequired: true,
+        mfaToken: mfaService.issueChallenge(user),
+      });
+    }
+
+    const accessToken = await sessionService.start(req, res, user);
 
     res.json({
       success: true,
       message: 'Password reset successful',
-      token: jwtToken,
+      token: accessToken,
       user: {
         id: user._id,
         email: user.email,
@@ -208,6 +245,319 @@ router.post('/reset-password', [
   }
 });
 
+// @route   POST /api/auth/refresh
+// @desc    Trade the refresh token cookie for a new access token, rotating the cookie
+// @access  Public (refresh token cookie)
+router.post('/refresh', async (req, res) => {
+  try {
+    const { user, session, refreshToken, accessToken } = await sessionService.refresh(
+      sessionService.readRefreshCookie(req),
+      req
+    );
+
+    if (refreshToken) {
+      sessionService.setRefreshCookie(res, refreshToken, session.expiresAt);
+    }
+
+    res.json({
+      success: true,
+      token: accessToken,
+      user: {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        preferences: user.preferences,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      sessionService.clearRefreshCookie(res);
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/logout
+// @desc    Sign out this device
+// @access  Public (refresh token cookie)
+router.post('/logout', async (req, res) => {
+  try {
+    const session = await sessionService.findByRefreshToken(sessionService.readRefreshCookie(req));
+    if (session) {
+      await sessionService.revoke(session.user, session._id, 'logout');
+    }
+
+    sessionService.clearRefreshCookie(res);
+    res.json({
+      success: true,
+      message: 'Signed out',
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/logout-all
+// @desc    Sign out every device, including this one
+// @access  Private
+router.post('/logout-all', auth, async (req, res) => {
+  try {
+    const count = await sessionService.revokeAll(req.user._id, 'logout_all');
+
+    sessionService.clearRefreshCookie(res);
+    res.json({
+      success: true,
+      message: `Signed out of ${count} session${count === 1 ? '' : 's'}`,
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/sessions
+// @desc    List the devices the user is signed in on
+// @access  Private
+router.get('/sessions', auth, async (req, res) => {
+  try {
+    const sessions = await sessionService.list(req.user._id);
+
+    res.json({
+      success: true,
+      sessions: sessions.map(session => sessionService.serialize(session, req.sessionId)),
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/auth/sessions/:sessionId
+// @desc    Sign out one device
+// @access  Private
+router.delete('/sessions/:sessionId', auth, async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.sessionId)
+      || !(await sessionService.revoke(req.user._id, req.params.sessionId))) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    if (req.sessionId.equals(req.params.sessionId)) {
+      sessionService.clearRefreshCookie(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Session signed out',
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/auth/password
+// @desc    Change password; every session ends and this device gets a new one
+// @access  Private
+router.put('/password', auth, [
+  body('currentPassword').notEmpty(),
+  body('newPassword').isLength({ min: 6 }),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    const user = await User.findById(req.user._id).select('+password');
+    if (!(await user.comparePassword(currentPassword))) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+
+    user.password = newPassword;
+    await user.save();
+
+    await sessionService.revokeAll(user._id, 'password_change');
+    const token = await sessionService.start(req, res, user, { mfaVerified: req.mfaVerified });
+
+    res.json({
+      success: true,
+      message: 'Password changed. Other devices have been signed out.',
+      token,
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/mfa/verify
+// @desc    Second sign-in step: trade the `mfaToken` from login and a code from the app (or a recovery code) for a session
+// @access  Public
+router.post('/mfa/verify', [
+  body('mfaToken').notEmpty(),
+  body('code').notEmpty().isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await mfaService.verifyChallenge(req.body.mfaToken, req.body.code);
+    const token = await sessionService.start(req, res, user, { mfaVerified: true });
+
+    res.json({
+      success: true,
+      token,
+      recoveryCodesRemaining: mfaService.getStatus(user).recoveryCodesRemaining,
+      user: {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        preferences: user.preferences,
+        mfaEnabled: true,
+      },
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('MFA verify error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/auth/mfa
+// @desc    Whether two-factor authentication is on and how many recovery codes are left
+// @access  Private
+router.get('/mfa', auth, async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      ...(await mfaService.getStatusFor(req.user._id)),
+      sessionVerified: req.mfaVerified,
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Get MFA status error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/mfa/setup
+// @desc    Start turning on two-factor authentication; returns the secret and a QR code for an authenticator app
+// @access  Private
+router.post('/mfa/setup', auth, async (req, res) => {
+  try {
+    const setup = await mfaService.setup(req.user._id);
+
+    res.json({
+      success: true,
+      ...setup,
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('MFA setup error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/mfa/enable
+// @desc    Finish setup with a code from the app; returns recovery codes, shown only this once
+// @access  Private
+router.post('/mfa/enable', auth, [
+  body('code').notEmpty().isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const recoveryCodes = await mfaService.enable(req.user._id, req.body.code, req.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication is on',
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('MFA enable error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/mfa/disable
+// @desc    Turn off two-factor authentication (needs a current code or a recovery code)
+// @access  Private
+router.post('/mfa/disable', auth, [
+  body('code').notEmpty().isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    await mfaService.disable(req.user._id, req.body.code);
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication is off',
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('MFA disable error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/auth/mfa/recovery-codes
+// @desc    Replace the recovery codes (needs a current code); the old ones stop working
+// @access  Private
+router.post('/mfa/recovery-codes', auth, [
+  body('code').notEmpty().isString(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user._id, req.body.code);
+
+    res.json({
+      success: true,
+      recoveryCodes,
+    });
+  } catch (error) {
+    if (error instanceof MfaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('MFA recovery codes error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   GET /api/auth/me
 // @desc    Get current user
 // @access  Private
@@ -215,12 +565,15 @@ router.get('/me', auth, async (req, res) => {
   try {
     const user = await User.findById(req.user.id)
       .populate('patientGroups.group', 'name description')
+      .populate('organization', 'name members isActive')
       .select('-password');
 
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    const organization = user.organization?.isActive ? user.organization : null;
+
     res.json({
       success: true,
       user: {
@@ -231,7 +584,13 @@ router.get('/me', auth, async (req, res) => {
         role: user.role,
         preferences: user.preferences,
         patientGroups: user.patientGroups,
+        organization: organization && {
+          _id: organization._id,
+          name: organization.name,
+          role: organization.getRole(user._id),
+        },
         notifications: user.notifications,
+        mfaEnabled: user.mfa.enabled,
       },
     });
   } catch (error) {
@@ -243,9 +602,19 @@ router.get('/me', auth, async (req, res) => {
 // @route   PUT /api/auth/preferences
 // @desc    Update user preferences
 // @access  Private
-router.put('/preferences', auth, async (req, res) => {
+router.put('/preferences', auth, [
+  body('digest.frequency').optional().isIn(['off', 'daily', 'weekly']),
+  body('digest.time').optional().matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('Time must be HH:mm'),
+  body('digest.dayOfWeek').optional().isInt({ min: 0, max: 6 }).toInt(),
+  body('digest.timezone').optional().custom(isValidTimeZone).withMessage('Unknown timezone'),
+], async (req, res) => {
   try {
-    const { theme, notifications } = req.body;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { theme, notifications, digest } = req.body;
 
     const user = await User.findById(req.user.id);
     if (!user) {
@@ -258,6 +627,16 @@ router.put('/preferences', auth, async (req, res) => {
     if (notifications) {
       user.preferences.notifications = { ...user.preferences.notifications, ...notifications };
     }
+    if (digest) {
+      const { frequency, time, dayOfWeek, timezone } = digest;
+      user.preferences.digest = {
+        ...user.preferences.digest,
+        ...(frequency !== undefined && { frequency }),
+        ...(time !== undefined && { time }),
+        ...(dayOfWeek !== undefined && { dayOfWeek }),
+        ...(timezone !== undefined && { timezone }),
+      };
+    }
 
     await user.save();
 
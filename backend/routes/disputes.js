@@ -1,18 +1,37 @@
 const express = require('express');
 const multer = require('multer');
 const { body, validationResult } = require('express-validator');
-const Anthropic = require('@anthropic-ai/sdk');
 const PriorAuthorization = require('../models/PriorAuthorization');
 const Patient = require('../models/Patient');
 const PatientGroup = require('../models/PatientGroup');
-const User = require('../models/User');
+const Organization = require('../models/Organization');
+const Payer = require('../models/Payer');
+const Job = require('../models/Job');
 const auth = require('../middleware/auth');
+const audit = require('../middleware/audit');
+const signedUrl = require('../middleware/signedUrl');
+const { requirePermission, filePermission, ofPatient, ofDispute } = require('../middleware/permissions');
 const notificationService = require('../services/notificationService');
+const textExtractionService = require('../services/textExtractionService');
+const denialLetterParser = require('../services/denialLetterParser');
+const disputeAiService = require('../services/disputeAiService');
+const jobQueueService = require('../services/jobQueueService');
+const documentExportService = require('../services/documentExportService');
+const appealPacketService = require('../services/appealPacketService');
+const realtimeService = require('../services/realtimeService');
+const disputeStatusService = require('../services/disputeStatusService');
+const fileDownloadService = require('../services/fileDownloadService');
+const documentStorageService = require('../services/documentStorageService');
+const signedUrlService = require('../services/signedUrlService');
+const permissionService = require('../services/permissionService');
 const path = require('path');
-const fs = require('fs');
 
 const router = express.Router();
 
+router.use(audit('dispute'));
+
+const { StatusTransitionError, CLOSING_STATUSES } = disputeStatusService;
+
 // Simple error wrapper
 const catchAsync = (fn) => {
   return (req, res, next) => {
@@ -20,28 +39,9 @@ const catchAsync = (fn) => {
   };
 };
 
-// Initialize Anthropic clients
-const analyzerClient = new Anthropic({
-  apiKey: process.env.ANALYZER_API,
-});
-
-const disputerClient = new Anthropic({
-  apiKey: process.env.DISPUTER_API,
-});
-
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, 'uploads/denials/');
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, 'denial-' + uniqueSuffix + path.extname(file.originalname));
-  },
-});
-
+// Configure multer for file uploads; files are held in memory until they are saved to document storage
 const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -58,486 +58,1220 @@ const upload = multer({
   },
 });
 
-// Helper function to check user permissions
-const checkGroupPermission = async (userId, groupId, requiredPermission = 'view') => {
-  const group = await PatientGroup.findOne({
-    _id: groupId,
-    isActive: true,
+// User references on generated documents, populated so the UI can show who edited or approved them
+const DOCUMENT_USER_PATHS = [
+  { path: 'dispute.generatedDocuments.versions.createdBy', select: 'firstName lastName' },
+  { path: 'dispute.generatedDocuments.approval.approvedBy', select: 'firstName lastName' },
+  { path: 'dispute.generatedDocuments.sentBy', select: 'firstName lastName' },
+];
+
+// Helper function to extract text from an uploaded file's contents
+const extractTextFromFile = async (data, mimeType, originalName) => {
+  return textExtractionService.extractText(data, mimeType, originalName);
+};
+
+// Helper function to queue an AI job for a dispute, reusing one that is already in flight
+const enqueueDisputeJob = async (dispute, userId, type, payload = {}) => {
+  const activeJob = await Job.findOne({
+    dispute: dispute._id,
+    type,
+    status: { $in: ['queued', 'running'] },
+    ...(payload.documentType && { 'payload.documentType': payload.documentType }),
   });
+  if (activeJob) return activeJob;
+
+  return jobQueueService.enqueue({
+    type,
+    dispute: dispute._id,
+    patientGroup: dispute.patientGroup,
+    requestedBy: userId,
+    payload,
+  });
+};
 
-  if (!group) return false;
+// Helper function to stream a generated document as server-sent events.
+// Events: `token` ({ text }) for each chunk, then `done` ({ document }) or `error` ({ message }).
+// Closing the connection aborts the generation and nothing is saved.
+const streamDocumentGeneration = async (req, res, dispute, documentType) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
 
-  const member = group.members.find(m => m.user.toString() === userId.toString());
-  if (!member) return false;
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
 
-  if (requiredPermission === 'view') {
-    return ['view', 'edit', 'admin'].includes(member.permission);
-  } else if (requiredPermission === 'edit') {
-    return ['edit', 'admin'].includes(member.permission);
-  } else if (requiredPermission === 'admin') {
-    return member.permission === 'admin';
-  }
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
 
-  return false;
+  try {
+    const document = await disputeAiService.streamDocument(dispute._id, documentType, req.user.id, {
+      signal: controller.signal,
+      onText: text => sendEvent('token', { text }),
+    });
+
+    if (document) {
+      sendEvent('done', { document });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+
+    console.error('Document streaming error:', error);
+    sendEvent('error', { message: 'Document generation failed: ' + error.message });
+  } finally {
+    if (!controller.signal.aborted) {
+      res.end();
+    }
+  }
 };
 
-// Helper function to extract text from uploaded files
-const extractTextFromFile = async (filePath, mimeType) => {
-  try {
-    if (mimeType === 'text/plain') {
-      return fs.readFileSync(filePath, 'utf8');
+// @route   GET /api/disputes/patient/:patientId
+// @desc    Get all disputes for a patient
+// @access  Private
+router.get('/patient/:patientId', auth, requirePermission('patient.view', ofPatient('patientId')), async (req, res) => {
+  try {
+    const patient = await Patient.findOne({
+      _id: req.params.patientId,
+      isActive: true,
+    });
+
+    if (!patient) {
+      return res.status(404).json({ message: 'Patient not found' });
+    }
+
+    const disputes = await PriorAuthorization.find({
+      patient: req.params.patientId,
+      isActive: true,
+    })
+    .populate('createdBy', 'firstName lastName')
+    .populate('patient', 'firstName lastName')
+    .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      disputes,
+    });
+  } catch (error) {
+    console.error('Get disputes error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id
+// @desc    Get specific dispute
+// @access  Private
+router.get('/:id', auth, requirePermission('patient.view', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    })
+    .populate('createdBy', 'firstName lastName')
+    .populate('patient')
+    .populate('patientGroup')
+    .populate('payer')
+    .populate(DOCUMENT_USER_PATHS);
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    // Older disputes get their first appeal round filled in from the dispute itself
+    dispute.getCurrentRound();
+
+    res.json({
+      success: true,
+      dispute,
+    });
+  } catch (error) {
+    console.error('Get dispute error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes
+// @desc    Create new prior authorization dispute
+// @access  Private
+router.post('/', auth, upload.single('denialDocument'), requirePermission('dispute.create', ofPatient('patientId', 'body')), async (req, res) => {
+  try {
+    // Parse JSON data from form
+    let requestDetails, denial, deadlines;
+    try {
+      requestDetails = JSON.parse(req.body.requestDetails);
+      denial = JSON.parse(req.body.denial);
+      if (req.body.deadlines) {
+        deadlines = JSON.parse(req.body.deadlines);
+      }
+    } catch (error) {
+      return res.status(400).json({ message: 'Invalid JSON data' });
+    }
+
+    const patient = await Patient.findOne({
+      _id: req.body.patientId,
+      isActive: true,
+    });
+
+    if (!patient) {
+      return res.status(404).json({ message: 'Patient not found' });
+    }
+
+    if (req.file && !(await PatientGroup.isUploadAllowed(patient.patientGroup, req.file))) {
+      return res.status(400).json({ message: 'This file type is not allowed by your organization' });
+    }
+
+    const disputeData = {
+      patient: req.body.patientId,
+      patientGroup: patient.patientGroup,
+      createdBy: req.user.id,
+      requestDetails,
+      denial,
+    };
+
+    // A deadline sent by the client overrides the payer's filing window
+    if (deadlines) {
+      disputeData.deadlines = { ...deadlines, deadlineSource: 'manual' };
+    }
+
+    // Use the selected payer, else the patient's linked payer, else a match on the insurance provider name.
+    // Checked before the upload is stored, so a rejected request leaves nothing behind in storage.
+    let payer = null;
+    const payerId = req.body.payerId || patient.insuranceInfo?.payer;
+    if (payerId) {
+      payer = await Payer.findOne({ _id: payerId, isActive: true });
+      if (!payer && req.body.payerId) {
+        return res.status(400).json({ message: 'Payer not found' });
+      }
+    }
+    if (!payer) {
+      payer = await Payer.findByProviderName(patient.insuranceInfo?.provider);
+    }
+
+    // Add denial document if uploaded
+    if (req.file) {
+      const { filename, contentHash, size } = await documentStorageService.save(req.file.buffer, {
+        contentType: req.file.mimetype,
+      });
+      disputeData.denial.denialDocument = {
+        filename,
+        contentHash,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size,
+      };
+    }
+
+    const dispute = new PriorAuthorization(disputeData);
+    dispute.applyPayerRules(payer, await dispute.loadDeadlineSettings());
+
+    // Extract the denial letter text so analysis uses the payer's actual wording
+    if (req.file) {
+      const extractionResult = await extractTextFromFile(req.file.buffer, req.file.mimetype, req.file.originalname);
+      dispute.setDenialExtraction(extractionResult);
+    }
+
+    // Add initial timeline entry
+    dispute.addTimelineEntry('Dispute created', req.user.id, 'Initial dispute submission');
+
+    await dispute.save();
+    res.locals.auditResourceId = dispute._id;
+
+    // Add to patient's prior authorizations
+    await Patient.findByIdAndUpdate(req.body.patientId, {
+      $push: { priorAuthorizations: dispute._id },
+    });
+
+    await dispute.populate('createdBy', 'firstName lastName');
+    await dispute.populate('patient', 'firstName lastName');
+    await dispute.populate('payer', 'name');
+
+    res.status(201).json({
+      success: true,
+      dispute,
+    });
+  } catch (error) {
+    console.error('Create dispute error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes/parse-denial-letter
+// @desc    Parse an uploaded denial letter into suggested dispute fields
+// @access  Private
+router.post('/parse-denial-letter', auth, upload.single('denialDocument'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const organization = req.user.organization && await Organization.findById(req.user.organization);
+    if (organization && !organization.isUploadAllowed(req.file)) {
+      return res.status(400).json({ message: 'This file type is not allowed by your organization' });
+    }
+
+    // The letter is uploaded again when the dispute is created, so the parsing copy is never stored
+    const extractionResult = await extractTextFromFile(req.file.buffer, req.file.mimetype, req.file.originalname);
+
+    if (extractionResult.status !== 'completed') {
+      return res.status(422).json({
+        message: extractionResult.error || 'Could not read text from the denial letter',
+        extraction: {
+          status: extractionResult.status,
+          method: extractionResult.method,
+          confidence: extractionResult.confidence,
+        },
+      });
+    }
+
+    const fields = denialLetterParser.parse(extractionResult.text, extractionResult.confidence);
+
+    res.json({
+      success: true,
+      fields,
+      text: extractionResult.text,
+      extraction: {
+        status: extractionResult.status,
+        method: extractionResult.method,
+        confidence: extractionResult.confidence,
+        pages: extractionResult.pages,
+      },
+    });
+  } catch (error) {
+    console.error('Parse denial letter error:', error);
+    res.status(500).json({ message: 'Failed to parse denial letter: ' + error.message });
+  }
+});
+
+// @route   POST /api/disputes/:id/analyze
+// @desc    Queue an AI analysis of the denial
+// @access  Private
+router.post('/:id/analyze', auth, requirePermission('dispute.analyze', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const job = await enqueueDisputeJob(dispute, req.user.id, 'dispute_analysis');
+
+    res.status(202).json({
+      success: true,
+      job,
+    });
+  } catch (error) {
+    console.error('Analysis error:', error);
+    res.status(500).json({ message: 'Analysis failed: ' + error.message });
+  }
+});
+
+// @route   POST /api/disputes/:id/generate
+// @desc    Generate a dispute document. Clients sending `Accept: text/event-stream` receive the text
+//          as server-sent events while it is written; other clients get a background job.
+// @access  Private
+router.post('/:id/generate', auth, [
+  body('documentType').isIn(disputeAiService.documentTypes),
+], requirePermission('dispute.analyze', ofDispute()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { documentType } = req.body;
+
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    if (!dispute.analysis || !dispute.analysis.analysisResult || dispute.analysis.status === 'failed') {
+      return res.status(400).json({ message: 'Please run analysis first before generating documents' });
+    }
+
+    if (req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream') {
+      return streamDocumentGeneration(req, res, dispute, documentType);
+    }
+
+    const job = await enqueueDisputeJob(dispute, req.user.id, 'document_generation', { documentType });
+
+    res.status(202).json({
+      success: true,
+      job,
+    });
+  } catch (error) {
+    console.error('Document generation error:', error);
+    res.status(500).json({ message: 'Document generation failed: ' + error.message });
+  }
+});
+
+// @route   PUT /api/disputes/:id/documents/:documentId
+// @desc    Save an edited version of a generated document
+// @access  Private
+router.put('/:id/documents/:documentId', auth, [
+  body('content').isString().trim().notEmpty(),
+  body('format').optional().isIn(['text', 'html']),
+  body('baseVersion').optional().isInt({ min: 1 }),
+  body('note').optional().isString().trim(),
+], requirePermission('dispute.update', ofDispute()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const document = dispute.dispute.generatedDocuments.id(req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (document.status === 'sent') {
+      return res.status(423).json({ message: 'Document has been sent and can no longer be edited' });
+    }
+
+    // Reject saves based on an older version so concurrent edits aren't silently overwritten
+    const { content, format = 'html', baseVersion, note } = req.body;
+    if (baseVersion && baseVersion !== document.currentVersion) {
+      return res.status(409).json({
+        message: `Document has changed since version ${baseVersion}. Reload to see version ${document.currentVersion}.`,
+        document,
+      });
+    }
+
+    const version = dispute.addDocumentVersion(document, {
+      content,
+      format,
+      source: 'edit',
+      userId: req.user.id,
+      note,
+    });
+    dispute.addTimelineEntry(`Edited ${document.type}`, req.user.id, note || `Saved version ${version.versionNumber}`);
+
+    await dispute.save();
+    await dispute.populate(DOCUMENT_USER_PATHS);
+
+    res.json({
+      success: true,
+      document,
+    });
+  } catch (error) {
+    console.error('Update document error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes/:id/documents/:documentId/approve
+// @desc    Mark the current version of a document as final/approved
+// @access  Private
+router.post('/:id/documents/:documentId/approve', auth, requirePermission('document.approve', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const document = dispute.dispute.generatedDocuments.id(req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (document.status === 'sent') {
+      return res.status(423).json({ message: 'Document has already been sent' });
+    }
+
+    dispute.ensureDocumentVersions(document);
+    document.status = 'approved';
+    document.approval = {
+      approvedBy: req.user.id,
+      approvedAt: new Date(),
+      versionNumber: document.currentVersion,
+    };
+    dispute.addTimelineEntry(`Approved ${document.type}`, req.user.id, `Version ${document.currentVersion} marked as final`);
+
+    await dispute.save();
+    await dispute.populate(DOCUMENT_USER_PATHS);
+
+    res.json({
+      success: true,
+      document,
+    });
+  } catch (error) {
+    console.error('Approve document error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes/:id/documents/:documentId/sent
+// @desc    Mark an approved document as sent, locking it against further edits
+// @access  Private
+router.post('/:id/documents/:documentId/sent', auth, requirePermission('dispute.submit', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const document = dispute.dispute.generatedDocuments.id(req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    if (document.status === 'sent') {
+      return res.status(423).json({ message: 'Document has already been sent' });
+    }
+
+    if (document.status !== 'approved') {
+      return res.status(400).json({ message: 'Document must be approved before it is marked as sent' });
+    }
+
+    document.status = 'sent';
+    document.sentAt = new Date();
+    document.sentBy = req.user.id;
+    dispute.addTimelineEntry(`Sent ${document.type}`, req.user.id, `Version ${document.approval.versionNumber} sent and locked`);
+
+    await dispute.save();
+    await dispute.populate(DOCUMENT_USER_PATHS);
+
+    res.json({
+      success: true,
+      document,
+    });
+  } catch (error) {
+    console.error('Mark document sent error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id/documents/:documentId/export
+// @desc    Download a generated document as PDF or DOCX on the practice letterhead
+// @access  Private
+router.get('/:id/documents/:documentId/export', auth, requirePermission('patient.export', ofDispute()), async (req, res) => {
+  try {
+    const format = req.query.format || 'pdf';
+    if (!documentExportService.formats.includes(format)) {
+      return res.status(400).json({ message: `Format must be one of: ${documentExportService.formats.join(', ')}` });
+    }
+
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    })
+    .populate('patient')
+    .populate('patientGroup')
+    .populate('payer');
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const document = dispute.dispute.generatedDocuments.id(req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    // Defaults to the current version; older versions can be exported by number
+    let version;
+    if (req.query.version) {
+      version = document.versions.find(item => item.versionNumber === Number(req.query.version));
+      if (!version) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+    }
+
+    const buffer = await documentExportService.render(format, {
+      dispute,
+      document,
+      version,
+      letterhead: dispute.patientGroup.letterhead,
+    });
+
+    const versionNumber = version ? version.versionNumber : document.currentVersion;
+    const filename = `${document.type}-${dispute.patient.lastName}-v${versionNumber}.${format}`
+      .toLowerCase()
+      .replace(/[^a-z0-9.-]+/g, '-');
+
+    res.set({
+      'Content-Type': documentExportService.getMimeType(format),
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Content-Length': buffer.length,
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error('Export document error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id/packet/sources
+// @desc    List documents that can be included in an appeal packet
+// @access  Private
+router.get('/:id/packet/sources', auth, requirePermission('patient.view', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    }).populate('patient');
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    res.json({
+      success: true,
+      sources: appealPacketService.listSources(dispute),
+    });
+  } catch (error) {
+    console.error('List packet sources error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes/:id/packet
+// @desc    Assemble the appeal letter and selected documents into one Bates-numbered PDF
+// @access  Private
+router.post('/:id/packet', [
+  auth,
+  body('letterId').optional({ nullable: true, checkFalsy: true }).isMongoId().withMessage('Invalid appeal letter'),
+  body('items').optional().isArray({ max: 50 }).withMessage('Items must be a list of up to 50 documents'),
+  body('items.*.sourceType').isIn(['generated_document', 'denial_letter', 'patient_document', 'attachment']).withMessage('Invalid item type'),
+  body('items.*.sourceId').isString().notEmpty().withMessage('Item ID is required'),
+  body('batesPrefix').optional().trim().matches(/^[A-Z0-9_-]{0,12}$/i).withMessage('Bates prefix may only contain letters, numbers, dashes and underscores (max 12)'),
+  body('batesStart').optional().isInt({ min: 1, max: 999999 }).withMessage('Bates start must be a positive number'),
+  requirePermission('dispute.update', ofDispute()),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    })
+    .populate('patient')
+    .populate('patientGroup')
+    .populate('payer');
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const { letterId, items = [], batesPrefix = 'APPEAL', batesStart = 1 } = req.body;
+
+    let packet;
+    try {
+      packet = await appealPacketService.build(dispute, {
+        letterId,
+        items,
+        letterhead: dispute.patientGroup.letterhead,
+        batesPrefix: batesPrefix.toUpperCase(),
+        batesStart: Number(batesStart),
+      });
+    } catch (error) {
+      if (error instanceof appealPacketService.PacketError) {
+        return res.status(400).json({ message: error.message });
+      }
+      throw error;
+    }
+
+    const { filename, contentHash, size } = await documentStorageService.save(packet.buffer, {
+      contentType: 'application/pdf',
+    });
+
+    dispute.attachments.push({
+      filename,
+      contentHash,
+      originalName: `appeal-packet-${dispute.patient.lastName}-${new Date().toISOString().slice(0, 10)}.pdf`
+        .toLowerCase()
+        .replace(/[^a-z0-9.-]+/g, '-'),
+      mimeType: 'application/pdf',
+      size,
+      uploadedBy: req.user.id,
+      documentType: 'appeal_packet',
+      description: `Appeal packet (${packet.manifest.pageCount} pages, ${appealPacketService.formatBatesRange(packet.manifest.batesPrefix, packet.manifest.batesStart, packet.manifest.batesEnd)})`,
+      packet: packet.manifest,
+    });
+    const attachment = dispute.attachments[dispute.attachments.length - 1];
+
+    const exhibitCount = packet.manifest.sections.filter(section => section.exhibit).length;
+    dispute.addTimelineEntry('Appeal packet assembled', req.user.id, `${packet.manifest.pageCount} pages with ${exhibitCount} exhibit${exhibitCount === 1 ? '' : 's'}`);
+    await dispute.save();
+
+    res.status(201).json({
+      success: true,
+      attachment,
+    });
+  } catch (error) {
+    console.error('Assemble packet error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id/attachments/:attachmentId
+// @desc    Download a dispute attachment
+// @access  Private
+router.get('/:id/attachments/:attachmentId', auth, requirePermission('patient.export', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    }).select('patientGroup attachments');
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const attachment = dispute.attachments.id(req.params.attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    await fileDownloadService.send(req, res, {
+      file: attachment,
+      kind: 'attachment',
+    });
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id/denial-document/download
+// @route   GET /api/disputes/:id/denial-document/preview
+// @desc    Stream the uploaded denial letter as a download or for inline viewing (supports range requests)
+// @access  Private (Authorization header or a signed URL)
+router.get('/:id/denial-document/:mode(download|preview)', signedUrl, requirePermission(req => filePermission(req.params.mode), ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
+    }).select('patientGroup denial.denialDocument');
+
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
+
+    const denialDocument = dispute.denial.denialDocument;
+    if (!denialDocument?.filename) {
+      return res.status(404).json({ message: 'No denial letter uploaded' });
     }
-    // For other file types, return a placeholder
-    // In a real application, you'd use libraries like pdf-parse, mammoth, etc.
-    return 'File content extraction not implemented for this file type. Please provide text content manually.';
+
+    await fileDownloadService.send(req, res, {
+      file: denialDocument,
+      kind: 'denial_letter',
+      disposition: req.params.mode === 'preview' ? 'inline' : 'attachment',
+    });
   } catch (error) {
-    console.error('Error extracting text:', error);
-    return 'Error extracting text from file.';
+    console.error('Download denial document error:', error);
+    res.status(500).json({ message: 'Server error' });
   }
-};
+});
 
-// @route   GET /api/disputes/patient/:patientId
-// @desc    Get all disputes for a patient
+// @route   POST /api/disputes/:id/denial-document/signed-url
+// @desc    Get a short-lived link to preview or download the denial letter without the Authorization header
 // @access  Private
-router.get('/patient/:patientId', auth, async (req, res) => {
+router.post('/:id/denial-document/signed-url', auth, [
+  body('mode').optional().isIn(['download', 'preview']),
+  body('expiresIn').optional().isInt({ min: 30, max: 3600 }).toInt(),
+], requirePermission(req => filePermission(req.body.mode), ofDispute()), async (req, res) => {
   try {
-    const patient = await Patient.findOne({
-      _id: req.params.patientId,
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
       isActive: true,
-    });
+    }).select('patientGroup denial.denialDocument');
 
-    if (!patient) {
-      return res.status(404).json({ message: 'Patient not found' });
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'view');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    if (!dispute.denial.denialDocument?.filename) {
+      return res.status(404).json({ message: 'No denial letter uploaded' });
     }
 
-    const disputes = await PriorAuthorization.find({
-      patient: req.params.patientId,
-      isActive: true,
-    })
-    .populate('createdBy', 'firstName lastName')
-    .populate('patient', 'firstName lastName')
-    .sort({ createdAt: -1 });
+    const { mode = 'preview', expiresIn } = req.body;
+    const { url, expiresAt } = signedUrlService.sign(req, `${req.baseUrl}/${dispute._id}/denial-document/${mode}`, { expiresIn });
 
     res.json({
       success: true,
-      disputes,
+      url,
+      expiresAt,
     });
   } catch (error) {
-    console.error('Get disputes error:', error);
+    console.error('Sign denial document URL error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   GET /api/disputes/:id
-// @desc    Get specific dispute
+// @route   GET /api/disputes/:id/jobs
+// @desc    Get recent AI jobs for a dispute (used to resume progress after a reload)
 // @access  Private
-router.get('/:id', auth, async (req, res) => {
+router.get('/:id/jobs', auth, requirePermission('patient.view', ofDispute()), async (req, res) => {
   try {
     const dispute = await PriorAuthorization.findOne({
       _id: req.params.id,
       isActive: true,
-    })
-    .populate('createdBy', 'firstName lastName')
-    .populate('patient')
-    .populate('patientGroup');
+    }).select('patientGroup');
 
     if (!dispute) {
       return res.status(404).json({ message: 'Dispute not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup._id, 'view');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    const filter = { dispute: dispute._id };
+    if (req.query.active === 'true') {
+      filter.status = { $in: ['queued', 'running'] };
     }
 
-    res.json({
-      success: true,
-      dispute,
-    });
+    const jobs = await Job.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    res.json(jobs);
   } catch (error) {
-    console.error('Get dispute error:', error);
+    console.error('Get dispute jobs error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   POST /api/disputes
-// @desc    Create new prior authorization dispute
+// @route   PUT /api/disputes/:id/payer
+// @desc    Link a payer profile and recompute deadlines from its rules
 // @access  Private
-router.post('/', auth, upload.single('denialDocument'), async (req, res) => {
+router.put('/:id/payer', auth, [
+  body('payerId').optional({ nullable: true }).isMongoId().withMessage('Invalid payer'),
+], requirePermission('dispute.update', ofDispute()), async (req, res) => {
   try {
-    // Parse JSON data from form
-    let requestDetails, denial, deadlines;
-    try {
-      requestDetails = JSON.parse(req.body.requestDetails);
-      denial = JSON.parse(req.body.denial);
-      if (req.body.deadlines) {
-        deadlines = JSON.parse(req.body.deadlines);
-      }
-    } catch (error) {
-      return res.status(400).json({ message: 'Invalid JSON data' });
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    const patient = await Patient.findOne({
-      _id: req.body.patientId,
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
       isActive: true,
     });
 
-    if (!patient) {
-      return res.status(404).json({ message: 'Patient not found' });
-    }
-
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
-    const disputeData = {
-      patient: req.body.patientId,
-      patientGroup: patient.patientGroup,
-      createdBy: req.user.id,
-      requestDetails,
-      denial,
-    };
-
-    // Add deadline if provided
-    if (deadlines) {
-      disputeData.deadlines = deadlines;
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
     }
 
-    // Add denial document if uploaded
-    if (req.file) {
-      disputeData.denial.denialDocument = {
-        filename: req.file.filename,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        size: req.file.size,
-      };
+    let payer = null;
+    if (req.body.payerId) {
+      payer = await Payer.findOne({ _id: req.body.payerId, isActive: true });
+      if (!payer) {
+        return res.status(404).json({ message: 'Payer not found' });
+      }
     }
 
-    const dispute = new PriorAuthorization(disputeData);
+    const deadlineSettings = await dispute.loadDeadlineSettings();
+    dispute.applyPayerRules(payer, deadlineSettings);
+    dispute.deadlines.deadlineFlags.forEach(flag => {
+      flag.resolved = true;
+    });
+    dispute.updateDeadlineFlags(deadlineSettings);
 
-    // Add initial timeline entry
-    dispute.addTimelineEntry('Dispute created', req.user.id, 'Initial dispute submission');
+    const deadlineNote = dispute.deadlines.deadlineSource === 'manual'
+      ? 'Manually set deadline kept'
+      : `Response deadline: ${dispute.deadlines.responseDeadline.toLocaleDateString()}`;
+    dispute.addTimelineEntry(payer ? `Payer set to ${payer.name}` : 'Payer removed', req.user.id, deadlineNote);
 
     await dispute.save();
+    await dispute.populate('payer');
 
-    // Add to patient's prior authorizations
-    await Patient.findByIdAndUpdate(req.body.patientId, {
-      $push: { priorAuthorizations: dispute._id },
+    res.json({
+      success: true,
+      payer: dispute.payer,
+      deadlines: dispute.deadlines,
+    });
+  } catch (error) {
+    console.error('Update dispute payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/disputes/:id/status/transitions
+// @desc    List the statuses the dispute can move to next, and what each needs
+// @access  Private
+router.get('/:id/status/transitions', auth, requirePermission('patient.view', ofDispute()), async (req, res) => {
+  try {
+    const dispute = await PriorAuthorization.findOne({
+      _id: req.params.id,
+      isActive: true,
     });
 
-    await dispute.populate('createdBy', 'firstName lastName');
-    await dispute.populate('patient', 'firstName lastName');
+    if (!dispute) {
+      return res.status(404).json({ message: 'Dispute not found' });
+    }
 
-    res.status(201).json({
+    res.json({
       success: true,
-      dispute,
+      status: dispute.dispute.status,
+      transitions: disputeStatusService.getAllowedTransitions(dispute),
     });
   } catch (error) {
-    console.error('Create dispute error:', error);
+    console.error('Get status transitions error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   POST /api/disputes/:id/analyze
-// @desc    Analyze denial using Anthropic API
+// @route   PUT /api/disputes/:id/status
+// @desc    Move the dispute to another status; approvals and denials need the payer's decision in `outcome`
 // @access  Private
-router.post('/:id/analyze', auth, async (req, res) => {
+router.put('/:id/status', auth, [
+  body('status').isIn(['pending', 'in_progress', 'submitted', 'under_review', 'approved', 'denied', 'withdrawn']),
+  body('outcome.result').optional().isIn(['approved', 'denied', 'partial_approval', 'withdrawn']),
+  body('outcome.decisionDate').optional().isISO8601().withMessage('Invalid decision date'),
+  body('outcome.receivedDate').optional({ nullable: true }).isISO8601().withMessage('Invalid received date'),
+  body('outcome.notes').optional().trim(),
+], requirePermission(req => (req.body.status === 'submitted' ? 'dispute.submit' : 'dispute.update'), ofDispute()), async (req, res) => {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, notes, outcome } = req.body;
+
     const dispute = await PriorAuthorization.findOne({
       _id: req.params.id,
       isActive: true,
-    }).populate('patient');
+    });
 
     if (!dispute) {
       return res.status(404).json({ message: 'Dispute not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
-    // Extract denial text content
-    let denialText = dispute.denial.denialReason;
-    if (dispute.denial.denialDocument) {
-      const filePath = path.join('uploads/denials/', dispute.denial.denialDocument.filename);
-      const extractedText = await extractTextFromFile(filePath, dispute.denial.denialDocument.mimeType);
-      denialText += '\n\nDenial Document Content:\n' + extractedText;
-    }
-
-    // Prepare analysis prompt
-    const analysisPrompt = `
-As a medical prior authorization expert, analyze this denial and identify opportunities to dispute it.
-
-Patient Information:
-- Name: ${dispute.patient.firstName} ${dispute.patient.lastName}
-- Requested Service: ${dispute.requestDetails.requestedService}
-- Service Code: ${dispute.requestDetails.serviceCode || 'Not provided'}
-- Diagnosis Code: ${dispute.requestDetails.diagnosisCode || 'Not provided'}
-- Clinical Justification: ${dispute.requestDetails.clinicalJustification}
-
-Denial Information:
-- Denial Date: ${dispute.denial.denialDate}
-- Denial Reason: ${dispute.denial.denialReason}
-- Denial Code: ${dispute.denial.denialCode || 'Not provided'}
-
-Denial Content:
-${denialText}
-
-Please provide a comprehensive analysis including:
-1. Dispute opportunities (categorized by strength: strong, moderate, weak)
-2. Success probability estimate (0-100%)
-3. Recommended approach (peer_review, formal_appeal, expedited_review, external_review)
-4. Key arguments to make
-5. Supporting evidence needed
-
-Format your response as JSON with the following structure:
-{
-  "disputeOpportunities": [
-    {
-      "category": "medical_necessity|policy_interpretation|documentation|precedent|emergency",
-      "strength": "strong|moderate|weak",
-      "description": "Description of the opportunity",
-      "evidence": ["Evidence item 1", "Evidence item 2"],
-      "recommendedAction": "Specific action to take"
-    }
-  ],
-  "successProbability": 75,
-  "recommendedApproach": "peer_review",
-  "keyArguments": ["Argument 1", "Argument 2"],
-  "supportingEvidence": ["Evidence 1", "Evidence 2"]
-}
-`;
-
-    // Call Anthropic API for analysis
-    const response = await analyzerClient.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      messages: [{
-        role: 'user',
-        content: analysisPrompt,
-      }],
-    });
-
-    let analysisResult;
+    const oldStatus = dispute.dispute.status;
+    await dispute.populate('payer');
+
+    let nextRound;
     try {
-      analysisResult = JSON.parse(response.content[0].text);
-    } catch (parseError) {
-      console.error('Failed to parse analysis result:', parseError);
-      analysisResult = {
-        disputeOpportunities: [{
-          category: 'documentation',
-          strength: 'moderate',
-          description: 'Analysis completed but response format needs review',
-          evidence: ['Review denial letter for specific requirements'],
-          recommendedAction: 'Gather additional documentation',
-        }],
-        successProbability: 50,
-        recommendedApproach: 'formal_appeal',
-        keyArguments: ['Review required'],
-        supportingEvidence: ['Additional analysis needed'],
-      };
+      nextRound = disputeStatusService.transition(dispute, status, {
+        userId: req.user.id,
+        notes,
+        outcome: outcome && {
+          ...outcome,
+          decisionDate: outcome.decisionDate ? new Date(outcome.decisionDate) : undefined,
+          receivedDate: outcome.receivedDate ? new Date(outcome.receivedDate) : undefined,
+        },
+        payer: dispute.payer,
+        settings: await dispute.loadDeadlineSettings(),
+      });
+    } catch (error) {
+      if (error instanceof StatusTransitionError) {
+        return res.status(409).json({ message: error.message, details: error.details });
+      }
+      throw error;
     }
 
-    // Update dispute with analysis
-    dispute.analysis = {
-      analysisDate: new Date(),
-      analysisResult: response.content[0].text,
-      disputeOpportunities: analysisResult.disputeOpportunities,
-      successProbability: analysisResult.successProbability,
-      recommendedApproach: analysisResult.recommendedApproach,
-      keyArguments: analysisResult.keyArguments,
-      supportingEvidence: analysisResult.supportingEvidence,
-    };
-
-    dispute.addTimelineEntry('Analysis completed', req.user.id, `AI analysis identified ${analysisResult.disputeOpportunities.length} dispute opportunities`);
-
     await dispute.save();
 
     // Send notification
-    await notificationService.notifyAnalysisComplete(
+    await notificationService.notifyStatusUpdate(
       dispute._id,
       req.user.id,
-      analysisResult.successProbability
+      oldStatus,
+      status
     );
 
+    await realtimeService.sendToGroup(dispute.patientGroup, 'dispute:status', {
+      disputeId: dispute._id,
+      changedBy: req.user.id,
+    });
+
     res.json({
       success: true,
-      analysis: dispute.analysis,
+      dispute,
+      nextRound,
     });
   } catch (error) {
-    console.error('Analysis error:', error);
-    res.status(500).json({ message: 'Analysis failed: ' + error.message });
+    console.error('Update status error:', error);
+    res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   POST /api/disputes/:id/generate
-// @desc    Generate dispute documents using Anthropic API
+// Loads a dispute with its payer and the group's deadline settings, for the appeal round routes
+const loadDisputeForRounds = async (req, res) => {
+  const dispute = await PriorAuthorization.findOne({
+    _id: req.params.id,
+    isActive: true,
+  }).populate('payer');
+
+  if (!dispute) {
+    res.status(404).json({ message: 'Dispute not found' });
+    return null;
+  }
+
+  return { dispute, settings: await dispute.loadDeadlineSettings() };
+};
+
+// Only the current round, and peer-to-peer calls started after it, can still change
+const isOpenRound = (dispute, round) => round.number >= dispute.getCurrentRound().number;
+
+// @route   GET /api/disputes/:id/rounds/next
+// @desc    Preview the next appeal round after a lost round, with its pre-calculated filing deadline
 // @access  Private
-router.post('/:id/generate', auth, [
-  body('documentType').isIn(['email', 'letter', 'phone_notes', 'peer_review']),
-], async (req, res) => {
+router.get('/:id/rounds/next', auth, requirePermission('dispute.update', ofDispute()), async (req, res) => {
+  try {
+    const loaded = await loadDisputeForRounds(req, res);
+    if (!loaded) return;
+
+    res.json({
+      success: true,
+      nextRound: loaded.dispute.getNextRoundOffer(loaded.dispute.payer, loaded.settings),
+    });
+  } catch (error) {
+    console.error('Get next appeal round error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/disputes/:id/rounds
+// @desc    Start the next appeal round (or book a peer-to-peer call with type 'peer_to_peer')
+// @access  Private
+router.post('/:id/rounds', auth, [
+  body('type').optional().isIn(['peer_to_peer']),
+  body('filingDeadline').optional({ nullable: true }).isISO8601().withMessage('Invalid filing deadline'),
+  body('scheduledAt').optional({ nullable: true }).isISO8601().withMessage('Invalid call time'),
+], requirePermission('dispute.update', ofDispute()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { documentType } = req.body;
+    const loaded = await loadDisputeForRounds(req, res);
+    if (!loaded) return;
+    const { dispute, settings } = loaded;
+    const { type, filingDeadline, scheduledAt } = req.body;
 
-    const dispute = await PriorAuthorization.findOne({
-      _id: req.params.id,
-      isActive: true,
-    })
-    .populate('patient')
-    .populate('createdBy', 'firstName lastName');
+    let offer;
+    if (type === 'peer_to_peer') {
+      if (CLOSING_STATUSES.includes(dispute.dispute.status)) {
+        return res.status(400).json({ message: 'Peer-to-peer calls can only be booked while an appeal round is open' });
+      }
+      const current = dispute.getCurrentRound();
+      offer = { type: 'peer_to_peer', level: current.level, name: `Peer-to-peer review (${current.name.toLowerCase()})` };
+    } else {
+      offer = dispute.getNextRoundOffer(dispute.payer, settings);
+      if (!offer) {
+        return res.status(400).json({ message: 'There is no further appeal round - the current round has not been lost or was the last one' });
+      }
+    }
 
-    if (!dispute) {
-      return res.status(404).json({ message: 'Dispute not found' });
+    const round = dispute.startAppealRound(offer, req.user.id, {
+      filingDeadline: filingDeadline ? new Date(filingDeadline) : undefined,
+      scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+    });
+    if (round.type !== 'peer_to_peer') {
+      dispute.updateDeadlineFlags(settings);
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    dispute.addTimelineEntry(
+      `Started ${round.name}`,
+      req.user.id,
+      round.type === 'peer_to_peer'
+        ? (round.scheduledAt ? `Call scheduled for ${round.scheduledAt.toLocaleString()}` : undefined)
+        : `Filing deadline: ${dispute.deadlines.responseDeadline.toLocaleDateString()}`
+    );
+
+    await dispute.save();
+
+    res.status(201).json({
+      success: true,
+      round,
+      dispute,
+    });
+  } catch (error) {
+    console.error('Start appeal round error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/disputes/:id/rounds/:roundId/submission
+// @desc    Record how and when a round was submitted to the payer
+// @access  Private
+router.put('/:id/rounds/:roundId/submission', auth, [
+  body('submittedAt').optional().isISO8601().withMessage('Invalid submission date'),
+  body('channel').optional().isIn(['fax', 'portal', 'mail', 'phone', 'email']),
+  body('confirmationNumber').optional().trim(),
+  body('notes').optional().trim(),
+], requirePermission('dispute.submit', ofDispute()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    if (!dispute.analysis || !dispute.analysis.analysisResult) {
-      return res.status(400).json({ message: 'Please run analysis first before generating documents' });
+    const loaded = await loadDisputeForRounds(req, res);
+    if (!loaded) return;
+    const { dispute, settings } = loaded;
+
+    const round = dispute.appealRounds.id(req.params.roundId);
+    if (!round) {
+      return res.status(404).json({ message: 'Appeal round not found' });
+    }
+    if (!isOpenRound(dispute, round) || round.outcome?.result) {
+      return res.status(400).json({ message: 'This appeal round has already been decided' });
     }
 
-    // Prepare generation prompt based on document type
-    const baseInfo = `
-Patient: ${dispute.patient.firstName} ${dispute.patient.lastName}
-Requested Service: ${dispute.requestDetails.requestedService}
-Clinical Justification: ${dispute.requestDetails.clinicalJustification}
-Denial Reason: ${dispute.denial.denialReason}
-Key Arguments: ${dispute.analysis.keyArguments.join(', ')}
-Supporting Evidence: ${dispute.analysis.supportingEvidence.join(', ')}
-Recommended Approach: ${dispute.analysis.recommendedApproach}
-`;
-
-    let prompt = '';
-    switch (documentType) {
-      case 'email':
-        prompt = `Generate a professional email to the insurance company disputing this prior authorization denial. Include a clear subject line and professional tone. Base the arguments on the analysis provided.\n\n${baseInfo}`;
-        break;
-      case 'letter':
-        prompt = `Generate a formal business letter to dispute this prior authorization denial. Include proper letterhead format, date, and formal language. Base the arguments on the analysis provided.\n\n${baseInfo}`;
-        break;
-      case 'phone_notes':
-        prompt = `Generate talking points and phone script for a peer-to-peer review call regarding this prior authorization denial. Include key points to emphasize and responses to potential objections.\n\n${baseInfo}`;
-        break;
-      case 'peer_review':
-        prompt = `Generate comprehensive notes for a peer-to-peer review regarding this prior authorization denial. Include medical justification, clinical guidelines, and evidence-based arguments.\n\n${baseInfo}`;
-        break;
-    }
-
-    // Call Anthropic API for document generation
-    const response = await disputerClient.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 2000,
-      messages: [{
-        role: 'user',
-        content: prompt,
-      }],
-    });
-
-    const generatedContent = response.content[0].text;
-
-    // Save generated document
-    const document = {
-      type: documentType,
-      content: generatedContent,
-      generatedBy: req.user.id,
+    const { submittedAt, channel, confirmationNumber, notes } = req.body;
+    const submission = {
+      submittedAt: submittedAt ? new Date(submittedAt) : new Date(),
+      submittedBy: req.user.id,
+      channel,
+      confirmationNumber,
+      notes,
     };
 
-    dispute.dispute.generatedDocuments.push(document);
-    dispute.addTimelineEntry(`Generated ${documentType}`, req.user.id, `AI-generated ${documentType} document created`);
+    if (round.type === 'peer_to_peer') {
+      round.status = 'submitted';
+    } else {
+      try {
+        disputeStatusService.transition(dispute, 'submitted', {
+          userId: req.user.id,
+          notes: `${round.name} submitted${channel ? ` by ${channel}` : ''}`,
+          submittedAt: submission.submittedAt,
+          payer: dispute.payer,
+          settings,
+        });
+      } catch (error) {
+        if (error instanceof StatusTransitionError) {
+          return res.status(409).json({ message: error.message, details: error.details });
+        }
+        throw error;
+      }
+    }
+    round.submission = submission;
 
     await dispute.save();
 
-    // Send notification
-    await notificationService.notifyDocumentGenerated(
-      dispute._id,
-      req.user.id,
-      documentType
-    );
-
     res.json({
       success: true,
-      document,
+      round,
+      dispute,
     });
   } catch (error) {
-    console.error('Document generation error:', error);
-    res.status(500).json({ message: 'Document generation failed: ' + error.message });
+    console.error('Record round submission error:', error);
+    res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   PUT /api/disputes/:id/status
-// @desc    Update dispute status
+// @route   PUT /api/disputes/:id/rounds/:roundId/outcome
+// @desc    Record the payer's decision on a round; a loss returns the next round with its deadline
 // @access  Private
-router.put('/:id/status', auth, [
-  body('status').isIn(['pending', 'in_progress', 'submitted', 'under_review', 'approved', 'denied', 'withdrawn']),
-], async (req, res) => {
+router.put('/:id/rounds/:roundId/outcome', auth, [
+  body('result').isIn(['approved', 'denied', 'partial_approval', 'withdrawn']),
+  body('decisionDate').optional().isISO8601().withMessage('Invalid decision date'),
+  body('receivedDate').optional({ nullable: true }).isISO8601().withMessage('Invalid received date'),
+  body('notes').optional().trim(),
+], requirePermission('dispute.update', ofDispute()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { status, notes } = req.body;
-
-    const dispute = await PriorAuthorization.findOne({
-      _id: req.params.id,
-      isActive: true,
-    });
+    const loaded = await loadDisputeForRounds(req, res);
+    if (!loaded) return;
+    const { dispute, settings } = loaded;
 
-    if (!dispute) {
-      return res.status(404).json({ message: 'Dispute not found' });
+    const round = dispute.appealRounds.id(req.params.roundId);
+    if (!round) {
+      return res.status(404).json({ message: 'Appeal round not found' });
     }
-
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    if (!isOpenRound(dispute, round) || round.outcome?.result) {
+      return res.status(400).json({ message: 'This appeal round has already been decided' });
     }
 
+    const { result, decisionDate, receivedDate, notes } = req.body;
     const oldStatus = dispute.dispute.status;
-    dispute.dispute.status = status;
+    const outcome = {
+      result,
+      decisionDate: decisionDate ? new Date(decisionDate) : undefined,
+      receivedDate: receivedDate ? new Date(receivedDate) : undefined,
+      notes,
+    };
 
-    if (status === 'submitted' && !dispute.dispute.submittedDate) {
-      dispute.dispute.submittedDate = new Date();
+    let nextRound = null;
+    if (round.type === 'peer_to_peer' && !['approved', 'partial_approval'].includes(result)) {
+      // A peer-to-peer that doesn't overturn the denial is only recorded on the call
+      dispute.recordRoundOutcome(round, outcome, req.user.id, { payer: dispute.payer, settings });
+    } else {
+      const status = ['approved', 'partial_approval'].includes(result) ? 'approved' : result;
+      try {
+        nextRound = disputeStatusService.transition(dispute, status, {
+          userId: req.user.id,
+          outcome,
+          round,
+          payer: dispute.payer,
+          settings,
+        });
+      } catch (error) {
+        if (error instanceof StatusTransitionError) {
+          return res.status(409).json({ message: error.message, details: error.details });
+        }
+        throw error;
+      }
     }
 
-    dispute.addTimelineEntry(`Status changed from ${oldStatus} to ${status}`, req.user.id, notes);
+    if (round.type === 'peer_to_peer') {
+      dispute.addTimelineEntry(`${round.name}: ${result.replace('_', ' ')}`, req.user.id, notes);
+    }
 
     await dispute.save();
 
-    // Send notification
-    await notificationService.notifyStatusUpdate(
-      dispute._id,
-      req.user.id,
-      oldStatus,
-      status
-    );
+    if (oldStatus !== dispute.dispute.status) {
+      await notificationService.notifyStatusUpdate(dispute._id, req.user.id, oldStatus, dispute.dispute.status);
+      await realtimeService.sendToGroup(dispute.patientGroup, 'dispute:status', {
+        disputeId: dispute._id,
+        changedBy: req.user.id,
+      });
+    }
 
     res.json({
       success: true,
+      round,
+      nextRound,
       dispute,
     });
   } catch (error) {
-    console.error('Update status error:', error);
+    console.error('Record round outcome error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -545,7 +1279,7 @@ router.put('/:id/status', auth, [
 // @route   POST /api/disputes/:id/validate
 // @desc    Run pre-submission validation checks
 // @access  Private
-router.post('/:id/validate', auth, catchAsync(async (req, res) => {
+router.post('/:id/validate', auth, requirePermission('dispute.update', ofDispute()), catchAsync(async (req, res) => {
   const dispute = await PriorAuthorization.findOne({
     _id: req.params.id,
     isActive: true,
@@ -555,12 +1289,6 @@ router.post('/:id/validate', auth, catchAsync(async (req, res) => {
     return res.status(404).json({ message: 'Dispute not found' });
   }
 
-  // Check permissions
-  const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-  if (!hasPermission) {
-    return res.status(403).json({ message: 'Insufficient permissions' });
-  }
-
   try {
     // Run validation
     const validationResults = await dispute.runPreSubmissionValidation();
@@ -591,7 +1319,7 @@ router.post('/:id/validate', auth, catchAsync(async (req, res) => {
 // @route   GET /api/disputes/:id/validation-status
 // @desc    Get current validation status
 // @access  Private
-router.get('/:id/validation-status', auth, catchAsync(async (req, res) => {
+router.get('/:id/validation-status', auth, requirePermission('patient.view', ofDispute()), catchAsync(async (req, res) => {
   const dispute = await PriorAuthorization.findOne({
     _id: req.params.id,
     isActive: true,
@@ -601,12 +1329,6 @@ router.get('/:id/validation-status', auth, catchAsync(async (req, res) => {
     return res.status(404).json({ message: 'Dispute not found' });
   }
 
-  // Check permissions
-  const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'view');
-  if (!hasPermission) {
-    return res.status(403).json({ message: 'Insufficient permissions' });
-  }
-
   res.json({
     success: true,
     validation: dispute.validation,
@@ -620,7 +1342,7 @@ router.get('/:id/validation-status', auth, catchAsync(async (req, res) => {
 router.put('/:id/deadline', auth, [
   body('newDeadline').isISO8601().withMessage('Valid deadline date required'),
   body('deadlineType').optional().isIn(['responseDeadline', 'urgentResponseDeadline', 'externalReviewDeadline'])
-], catchAsync(async (req, res) => {
+], requirePermission('dispute.update', ofDispute()), catchAsync(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
     return res.status(400).json({ message: 'Validation error' });
@@ -637,12 +1359,6 @@ router.put('/:id/deadline', auth, [
     return res.status(404).json({ message: 'Dispute not found' });
   }
 
-  // Check permissions
-  const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-  if (!hasPermission) {
-    return res.status(403).json({ message: 'Insufficient permissions' });
-  }
-
   try {
     // Try to load deadline monitoring service
     let deadlineMonitoringService;
@@ -651,6 +1367,9 @@ router.put('/:id/deadline', auth, [
     } catch (error) {
       // If service doesn't exist, update manually
       dispute.deadlines[deadlineType] = new Date(newDeadline);
+      if (deadlineType === 'responseDeadline') {
+        dispute.deadlines.deadlineSource = 'manual';
+      }
       
       // Clear existing flags as deadline changed
       dispute.deadlines.deadlineFlags.forEach(flag => {
@@ -658,7 +1377,7 @@ router.put('/:id/deadline', auth, [
       });
 
       // Update flags with new deadline
-      dispute.updateDeadlineFlags();
+      dispute.updateDeadlineFlags(await dispute.loadDeadlineSettings());
       
       await dispute.save();
 
@@ -725,9 +1444,12 @@ router.get('/deadlines/summary', auth, catchAsync(async (req, res) => {
       });
     }
     
-    // Get user's patient groups
-    const user = await User.findById(req.user.id).populate('patientGroups.group');
-    const patientGroupIds = user.patientGroups.map(pg => pg.group._id);
+    // Get user's patient groups, including every group in their organization for org-wide roles
+    const patientGroups = await PatientGroup.find(await PatientGroup.accessibleBy(req.user)).select('_id settings');
+    // Leaving out groups whose MFA requirement this session doesn't meet
+    const patientGroupIds = patientGroups
+      .filter(group => !permissionService.isBlockedByMfa(group, req))
+      .map(group => group._id);
 
     const summary = await deadlineMonitoringService.getDeadlineSummary(
       req.user.id, 
@@ -748,7 +1470,7 @@ router.get('/deadlines/summary', auth, catchAsync(async (req, res) => {
 // @route   POST /api/disputes/:id/resolve-deadline-flag/:flagId
 // @desc    Resolve/acknowledge a deadline flag
 // @access  Private
-router.post('/:id/resolve-deadline-flag/:flagId', auth, catchAsync(async (req, res) => {
+router.post('/:id/resolve-deadline-flag/:flagId', auth, requirePermission('dispute.update', ofDispute()), catchAsync(async (req, res) => {
   const dispute = await PriorAuthorization.findOne({
     _id: req.params.id,
     isActive: true,
@@ -758,12 +1480,6 @@ router.post('/:id/resolve-deadline-flag/:flagId', auth, catchAsync(async (req, r
     return res.status(404).json({ message: 'Dispute not found' });
   }
 
-  // Check permissions
-  const hasPermission = await checkGroupPermission(req.user.id, dispute.patientGroup, 'edit');
-  if (!hasPermission) {
-    return res.status(403).json({ message: 'Insufficient permissions' });
-  }
-
   try {
     let deadlineMonitoringService;
     try {
@@ -0,0 +1,76 @@
+const express = require('express');
+const Job = require('../models/Job');
+const PatientGroup = require('../models/PatientGroup');
+const auth = require('../middleware/auth');
+const jobQueueService = require('../services/jobQueueService');
+const permissionService = require('../services/permissionService');
+
+const router = express.Router();
+
+// Jobs without a patient group are only visible to the user who queued them
+const canAccessJob = async (job, userId, permission) => {
+  if (job.requestedBy.toString() === userId.toString()) return true;
+  if (!job.patientGroup) return false;
+
+  const group = await PatientGroup.findOne({
+    _id: job.patientGroup,
+    isActive: true,
+  });
+  return Boolean(group) && permissionService.can(group, userId, permission);
+};
+
+// @route   GET /api/jobs/:jobId
+// @desc    Get job status and progress
+// @access  Private
+router.get('/:jobId', auth, async (req, res) => {
+  try {
+    const job = await Job.findById(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const hasPermission = await canAccessJob(job, req.user.id, 'patient.view');
+    if (!hasPermission) {
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/jobs/:jobId/cancel
+// @desc    Cancel a queued or running job
+// @access  Private
+router.post('/:jobId/cancel', auth, async (req, res) => {
+  try {
+    const job = await Job.findById(req.params.jobId);
+
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    const hasPermission = await canAccessJob(job, req.user.id, 'dispute.analyze');
+    if (!hasPermission) {
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+
+    const cancelledJob = await jobQueueService.cancel(job._id);
+    if (!cancelledJob) {
+      return res.status(400).json({ message: `Job has already ${job.status}` });
+    }
+
+    res.json({
+      success: true,
+      job: cancelledJob,
+    });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,390 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Organization = require('../models/Organization');
+const PatientGroup = require('../models/PatientGroup');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const User = require('../models/User');
+const auth = require('../middleware/auth');
+const deadlineMonitoringService = require('../services/deadlineMonitoringService');
+const { isValidTimeZone } = require('../services/deadlineCalculator');
+
+const router = express.Router();
+
+const ORGANIZATION_ROLES = ['org_admin', 'billing_manager', 'auditor', 'member'];
+const UPLOAD_TYPES = ['pdf', 'doc', 'docx', 'txt', 'csv', 'xlsx', 'xls', 'jpg', 'jpeg', 'png', 'gif'];
+const OPEN_STATUSES = ['pending', 'in_progress', 'submitted', 'under_review'];
+
+// Roles that see every group in the organization
+const CROSS_GROUP_ROLES = ['org_admin', 'billing_manager', 'auditor'];
+
+const MEMBER_FIELDS = 'firstName lastName email';
+
+const organizationValidation = [
+  body('name').optional().trim().notEmpty().withMessage('Organization name is required'),
+  body('emailDomains').optional().isArray(),
+  body('emailDomains.*').trim().toLowerCase().matches(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/).withMessage('Invalid email domain'),
+  body('settings.deadlineDefaults.timeZone').optional().custom(isValidTimeZone).withMessage('Unknown time zone'),
+  body('settings.deadlineDefaults.warningDays').optional().isInt({ min: 1, max: 90 }).withMessage('Warning threshold must be 1-90 days').toInt(),
+  body('settings.deadlineDefaults.urgentDays').optional().isInt({ min: 0, max: 30 }).withMessage('Urgent threshold must be 0-30 days').toInt(),
+  body('settings.deadlineDefaults.reminderDayType').optional().isIn(['calendar', 'business']),
+  body('settings.deadlineDefaults.filingClockStart').optional().isIn(['denial_date', 'received_date']),
+  body('settings.allowedUploadTypes').optional().isArray({ min: 1 }).withMessage('Allow at least one file type'),
+  body('settings.allowedUploadTypes.*').isIn(UPLOAD_TYPES),
+];
+
+// Loads the organization for a route, answering 404/403 itself unless the user holds one of `roles`
+const loadOrganization = async (req, res, roles = ORGANIZATION_ROLES) => {
+  const organization = await Organization.findOne({
+    _id: req.params.id,
+    isActive: true,
+  });
+
+  if (!organization || !organization.getMember(req.user.id)) {
+    res.status(404).json({ message: 'Organization not found' });
+    return null;
+  }
+
+  if (!roles.includes(organization.getRole(req.user.id))) {
+    res.status(403).json({ message: 'Insufficient permissions' });
+    return null;
+  }
+
+  return organization;
+};
+
+const countOrgAdmins = organization => organization.members.filter(member => member.role === 'org_admin').length;
+
+// @route   GET /api/organizations/current
+// @desc    Get the current user's organization and their role in it
+// @access  Private
+router.get('/current', auth, async (req, res) => {
+  try {
+    const organization = req.user.organization && await Organization.findOne({
+      _id: req.user.organization,
+      isActive: true,
+    }).populate('members.user', MEMBER_FIELDS);
+
+    if (!organization) {
+      return res.json({ success: true, organization: null, role: null });
+    }
+
+    res.json({
+      success: true,
+      organization,
+      role: organization.getRole(req.user.id),
+    });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/organizations
+// @desc    Create an organization; the creator becomes its admin and the groups they own move into it
+// @access  Private
+router.post('/', auth, [
+  body('name').trim().notEmpty().withMessage('Organization name is required'),
+  ...organizationValidation,
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (req.user.organization) {
+      return res.status(400).json({ message: 'You already belong to an organization' });
+    }
+
+    const { name, emailDomains = [], settings } = req.body;
+
+    const organization = new Organization({
+      name,
+      emailDomains,
+      createdBy: req.user.id,
+      members: [{
+        user: req.user.id,
+        role: 'org_admin',
+      }],
+      ...(settings && { settings }),
+    });
+
+    if (!organization.isEmailAllowed(req.user.email)) {
+      return res.status(400).json({ message: 'Your own email domain must be one of the organization\'s domains' });
+    }
+
+    const { warningDays, urgentDays } = organization.settings.deadlineDefaults;
+    if (urgentDays >= warningDays) {
+      return res.status(400).json({ message: 'Urgent threshold must be shorter than the warning threshold' });
+    }
+
+    await organization.save();
+
+    await User.findByIdAndUpdate(req.user.id, { organization: organization._id });
+    await PatientGroup.updateMany(
+      { owner: req.user.id, isActive: true, organization: { $exists: false } },
+      { organization: organization._id }
+    );
+
+    await organization.populate('members.user', MEMBER_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      organization,
+      role: 'org_admin',
+    });
+  } catch (error) {
+    console.error('Create organization error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/organizations/:id
+// @desc    Update the organization's name, email domains and org-wide settings
+// @access  Private (org admin)
+router.put('/:id', auth, organizationValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const organization = await loadOrganization(req, res, ['org_admin']);
+    if (!organization) return;
+
+    const { name, emailDomains, settings } = req.body;
+
+    if (name !== undefined) organization.name = name;
+    if (emailDomains !== undefined) organization.emailDomains = emailDomains;
+    if (settings?.deadlineDefaults) {
+      Object.assign(organization.settings.deadlineDefaults, settings.deadlineDefaults);
+    }
+    if (settings?.allowedUploadTypes) {
+      organization.settings.allowedUploadTypes = settings.allowedUploadTypes;
+    }
+
+    const { warningDays, urgentDays } = organization.settings.deadlineDefaults;
+    if (urgentDays >= warningDays) {
+      return res.status(400).json({ message: 'Urgent threshold must be shorter than the warning threshold' });
+    }
+
+    await organization.save();
+    await organization.populate('members.user', MEMBER_FIELDS);
+
+    res.json({
+      success: true,
+      organization,
+    });
+  } catch (error) {
+    console.error('Update organization error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/organizations/:id/members
+// @desc    Add an existing user to the organization
+// @access  Private (org admin)
+router.post('/:id/members', auth, [
+  body('email').isEmail().normalizeEmail(),
+  body('role').optional().isIn(ORGANIZATION_ROLES),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const organization = await loadOrganization(req, res, ['org_admin']);
+    if (!organization) return;
+
+    const { email, role = 'member' } = req.body;
+
+    if (!organization.isEmailAllowed(email)) {
+      return res.status(400).json({ message: `Only addresses at ${organization.emailDomains.join(', ')} can join this organization` });
+    }
+
+    const user = await User.findOne({ email });
+    if (!user) {
+      return res.status(404).json({ message: 'No user with that email address' });
+    }
+
+    if (user.organization) {
+      return res.status(400).json({
+        message: user.organization.equals(organization._id)
+          ? 'User is already a member'
+          : 'User belongs to another organization',
+      });
+    }
+
+    organization.members.push({ user: user._id, role });
+    await organization.save();
+
+    user.organization = organization._id;
+    await user.save();
+
+    await organization.populate('members.user', MEMBER_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      organization,
+    });
+  } catch (error) {
+    console.error('Add organization member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/organizations/:id/members/:userId
+// @desc    Change a member's organization role
+// @access  Private (org admin)
+router.put('/:id/members/:userId', auth, [
+  body('role').isIn(ORGANIZATION_ROLES),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const organization = await loadOrganization(req, res, ['org_admin']);
+    if (!organization) return;
+
+    const member = organization.getMember(req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (member.role === 'org_admin' && req.body.role !== 'org_admin' && countOrgAdmins(organization) === 1) {
+      return res.status(400).json({ message: 'The organization needs at least one admin' });
+    }
+
+    member.role = req.body.role;
+    await organization.save();
+    await organization.populate('members.user', MEMBER_FIELDS);
+
+    res.json({
+      success: true,
+      organization,
+    });
+  } catch (error) {
+    console.error('Update organization member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/organizations/:id/members/:userId
+// @desc    Remove a member from the organization (their own group memberships are kept)
+// @access  Private (org admin)
+router.delete('/:id/members/:userId', auth, async (req, res) => {
+  try {
+    const organization = await loadOrganization(req, res, ['org_admin']);
+    if (!organization) return;
+
+    const member = organization.getMember(req.params.userId);
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    if (member.role === 'org_admin' && countOrgAdmins(organization) === 1) {
+      return res.status(400).json({ message: 'The organization needs at least one admin' });
+    }
+
+    organization.members = organization.members.filter(m => m.user.toString() !== req.params.userId);
+    await organization.save();
+
+    await User.findByIdAndUpdate(req.params.userId, { $unset: { organization: '' } });
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully',
+    });
+  } catch (error) {
+    console.error('Remove organization member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/organizations/:id/overview
+// @desc    Dispute and deadline counts for every group in the organization
+// @access  Private (org admin, billing manager, auditor)
+router.get('/:id/overview', auth, async (req, res) => {
+  try {
+    const organization = await loadOrganization(req, res, CROSS_GROUP_ROLES);
+    if (!organization) return;
+
+    const groups = await PatientGroup.find({
+      organization: organization._id,
+      isActive: true,
+    }).select('name members patients').sort({ name: 1 });
+    const groupIds = groups.map(group => group._id);
+
+    const statusCounts = await PriorAuthorization.aggregate([
+      { $match: { patientGroup: { $in: groupIds }, isActive: true } },
+      { $group: { _id: { group: '$patientGroup', status: '$dispute.status' }, count: { $sum: 1 } } },
+    ]);
+
+    // Without groups the summary would fall back to the user's own disputes
+    const deadlineSummary = groupIds.length > 0
+      ? await deadlineMonitoringService.getDeadlineSummary(req.user.id, groupIds)
+      : { details: [] };
+
+    const emptyCounts = () => ({
+      total: 0,
+      open: 0,
+      approved: 0,
+      denied: 0,
+      byStatus: {},
+      deadlines: { overdue: 0, urgent: 0, warning: 0 },
+    });
+
+    const countsByGroup = new Map(groupIds.map(id => [id.toString(), emptyCounts()]));
+    statusCounts.forEach(({ _id, count }) => {
+      const counts = countsByGroup.get(_id.group.toString());
+      counts.total += count;
+      counts.byStatus[_id.status] = count;
+      if (OPEN_STATUSES.includes(_id.status)) counts.open += count;
+      if (_id.status === 'approved') counts.approved += count;
+      if (_id.status === 'denied') counts.denied += count;
+    });
+    deadlineSummary.details.forEach(detail => {
+      countsByGroup.get(detail.patientGroup.toString()).deadlines[detail.category]++;
+    });
+
+    const successRate = counts => (counts.approved + counts.denied > 0
+      ? Math.round((counts.approved / (counts.approved + counts.denied)) * 100)
+      : null);
+
+    const totals = emptyCounts();
+    const groupSummaries = groups.map(group => {
+      const counts = countsByGroup.get(group._id.toString());
+      ['total', 'open', 'approved', 'denied'].forEach(key => { totals[key] += counts[key]; });
+      Object.keys(totals.deadlines).forEach(key => { totals.deadlines[key] += counts.deadlines[key]; });
+
+      return {
+        _id: group._id,
+        name: group.name,
+        memberCount: group.members.length,
+        patientCount: group.patients.length,
+        ...counts,
+        successRate: successRate(counts),
+      };
+    });
+    delete totals.byStatus;
+
+    res.json({
+      success: true,
+      groups: groupSummaries,
+      totals: {
+        ...totals,
+        groups: groups.length,
+        patients: groupSummaries.reduce((sum, group) => sum + group.patientCount, 0),
+        successRate: successRate(totals),
+      },
+    });
+  } catch (error) {
+    console.error('Get organization overview error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
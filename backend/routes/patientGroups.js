@@ -1,40 +1,74 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
-const crypto = require('crypto');
+const multer = require('multer');
+const { body, query, validationResult } = require('express-validator');
+const path = require('path');
 const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const PriorAuthorization = require('../models/PriorAuthorization');
 const User = require('../models/User');
 const auth = require('../middleware/auth');
+const audit = require('../middleware/audit');
+const { requirePermission, inGroup } = require('../middleware/permissions');
+const { isValidTimeZone } = require('../services/deadlineCalculator');
+const auditLogService = require('../services/auditLogService');
+const permissionService = require('../services/permissionService');
+const invitationService = require('../services/invitationService');
+const documentStorageService = require('../services/documentStorageService');
+const fileDownloadService = require('../services/fileDownloadService');
+
+const { PERMISSIONS, PERMISSION_NAMES, BUILT_IN_ROLES } = permissionService;
+const { InvitationError } = invitationService;
 
 const router = express.Router();
 
+router.use(audit('patient_group'));
+
+// Configure multer for letterhead logo uploads (PNG/JPEG only, so exports can embed them); logos are
+// held in memory until they are saved to document storage
+const logoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = /jpeg|jpg|png/;
+    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
+    const mimetype = allowedTypes.test(file.mimetype);
+
+    if (mimetype && extname) {
+      return cb(null, true);
+    } else {
+      cb(new Error('Logo must be a PNG or JPEG image'));
+    }
+  },
+});
+
 // @route   GET /api/patient-groups
 // @desc    Get all patient groups for current user
 // @access  Private
 router.get('/', auth, async (req, res) => {
   try {
-    const user = await User.findById(req.user.id).populate({
-      path: 'patientGroups.group',
-      populate: {
-        path: 'owner',
-        select: 'firstName lastName email',
-      },
-    });
-
-    const patientGroups = await PatientGroup.find({
-      $or: [
-        { owner: req.user.id },
-        { 'members.user': req.user.id },
-      ],
-      isActive: true,
-    })
+    // Org admins, billing managers and auditors also see every group in their organization
+    const patientGroups = await PatientGroup.find(await PatientGroup.accessibleBy(req.user))
     .populate('owner', 'firstName lastName email')
     .populate('members.user', 'firstName lastName email')
-    .populate('patients')
     .sort({ updatedAt: -1 });
 
+    // Patients are only listed where the user's roles grant patient.view and the session meets the
+    // group's MFA requirement. Each group comes with the user's access so the list can offer the right actions.
+    const groups = await Promise.all(patientGroups.map(async group => {
+      const access = await permissionService.getAccess(group, req.user.id);
+      if (access?.permissions.includes('patient.view') && !permissionService.isBlockedByMfa(group, req)) {
+        await group.populate('patients');
+      } else {
+        group.patients = [];
+      }
+      return { ...group.toJSON(), access: { ...access, mfaRequired: permissionService.isBlockedByMfa(group, req) } };
+    }));
+
     res.json({
       success: true,
-      patientGroups,
+      patientGroups: groups,
     });
   } catch (error) {
     console.error('Get patient groups error:', error);
@@ -78,7 +112,18 @@ router.post('/', auth, [
       }],
     });
 
+    // Groups created inside an organization belong to it and start from its deadline defaults
+    const organization = req.user.organization && await Organization.findOne({
+      _id: req.user.organization,
+      isActive: true,
+    });
+    if (organization) {
+      patientGroup.organization = organization._id;
+      Object.assign(patientGroup.deadlineSettings, organization.settings.deadlineDefaults.toObject());
+    }
+
     await patientGroup.save();
+    res.locals.auditResourceId = patientGroup._id;
 
     // Add group to user's patientGroups
     await User.findByIdAndUpdate(req.user.id, {
@@ -110,36 +155,38 @@ router.get('/:id', auth, async (req, res) => {
   try {
     const patientGroup = await PatientGroup.findOne({
       _id: req.params.id,
-      $or: [
-        { owner: req.user.id },
-        { 'members.user': req.user.id },
-      ],
       isActive: true,
     })
     .populate('owner', 'firstName lastName email')
-    .populate('members.user', 'firstName lastName email')
-    .populate({
-      path: 'patients',
-      populate: {
-        path: 'priorAuthorizations',
-        select: 'dispute.status requestDetails.requestedService denial.denialDate',
-      },
-    });
+    .populate('members.user', 'firstName lastName email');
 
-    if (!patientGroup) {
+    // What the user can do here, from membership or an organization role
+    const access = patientGroup && await permissionService.getAccess(patientGroup, req.user.id);
+
+    if (!access) {
       return res.status(404).json({ message: 'Patient group not found' });
     }
 
-    // Get user's permission level
-    const userMember = patientGroup.members.find(
-      member => member.user._id.toString() === req.user.id.toString()
-    );
-    const userPermission = userMember ? userMember.permission : 'view';
+    // Patients are only listed to users with patient.view, from sessions that meet the group's MFA
+    // requirement
+    const mfaRequired = permissionService.isBlockedByMfa(patientGroup, req);
+    if (mfaRequired || !access.permissions.includes('patient.view')) {
+      patientGroup.patients = [];
+    } else {
+      await patientGroup.populate({
+        path: 'patients',
+        populate: {
+          path: 'priorAuthorizations',
+          select: 'dispute.status requestDetails.requestedService denial.denialDate',
+        },
+      });
+    }
 
     res.json({
       success: true,
       patientGroup,
-      userPermission,
+      permissions: access.permissions,
+      mfaRequired,
     });
   } catch (error) {
     console.error('Get patient group error:', error);
@@ -153,33 +200,29 @@ router.get('/:id', auth, async (req, res) => {
 router.put('/:id', auth, [
   body('name').optional().notEmpty().trim(),
   body('description').optional().trim(),
-], async (req, res) => {
+  body('settings.requireMfa').optional().isBoolean().toBoolean(),
+], requirePermission('group.update', inGroup()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const patientGroup = await PatientGroup.findOne({
-      _id: req.params.id,
-      isActive: true,
-    });
+    const { patientGroup } = req;
 
-    if (!patientGroup) {
-      return res.status(404).json({ message: 'Patient group not found' });
-    }
-
-    // Check if user has edit permission
-    const userMember = patientGroup.members.find(
-      member => member.user.toString() === req.user.id.toString()
-    );
+    const { name, description, settings } = req.body;
 
-    if (!userMember || !['edit', 'admin'].includes(userMember.permission)) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    // Requiring MFA decides who can open patients, so it is for those who manage members. Turning it on
+    // from a session without MFA would lock the admin out too.
+    if (settings?.requireMfa !== undefined) {
+      if (!req.access.permissions.includes('member.manage')) {
+        return res.status(403).json({ message: 'Insufficient permissions', permission: 'member.manage' });
+      }
+      if (settings.requireMfa && !req.mfaVerified) {
+        return res.status(400).json({ message: 'Turn on two-factor authentication for your own account before requiring it for the group' });
+      }
     }
 
-    const { name, description, settings } = req.body;
-
     if (name) patientGroup.name = name;
     if (description !== undefined) patientGroup.description = description;
     if (settings) patientGroup.settings = { ...patientGroup.settings, ...settings };
@@ -199,72 +242,329 @@ router.put('/:id', auth, [
   }
 });
 
-// @route   POST /api/patient-groups/:id/invite
-// @desc    Invite user to patient group
+// @route   PUT /api/patient-groups/:id/letterhead
+// @desc    Update the practice letterhead used on exported documents
 // @access  Private
-router.post('/:id/invite', auth, [
-  body('email').isEmail().normalizeEmail(),
-  body('permission').isIn(['view', 'edit']),
-], async (req, res) => {
+router.put('/:id/letterhead', auth, [
+  body('practiceName').optional().trim(),
+  body('address.street').optional().trim(),
+  body('address.city').optional().trim(),
+  body('address.state').optional().trim(),
+  body('address.zipCode').optional().trim(),
+  body('phone').optional().trim(),
+  body('fax').optional().trim(),
+  body('npi').optional({ checkFalsy: true }).matches(/^\d{10}$/).withMessage('NPI must be 10 digits'),
+  body('signature.name').optional().trim(),
+  body('signature.credentials').optional().trim(),
+  body('signature.title').optional().trim(),
+  body('signature.closing').optional().trim(),
+], requirePermission('group.update', inGroup()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { email, permission } = req.body;
+    const { patientGroup } = req;
 
-    const patientGroup = await PatientGroup.findOne({
-      _id: req.params.id,
+    const { practiceName, address, phone, fax, npi, signature } = req.body;
+    const letterhead = patientGroup.letterhead;
+
+    if (practiceName !== undefined) letterhead.practiceName = practiceName;
+    if (address) letterhead.address = { ...letterhead.address, ...address };
+    if (phone !== undefined) letterhead.phone = phone;
+    if (fax !== undefined) letterhead.fax = fax;
+    if (npi !== undefined) letterhead.npi = npi || undefined;
+    if (signature) letterhead.signature = { ...letterhead.signature, ...signature };
+
+    await patientGroup.save();
+
+    res.json({
+      success: true,
+      letterhead: patientGroup.letterhead,
+    });
+  } catch (error) {
+    console.error('Update letterhead error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/patient-groups/:id/letterhead/logo
+// @desc    Upload the practice logo for the letterhead
+// @access  Private
+router.post('/:id/letterhead/logo', auth, requirePermission('group.update', inGroup()), logoUpload.single('logo'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No logo uploaded' });
+    }
+
+    const { patientGroup } = req;
+
+    const { filename, contentHash, size } = await documentStorageService.save(req.file.buffer, {
+      contentType: req.file.mimetype,
+    });
+
+    patientGroup.letterhead.logo = {
+      filename,
+      contentHash,
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size,
+      uploadedAt: new Date(),
+    };
+
+    await patientGroup.save();
+
+    res.json({
+      success: true,
+      letterhead: patientGroup.letterhead,
+    });
+  } catch (error) {
+    console.error('Upload letterhead logo error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/patient-groups/:id/letterhead/logo
+// @desc    Get the practice logo image
+// @access  Private
+router.get('/:id/letterhead/logo', auth, requirePermission('patient.view', inGroup()), async (req, res) => {
+  try {
+    const { patientGroup } = req;
+
+    if (!patientGroup.letterhead.logo?.filename) {
+      return res.status(404).json({ message: 'Logo not found' });
+    }
+
+    await fileDownloadService.send(req, res, {
+      file: patientGroup.letterhead.logo,
+      kind: 'letterhead_logo',
+      disposition: 'inline',
+    });
+  } catch (error) {
+    console.error('Get letterhead logo error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/patient-groups/:id/deadline-settings
+// @desc    Update the group's time zone, reminder thresholds, filing clock and holidays, then recompute open deadlines
+// @access  Private
+router.put('/:id/deadline-settings', auth, [
+  body('timeZone').optional().custom(isValidTimeZone).withMessage('Unknown time zone'),
+  body('warningDays').optional().isInt({ min: 1, max: 90 }).withMessage('Warning threshold must be 1-90 days'),
+  body('urgentDays').optional().isInt({ min: 0, max: 30 }).withMessage('Urgent threshold must be 0-30 days'),
+  body('reminderDayType').optional().isIn(['calendar', 'business']),
+  body('filingClockStart').optional().isIn(['denial_date', 'received_date']),
+  body('holidays').optional().isArray(),
+  body('holidays.*.date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Holiday dates must be YYYY-MM-DD'),
+  body('holidays.*.name').optional().trim(),
+], requirePermission('group.update', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { patientGroup } = req;
+
+    const { timeZone, warningDays, urgentDays, reminderDayType, filingClockStart, holidays } = req.body;
+    const deadlineSettings = patientGroup.deadlineSettings;
+
+    if (timeZone !== undefined) deadlineSettings.timeZone = timeZone;
+    if (warningDays !== undefined) deadlineSettings.warningDays = warningDays;
+    if (urgentDays !== undefined) deadlineSettings.urgentDays = urgentDays;
+    if (reminderDayType !== undefined) deadlineSettings.reminderDayType = reminderDayType;
+    if (filingClockStart !== undefined) deadlineSettings.filingClockStart = filingClockStart;
+    if (holidays !== undefined) {
+      deadlineSettings.holidays = holidays.map(holiday => ({ date: holiday.date, name: holiday.name }));
+    }
+
+    if (deadlineSettings.urgentDays >= deadlineSettings.warningDays) {
+      return res.status(400).json({ message: 'Urgent threshold must be shorter than the warning threshold' });
+    }
+
+    await patientGroup.save();
+
+    // Recount open disputes with the new settings. Submitted appeals keep their filing deadline.
+    const settings = patientGroup.getDeadlineSettings();
+    const disputes = await PriorAuthorization.find({
+      patientGroup: patientGroup._id,
       isActive: true,
+      'dispute.status': { $in: ['pending', 'in_progress', 'submitted', 'under_review'] },
+    }).populate('payer');
+
+    for (const dispute of disputes) {
+      if (!dispute.dispute.submittedDate) {
+        dispute.applyPayerRules(dispute.payer, settings);
+      } else if (dispute.payer) {
+        dispute.setDecisionDueDate(dispute.payer, settings);
+      }
+      dispute.updateDeadlineFlags(settings);
+      await dispute.save();
+    }
+
+    res.json({
+      success: true,
+      deadlineSettings: patientGroup.deadlineSettings,
+      recalculated: disputes.length,
     });
+  } catch (error) {
+    console.error('Update deadline settings error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    if (!patientGroup) {
-      return res.status(404).json({ message: 'Patient group not found' });
+const auditLogFilters = [
+  query('search').optional().trim(),
+  query('user').optional().isMongoId(),
+  query('action').optional().isIn(['read', 'create', 'update', 'delete']),
+  query('resourceType').optional().isIn(['patient', 'dispute', 'patient_group']),
+  query('resourceId').optional().trim(),
+  query('patient').optional().isMongoId(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+];
+
+// @route   GET /api/patient-groups/:id/audit-log
+// @desc    Search the audit log of PHI access within the group
+// @access  Private (audit.view)
+router.get('/:id/audit-log', auth, [
+  ...auditLogFilters,
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+], requirePermission('audit.view', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
-    // Check if user has permission to invite
-    const userMember = patientGroup.members.find(
-      member => member.user.toString() === req.user.id.toString()
-    );
+    const { patientGroup } = req;
+
+    const { page = 1, limit = 50, ...filters } = req.query;
+    const result = await auditLogService.search(patientGroup._id, filters, { page, limit });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/patient-groups/:id/audit-log/export
+// @desc    Download matching audit log entries as CSV
+// @access  Private (audit.view)
+router.get('/:id/audit-log/export', auth, auditLogFilters, requirePermission('audit.view', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { patientGroup } = req;
 
-    if (!userMember || !['edit', 'admin'].includes(userMember.permission)) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    const filename = `audit-log-${patientGroup._id}-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    await auditLogService.exportCsv(patientGroup._id, req.query, res);
+    res.end();
+  } catch (error) {
+    console.error('Export audit log error:', error);
+    // Headers are gone once rows have been streamed
+    if (res.headersSent) {
+      return res.end();
     }
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    // Check if user is already a member
-    const existingMember = patientGroup.members.find(
-      member => member.user.email === email
-    );
+// @route   GET /api/patient-groups/:id/audit-log/verify
+// @desc    Check this group's audit log entries and their links in the hash chain for alterations
+// @access  Private (audit.view)
+router.get('/:id/audit-log/verify', auth, requirePermission('audit.view', inGroup()), async (req, res) => {
+  try {
+    const verification = await auditLogService.verifyGroupChain(req.patientGroup._id);
+
+    res.json({
+      success: true,
+      ...verification,
+    });
+  } catch (error) {
+    console.error('Verify audit log error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/patient-groups/:id/invite
+// @desc    Invite someone to the patient group by email; they get a join link that expires
+// @access  Private (member.invite)
+router.post('/:id/invite', auth, [
+  body('email').isEmail().normalizeEmail(),
+  body('permission').isIn(['view', 'edit']),
+  body('role').optional({ nullable: true }).isMongoId(),
+], requirePermission('member.invite', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
 
-    if (existingMember) {
+    const { email, permission, role } = req.body;
+    const { patientGroup } = req;
+
+    // Handing out a custom role is a role change, so it takes more than invite rights
+    if (role) {
+      if (!permissionService.getCustomRole(patientGroup, role)) {
+        return res.status(400).json({ message: 'Role not found' });
+      }
+      if (!req.access.permissions.includes('member.manage')) {
+        return res.status(403).json({ message: 'Insufficient permissions', permission: 'member.manage' });
+      }
+    }
+
+    // Groups in an organization only take members from its email domains
+    const organization = patientGroup.organization && await Organization.findById(patientGroup.organization);
+    if (organization && !organization.isEmailAllowed(email)) {
+      return res.status(400).json({ message: `Invitations are limited to ${organization.emailDomains.join(', ')} addresses` });
+    }
+
+    // Check if user is already a member
+    const invitedUser = await User.findOne({ email });
+    if (invitedUser && permissionService.getMember(patientGroup, invitedUser._id)) {
       return res.status(400).json({ message: 'User is already a member' });
     }
 
-    // Check if invitation already exists
+    // An expired invitation is replaced; a live one should be resent instead
     const existingInvite = patientGroup.pendingInvitations.find(
       invite => invite.email === email
     );
 
+    if (existingInvite && !invitationService.isExpired(existingInvite)) {
+      return res.status(400).json({ message: 'Invitation already sent. Resend it from the pending invitations list.' });
+    }
     if (existingInvite) {
-      return res.status(400).json({ message: 'Invitation already sent' });
+      patientGroup.pendingInvitations.pull(existingInvite._id);
     }
 
-    // Generate invitation token
-    const inviteToken = crypto.randomBytes(32).toString('hex');
-
-    // Add pending invitation
-    patientGroup.pendingInvitations.push({
+    const newInvitation = {
       email,
       permission,
+      role: role || undefined,
       invitedBy: req.user.id,
-      token: inviteToken,
-    });
+    };
+    const inviteToken = invitationService.issueToken(newInvitation);
+    patientGroup.pendingInvitations.push(newInvitation);
+    const invitation = patientGroup.pendingInvitations[patientGroup.pendingInvitations.length - 1];
+    const emailStatus = await invitationService.send(patientGroup, invitation, inviteToken, req.user);
 
     await patientGroup.save();
 
-    // Send notification to invited user (if they exist)
-    const invitedUser = await User.findOne({ email });
+    // Existing users also see the invitation in the app
     if (invitedUser) {
       invitedUser.notifications.push({
         type: 'invitation',
@@ -276,7 +576,14 @@ router.post('/:id/invite', auth, [
 
     res.json({
       success: true,
-      message: 'Invitation sent successfully',
+      message: {
+        sent: 'Invitation sent successfully',
+        not_configured: 'Invitation created, but email is not configured on this server',
+        failed: 'Invitation created, but the email could not be sent',
+      }[emailStatus],
+      emailSent: emailStatus === 'sent',
+      emailStatus,
+      invitation: invitationService.serialize(patientGroup, invitation),
       inviteToken: process.env.NODE_ENV === 'development' ? inviteToken : undefined,
     });
   } catch (error) {
@@ -285,66 +592,115 @@ router.post('/:id/invite', auth, [
   }
 });
 
-// @route   POST /api/patient-groups/join/:token
-// @desc    Join patient group with invitation token
-// @access  Private
-router.post('/join/:token', auth, async (req, res) => {
+// @route   GET /api/patient-groups/:id/invitations
+// @desc    List pending invitations, including expired ones that can still be resent
+// @access  Private (member.invite)
+router.get('/:id/invitations', auth, requirePermission('member.invite', inGroup()), async (req, res) => {
   try {
-    const { token } = req.params;
+    const { patientGroup } = req;
+    await patientGroup.populate('pendingInvitations.invitedBy', 'firstName lastName');
 
-    const patientGroup = await PatientGroup.findOne({
-      'pendingInvitations.token': token,
-      isActive: true,
+    res.json({
+      success: true,
+      invitations: patientGroup.pendingInvitations.map(invitation => invitationService.serialize(patientGroup, invitation)),
     });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    if (!patientGroup) {
-      return res.status(404).json({ message: 'Invalid invitation token' });
-    }
-
-    const invitation = patientGroup.pendingInvitations.find(
-      invite => invite.token === token
-    );
+// @route   POST /api/patient-groups/:id/invitations/:invitationId/resend
+// @desc    Email a new join link and restart the expiry; the previous link stops working
+// @access  Private (member.invite)
+router.post('/:id/invitations/:invitationId/resend', auth, requirePermission('member.invite', inGroup()), async (req, res) => {
+  try {
+    const { patientGroup } = req;
+    const invitation = patientGroup.pendingInvitations.id(req.params.invitationId);
 
     if (!invitation) {
       return res.status(404).json({ message: 'Invitation not found' });
     }
 
-    // Check if invitation is for current user
-    if (invitation.email !== req.user.email) {
-      return res.status(403).json({ message: 'This invitation is not for you' });
-    }
+    const inviteToken = invitationService.issueToken(invitation);
+    const emailStatus = await invitationService.send(patientGroup, invitation, inviteToken, req.user);
+    await patientGroup.save();
 
-    // Check if user is already a member
-    const existingMember = patientGroup.members.find(
-      member => member.user.toString() === req.user.id.toString()
-    );
+    res.json({
+      success: true,
+      message: {
+        sent: 'Invitation resent',
+        not_configured: 'Invitation renewed, but email is not configured on this server',
+        failed: 'Invitation renewed, but the email could not be sent',
+      }[emailStatus],
+      emailSent: emailStatus === 'sent',
+      emailStatus,
+      invitation: invitationService.serialize(patientGroup, invitation),
+      inviteToken: process.env.NODE_ENV === 'development' ? inviteToken : undefined,
+    });
+  } catch (error) {
+    console.error('Resend invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    if (existingMember) {
-      return res.status(400).json({ message: 'You are already a member' });
+// @route   DELETE /api/patient-groups/:id/invitations/:invitationId
+// @desc    Revoke a pending invitation so its link no longer works
+// @access  Private (member.invite)
+router.delete('/:id/invitations/:invitationId', auth, requirePermission('member.invite', inGroup()), async (req, res) => {
+  try {
+    const { patientGroup } = req;
+    const invitation = patientGroup.pendingInvitations.id(req.params.invitationId);
+
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
     }
 
-    // Add user to group
-    patientGroup.members.push({
-      user: req.user.id,
-      permission: invitation.permission,
-    });
+    patientGroup.pendingInvitations.pull(invitation._id);
+    await patientGroup.save();
 
-    // Remove pending invitation
-    patientGroup.pendingInvitations = patientGroup.pendingInvitations.filter(
-      invite => invite.token !== token
-    );
+    res.json({
+      success: true,
+      message: 'Invitation revoked',
+    });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    await patientGroup.save();
+// @route   GET /api/patient-groups/invitations/:token
+// @desc    Describe the invitation behind a join link, for the join and signup pages
+// @access  Public
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const { patientGroup, invitation } = await invitationService.findByToken(req.params.token);
+    const inviter = await User.findById(invitation.invitedBy).select('firstName lastName');
 
-    // Add group to user's patientGroups
-    await User.findByIdAndUpdate(req.user.id, {
-      $push: {
-        patientGroups: {
-          group: patientGroup._id,
-          permission: invitation.permission,
-        },
+    res.json({
+      success: true,
+      invitation: {
+        email: invitation.email,
+        groupName: patientGroup.name,
+        invitedBy: inviter ? `${inviter.firstName} ${inviter.lastName}` : null,
+        expiresAt: invitationService.getExpiresAt(invitation),
       },
     });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Get invitation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/patient-groups/join/:token
+// @desc    Join patient group with invitation token
+// @access  Private
+router.post('/join/:token', auth, async (req, res) => {
+  try {
+    const patientGroup = await invitationService.accept(req.params.token, req.user);
 
     await patientGroup.populate('owner', 'firstName lastName email');
     await patientGroup.populate('members.user', 'firstName lastName email');
@@ -355,34 +711,227 @@ router.post('/join/:token', auth, async (req, res) => {
       patientGroup,
     });
   } catch (error) {
+    if (error instanceof InvitationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
     console.error('Join patient group error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// @route   DELETE /api/patient-groups/:id/members/:userId
-// @desc    Remove member from patient group
+// @route   GET /api/patient-groups/:id/permissions
+// @desc    Get the current user's role and effective permissions in the group
 // @access  Private
-router.delete('/:id/members/:userId', auth, async (req, res) => {
+router.get('/:id/permissions', auth, async (req, res) => {
   try {
     const patientGroup = await PatientGroup.findOne({
       _id: req.params.id,
       isActive: true,
     });
 
-    if (!patientGroup) {
+    const access = patientGroup && await permissionService.getAccess(patientGroup, req.user.id);
+
+    if (!access) {
       return res.status(404).json({ message: 'Patient group not found' });
     }
 
-    // Check if user has admin permission
-    const userMember = patientGroup.members.find(
-      member => member.user.toString() === req.user.id.toString()
-    );
+    res.json({
+      success: true,
+      ...access,
+      mfaRequired: permissionService.isBlockedByMfa(patientGroup, req),
+    });
+  } catch (error) {
+    console.error('Get group permissions error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
-    if (!userMember || userMember.permission !== 'admin') {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+// @route   GET /api/patient-groups/:id/roles
+// @desc    List the permissions, the built-in roles and the group's custom roles
+// @access  Private
+router.get('/:id/roles', auth, requirePermission('patient.view', inGroup()), async (req, res) => {
+  res.json({
+    success: true,
+    permissions: PERMISSIONS,
+    builtInRoles: BUILT_IN_ROLES,
+    roles: req.patientGroup.roles,
+  });
+});
+
+const roleValidation = [
+  body('name').trim().notEmpty().withMessage('Role name is required'),
+  body('description').optional().trim(),
+  body('permissions').isArray().withMessage('Permissions must be a list'),
+  body('permissions.*').isIn(PERMISSION_NAMES).withMessage('Unknown permission'),
+];
+
+// Custom role names can't repeat each other or the built-in levels
+const isRoleNameTaken = (patientGroup, name, roleId) => {
+  const normalized = name.toLowerCase();
+  return Object.keys(BUILT_IN_ROLES).includes(normalized)
+    || patientGroup.roles.some(role => role.name.toLowerCase() === normalized && !role._id.equals(roleId));
+};
+
+// @route   POST /api/patient-groups/:id/roles
+// @desc    Create a custom role bundling named permissions
+// @access  Private (role.manage)
+router.post('/:id/roles', auth, roleValidation, requirePermission('role.manage', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
 
+    const { patientGroup } = req;
+    const { name, description, permissions } = req.body;
+
+    if (isRoleNameTaken(patientGroup, name)) {
+      return res.status(400).json({ message: 'A role with this name already exists' });
+    }
+
+    patientGroup.roles.push({ name, description, permissions: [...new Set(permissions)] });
+    await patientGroup.save();
+
+    res.status(201).json({
+      success: true,
+      role: patientGroup.roles[patientGroup.roles.length - 1],
+    });
+  } catch (error) {
+    console.error('Create role error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/patient-groups/:id/roles/:roleId
+// @desc    Rename a custom role or change its permissions; members holding it pick up the change
+// @access  Private (role.manage)
+router.put('/:id/roles/:roleId', auth, roleValidation, requirePermission('role.manage', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { patientGroup } = req;
+    const role = patientGroup.roles.id(req.params.roleId);
+
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+
+    const { name, description, permissions } = req.body;
+
+    if (isRoleNameTaken(patientGroup, name, role._id)) {
+      return res.status(400).json({ message: 'A role with this name already exists' });
+    }
+
+    role.name = name;
+    role.description = description;
+    role.permissions = [...new Set(permissions)];
+    await patientGroup.save();
+
+    res.json({
+      success: true,
+      role,
+    });
+  } catch (error) {
+    console.error('Update role error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/patient-groups/:id/roles/:roleId
+// @desc    Delete a custom role; its members fall back to their built-in permission level
+// @access  Private (role.manage)
+router.delete('/:id/roles/:roleId', auth, requirePermission('role.manage', inGroup()), async (req, res) => {
+  try {
+    const { patientGroup } = req;
+    const role = patientGroup.roles.id(req.params.roleId);
+
+    if (!role) {
+      return res.status(404).json({ message: 'Role not found' });
+    }
+
+    patientGroup.members.forEach(member => {
+      if (member.role?.equals(role._id)) member.role = undefined;
+    });
+    patientGroup.pendingInvitations.forEach(invitation => {
+      if (invitation.role?.equals(role._id)) invitation.role = undefined;
+    });
+    patientGroup.roles.pull(role._id);
+    await patientGroup.save();
+
+    res.json({
+      success: true,
+      message: 'Role deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/patient-groups/:id/members/:userId
+// @desc    Change a member's permission level or custom role (null clears the custom role)
+// @access  Private (member.manage)
+router.put('/:id/members/:userId', auth, [
+  body('permission').optional().isIn(['view', 'edit', 'admin']),
+  body('role').optional({ nullable: true }).isMongoId(),
+], requirePermission('member.manage', inGroup()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { patientGroup } = req;
+    const member = permissionService.getMember(patientGroup, req.params.userId);
+
+    if (!member) {
+      return res.status(404).json({ message: 'Member not found' });
+    }
+
+    // The owner always keeps full control of the group
+    if (patientGroup.owner.toString() === req.params.userId) {
+      return res.status(400).json({ message: 'Cannot change the group owner\'s role' });
+    }
+
+    const { permission, role } = req.body;
+
+    if (role && !permissionService.getCustomRole(patientGroup, role)) {
+      return res.status(400).json({ message: 'Role not found' });
+    }
+
+    if (permission) member.permission = permission;
+    if (role !== undefined) member.role = role || undefined;
+    await patientGroup.save();
+
+    if (permission) {
+      await User.updateOne(
+        { _id: req.params.userId, 'patientGroups.group': patientGroup._id },
+        { $set: { 'patientGroups.$.permission': permission } }
+      );
+    }
+
+    await patientGroup.populate('members.user', 'firstName lastName email');
+
+    res.json({
+      success: true,
+      member: permissionService.getMember(patientGroup, req.params.userId),
+    });
+  } catch (error) {
+    console.error('Update member error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/patient-groups/:id/members/:userId
+// @desc    Remove member from patient group
+// @access  Private
+router.delete('/:id/members/:userId', auth, requirePermission('member.manage', inGroup()), async (req, res) => {
+  try {
+    const { patientGroup } = req;
+
     // Don't allow removing the owner
     if (patientGroup.owner.toString() === req.params.userId) {
       return res.status(400).json({ message: 'Cannot remove group owner' });
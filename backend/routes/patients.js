@@ -4,23 +4,21 @@ const { body, validationResult } = require('express-validator');
 const Patient = require('../models/Patient');
 const PatientGroup = require('../models/PatientGroup');
 const auth = require('../middleware/auth');
+const audit = require('../middleware/audit');
+const signedUrl = require('../middleware/signedUrl');
+const { requirePermission, filePermission, inGroup, ofPatient } = require('../middleware/permissions');
+const fileDownloadService = require('../services/fileDownloadService');
+const documentStorageService = require('../services/documentStorageService');
+const signedUrlService = require('../services/signedUrlService');
 const path = require('path');
 
 const router = express.Router();
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, 'uploads/');
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  },
-});
+router.use(audit('patient'));
 
+// Configure multer for file uploads; files are held in memory until they are saved to document storage
 const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
@@ -37,46 +35,24 @@ const upload = multer({
   },
 });
 
-// Helper function to check user permissions
-const checkGroupPermission = async (userId, groupId, requiredPermission = 'view') => {
-  const group = await PatientGroup.findOne({
-    _id: groupId,
-    isActive: true,
-  });
-
-  if (!group) return false;
-
-  const member = group.members.find(m => m.user.toString() === userId.toString());
-  if (!member) return false;
-
-  if (requiredPermission === 'view') {
-    return ['view', 'edit', 'admin'].includes(member.permission);
-  } else if (requiredPermission === 'edit') {
-    return ['edit', 'admin'].includes(member.permission);
-  } else if (requiredPermission === 'admin') {
-    return member.permission === 'admin';
-  }
-
-  return false;
-};
-
 // @route   GET /api/patients/group/:groupId
-// @desc    Get all patients in a group
+// @desc    Get all patients in a group (exact-match `patientId` or `policyNumber` to look one up)
 // @access  Private
-router.get('/group/:groupId', auth, async (req, res) => {
+router.get('/group/:groupId', auth, requirePermission('patient.view', inGroup('groupId')), async (req, res) => {
   try {
-    const hasPermission = await checkGroupPermission(req.user.id, req.params.groupId, 'view');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
+    // Identifiers are encrypted, so match on their blind indexes
+    const { patientId, policyNumber } = req.query;
     const patients = await Patient.find({
       patientGroup: req.params.groupId,
       isActive: true,
+      ...(patientId && Patient.blindIndexFilter('patientId', patientId)),
+      ...(policyNumber && Patient.blindIndexFilter('insuranceInfo.policyNumber', policyNumber)),
     })
     .populate('createdBy', 'firstName lastName')
-    .populate('priorAuthorizations')
-    .sort({ lastName: 1, firstName: 1 });
+    .populate('priorAuthorizations');
+
+    // Names are encrypted at rest, so sort after decrypting
+    patients.sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
 
     res.json({
       success: true,
@@ -91,7 +67,7 @@ router.get('/group/:groupId', auth, async (req, res) => {
 // @route   GET /api/patients/:id
 // @desc    Get specific patient
 // @access  Private
-router.get('/:id', auth, async (req, res) => {
+router.get('/:id', auth, requirePermission('patient.view', ofPatient()), async (req, res) => {
   try {
     const patient = await Patient.findOne({
       _id: req.params.id,
@@ -111,12 +87,6 @@ router.get('/:id', auth, async (req, res) => {
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup._id, 'view');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     res.json({
       success: true,
       patient,
@@ -137,7 +107,8 @@ router.post('/', auth, [
   body('patientGroup').isMongoId(),
   body('insuranceInfo.provider').notEmpty(),
   body('insuranceInfo.policyNumber').notEmpty(),
-], async (req, res) => {
+  body('insuranceInfo.payer').optional({ nullable: true, checkFalsy: true }).isMongoId(),
+], requirePermission('patient.create', inGroup('patientGroup', 'body')), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -146,18 +117,13 @@ router.post('/', auth, [
 
     const { patientGroup: groupId } = req.body;
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, groupId, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     const patient = new Patient({
       ...req.body,
       createdBy: req.user.id,
     });
 
     await patient.save();
+    res.locals.auditResourceId = patient._id;
 
     // Add patient to group
     await PatientGroup.findByIdAndUpdate(groupId, {
@@ -172,6 +138,9 @@ router.post('/', auth, [
       patient,
     });
   } catch (error) {
+    if (error.code === 11000 && error.keyPattern?.patientIdIndex) {
+      return res.status(400).json({ message: 'A patient with this patient ID already exists' });
+    }
     console.error('Create patient error:', error);
     res.status(500).json({ message: 'Server error' });
   }
@@ -184,7 +153,7 @@ router.put('/:id', auth, [
   body('firstName').optional().notEmpty().trim(),
   body('lastName').optional().notEmpty().trim(),
   body('dateOfBirth').optional().isISO8601(),
-], async (req, res) => {
+], requirePermission('patient.update', ofPatient()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -200,15 +169,9 @@ router.put('/:id', auth, [
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     // Update patient fields
     Object.keys(req.body).forEach(key => {
-      if (key !== 'patientGroup' && key !== 'createdBy') {
+      if (!['patientGroup', 'createdBy', 'patientIdIndex'].includes(key)) {
         patient[key] = req.body[key];
       }
     });
@@ -223,6 +186,9 @@ router.put('/:id', auth, [
       patient,
     });
   } catch (error) {
+    if (error.code === 11000 && error.keyPattern?.patientIdIndex) {
+      return res.status(400).json({ message: 'A patient with this patient ID already exists' });
+    }
     console.error('Update patient error:', error);
     res.status(500).json({ message: 'Server error' });
   }
@@ -231,7 +197,7 @@ router.put('/:id', auth, [
 // @route   POST /api/patients/:id/documents
 // @desc    Upload document for patient
 // @access  Private
-router.post('/:id/documents', auth, upload.single('document'), async (req, res) => {
+router.post('/:id/documents', auth, upload.single('document'), requirePermission('document.upload', ofPatient()), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ message: 'No file uploaded' });
@@ -246,17 +212,20 @@ router.post('/:id/documents', auth, upload.single('document'), async (req, res)
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
+    if (!(await PatientGroup.isUploadAllowed(patient.patientGroup, req.file))) {
+      return res.status(400).json({ message: 'This file type is not allowed by your organization' });
     }
 
+    const { filename, contentHash, size } = await documentStorageService.save(req.file.buffer, {
+      contentType: req.file.mimetype,
+    });
+
     const document = {
-      filename: req.file.filename,
+      filename,
+      contentHash,
       originalName: req.file.originalname,
       mimeType: req.file.mimetype,
-      size: req.file.size,
+      size,
       uploadedBy: req.user.id,
       documentType: req.body.documentType || 'other',
       description: req.body.description || '',
@@ -276,10 +245,85 @@ router.post('/:id/documents', auth, upload.single('document'), async (req, res)
   }
 });
 
+// @route   GET /api/patients/:id/documents/:documentId/download
+// @route   GET /api/patients/:id/documents/:documentId/preview
+// @desc    Stream a patient document as a download or for inline viewing (supports range requests)
+// @access  Private (Authorization header or a signed URL)
+router.get('/:id/documents/:documentId/:mode(download|preview)', signedUrl, requirePermission(req => filePermission(req.params.mode), ofPatient()), async (req, res) => {
+  try {
+    const patient = await Patient.findOne({
+      _id: req.params.id,
+      isActive: true,
+    }).select('patientGroup documents');
+
+    if (!patient) {
+      return res.status(404).json({ message: 'Patient not found' });
+    }
+
+    const document = patient.documents.id(req.params.documentId);
+    if (!document) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    await fileDownloadService.send(req, res, {
+      file: document,
+      kind: 'patient_document',
+      disposition: req.params.mode === 'preview' ? 'inline' : 'attachment',
+    });
+  } catch (error) {
+    console.error('Download document error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/patients/:id/documents/:documentId/signed-url
+// @desc    Get a short-lived link to preview or download a document without the Authorization header
+// @access  Private
+router.post('/:id/documents/:documentId/signed-url', auth, [
+  body('mode').optional().isIn(['download', 'preview']),
+  body('expiresIn').optional().isInt({ min: 30, max: 3600 }).toInt(),
+], requirePermission(req => filePermission(req.body.mode), ofPatient()), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const patient = await Patient.findOne({
+      _id: req.params.id,
+      isActive: true,
+    }).select('patientGroup documents');
+
+    if (!patient) {
+      return res.status(404).json({ message: 'Patient not found' });
+    }
+
+    if (!patient.documents.id(req.params.documentId)) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    const { mode = 'preview', expiresIn } = req.body;
+    const { url, expiresAt } = signedUrlService.sign(
+      req,
+      `${req.baseUrl}/${patient._id}/documents/${req.params.documentId}/${mode}`,
+      { expiresIn }
+    );
+
+    res.json({
+      success: true,
+      url,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error('Sign document URL error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   DELETE /api/patients/:id/documents/:documentId
 // @desc    Delete patient document
 // @access  Private
-router.delete('/:id/documents/:documentId', auth, async (req, res) => {
+router.delete('/:id/documents/:documentId', auth, requirePermission('document.delete', ofPatient()), async (req, res) => {
   try {
     const patient = await Patient.findOne({
       _id: req.params.id,
@@ -290,12 +334,6 @@ router.delete('/:id/documents/:documentId', auth, async (req, res) => {
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     // Find and remove document
     const documentIndex = patient.documents.findIndex(
       doc => doc._id.toString() === req.params.documentId
@@ -323,7 +361,7 @@ router.delete('/:id/documents/:documentId', auth, async (req, res) => {
 // @access  Private
 router.post('/:id/notes', auth, [
   body('content').notEmpty().trim(),
-], async (req, res) => {
+], requirePermission('patient.update', ofPatient()), async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -339,12 +377,6 @@ router.post('/:id/notes', auth, [
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     const note = {
       content: req.body.content,
       createdBy: req.user.id,
@@ -368,7 +400,7 @@ router.post('/:id/notes', auth, [
 // @route   DELETE /api/patients/:id
 // @desc    Delete patient
 // @access  Private
-router.delete('/:id', auth, async (req, res) => {
+router.delete('/:id', auth, requirePermission('patient.delete', ofPatient()), async (req, res) => {
   try {
     const patient = await Patient.findOne({
       _id: req.params.id,
@@ -379,12 +411,6 @@ router.delete('/:id', auth, async (req, res) => {
       return res.status(404).json({ message: 'Patient not found' });
     }
 
-    // Check permissions
-    const hasPermission = await checkGroupPermission(req.user.id, patient.patientGroup, 'edit');
-    if (!hasPermission) {
-      return res.status(403).json({ message: 'Insufficient permissions' });
-    }
-
     // Soft delete
     patient.isActive = false;
     await patient.save();
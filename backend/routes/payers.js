@@ -0,0 +1,220 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const Payer = require('../models/Payer');
+const auth = require('../middleware/auth');
+
+const router = express.Router();
+
+// The payer registry is shared by every practice, so only admins may change it
+const requireAdmin = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json({ message: 'Only administrators can manage payer profiles' });
+  }
+  next();
+};
+
+const EDITABLE_FIELDS = [
+  'name',
+  'aliases',
+  'payerId',
+  'planType',
+  'appealLevels',
+  'expeditedReview',
+  'externalReview',
+  'submission',
+  'requiredForms',
+  'denialCodes',
+  'notes',
+];
+
+const payerValidation = [
+  body('name').optional().trim().notEmpty().withMessage('Payer name is required'),
+  body('aliases').optional().isArray(),
+  body('planType').optional().isIn(['commercial', 'medicare_advantage', 'medicaid', 'other']),
+  body('appealLevels').optional().isArray(),
+  body('appealLevels.*.level').isInt({ min: 1 }).withMessage('Appeal level must be a positive number'),
+  body('appealLevels.*.name').trim().notEmpty().withMessage('Appeal level name is required'),
+  body('appealLevels.*.filingWindowDays').isInt({ min: 1, max: 730 }).withMessage('Filing window must be between 1 and 730 days'),
+  body('appealLevels.*.decisionTurnaroundDays').optional({ nullable: true }).isInt({ min: 1, max: 365 }).withMessage('Decision turnaround must be between 1 and 365 days'),
+  body('appealLevels.*.filingDayType').optional().isIn(['calendar', 'business']),
+  body('appealLevels.*.decisionDayType').optional().isIn(['calendar', 'business']),
+  body('appealLevels.*.filingClockStart').optional({ nullable: true, checkFalsy: true }).isIn(['denial_date', 'received_date']),
+  body('expeditedReview.available').optional().isBoolean(),
+  body('expeditedReview.turnaroundHours').optional({ nullable: true }).isInt({ min: 1, max: 720 }).withMessage('Expedited turnaround must be between 1 and 720 hours'),
+  body('externalReview.available').optional().isBoolean(),
+  body('externalReview.filingWindowDays').optional({ nullable: true }).isInt({ min: 1, max: 730 }).withMessage('External review filing window must be between 1 and 730 days'),
+  body('externalReview.filingDayType').optional().isIn(['calendar', 'business']),
+  body('externalReview.decisionTurnaroundDays').optional({ nullable: true }).isInt({ min: 1, max: 365 }).withMessage('External review turnaround must be between 1 and 365 days'),
+  body('submission.preferredChannel').optional().isIn(['fax', 'portal', 'mail']),
+  body('submission.portalUrl').optional({ checkFalsy: true }).isURL().withMessage('Portal URL must be a valid URL'),
+  body('requiredForms').optional().isArray(),
+  body('requiredForms.*.name').trim().notEmpty().withMessage('Form name is required'),
+  body('denialCodes').optional().isArray(),
+  body('denialCodes.*.code').trim().notEmpty().withMessage('Denial code is required'),
+  body('denialCodes.*.description').trim().notEmpty().withMessage('Denial code description is required'),
+];
+
+// Appeal levels are kept in order so level 1 always comes first
+const applyPayerFields = (payer, values) => {
+  EDITABLE_FIELDS.forEach(field => {
+    if (values[field] !== undefined) {
+      payer[field] = values[field];
+    }
+  });
+  payer.appealLevels.sort((a, b) => a.level - b.level);
+};
+
+// @route   GET /api/payers
+// @desc    List payer profiles
+// @access  Private
+router.get('/', auth, async (req, res) => {
+  try {
+    const filter = { isActive: true };
+    if (req.query.search) {
+      const pattern = new RegExp(req.query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: pattern }, { aliases: pattern }, { payerId: pattern }];
+    }
+
+    const payers = await Payer.find(filter)
+      .select('name aliases payerId planType appealLevels expeditedReview submission.preferredChannel')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      payers,
+    });
+  } catch (error) {
+    console.error('Get payers error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/payers/match
+// @desc    Find the payer profile for a free-text insurance provider name
+// @access  Private
+router.get('/match', auth, async (req, res) => {
+  try {
+    const payer = await Payer.findByProviderName(req.query.provider);
+
+    res.json({
+      success: true,
+      payer,
+    });
+  } catch (error) {
+    console.error('Match payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/payers/:id
+// @desc    Get a payer profile
+// @access  Private
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const payer = await Payer.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!payer) {
+      return res.status(404).json({ message: 'Payer not found' });
+    }
+
+    res.json({
+      success: true,
+      payer,
+    });
+  } catch (error) {
+    console.error('Get payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   POST /api/payers
+// @desc    Create a payer profile
+// @access  Private (admin)
+router.post('/', [auth, requireAdmin, body('name').trim().notEmpty().withMessage('Payer name is required'), ...payerValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const existing = await Payer.findByProviderName(req.body.name);
+    if (existing) {
+      return res.status(400).json({ message: `A payer profile for "${existing.name}" already exists` });
+    }
+
+    const payer = new Payer({ createdBy: req.user.id, updatedBy: req.user.id });
+    applyPayerFields(payer, req.body);
+    await payer.save();
+
+    res.status(201).json({
+      success: true,
+      payer,
+    });
+  } catch (error) {
+    console.error('Create payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   PUT /api/payers/:id
+// @desc    Update a payer profile
+// @access  Private (admin)
+router.put('/:id', [auth, requireAdmin, ...payerValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const payer = await Payer.findOne({
+      _id: req.params.id,
+      isActive: true,
+    });
+
+    if (!payer) {
+      return res.status(404).json({ message: 'Payer not found' });
+    }
+
+    applyPayerFields(payer, req.body);
+    payer.updatedBy = req.user.id;
+    await payer.save();
+
+    res.json({
+      success: true,
+      payer,
+    });
+  } catch (error) {
+    console.error('Update payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/payers/:id
+// @desc    Deactivate a payer profile (linked disputes keep their deadlines)
+// @access  Private (admin)
+router.delete('/:id', auth, requireAdmin, async (req, res) => {
+  try {
+    const payer = await Payer.findOneAndUpdate(
+      { _id: req.params.id, isActive: true },
+      { isActive: false, updatedBy: req.user.id },
+      { new: true }
+    );
+
+    if (!payer) {
+      return res.status(404).json({ message: 'Payer not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Payer deactivated',
+    });
+  } catch (error) {
+    console.error('Delete payer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+module.exports = router;
@@ -1,6 +1,8 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
+const NotificationDelivery = require('../models/NotificationDelivery');
+const { getNotificationConfig } = require('../config/notifications');
 const auth = require('../middleware/auth');
 
 const router = express.Router();
@@ -180,6 +182,116 @@ router.delete('/notifications/:notificationId', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/users/push/public-key
+// @desc    Get the VAPID public key browsers need to subscribe to web push
+// @access  Private
+router.get('/push/public-key', auth, (req, res) => {
+  const { publicKey } = getNotificationConfig().push;
+
+  res.json({
+    success: true,
+    enabled: Boolean(publicKey),
+    publicKey: publicKey || null,
+  });
+});
+
+// @route   POST /api/users/push/subscriptions
+// @desc    Register this browser for web push notifications
+// @access  Private
+router.post('/push/subscriptions', auth, [
+  body('endpoint').isURL({ protocols: ['https'], require_tld: false }),
+  body('keys.p256dh').notEmpty(),
+  body('keys.auth').notEmpty(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await User.findById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const { endpoint, keys } = req.body;
+
+    // Re-subscribing the same browser replaces its keys
+    user.pushSubscriptions = user.pushSubscriptions.filter(sub => sub.endpoint !== endpoint);
+    user.pushSubscriptions.push({
+      endpoint,
+      keys: { p256dh: keys.p256dh, auth: keys.auth },
+      userAgent: req.get('user-agent'),
+    });
+    await user.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Push notifications enabled for this browser',
+    });
+  } catch (error) {
+    console.error('Add push subscription error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   DELETE /api/users/push/subscriptions
+// @desc    Remove this browser's web push subscription
+// @access  Private
+router.delete('/push/subscriptions', auth, [
+  body('endpoint').notEmpty(),
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const user = await User.findById(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    user.pushSubscriptions = user.pushSubscriptions.filter(sub => sub.endpoint !== req.body.endpoint);
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Push notifications disabled for this browser',
+    });
+  } catch (error) {
+    console.error('Remove push subscription error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// @route   GET /api/users/notifications/deliveries
+// @desc    Get the delivery log for the current user's notifications
+// @access  Private
+router.get('/notifications/deliveries', auth, async (req, res) => {
+  try {
+    const query = { user: req.user.id };
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+    if (req.query.channel) {
+      query.channel = req.query.channel;
+    }
+
+    const deliveries = await NotificationDelivery.find(query)
+      .sort({ createdAt: -1 })
+      .limit(Math.min(parseInt(req.query.limit, 10) || 50, 200));
+
+    res.json({
+      success: true,
+      deliveries,
+    });
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // @route   GET /api/users/search
 // @desc    Search users by email (for invitations)
 // @access  Private
@@ -0,0 +1,33 @@
+// scripts/migrateEncryption.js
+// Encrypts PHI stored before field encryption, re-encrypts values under retired keys after a rotation
+// and fills in blind indexes. Safe to re-run. Usage: npm run migrate:encryption
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+const Patient = require('../models/Patient');
+const PriorAuthorization = require('../models/PriorAuthorization');
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGO_URI);
+
+  for (const Model of [Patient, PriorAuthorization]) {
+    const { scanned, updated } = await Model.migrateEncryption();
+    console.log(`${Model.modelName}: ${updated} of ${scanned} documents updated`);
+  }
+
+  // Swap the plaintext patientId/name indexes for the blind index ones
+  const dropped = await Patient.syncIndexes();
+  if (dropped.length > 0) {
+    console.log(`Patient: dropped indexes ${dropped.join(', ')}`);
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('Encryption migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,164 @@
+// scripts/migrateStorage.js
+// Moves uploaded patient documents, denial letters and letterhead logos, and assembled appeal packets,
+// into document storage. Safe to re-run.
+//
+//   npm run migrate:storage                          # files uploaded before storage drivers -> STORAGE_DRIVER
+//   npm run migrate:storage -- --from local --to s3  # also copy everything already stored in one backend to another
+//
+// --delete-source removes each file from where it was copied from once the copy is in place.
+// Switch STORAGE_DRIVER to the new backend after copying between backends.
+const fs = require('fs/promises');
+const path = require('path');
+const mongoose = require('mongoose');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+const Patient = require('../models/Patient');
+const PatientGroup = require('../models/PatientGroup');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const documentStorageService = require('../services/documentStorageService');
+const { getStorageDriver } = require('../services/storage');
+
+const { LEGACY_DIRECTORIES } = documentStorageService;
+
+const option = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+const deleteSource = process.argv.includes('--delete-source');
+
+// Copies every stored file from one driver to another, checking each against its hash on the way
+const copyStoredFiles = async (source, target) => {
+  let copied = 0;
+  let skipped = 0;
+
+  for await (const key of source.keys()) {
+    if (await target.exists(key)) {
+      skipped++;
+    } else {
+      const data = await source.get(key);
+      if (!data || documentStorageService.hashContent(data) !== key) {
+        console.warn(`Skipping ${key}: contents do not match the key`);
+        continue;
+      }
+      await target.put(key, data);
+      copied++;
+    }
+
+    if (deleteSource) {
+      await source.delete(key);
+    }
+  }
+
+  console.log(`Copied ${copied} files from ${source.name} to ${target.name} (${skipped} already there)`);
+};
+
+// Saves one pre-storage file into the target driver. Returns the new filename/contentHash, or null if it is gone.
+const importLegacyFile = async (file, kind, target) => {
+  const data = await documentStorageService.readLegacy(file, kind);
+  if (!data) {
+    console.warn(`Missing ${kind} ${file.filename} in ${LEGACY_DIRECTORIES[kind]}`);
+    return null;
+  }
+
+  const { filename, contentHash } = await documentStorageService.save(data, { contentType: file.mimeType, driver: target });
+  if (deleteSource) {
+    await fs.rm(path.join(LEGACY_DIRECTORIES[kind], path.basename(file.filename)), { force: true });
+  }
+  return { filename, contentHash };
+};
+
+const importLegacyFiles = async (target) => {
+  let imported = 0;
+
+  const patients = Patient.find({
+    documents: { $elemMatch: { contentHash: { $exists: false } } },
+  }).select('documents').lean().cursor();
+
+  for await (const patient of patients) {
+    for (const document of patient.documents.filter(doc => !doc.contentHash)) {
+      const stored = await importLegacyFile(document, 'patient_document', target);
+      if (!stored) continue;
+
+      await Patient.updateOne(
+        { _id: patient._id, 'documents._id': document._id },
+        { $set: { 'documents.$.filename': stored.filename, 'documents.$.contentHash': stored.contentHash } }
+      );
+      imported++;
+    }
+  }
+
+  const disputes = PriorAuthorization.find({
+    'denial.denialDocument.filename': { $exists: true },
+    'denial.denialDocument.contentHash': { $exists: false },
+  }).select('denial.denialDocument').lean().cursor();
+
+  for await (const dispute of disputes) {
+    const stored = await importLegacyFile(dispute.denial.denialDocument, 'denial_letter', target);
+    if (!stored) continue;
+
+    await PriorAuthorization.updateOne(
+      { _id: dispute._id },
+      { $set: { 'denial.denialDocument.filename': stored.filename, 'denial.denialDocument.contentHash': stored.contentHash } }
+    );
+    imported++;
+  }
+
+  const disputesWithAttachments = PriorAuthorization.find({
+    attachments: { $elemMatch: { contentHash: { $exists: false } } },
+  }).select('attachments').lean().cursor();
+
+  for await (const dispute of disputesWithAttachments) {
+    for (const attachment of dispute.attachments.filter(item => !item.contentHash)) {
+      const stored = await importLegacyFile(attachment, 'attachment', target);
+      if (!stored) continue;
+
+      await PriorAuthorization.updateOne(
+        { _id: dispute._id, 'attachments._id': attachment._id },
+        { $set: { 'attachments.$.filename': stored.filename, 'attachments.$.contentHash': stored.contentHash } }
+      );
+      imported++;
+    }
+  }
+
+  const groups = PatientGroup.find({
+    'letterhead.logo.filename': { $exists: true },
+    'letterhead.logo.contentHash': { $exists: false },
+  }).select('letterhead.logo').lean().cursor();
+
+  for await (const group of groups) {
+    const stored = await importLegacyFile(group.letterhead.logo, 'letterhead_logo', target);
+    if (!stored) continue;
+
+    await PatientGroup.updateOne(
+      { _id: group._id },
+      { $set: { 'letterhead.logo.filename': stored.filename, 'letterhead.logo.contentHash': stored.contentHash } }
+    );
+    imported++;
+  }
+
+  console.log(`Imported ${imported} files uploaded before storage drivers into ${target.name}`);
+};
+
+const run = async () => {
+  const target = getStorageDriver(option('to'));
+
+  if (option('from')) {
+    const source = getStorageDriver(option('from'));
+    if (source.name === target.name) {
+      throw new Error('--from and --to must be different storage drivers');
+    }
+    await copyStoredFiles(source, target);
+  }
+
+  await mongoose.connect(process.env.MONGO_URI);
+  await importLegacyFiles(target);
+  await mongoose.disconnect();
+};
+
+run().catch(async (error) => {
+  console.error('Storage migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
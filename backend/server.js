@@ -8,24 +8,49 @@ const fs = require('fs');
 // Load environment variables
 dotenv.config();
 
+// Load the PHI encryption keys now so a missing or malformed key set stops startup
+require('./services/encryptionService').getConfig();
+
+// Likewise for sign-in settings (JWT_SECRET is required in production)
+const authConfig = require('./config/auth').getAuthConfig();
+
+// And for the AI roles (an API key is required unless the mock provider is chosen or NODE_ENV allows it)
+const { getLLMConfig } = require('./config/llm');
+['analyzer', 'disputer'].forEach(role => getLLMConfig(role));
+
 const app = express();
 
+// Behind a load balancer, take the client IP (recorded in the audit log) from X-Forwarded-For
+// (`true`, a hop count, or the proxy addresses)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Middleware
-app.use(cors());
+app.use(cors({
+  // Credentials are needed for the refresh token cookie, so only the app's own origins are allowed
+  origin: authConfig.allowedOrigins,
+  credentials: true,
+  // Lets the browser read download filenames
+  exposedHeaders: ['Content-Disposition'],
+}));
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-// Create upload directories if they don't exist
-const uploadDirs = ['uploads', 'uploads/denials'];
+// Create upload directories if they don't exist (uploaded files and appeal packets go to document storage)
+const uploadDirs = ['uploads'];
 uploadDirs.forEach(dir => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 });
 
-// Database connection
+// Database connection (tests that require the app manage their own connection)
 const connectDB = require('./config/db');
-connectDB();
+if (require.main === module) {
+  connectDB();
+}
 
 // Initialize deadline monitoring service after DB connection
 let deadlineMonitoringService;
@@ -35,6 +60,18 @@ try {
   console.log('Deadline monitoring service not found, will run without it');
 }
 
+// Background worker for AI analysis and document generation jobs
+const jobQueueService = require('./services/jobQueueService');
+
+// Retries failed email, push and in-app notification deliveries
+const notificationService = require('./services/notificationService');
+
+// Daily and weekly digest emails
+const digestService = require('./services/digestService');
+
+// WebSocket push of notifications and dispute updates
+const realtimeService = require('./services/realtimeService');
+
 // Start deadline monitoring service when MongoDB connects
 mongoose.connection.once('open', () => {
   console.log('MongoDB Connected');
@@ -42,6 +79,14 @@ mongoose.connection.once('open', () => {
     console.log('Starting deadline monitoring service...');
     deadlineMonitoringService.start();
   }
+  if (require.main === module) {
+    console.log('Starting job queue worker...');
+    jobQueueService.start();
+    console.log('Starting notification retry service...');
+    notificationService.start();
+    console.log('Starting digest service...');
+    digestService.start();
+  }
 });
 
 // Graceful shutdown
@@ -50,6 +95,10 @@ const gracefulShutdown = () => {
   if (deadlineMonitoringService) {
     deadlineMonitoringService.stop();
   }
+  jobQueueService.stop();
+  notificationService.stop();
+  digestService.stop();
+  realtimeService.stop();
   mongoose.connection.close(() => {
     process.exit(0);
   });
@@ -61,9 +110,12 @@ process.on('SIGTERM', gracefulShutdown);
 // Routes
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/users', require('./routes/users'));
+app.use('/api/organizations', require('./routes/organizations'));
 app.use('/api/patient-groups', require('./routes/patientGroups'));
 app.use('/api/patients', require('./routes/patients'));
 app.use('/api/disputes', require('./routes/disputes'));
+app.use('/api/jobs', require('./routes/jobs'));
+app.use('/api/payers', require('./routes/payers'));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -92,6 +144,12 @@ app.use((err, req, res, next) => {
 
 const PORT = process.env.PORT || 5000;
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+// Only listen when run directly, so supertest can require the app
+if (require.main === module) {
+  const server = app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+  });
+  realtimeService.attach(server);
+}
+
+module.exports = app;
\ No newline at end of file
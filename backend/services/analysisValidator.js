@@ -0,0 +1,169 @@
+// services/analysisValidator.js
+// Parses and validates AI analysis output against the `analysis` sub-schema of PriorAuthorization.
+const PriorAuthorization = require('../models/PriorAuthorization');
+
+// Enum values are read from the schema so the validator never drifts from the model
+const schema = PriorAuthorization.schema;
+const opportunitySchema = schema.path('analysis.disputeOpportunities').schema;
+
+const ENUMS = {
+  category: opportunitySchema.path('category').enumValues,
+  strength: opportunitySchema.path('strength').enumValues,
+  recommendedApproach: schema.path('analysis.recommendedApproach').enumValues,
+};
+
+const isNonEmptyString = value => typeof value === 'string' && value.trim().length > 0;
+const isStringArray = value => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+class AnalysisValidator {
+  get enums() {
+    return ENUMS;
+  }
+
+  // Pull a JSON object out of model output: raw JSON, a ```json fenced block, or the outermost {...}
+  extractJson(text) {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error('Response was empty');
+    }
+
+    const candidates = [text.trim()];
+
+    const fencePattern = /```(?:json)?\s*([\s\S]*?)```/gi;
+    let fence;
+    while ((fence = fencePattern.exec(text)) !== null) {
+      candidates.push(fence[1].trim());
+    }
+
+    const firstBrace = text.indexOf('{');
+    const lastBrace = text.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace > firstBrace) {
+      candidates.push(text.slice(firstBrace, lastBrace + 1));
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate);
+      } catch (error) {
+        // Try the next candidate
+      }
+    }
+
+    throw new Error('Response did not contain valid JSON');
+  }
+
+  // Returns { valid, errors, value } where value contains only schema fields
+  validate(result) {
+    const errors = [];
+
+    if (!result || typeof result !== 'object' || Array.isArray(result)) {
+      return { valid: false, errors: ['Response must be a JSON object'], value: null };
+    }
+
+    if (!Array.isArray(result.disputeOpportunities) || result.disputeOpportunities.length === 0) {
+      errors.push('disputeOpportunities must be a non-empty array');
+    } else {
+      result.disputeOpportunities.forEach((opportunity, index) => {
+        const prefix = `disputeOpportunities[${index}]`;
+        if (!opportunity || typeof opportunity !== 'object') {
+          errors.push(`${prefix} must be an object`);
+          return;
+        }
+        if (!ENUMS.category.includes(opportunity.category)) {
+          errors.push(`${prefix}.category must be one of: ${ENUMS.category.join(', ')}`);
+        }
+        if (!ENUMS.strength.includes(opportunity.strength)) {
+          errors.push(`${prefix}.strength must be one of: ${ENUMS.strength.join(', ')}`);
+        }
+        if (!isNonEmptyString(opportunity.description)) {
+          errors.push(`${prefix}.description must be a non-empty string`);
+        }
+        if (!isStringArray(opportunity.evidence)) {
+          errors.push(`${prefix}.evidence must be an array of strings`);
+        }
+        if (!isNonEmptyString(opportunity.recommendedAction)) {
+          errors.push(`${prefix}.recommendedAction must be a non-empty string`);
+        }
+      });
+    }
+
+    if (typeof result.successProbability !== 'number' || Number.isNaN(result.successProbability) ||
+        result.successProbability < 0 || result.successProbability > 100) {
+      errors.push('successProbability must be a number between 0 and 100');
+    }
+
+    if (!ENUMS.recommendedApproach.includes(result.recommendedApproach)) {
+      errors.push(`recommendedApproach must be one of: ${ENUMS.recommendedApproach.join(', ')}`);
+    }
+
+    if (!isStringArray(result.keyArguments) || result.keyArguments.length === 0) {
+      errors.push('keyArguments must be a non-empty array of strings');
+    }
+
+    if (!isStringArray(result.supportingEvidence)) {
+      errors.push('supportingEvidence must be an array of strings');
+    }
+
+    if (errors.length > 0) {
+      return { valid: false, errors, value: null };
+    }
+
+    return {
+      valid: true,
+      errors: [],
+      value: {
+        disputeOpportunities: result.disputeOpportunities.map(opportunity => ({
+          category: opportunity.category,
+          strength: opportunity.strength,
+          description: opportunity.description,
+          evidence: opportunity.evidence,
+          recommendedAction: opportunity.recommendedAction,
+        })),
+        successProbability: Math.round(result.successProbability),
+        recommendedApproach: result.recommendedApproach,
+        keyArguments: result.keyArguments,
+        supportingEvidence: result.supportingEvidence,
+      },
+    };
+  }
+
+  // Extract + validate in one step; parse failures are reported as validation errors
+  parse(text) {
+    let json;
+    try {
+      json = this.extractJson(text);
+    } catch (error) {
+      return { valid: false, errors: [error.message], value: null };
+    }
+    return this.validate(json);
+  }
+
+  // Follow-up prompt asking the model to fix its previous answer
+  buildRepairPrompt(previousOutput, errors) {
+    return `Your previous response could not be used because it did not match the required JSON format.
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousOutput}
+
+Respond again with ONLY a single JSON object (no prose, no code fences) using exactly this structure:
+{
+  "disputeOpportunities": [
+    {
+      "category": "${ENUMS.category.join('|')}",
+      "strength": "${ENUMS.strength.join('|')}",
+      "description": "Description of the opportunity",
+      "evidence": ["Evidence item 1"],
+      "recommendedAction": "Specific action to take"
+    }
+  ],
+  "successProbability": 0-100 as a number,
+  "recommendedApproach": "${ENUMS.recommendedApproach.join('|')}",
+  "keyArguments": ["Argument 1"],
+  "supportingEvidence": ["Evidence 1"]
+}`;
+  }
+}
+
+module.exports = new AnalysisValidator();
@@ -0,0 +1,429 @@
+// services/appealPacketService.js
+// Assembles the appeal letter, denial letter and supporting documents into one Bates-numbered PDF.
+const PDFKitDocument = require('pdfkit');
+const { PDFDocument, StandardFonts, rgb } = require('pdf-lib');
+const documentExportService = require('./documentExportService');
+const textExtractionService = require('./textExtractionService');
+const documentStorageService = require('./documentStorageService');
+const { logger } = require('../utils/logger');
+
+const LETTER_SIZE = [612, 792];
+const PAGE_MARGIN = 72;
+const BATES_DIGITS = 6;
+
+// PDFs and images are embedded as-is; text-like files are re-typeset from their extracted text
+const PDF_TYPES = ['application/pdf'];
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg'];
+const TEXT_TYPES = [
+  'text/plain',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+];
+
+const DOCUMENT_TITLES = {
+  email: 'Email to Insurance',
+  letter: 'Appeal Letter',
+  phone_notes: 'Phone Call Script',
+  peer_review: 'Peer Review Notes',
+};
+
+class PacketError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PacketError';
+  }
+}
+
+// A, B, ... Z, AA, AB, ...
+const exhibitLabel = (index) => {
+  let label = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    label = String.fromCharCode(65 + remainder) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+const collectPdfKit = (build) => new Promise((resolve, reject) => {
+  const pdf = new PDFKitDocument({ size: 'LETTER', margin: PAGE_MARGIN });
+  const chunks = [];
+  pdf.on('data', chunk => chunks.push(chunk));
+  pdf.on('end', () => resolve(Buffer.concat(chunks)));
+  pdf.on('error', reject);
+  build(pdf);
+  pdf.end();
+});
+
+const isSupportedType = mimeType => [...PDF_TYPES, ...IMAGE_TYPES, ...TEXT_TYPES].includes(mimeType);
+
+class AppealPacketService {
+  formatBates(prefix, number) {
+    return `${prefix}${String(number).padStart(BATES_DIGITS, '0')}`;
+  }
+
+  formatBatesRange(prefix, start, end) {
+    return start === end
+      ? this.formatBates(prefix, start)
+      : `${this.formatBates(prefix, start)} - ${this.formatBates(prefix, end)}`;
+  }
+
+  // Everything on the dispute that can go into a packet. `dispute.patient` must be populated.
+  listSources(dispute) {
+    const sources = [];
+
+    dispute.dispute.generatedDocuments.forEach(document => {
+      sources.push({
+        sourceType: 'generated_document',
+        sourceId: document._id.toString(),
+        title: `${DOCUMENT_TITLES[document.type] || document.type} (v${document.currentVersion || 1}, ${document.status || 'draft'})`,
+        documentType: document.type,
+        mimeType: 'application/pdf',
+        supported: true,
+      });
+    });
+
+    const denialDocument = dispute.denial.denialDocument;
+    if (denialDocument && denialDocument.filename) {
+      sources.push({
+        sourceType: 'denial_letter',
+        sourceId: 'denial',
+        title: `Denial Letter (${denialDocument.originalName})`,
+        mimeType: denialDocument.mimeType,
+        supported: isSupportedType(denialDocument.mimeType),
+      });
+    }
+
+    (dispute.patient.documents || []).forEach(document => {
+      sources.push({
+        sourceType: 'patient_document',
+        sourceId: document._id.toString(),
+        title: document.description || document.originalName,
+        documentType: document.documentType,
+        mimeType: document.mimeType,
+        supported: isSupportedType(document.mimeType),
+      });
+    });
+
+    dispute.attachments
+      .filter(attachment => attachment.documentType !== 'appeal_packet')
+      .forEach(attachment => {
+        sources.push({
+          sourceType: 'attachment',
+          sourceId: attachment._id.toString(),
+          title: attachment.description || attachment.originalName,
+          documentType: attachment.documentType,
+          mimeType: attachment.mimeType,
+          supported: isSupportedType(attachment.mimeType),
+        });
+      });
+
+    return sources;
+  }
+
+  findSource(dispute, sourceType, sourceId) {
+    switch (sourceType) {
+      case 'generated_document':
+        return dispute.dispute.generatedDocuments.id(sourceId);
+      case 'denial_letter':
+        return dispute.denial.denialDocument?.filename ? dispute.denial.denialDocument : null;
+      case 'patient_document':
+        return dispute.patient.documents.id(sourceId);
+      case 'attachment':
+        return dispute.attachments.id(sourceId);
+      default:
+        return null;
+    }
+  }
+
+  // Converts one selected item into a pdf-lib document
+  async loadExhibit(dispute, letterhead, item) {
+    const source = this.findSource(dispute, item.sourceType, item.sourceId);
+    if (!source) {
+      throw new PacketError(`Selected item not found: ${item.sourceType} ${item.sourceId}`);
+    }
+
+    if (item.sourceType === 'generated_document') {
+      const bytes = await documentExportService.render('pdf', { dispute, document: source, letterhead, footer: false });
+      return PDFDocument.load(bytes);
+    }
+
+    if (!isSupportedType(source.mimeType)) {
+      throw new PacketError(`"${source.originalName}" (${source.mimeType}) cannot be added to a packet`);
+    }
+
+    const bytes = await documentStorageService.read(source, item.sourceType);
+    if (!bytes) {
+      throw new PacketError(`File for "${source.originalName}" is missing from storage`);
+    }
+
+    if (PDF_TYPES.includes(source.mimeType)) {
+      return PDFDocument.load(bytes, { ignoreEncryption: true });
+    }
+
+    if (IMAGE_TYPES.includes(source.mimeType)) {
+      const exhibit = await PDFDocument.create();
+      const image = source.mimeType === 'image/png' ? await exhibit.embedPng(bytes) : await exhibit.embedJpg(bytes);
+      const page = exhibit.addPage(LETTER_SIZE);
+      const scaled = image.scaleToFit(LETTER_SIZE[0] - PAGE_MARGIN, LETTER_SIZE[1] - PAGE_MARGIN * 1.5);
+      page.drawImage(image, {
+        x: (LETTER_SIZE[0] - scaled.width) / 2,
+        y: (LETTER_SIZE[1] - scaled.height) / 2,
+        width: scaled.width,
+        height: scaled.height,
+      });
+      return exhibit;
+    }
+
+    if (TEXT_TYPES.includes(source.mimeType)) {
+      const extraction = await textExtractionService.extractText(bytes, source.mimeType, source.originalName);
+      if (extraction.status !== 'completed') {
+        throw new PacketError(`Could not read "${source.originalName}": ${extraction.error}`);
+      }
+      const rendered = await collectPdfKit(pdf => {
+        pdf.font('Helvetica').fontSize(10).text(extraction.text);
+      });
+      return PDFDocument.load(rendered);
+    }
+  }
+
+  renderFrontMatter({ dispute, letterhead, title, sections, batesPrefix, batesStart, batesEnd, totalPages }) {
+    const identifiers = documentExportService.buildIdentifiers(dispute);
+
+    return collectPdfKit(pdf => {
+      const width = pdf.page.width - PAGE_MARGIN * 2;
+
+      // Cover sheet
+      if (letterhead?.practiceName) {
+        pdf.font('Helvetica-Bold').fontSize(14).text(letterhead.practiceName, { width, align: 'center' });
+        documentExportService.buildAddressLines(letterhead).forEach(line => {
+          pdf.font('Helvetica').fontSize(9).text(line, { width, align: 'center' });
+        });
+      }
+      pdf.moveDown(4);
+      pdf.font('Helvetica-Bold').fontSize(22).text(title, { width, align: 'center' });
+      pdf.moveDown(0.5);
+      pdf.font('Helvetica').fontSize(12).text(`Submitted to ${dispute.payer?.name || dispute.patient.insuranceInfo?.provider || 'the health plan'}`, { width, align: 'center' });
+      const target = dispute.payer?.name ? dispute.payer.getSubmissionTarget() : null;
+      if (target && target.channel !== 'mail') {
+        pdf.fontSize(10).text(`Via ${target.channel}: ${target.value}`, { width, align: 'center' });
+      }
+      pdf.moveDown(3);
+
+      identifiers.forEach(([label, value]) => {
+        pdf.font('Helvetica-Bold').fontSize(11).text(`${label}: `, PAGE_MARGIN + 72, pdf.y, { continued: true });
+        pdf.font('Helvetica').text(value);
+      });
+      pdf.moveDown(2);
+      pdf.font('Helvetica').fontSize(11)
+        .text(`Prepared: ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`, PAGE_MARGIN + 72)
+        .text(`Total pages: ${totalPages}`)
+        .text(`Bates range: ${this.formatBatesRange(batesPrefix, batesStart, batesEnd)}`);
+
+      // Table of contents
+      pdf.addPage();
+      pdf.font('Helvetica-Bold').fontSize(16).text('Table of Contents', PAGE_MARGIN, PAGE_MARGIN, { width });
+      pdf.moveDown();
+
+      const batesX = PAGE_MARGIN + width - 190;
+      sections.forEach(section => {
+        const label = section.exhibit ? `Exhibit ${section.exhibit}: ${section.title}` : section.title;
+        const y = pdf.y;
+        pdf.font(section.exhibit ? 'Helvetica' : 'Helvetica-Bold').fontSize(11)
+          .text(label, PAGE_MARGIN, y, { width: batesX - PAGE_MARGIN - 12 });
+        const labelBottom = pdf.y;
+        pdf.font('Helvetica').fontSize(10)
+          .text(this.formatBatesRange(batesPrefix, section.batesStart, section.batesEnd), batesX, y, { width: 190, align: 'right' });
+        pdf.y = Math.max(labelBottom, pdf.y) + 6;
+      });
+    });
+  }
+
+  // Draws the exhibit slip sheet that precedes each exhibit
+  addSlipSheet(packet, font, boldFont, section, batesPrefix) {
+    const page = packet.addPage(LETTER_SIZE);
+    const heading = `EXHIBIT ${section.exhibit}`;
+    page.drawText(heading, {
+      x: (LETTER_SIZE[0] - boldFont.widthOfTextAtSize(heading, 32)) / 2,
+      y: LETTER_SIZE[1] / 2 + 20,
+      size: 32,
+      font: boldFont,
+    });
+
+    const title = section.title.length > 80 ? `${section.title.slice(0, 77)}...` : section.title;
+    page.drawText(title, {
+      x: (LETTER_SIZE[0] - font.widthOfTextAtSize(title, 14)) / 2,
+      y: LETTER_SIZE[1] / 2 - 12,
+      size: 14,
+      font,
+    });
+
+    const range = this.formatBatesRange(batesPrefix, section.batesStart, section.batesEnd);
+    page.drawText(range, {
+      x: (LETTER_SIZE[0] - font.widthOfTextAtSize(range, 10)) / 2,
+      y: LETTER_SIZE[1] / 2 - 36,
+      size: 10,
+      font,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+  }
+
+  // Bates numbers are fixed-width, so a layout pass with placeholder numbers has the same page counts as the final one
+  assignBates(sections, frontMatterPages, batesStart) {
+    let next = batesStart + frontMatterPages;
+    return sections.map(section => {
+      const assigned = { ...section, batesStart: next, batesEnd: next + section.pageCount - 1 };
+      next += section.pageCount;
+      return assigned;
+    });
+  }
+
+  // items: [{ sourceType, sourceId }] in packet order. letterId: generated document used as the appeal letter.
+  async build(dispute, { letterId, items = [], letterhead, batesPrefix = 'APPEAL', batesStart = 1 }) {
+    const letter = letterId ? dispute.dispute.generatedDocuments.id(letterId) : null;
+    if (letterId && !letter) {
+      throw new PacketError('Selected appeal letter not found');
+    }
+    if (!letter && items.length === 0) {
+      throw new PacketError('Select an appeal letter or at least one item');
+    }
+
+    const sources = this.listSources(dispute);
+    const exhibits = [];
+    for (const [index, item] of items.entries()) {
+      const source = sources.find(candidate => candidate.sourceType === item.sourceType && candidate.sourceId === item.sourceId);
+      const exhibitDocument = await this.loadExhibit(dispute, letterhead, item);
+      exhibits.push({
+        exhibit: exhibitLabel(index),
+        title: item.title || source?.title || item.sourceType,
+        sourceType: item.sourceType,
+        sourceId: item.sourceId,
+        document: exhibitDocument,
+        // +1 for the slip sheet
+        pageCount: exhibitDocument.getPageCount() + 1,
+      });
+    }
+
+    const packetTitle = 'Appeal Submission Packet';
+
+    const renderLetter = async (exhibitSections) => {
+      if (!letter) return null;
+      const bytes = await documentExportService.render('pdf', {
+        dispute,
+        document: letter,
+        letterhead,
+        footer: false,
+        exhibits: exhibitSections.map(section => ({
+          label: section.exhibit,
+          title: section.title,
+          batesRange: this.formatBatesRange(batesPrefix, section.batesStart, section.batesEnd),
+        })),
+      });
+      return PDFDocument.load(bytes);
+    };
+
+    const layout = async (frontMatterPages, letterPages) => {
+      const sections = this.assignBates([
+        ...(letter ? [{
+          title: DOCUMENT_TITLES[letter.type] || letter.type,
+          sourceType: 'generated_document',
+          sourceId: letter._id.toString(),
+          pageCount: letterPages,
+        }] : []),
+        ...exhibits.map(({ exhibit, title, sourceType, sourceId, pageCount }) => ({ exhibit, title, sourceType, sourceId, pageCount })),
+      ], frontMatterPages, batesStart);
+      const totalPages = frontMatterPages + sections.reduce((sum, section) => sum + section.pageCount, 0);
+      return { sections, totalPages };
+    };
+
+    // First pass measures the front matter and letter, second pass renders them with real Bates ranges
+    let frontMatterPages = 2;
+    let letterPages = letter ? 1 : 0;
+    let frontMatter;
+    let letterDocument;
+    let plan;
+    for (let pass = 0; pass < 3; pass++) {
+      plan = await layout(frontMatterPages, letterPages);
+      const batesEnd = batesStart + plan.totalPages - 1;
+
+      letterDocument = await renderLetter(plan.sections.filter(section => section.exhibit));
+      frontMatter = await PDFDocument.load(await this.renderFrontMatter({
+        dispute,
+        letterhead,
+        title: packetTitle,
+        sections: plan.sections,
+        batesPrefix,
+        batesStart,
+        batesEnd,
+        totalPages: plan.totalPages,
+      }));
+
+      const measuredLetterPages = letterDocument ? letterDocument.getPageCount() : 0;
+      if (frontMatter.getPageCount() === frontMatterPages && measuredLetterPages === letterPages) break;
+
+      frontMatterPages = frontMatter.getPageCount();
+      letterPages = measuredLetterPages;
+    }
+
+    // Merge everything in order, then stamp Bates numbers on every page
+    const packet = await PDFDocument.create();
+    packet.setTitle(packetTitle);
+    const font = await packet.embedFont(StandardFonts.Helvetica);
+    const boldFont = await packet.embedFont(StandardFonts.HelveticaBold);
+
+    const appendDocument = async (source) => {
+      const pages = await packet.copyPages(source, source.getPageIndices());
+      pages.forEach(page => packet.addPage(page));
+    };
+
+    await appendDocument(frontMatter);
+    if (letterDocument) await appendDocument(letterDocument);
+    for (const exhibit of exhibits) {
+      const section = plan.sections.find(candidate => candidate.exhibit === exhibit.exhibit);
+      this.addSlipSheet(packet, font, boldFont, section, batesPrefix);
+      await appendDocument(exhibit.document);
+    }
+
+    packet.getPages().forEach((page, index) => {
+      const label = this.formatBates(batesPrefix, batesStart + index);
+      const { width } = page.getSize();
+      const textWidth = boldFont.widthOfTextAtSize(label, 9);
+      page.drawRectangle({ x: width - textWidth - 30, y: 14, width: textWidth + 12, height: 16, color: rgb(1, 1, 1) });
+      page.drawText(label, { x: width - textWidth - 24, y: 19, size: 9, font: boldFont });
+    });
+
+    const buffer = Buffer.from(await packet.save());
+    const pageCount = packet.getPageCount();
+
+    logger.info(`Assembled appeal packet for dispute ${dispute._id}: ${pageCount} pages, ${exhibits.length} exhibits`);
+
+    return {
+      buffer,
+      manifest: {
+        batesPrefix,
+        batesStart,
+        batesEnd: batesStart + pageCount - 1,
+        pageCount,
+        sections: [
+          {
+            title: 'Cover Sheet and Table of Contents',
+            sourceType: 'cover',
+            batesStart,
+            batesEnd: batesStart + frontMatterPages - 1,
+          },
+          ...plan.sections.map(({ exhibit, title, sourceType, sourceId, batesStart: start, batesEnd: end }) => ({
+            exhibit,
+            title,
+            sourceType,
+            sourceId,
+            batesStart: start,
+            batesEnd: end,
+          })),
+        ],
+      },
+    };
+  }
+}
+
+module.exports = new AppealPacketService();
+module.exports.PacketError = PacketError;
@@ -0,0 +1,306 @@
+// services/auditLogService.js
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+const Patient = require('../models/Patient');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const { logger } = require('../utils/logger');
+
+// previousHash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+// Fields covered by each entry's hash, in hashing order
+const HASHED_FIELDS = [
+  'sequence', 'timestamp', 'user', 'userEmail', 'userName', 'action', 'method', 'route',
+  'resourceType', 'resourceId', 'params', 'patientGroup', 'patient', 'statusCode', 'ip', 'userAgent',
+  'previousHash',
+];
+
+const ACTIONS = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+const CSV_COLUMNS = [
+  ['sequence', 'Sequence'],
+  ['timestamp', 'Timestamp'],
+  ['userName', 'User'],
+  ['userEmail', 'Email'],
+  ['action', 'Action'],
+  ['method', 'Method'],
+  ['route', 'Route'],
+  ['resourceType', 'Resource Type'],
+  ['resourceId', 'Resource ID'],
+  ['params', 'Details'],
+  ['patient', 'Patient ID'],
+  ['statusCode', 'Status'],
+  ['ip', 'IP Address'],
+  ['userAgent', 'User Agent'],
+  ['hash', 'Hash'],
+];
+
+const isObjectId = (value) => value && mongoose.Types.ObjectId.isValid(value);
+
+class AuditLogService {
+  constructor() {
+    // Entries are chained one at a time; each write waits for the previous one
+    this.queue = Promise.resolve();
+    this.tail = null;
+    this.maxAppendAttempts = 5;
+  }
+
+  // Deterministic serialisation of the hashed fields, so the same entry always hashes the same
+  canonicalize(entry) {
+    const values = HASHED_FIELDS.map(field => {
+      let value = entry[field];
+      if (value === undefined || value === null) return null;
+      if (value instanceof Date) return value.toISOString();
+      if (value instanceof Map) value = Object.fromEntries(value);
+      if (field === 'params') {
+        return Object.keys(value).sort().map(key => [key, String(value[key])]);
+      }
+      return typeof value === 'number' ? value : String(value);
+    });
+    return JSON.stringify(values);
+  }
+
+  computeHash(entry) {
+    return crypto.createHash('sha256').update(this.canonicalize(entry)).digest('hex');
+  }
+
+  getAction(method) {
+    return ACTIONS[method] || 'read';
+  }
+
+  // The patient group and patient a request touched, for scoping the viewer
+  async resolveScope(resourceType, resourceId, params = {}) {
+    const scope = { patientGroup: null, patient: null };
+
+    try {
+      if (resourceType === 'patient_group' && isObjectId(resourceId)) {
+        scope.patientGroup = resourceId;
+      } else if (resourceType === 'patient' && isObjectId(resourceId)) {
+        const patient = await Patient.findById(resourceId).select('patientGroup').lean();
+        scope.patient = resourceId;
+        scope.patientGroup = patient?.patientGroup || null;
+      } else if (resourceType === 'dispute' && isObjectId(resourceId)) {
+        const dispute = await PriorAuthorization.findById(resourceId).select('patient patientGroup').lean();
+        scope.patient = dispute?.patient || null;
+        scope.patientGroup = dispute?.patientGroup || null;
+      }
+
+      // List routes name the parent instead of the resource
+      if (!scope.patient && isObjectId(params.patientId)) {
+        const patient = await Patient.findById(params.patientId).select('patientGroup').lean();
+        scope.patient = params.patientId;
+        scope.patientGroup = scope.patientGroup || patient?.patientGroup || null;
+      }
+      if (!scope.patientGroup && isObjectId(params.groupId)) {
+        scope.patientGroup = params.groupId;
+      }
+    } catch (error) {
+      logger.error('Failed to resolve audit scope:', error.message);
+    }
+
+    return scope;
+  }
+
+  // Queue an entry. Never throws: a failed audit write is logged, not surfaced to the request.
+  record(entry) {
+    this.queue = this.queue
+      .then(() => this.append(entry))
+      .catch(error => {
+        logger.error('Failed to write audit log entry:', error.message, {
+          method: entry.method,
+          route: entry.route,
+          user: entry.user?.toString(),
+        });
+      });
+    return this.queue;
+  }
+
+  async append(entry) {
+    const scope = await this.resolveScope(entry.resourceType, entry.resourceId, entry.params);
+
+    for (let attempt = 1; attempt <= this.maxAppendAttempts; attempt++) {
+      if (!this.tail) {
+        const last = await AuditLog.findOne().sort({ sequence: -1 }).select('sequence hash').lean();
+        this.tail = last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: GENESIS_HASH };
+      }
+
+      const doc = {
+        ...scope,
+        ...entry,
+        sequence: this.tail.sequence + 1,
+        previousHash: this.tail.hash,
+      };
+      doc.hash = this.computeHash(doc);
+
+      try {
+        await AuditLog.create(doc);
+        this.tail = { sequence: doc.sequence, hash: doc.hash };
+        return doc;
+      } catch (error) {
+        // Another server process appended first; reload the end of the chain and try again
+        if (error.code === 11000) {
+          this.tail = null;
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error(`Could not append to the audit chain after ${this.maxAppendAttempts} attempts`);
+  }
+
+  buildQuery(groupId, filters = {}) {
+    const query = { patientGroup: groupId };
+
+    if (filters.user && isObjectId(filters.user)) query.user = filters.user;
+    if (filters.action) query.action = filters.action;
+    if (filters.resourceType) query.resourceType = filters.resourceType;
+    if (filters.resourceId) query.resourceId = filters.resourceId;
+    if (filters.patient && isObjectId(filters.patient)) query.patient = filters.patient;
+
+    if (filters.from || filters.to) {
+      query.timestamp = {};
+      if (filters.from) query.timestamp.$gte = new Date(filters.from);
+      if (filters.to) query.timestamp.$lte = new Date(filters.to);
+    }
+
+    // Free text matches the user's name or email, the route or the resource id
+    if (filters.search) {
+      const pattern = new RegExp(filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      query.$or = [
+        { userName: pattern },
+        { userEmail: pattern },
+        { route: pattern },
+        { resourceId: pattern },
+      ];
+    }
+
+    return query;
+  }
+
+  async search(groupId, filters = {}, { page = 1, limit = 50 } = {}) {
+    const query = this.buildQuery(groupId, filters);
+
+    const [entries, total] = await Promise.all([
+      AuditLog.find(query)
+        .sort({ sequence: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return {
+      entries: entries.map(entry => ({ ...entry, intact: this.computeHash(entry) === entry.hash })),
+      total,
+      page,
+      pages: Math.ceil(total / limit),
+    };
+  }
+
+  // Write matching entries as CSV, oldest first, without holding them all in memory
+  async exportCsv(groupId, filters, stream) {
+    const escape = (value) => {
+      if (value === undefined || value === null) return '';
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      // Keep spreadsheet apps from evaluating cell contents as formulas
+      if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    stream.write(CSV_COLUMNS.map(([, label]) => label).join(',') + '\r\n');
+
+    const cursor = AuditLog.find(this.buildQuery(groupId, filters)).sort({ sequence: 1 }).lean().cursor();
+    let count = 0;
+    for await (const entry of cursor) {
+      const row = CSV_COLUMNS.map(([field]) => {
+        if (field === 'params') {
+          return escape(Object.entries(entry.params || {}).map(([key, value]) => `${key}=${value}`).join('; '));
+        }
+        return escape(entry[field]);
+      });
+      stream.write(row.join(',') + '\r\n');
+      count++;
+    }
+
+    return count;
+  }
+
+  // Walk the whole chain and report the first entry that was altered, removed or inserted out of order
+  async verifyChain() {
+    let expectedSequence = 1;
+    let previousHash = GENESIS_HASH;
+
+    const cursor = AuditLog.find().sort({ sequence: 1 }).lean().cursor();
+    for await (const entry of cursor) {
+      let reason = null;
+      if (entry.sequence !== expectedSequence) {
+        reason = `Expected entry ${expectedSequence}, found ${entry.sequence}`;
+      } else if (entry.previousHash !== previousHash) {
+        reason = 'Previous hash does not match the entry before it';
+      } else if (this.computeHash(entry) !== entry.hash) {
+        reason = 'Entry contents do not match its hash';
+      }
+
+      if (reason) {
+        return { valid: false, checked: expectedSequence - 1, brokenAt: { sequence: entry.sequence, reason } };
+      }
+
+      previousHash = entry.hash;
+      expectedSequence++;
+    }
+
+    return { valid: true, checked: expectedSequence - 1, brokenAt: null };
+  }
+
+  // Verify one group's entries: each must match its hash and still link to the entries either side of
+  // it in the chain. Neighbours from other groups are read for their hashes only, so the result says
+  // nothing about the rest of the chain.
+  async verifyGroupChain(groupId) {
+    const last = await AuditLog.findOne().sort({ sequence: -1 }).select('sequence').lean();
+    let checked = 0;
+
+    const cursor = AuditLog.find({ patientGroup: groupId }).sort({ sequence: 1 }).lean().cursor();
+    for await (const entry of cursor) {
+      const [previous, next] = await Promise.all([
+        entry.sequence > 1
+          ? AuditLog.findOne({ sequence: entry.sequence - 1 }).select('hash').lean()
+          : { hash: GENESIS_HASH },
+        entry.sequence < last.sequence
+          ? AuditLog.findOne({ sequence: entry.sequence + 1 }).select('previousHash').lean()
+          : { previousHash: entry.hash },
+      ]);
+
+      let reason = null;
+      if (this.computeHash(entry) !== entry.hash) {
+        reason = 'Entry contents do not match its hash';
+      } else if (!previous) {
+        reason = `Entry ${entry.sequence - 1} before it is missing`;
+      } else if (entry.previousHash !== previous.hash) {
+        reason = 'Previous hash does not match the entry before it';
+      } else if (!next) {
+        reason = `Entry ${entry.sequence + 1} after it is missing`;
+      } else if (next.previousHash !== entry.hash) {
+        reason = 'The entry after it does not link to it';
+      }
+
+      if (reason) {
+        return { valid: false, checked, brokenAt: { sequence: entry.sequence, reason } };
+      }
+      checked++;
+    }
+
+    return { valid: true, checked, brokenAt: null };
+  }
+}
+
+module.exports = new AuditLogService();
+module.exports.GENESIS_HASH = GENESIS_HASH;
@@ -0,0 +1,157 @@
+// services/deadlineCalculator.js
+// Calendar- and business-day deadline math in a patient group's time zone.
+// Days are counted on local calendar dates ('YYYY-MM-DD'); a deadline falls at the end of its local day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_SETTINGS = {
+  timeZone: 'UTC',
+  warningDays: 7,
+  urgentDays: 3,
+  reminderDayType: 'calendar',
+  filingClockStart: 'denial_date',
+  holidays: [],
+};
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// 'YYYY-MM-DD' <-> UTC midnight, used only for day arithmetic
+const parseYmd = (ymd) => {
+  const [year, month, day] = ymd.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+const formatYmd = (ms) => new Date(ms).toISOString().slice(0, 10);
+
+class DeadlineCalculator {
+  // Fills in defaults for a group's deadlineSettings (or none)
+  resolveSettings(settings = {}) {
+    const resolved = { ...DEFAULT_SETTINGS };
+    Object.keys(DEFAULT_SETTINGS).forEach(key => {
+      if (settings[key] !== undefined && settings[key] !== null) resolved[key] = settings[key];
+    });
+
+    if (!isValidTimeZone(resolved.timeZone)) resolved.timeZone = DEFAULT_SETTINGS.timeZone;
+    resolved.holidays = (resolved.holidays || []).map(holiday => (typeof holiday === 'string' ? holiday : holiday.date));
+
+    return resolved;
+  }
+
+  // Local calendar date of an instant in `timeZone`
+  toLocalDate(date, timeZone) {
+    const parts = {};
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(new Date(date)).forEach(part => {
+      parts[part.type] = part.value;
+    });
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  // Milliseconds `timeZone` is ahead of UTC at `ms`
+  getOffset(ms, timeZone) {
+    const parts = {};
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(new Date(ms)).forEach(part => {
+      parts[part.type] = Number(part.value);
+    });
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(ms / 1000) * 1000;
+  }
+
+  // Last millisecond of a local date, as an instant
+  endOfLocalDay(ymd, timeZone) {
+    const localEnd = parseYmd(ymd) + DAY_MS - 1;
+    let instant = localEnd - this.getOffset(localEnd, timeZone);
+    // Re-check once in case the guess crossed a DST change
+    instant = localEnd - this.getOffset(instant, timeZone);
+    return new Date(instant);
+  }
+
+  isBusinessDay(ymd, holidays = []) {
+    const weekday = new Date(parseYmd(ymd)).getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !holidays.includes(ymd);
+  }
+
+  // Date `days` calendar or business days after `ymd`
+  addDays(ymd, days, { dayType = 'calendar', holidays = [] } = {}) {
+    if (dayType !== 'business') {
+      return formatYmd(parseYmd(ymd) + days * DAY_MS);
+    }
+
+    let current = parseYmd(ymd);
+    let remaining = days;
+    while (remaining > 0) {
+      current += DAY_MS;
+      if (this.isBusinessDay(formatYmd(current), holidays)) remaining--;
+    }
+    return formatYmd(current);
+  }
+
+  // Signed count of calendar or business days from one local date to another
+  countDays(fromYmd, toYmd, { dayType = 'calendar', holidays = [] } = {}) {
+    const from = parseYmd(fromYmd);
+    const to = parseYmd(toYmd);
+    const calendarDays = Math.round((to - from) / DAY_MS);
+
+    if (dayType !== 'business' || calendarDays === 0) return calendarDays;
+
+    const step = calendarDays > 0 ? DAY_MS : -DAY_MS;
+    let count = 0;
+    for (let current = from + step; calendarDays > 0 ? current <= to : current >= to; current += step) {
+      if (this.isBusinessDay(formatYmd(current), holidays)) count++;
+    }
+    return calendarDays > 0 ? count : -count;
+  }
+
+  // End of the local day `days` calendar/business days after `startDate`
+  calculateDeadline(startDate, days, { dayType = 'calendar', settings } = {}) {
+    const { timeZone, holidays } = this.resolveSettings(settings);
+    const startYmd = this.toLocalDate(startDate, timeZone);
+    return this.endOfLocalDay(this.addDays(startYmd, days, { dayType, holidays }), timeZone);
+  }
+
+  // Days left until `deadline` counted in the group's reminder day type: 0 on the due date, negative once past
+  getDaysRemaining(deadline, { settings, now = new Date() } = {}) {
+    const { timeZone, holidays, reminderDayType } = this.resolveSettings(settings);
+    const days = this.countDays(
+      this.toLocalDate(now, timeZone),
+      this.toLocalDate(deadline, timeZone),
+      { dayType: reminderDayType, holidays }
+    );
+
+    // A deadline on a weekend or holiday still counts as overdue the moment it passes
+    if (now > new Date(deadline) && days >= 0) return -1;
+    return days;
+  }
+
+  // 'overdue', 'urgent', 'warning' or null, using the group's thresholds
+  classify(daysRemaining, settings) {
+    const { warningDays, urgentDays } = this.resolveSettings(settings);
+    if (daysRemaining < 0) return 'overdue';
+    if (daysRemaining <= urgentDays) return 'urgent';
+    if (daysRemaining <= warningDays) return 'warning';
+    return null;
+  }
+}
+
+module.exports = new DeadlineCalculator();
+module.exports.DEFAULT_SETTINGS = DEFAULT_SETTINGS;
+module.exports.isValidTimeZone = isValidTimeZone;
@@ -1,8 +1,37 @@
 // services/deadlineMonitoringService.js
 const PriorAuthorization = require('../models/PriorAuthorization');
+const PatientGroup = require('../models/PatientGroup');
+const deadlineCalculator = require('./deadlineCalculator');
 const notificationService = require('./notificationService');
+const permissionService = require('./permissionService');
+const realtimeService = require('./realtimeService');
 const { logger } = require('../utils/logger');
 
+// Channels and priority per deadline flag; overdue alerts go out on every channel the user has enabled.
+// Email and push get `externalMessage`, which names no patient; the link leads to the details in the app.
+const DEADLINE_ALERTS = {
+  overdue: {
+    title: 'Dispute deadline overdue',
+    externalMessage: 'A dispute deadline is overdue',
+    channels: ['email', 'in_app', 'push'],
+    priority: 'critical',
+  },
+  urgent: {
+    title: 'Dispute deadline approaching',
+    externalMessage: 'A dispute deadline is approaching',
+    channels: ['in_app', 'email'],
+    priority: 'high',
+  },
+  warning: {
+    title: 'Dispute deadline reminder',
+    externalMessage: 'A dispute deadline is coming up',
+    channels: ['in_app'],
+    priority: 'normal',
+  },
+};
+
+const formatDays = (days, dayType) => `${days} ${dayType === 'business' ? 'business ' : ''}day${days === 1 ? '' : 's'}`;
+
 class DeadlineMonitoringService {
   constructor() {
     this.isRunning = false;
@@ -33,6 +62,17 @@ class DeadlineMonitoringService {
     logger.info('Deadline monitoring service stopped');
   }
 
+  // Deadline settings for each group, loaded once per run
+  async loadGroupSettings(groupIds) {
+    const uniqueIds = [...new Set(groupIds.filter(Boolean).map(id => id.toString()))];
+    const groups = await PatientGroup.find({ _id: { $in: uniqueIds } }).select('deadlineSettings');
+
+    const settingsByGroup = new Map();
+    groups.forEach(group => settingsByGroup.set(group._id.toString(), group.getDeadlineSettings()));
+
+    return (groupId) => settingsByGroup.get(groupId?.toString()) || deadlineCalculator.resolveSettings();
+  }
+
   async checkDeadlines() {
     try {
       logger.info('Running deadline check...');
@@ -43,14 +83,15 @@ class DeadlineMonitoringService {
         'dispute.status': { 
           $in: ['pending', 'in_progress', 'submitted', 'under_review'] 
         }
-      }).populate('createdBy patient');
+      }).populate('patient');
 
       const flaggedDisputes = [];
       const notifications = [];
+      const getSettings = await this.loadGroupSettings(activeDisputes.map(dispute => dispute.patientGroup));
 
       for (const dispute of activeDisputes) {
         // Update deadline flags
-        dispute.updateDeadlineFlags();
+        dispute.updateDeadlineFlags(getSettings(dispute.patientGroup));
         
         // Check for new flags that need notifications
         const newFlags = dispute.deadlines.deadlineFlags.filter(flag => 
@@ -86,65 +127,62 @@ class DeadlineMonitoringService {
 
   async createDeadlineNotification(dispute, flag) {
     const patient = dispute.patient;
-    const creator = dispute.createdBy;
+    const alert = DEADLINE_ALERTS[flag.type];
 
-    let message, urgency;
+    const days = formatDays(flag.daysRemaining, flag.dayType);
+    let message;
 
     switch (flag.type) {
       case 'overdue':
-        message = `OVERDUE: Response deadline passed ${flag.daysRemaining} days ago for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
-        urgency = 'critical';
+        message = `OVERDUE: Response deadline passed ${days} ago for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
         break;
       case 'urgent':
-        message = `URGENT: Response deadline in ${flag.daysRemaining} days for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
-        urgency = 'high';
+        message = `URGENT: Response deadline in ${days} for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
         break;
       case 'warning':
-        message = `Reminder: Response deadline in ${flag.daysRemaining} days for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
-        urgency = 'medium';
+        message = `Reminder: Response deadline in ${days} for ${patient.firstName} ${patient.lastName} - ${dispute.requestDetails.requestedService}`;
         break;
     }
 
-    // Send notification to dispute creator
-    await notificationService.notifyDeadlineReminder(
-      dispute._id,
-      flag.daysRemaining
-    );
-
-    // Also notify patient group members with admin/edit permissions
+    // Notify everyone who can open the dispute
     await this.notifyGroupMembers(dispute, flag, message);
 
+    // Let open dashboards and dispute pages refresh their deadline alerts
+    await realtimeService.sendToGroup(dispute.patientGroup, 'dispute:deadline_flag', {
+      disputeId: dispute._id,
+    });
+
     logger.info(`Deadline notification sent for dispute ${dispute._id}: ${flag.type}`);
   }
 
+  buildNotificationData(dispute, flag, message) {
+    return {
+      title: DEADLINE_ALERTS[flag.type].title,
+      message,
+      externalMessage: DEADLINE_ALERTS[flag.type].externalMessage,
+      disputeId: dispute._id,
+      relatedGroup: dispute.patientGroup,
+      daysRemaining: flag.daysRemaining,
+      dayType: flag.dayType,
+      urgency: flag.type
+    };
+  }
+
+  // Everyone who can view the group's patients and disputes, counting organization roles and the
+  // group's MFA requirement
   async notifyGroupMembers(dispute, flag, message) {
     try {
-      const PatientGroup = require('../models/PatientGroup');
-      const group = await PatientGroup.findById(dispute.patientGroup)
-        .populate('members.user');
-
+      const group = await PatientGroup.findById(dispute.patientGroup);
       if (!group) return;
 
-      // Notify members with edit or admin permissions
-      const eligibleMembers = group.members.filter(member => 
-        ['edit', 'admin'].includes(member.permission) &&
-        member.user._id.toString() !== dispute.createdBy._id.toString()
-      );
-
-      for (const member of eligibleMembers) {
-        await notificationService.queueNotification({
-          userId: member.user._id,
-          type: 'dispute_deadline_reminder',
-          data: {
-            message,
-            disputeId: dispute._id,
-            patientName: `${dispute.patient.firstName} ${dispute.patient.lastName}`,
-            daysRemaining: flag.daysRemaining,
-            urgency: flag.type
-          },
-          channels: flag.type === 'overdue' ? ['email', 'in_app', 'push'] : ['in_app'],
-          priority: flag.type === 'overdue' ? 'high' : 'normal'
-        });
+      const recipients = await permissionService.getUsersWith(group, 'patient.view');
+
+      for (const userId of recipients) {
+        await notificationService.notifyDeadlineReminder(
+          userId,
+          this.buildNotificationData(dispute, flag, message),
+          DEADLINE_ALERTS[flag.type]
+        );
       }
     } catch (error) {
       logger.error('Error notifying group members:', error);
@@ -168,43 +206,38 @@ class DeadlineMonitoringService {
         query.createdBy = userId;
       }
 
-      const disputes = await PriorAuthorization.find(query);
+      const disputes = await PriorAuthorization.find(query)
+        .populate('patient', 'firstName lastName');
       
       const summary = {
         overdue: 0,
-        urgent: 0, // <= 3 days
-        warning: 0, // <= 7 days
+        urgent: 0, // Within the group's urgent threshold (3 days by default)
+        warning: 0, // Within the group's warning threshold (7 days by default)
         total: disputes.length,
         details: []
       };
 
       const now = new Date();
+      const getSettings = await this.loadGroupSettings(disputes.map(dispute => dispute.patientGroup));
 
       for (const dispute of disputes) {
         const deadline = dispute.deadlines.responseDeadline;
         if (!deadline) continue;
 
-        const daysRemaining = Math.ceil((deadline - now) / (1000 * 60 * 60 * 24));
-        
-        let category = 'normal';
-        if (daysRemaining < 0) {
-          summary.overdue++;
-          category = 'overdue';
-        } else if (daysRemaining <= 3) {
-          summary.urgent++;
-          category = 'urgent';
-        } else if (daysRemaining <= 7) {
-          summary.warning++;
-          category = 'warning';
-        }
+        const settings = getSettings(dispute.patientGroup);
+        const daysRemaining = deadlineCalculator.getDaysRemaining(deadline, { settings, now });
+        const category = deadlineCalculator.classify(daysRemaining, settings);
 
-        if (category !== 'normal') {
+        if (category) {
+          summary[category]++;
           summary.details.push({
             disputeId: dispute._id,
+            patientGroup: dispute.patientGroup,
             patientName: `${dispute.patient?.firstName} ${dispute.patient?.lastName}`,
             service: dispute.requestDetails.requestedService,
             deadline,
             daysRemaining: Math.abs(daysRemaining),
+            dayType: settings.reminderDayType,
             category,
             status: dispute.dispute.status
           });
@@ -233,6 +266,10 @@ class DeadlineMonitoringService {
       }
 
       dispute.deadlines[deadlineType] = new Date(newDeadline);
+      if (deadlineType === 'responseDeadline') {
+        // Keep a hand-set deadline when the payer profile changes
+        dispute.deadlines.deadlineSource = 'manual';
+      }
       
       // Clear existing flags as deadline changed
       dispute.deadlines.deadlineFlags.forEach(flag => {
@@ -240,7 +277,7 @@ class DeadlineMonitoringService {
       });
 
       // Update flags with new deadline
-      dispute.updateDeadlineFlags();
+      dispute.updateDeadlineFlags(await dispute.loadDeadlineSettings());
       
       await dispute.save();
 
@@ -0,0 +1,172 @@
+// services/denialLetterParser.js
+// Pulls structured dispute fields out of extracted denial letter text.
+// Every field is returned as { value, confidence, source: { text, start, end } } or null when not found.
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const DATE_PATTERN = '(\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+\\d{1,2},?\\s+\\d{4})';
+
+// Ordered from most to least specific; the first pattern that matches wins
+const FIELD_PATTERNS = {
+  denialDate: [
+    { regex: new RegExp(`(?:date of (?:denial|notice|determination|decision|this notice)|denial date|determination date|decision date)\\s*[:\\-]?\\s*${DATE_PATTERN}`, 'i'), confidence: 95 },
+    { regex: new RegExp(`^\\s*(?:date)\\s*[:\\-]\\s*${DATE_PATTERN}`, 'im'), confidence: 80 },
+    { regex: new RegExp(DATE_PATTERN, 'i'), confidence: 50 },
+  ],
+  requestedDate: [
+    { regex: new RegExp(`(?:date of (?:request|service)|request(?:ed)? date|service date|date received)\\s*[:\\-]?\\s*${DATE_PATTERN}`, 'i'), confidence: 90 },
+  ],
+  denialCode: [
+    { regex: /(?:denial|reason|adjustment|remark)\s+code\s*[:#-]?\s*([A-Z]{0,3}-?\d{1,4}[A-Z]?)/i, confidence: 95 },
+    { regex: /\b((?:CO|PR|OA|PI|CR)-\d{1,3})\b/, confidence: 80 },
+  ],
+  serviceCode: [
+    { regex: /(?:CPT|HCPCS|procedure)\s*(?:code)?\s*[:#-]?\s*(\d{5}(?:-[A-Z0-9]{2})?)\b/i, confidence: 95 },
+    { regex: /\bcode\s*[:#-]?\s*(\d{5})\b/i, confidence: 60 },
+  ],
+  diagnosisCode: [
+    { regex: /(?:ICD-?10(?:-CM)?|diagnosis)\s*(?:code)?\s*[:#-]?\s*([A-TV-Z]\d{2}(?:\.\d{1,4})?)\b/i, confidence: 95 },
+    { regex: /\b([A-TV-Z]\d{2}\.\d{1,4})\b/, confidence: 60 },
+  ],
+  insuranceReviewer: [
+    { regex: /(?:reviewed by|reviewer|reviewing physician|physician reviewer)[ \t]*[:,-]?[ \t]*((?:Dr\.?[ \t]+)?[a-z][a-z.'-]+(?:[ \t]+[a-z][a-z.'-]*){1,3}(?:,[ \t]*(?:M\.?D\.?|D\.?O\.?|R\.?N\.?))?)/i, confidence: 90 },
+    { regex: /^[ \t]*((?:Dr\.?[ \t]+)?[A-Z][a-zA-Z.'-]+(?:[ \t]+[A-Z][a-zA-Z.'-]+){1,3},[ \t]*(?:M\.?D\.?|D\.?O\.?))[ \t]*$/m, confidence: 65 },
+  ],
+  requestedService: [
+    { regex: /(?:service requested|requested service|service\/procedure|procedure requested|requested procedure|service|procedure)\s*:\s*([^\n]{3,120})/i, confidence: 90 },
+    { regex: /(?:request(?:ed)? for|authorization for|coverage (?:of|for))\s+(?:an?\s+|the\s+)?([^\n.,;]{3,80})/i, confidence: 60 },
+  ],
+  denialReason: [
+    { regex: /(?:reason for (?:denial|decision|determination)|denial reason|basis for (?:denial|decision)|rationale)\s*:\s*([\s\S]{10,600}?)(?:\n\s*\n|$)/i, confidence: 90 },
+    { regex: /([^.\n]*(?:denied|not approved|unable to approve|cannot approve)[^.\n]*(?:because|as|due to)[^.]*\.)/i, confidence: 70 },
+    { regex: /([^.\n]*(?:not medically necessary|does not meet|not covered|experimental|investigational)[^.]*\.)/i, confidence: 55 },
+  ],
+};
+
+// Keyword groups used to classify the denial; matches the denialType enum on PriorAuthorization
+const DENIAL_TYPE_KEYWORDS = {
+  medical_necessity: [/not medically necessary/i, /medical necessity/i, /does not meet (?:the )?(?:clinical )?criteria/i, /clinical criteria (?:were|was|are) not met/i],
+  experimental: [/experimental/i, /investigational/i, /unproven/i],
+  not_covered: [/not a covered (?:benefit|service)/i, /not covered under/i, /excluded from coverage/i, /benefit exclusion/i, /plan exclusion/i],
+  documentation: [/insufficient (?:clinical )?(?:documentation|information)/i, /(?:records|documentation) (?:were|was) not (?:received|provided)/i, /missing (?:clinical )?(?:documentation|records|information)/i, /additional information (?:is|was) (?:needed|required)/i],
+};
+
+class DenialLetterParser {
+  // Parse extracted letter text into requestDetails/denial fields.
+  // extractionConfidence (0-100) scales every field's confidence, so low-quality OCR is reflected.
+  parse(text, extractionConfidence = 100) {
+    const scale = Math.max(0, Math.min(100, extractionConfidence)) / 100;
+
+    const field = (name, transform) => this.scaleConfidence(this.matchField(text, name, transform), scale);
+
+    return {
+      requestDetails: {
+        requestedService: field('requestedService', value => value.trim().replace(/\s+/g, ' ')),
+        serviceCode: field('serviceCode', value => value.toUpperCase()),
+        diagnosisCode: field('diagnosisCode', value => value.toUpperCase()),
+        requestedDate: field('requestedDate', value => this.parseDate(value)),
+      },
+      denial: {
+        denialDate: field('denialDate', value => this.parseDate(value)),
+        denialReason: field('denialReason', value => value.trim().replace(/\s+/g, ' ')),
+        denialCode: field('denialCode', value => value.toUpperCase()),
+        insuranceReviewer: field('insuranceReviewer', value => value.trim()),
+        denialType: this.scaleConfidence(this.classifyDenialType(text), scale),
+      },
+    };
+  }
+
+  matchField(text, name, transform = value => value) {
+    for (const { regex, confidence } of FIELD_PATTERNS[name]) {
+      const match = regex.exec(text);
+      if (!match) continue;
+
+      const value = transform(match[1]);
+      if (value === null || value === '') continue;
+
+      const start = match.index + match[0].indexOf(match[1]);
+      return {
+        value,
+        confidence,
+        source: {
+          text: match[0].trim(),
+          start,
+          end: start + match[1].length,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  classifyDenialType(text) {
+    let best = null;
+
+    for (const [denialType, patterns] of Object.entries(DENIAL_TYPE_KEYWORDS)) {
+      const matches = patterns
+        .map(pattern => pattern.exec(text))
+        .filter(Boolean);
+
+      if (matches.length === 0) continue;
+      if (best && best.hits >= matches.length) continue;
+
+      const first = matches.sort((a, b) => a.index - b.index)[0];
+      best = {
+        hits: matches.length,
+        value: denialType,
+        source: {
+          text: first[0],
+          start: first.index,
+          end: first.index + first[0].length,
+        },
+      };
+    }
+
+    if (!best) {
+      return { value: 'other', confidence: 30, source: null };
+    }
+
+    return {
+      value: best.value,
+      confidence: Math.min(95, 60 + best.hits * 15),
+      source: best.source,
+    };
+  }
+
+  // Normalize the date formats payers use into YYYY-MM-DD
+  parseDate(value) {
+    const trimmed = value.trim().replace(/\.$/, '');
+    let year, month, day;
+
+    let match = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/.exec(trimmed);
+    if (match) {
+      [, month, day, year] = match.map(Number);
+      if (year < 100) year += 2000;
+    }
+
+    if (!match) {
+      match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+      if (match) [, year, month, day] = match.map(Number);
+    }
+
+    if (!match) {
+      match = /^([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(trimmed);
+      if (match) {
+        month = MONTHS.findIndex(name => name.startsWith(match[1].toLowerCase().slice(0, 3))) + 1;
+        day = Number(match[2]);
+        year = Number(match[3]);
+      }
+    }
+
+    if (!match || !month || month > 12 || !day || day > 31) return null;
+
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  scaleConfidence(result, scale) {
+    if (!result) return null;
+    return { ...result, confidence: Math.round(result.confidence * scale) };
+  }
+}
+
+module.exports = new DenialLetterParser();
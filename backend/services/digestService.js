@@ -0,0 +1,280 @@
+// services/digestService.js
+const User = require('../models/User');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const PatientGroup = require('../models/PatientGroup');
+const deadlineMonitoringService = require('./deadlineMonitoringService');
+const notificationService = require('./notificationService');
+const permissionService = require('./permissionService');
+const { isValidTimeZone } = require('./deadlineCalculator');
+const { getNotificationConfig } = require('../config/notifications');
+const { logger } = require('../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const STATUS_CHANGE_PATTERN = /^Status changed from (\w+) to (\w+)$/;
+
+const CATEGORY_LABELS = {
+  overdue: 'Overdue',
+  urgent: 'Due very soon',
+  warning: 'Coming up',
+};
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatStatus = (status) => status.replace(/_/g, ' ');
+const formatDays = (days, dayType) => `${days} ${dayType === 'business' ? 'business ' : ''}day${days === 1 ? '' : 's'}`;
+
+// Date, weekday and minutes past midnight of `date` as seen in `timeZone`
+const getLocalParts = (date, timeZone) => {
+  const parts = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+};
+
+class DigestService {
+  constructor() {
+    this.isRunning = false;
+    this.intervalId = null;
+    this.checkInterval = 15 * 60 * 1000; // Look for users due a digest every 15 minutes
+  }
+
+  start() {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      this.sendDueDigests();
+    }, this.checkInterval);
+
+    this.sendDueDigests();
+
+    logger.info('Digest service started');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Digest service stopped');
+  }
+
+  async sendDueDigests(now = new Date()) {
+    try {
+      const users = await User.find({ 'preferences.digest.frequency': { $in: ['daily', 'weekly'] } });
+
+      let sent = 0;
+      for (const user of users) {
+        if (!this.isDue(user, now)) continue;
+
+        try {
+          if (await this.sendDigest(user, now)) sent++;
+        } catch (error) {
+          logger.error(`Error sending digest to user ${user._id}:`, error);
+        }
+      }
+
+      if (sent > 0) {
+        logger.info(`Sent ${sent} digest emails`);
+      }
+    } catch (error) {
+      logger.error('Error sending digests:', error);
+    }
+  }
+
+  // Due once the chosen local time has passed on a digest day, if one hasn't gone out that local day
+  isDue(user, now = new Date()) {
+    const { frequency, time, dayOfWeek, timezone } = user.preferences.digest;
+    const timeZone = isValidTimeZone(timezone) ? timezone : 'UTC';
+    const local = getLocalParts(now, timeZone);
+
+    if (frequency === 'weekly' && local.weekday !== dayOfWeek) return false;
+
+    const [hours, minutes] = time.split(':').map(Number);
+    if (local.minutes < hours * 60 + minutes) return false;
+
+    if (!user.lastDigestSentAt) return true;
+    return getLocalParts(user.lastDigestSentAt, timeZone).date !== local.date;
+  }
+
+  // Returns the queued deliveries, or null when there was nothing to report
+  async sendDigest(user, now = new Date()) {
+    const period = user.preferences.digest.frequency === 'weekly' ? 7 * DAY_MS : DAY_MS;
+    const since = user.lastDigestSentAt && now - user.lastDigestSentAt < 2 * period
+      ? user.lastDigestSentAt
+      : new Date(now - period);
+
+    const digest = await this.buildDigest(user, since);
+
+    // Record the run even when empty so the user isn't checked again until the next digest day
+    await User.updateOne({ _id: user._id }, { lastDigestSentAt: now });
+
+    if (digest.itemCount === 0) {
+      logger.info(`Digest for user ${user._id} skipped: nothing to report`);
+      return null;
+    }
+
+    return notificationService.queueNotification({
+      userId: user._id,
+      type: 'digest',
+      data: {
+        title: digest.subject,
+        message: digest.text,
+        html: digest.html,
+        url: '/dashboard',
+      },
+      channels: ['email'],
+      priority: 'low',
+    });
+  }
+
+  // Groups whose patients the user may view, through membership or an organization role, leaving out those
+  // requiring MFA when the user hasn't set it up
+  async getVisibleGroupIds(user) {
+    const groups = await PatientGroup.find(await PatientGroup.accessibleBy(user))
+      .select('organization members roles settings');
+
+    const visible = [];
+    for (const group of groups) {
+      if (await permissionService.canReach(group, user, 'patient.view')) {
+        visible.push(group._id);
+      }
+    }
+    return visible;
+  }
+
+  // Deadlines, status changes and new AI analyses across the groups the user can view. The email names
+  // disputes by reference only; the links lead to the details in the app.
+  async buildDigest(user, since) {
+    const { appUrl } = getNotificationConfig();
+    const { frequency, timezone } = user.preferences.digest;
+    const timeZone = isValidTimeZone(timezone) ? timezone : 'UTC';
+    const groupIds = await this.getVisibleGroupIds(user);
+
+    const disputeLink = (disputeId) => `${appUrl}/dispute/${disputeId}`;
+    const formatDate = (date) => new Date(date).toLocaleDateString('en-US', { timeZone, month: 'short', day: 'numeric' });
+    const reference = (disputeId) => `Dispute ${disputeId}`;
+
+    // getDeadlineSummary falls back to the user's own disputes when given no groups
+    const summary = groupIds.length > 0
+      ? await deadlineMonitoringService.getDeadlineSummary(user._id, groupIds)
+      : { overdue: 0, urgent: 0, warning: 0, details: [] };
+
+    const activityQuery = { isActive: true, patientGroup: { $in: groupIds } };
+
+    const changedDisputes = await PriorAuthorization.find({
+      ...activityQuery,
+      timeline: { $elemMatch: { date: { $gte: since }, action: STATUS_CHANGE_PATTERN } },
+    })
+      .select('timeline');
+
+    const statusChanges = changedDisputes.flatMap(dispute => dispute.timeline
+      .filter(entry => entry.date >= since && STATUS_CHANGE_PATTERN.test(entry.action))
+      .map(entry => {
+        const [, from, to] = entry.action.match(STATUS_CHANGE_PATTERN);
+        return {
+          disputeId: dispute._id,
+          from,
+          to,
+          date: entry.date,
+        };
+      }))
+      .sort((a, b) => b.date - a.date);
+
+    const analyzedDisputes = await PriorAuthorization.find({
+      ...activityQuery,
+      'analysis.status': 'completed',
+      'analysis.analysisDate': { $gte: since },
+    })
+      .select('analysis.analysisDate')
+      .sort({ 'analysis.analysisDate': -1 });
+
+    const analyses = analyzedDisputes.map(dispute => ({
+      disputeId: dispute._id,
+      date: dispute.analysis.analysisDate,
+    }));
+
+    const deadlineItems = summary.details.map(item => ({
+      disputeId: item.disputeId,
+      category: item.category,
+      line: item.category === 'overdue'
+        ? `${reference(item.disputeId)}: ${formatDays(item.daysRemaining, item.dayType)} overdue (due ${formatDate(item.deadline)})`
+        : `${reference(item.disputeId)}: due ${formatDate(item.deadline)} (${formatDays(item.daysRemaining, item.dayType)})`,
+    }));
+    const statusItems = statusChanges.map(change => ({
+      ...change,
+      line: `${reference(change.disputeId)}: ${formatStatus(change.from)} -> ${formatStatus(change.to)} on ${formatDate(change.date)}`,
+    }));
+    const analysisItems = analyses.map(analysis => ({
+      ...analysis,
+      line: `${reference(analysis.disputeId)}: analysis completed on ${formatDate(analysis.date)}`,
+    }));
+
+    const sections = [
+      ...['overdue', 'urgent', 'warning'].map(category => ({
+        heading: CATEGORY_LABELS[category],
+        items: deadlineItems.filter(item => item.category === category),
+      })),
+      { heading: 'Status changes', items: statusItems },
+      { heading: 'New AI analyses', items: analysisItems },
+    ].filter(section => section.items.length > 0);
+
+    const counts = [
+      summary.overdue && `${summary.overdue} overdue`,
+      summary.urgent && `${summary.urgent} urgent`,
+      statusItems.length && `${statusItems.length} status change${statusItems.length === 1 ? '' : 's'}`,
+      analysisItems.length && `${analysisItems.length} new analys${analysisItems.length === 1 ? 'is' : 'es'}`,
+    ].filter(Boolean);
+    const subject = `Your ${frequency} dispute digest${counts.length ? `: ${counts.join(', ')}` : ''}`;
+
+    const intro = `Here is your ${frequency} summary of dispute deadlines and activity since ${formatDate(since)}.`;
+
+    const text = [
+      intro,
+      ...sections.map(section => [
+        `${section.heading.toUpperCase()}`,
+        ...section.items.map(item => `- ${item.line}\n  ${disputeLink(item.disputeId)}`),
+      ].join('\n')),
+    ].join('\n\n');
+
+    const html = [
+      `<p>${escapeHtml(intro)}</p>`,
+      ...sections.map(section => [
+        `<h3 style="margin-bottom:4px">${escapeHtml(section.heading)}</h3>`,
+        '<ul>',
+        ...section.items.map(item => `<li><a href="${escapeHtml(disputeLink(item.disputeId))}">${escapeHtml(item.line)}</a></li>`),
+        '</ul>',
+      ].join('\n')),
+    ].join('\n');
+
+    return {
+      subject,
+      text,
+      html,
+      itemCount: sections.reduce((total, section) => total + section.items.length, 0),
+    };
+  }
+}
+
+module.exports = new DigestService();
@@ -0,0 +1,417 @@
+// services/disputeAiService.js
+// AI analysis and document generation for disputes. Both run as background jobs on the job queue.
+const PriorAuthorization = require('../models/PriorAuthorization');
+const notificationService = require('./notificationService');
+const textExtractionService = require('./textExtractionService');
+const documentStorageService = require('./documentStorageService');
+const analysisValidator = require('./analysisValidator');
+const jobQueueService = require('./jobQueueService');
+const realtimeService = require('./realtimeService');
+const { NonRetryableJobError } = require('./jobQueueService');
+const { getLLMProvider } = require('./llm');
+const { logger } = require('../utils/logger');
+
+const DOCUMENT_TYPES = ['email', 'letter', 'phone_notes', 'peer_review'];
+
+const DOCUMENT_INSTRUCTIONS = {
+  email: 'Generate a professional email to the insurance company disputing this prior authorization denial. Include a clear subject line and professional tone. Base the arguments on the analysis provided.',
+  letter: 'Generate a formal business letter to dispute this prior authorization denial. Use formal language and base the arguments on the analysis provided. Start with the salutation and end with the final paragraph: the practice letterhead, date, patient identifiers and signature block are added when the letter is exported.',
+  phone_notes: 'Generate talking points and phone script for a peer-to-peer review call regarding this prior authorization denial. Include key points to emphasize and responses to potential objections.',
+  peer_review: 'Generate comprehensive notes for a peer-to-peer review regarding this prior authorization denial. Include medical justification, clinical guidelines, and evidence-based arguments.',
+};
+
+class DisputeAiService {
+  get documentTypes() {
+    return DOCUMENT_TYPES;
+  }
+
+  // Get the denial letter text, extracting it if it hasn't been stored yet
+  async getDenialDocumentText(dispute) {
+    const denialDocument = dispute.denial.denialDocument;
+    if (!denialDocument || !denialDocument.filename) return '';
+
+    if (!denialDocument.extraction || denialDocument.extraction.status === 'pending') {
+      const data = await documentStorageService.read(denialDocument, 'denial_letter');
+      const extractionResult = data
+        ? await textExtractionService.extractText(data, denialDocument.mimeType, denialDocument.originalName)
+        : { text: '', method: 'none', status: 'failed', confidence: 0, pages: [], error: 'The denial letter is missing from storage' };
+      dispute.setDenialExtraction(extractionResult);
+    }
+
+    return denialDocument.extractedText || '';
+  }
+
+  async loadDispute(disputeId) {
+    const dispute = await PriorAuthorization.findOne({
+      _id: disputeId,
+      isActive: true,
+    })
+    .populate('patient')
+    .populate('payer')
+    .populate('createdBy', 'firstName lastName');
+
+    if (!dispute) {
+      throw new NonRetryableJobError('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  // Payer rules that the analysis and documents should follow; empty when no payer profile is linked
+  buildPayerContext(dispute) {
+    const payer = dispute.payer;
+    if (!payer || !payer.name) return '';
+
+    const lines = [`Payer: ${payer.name}`];
+    const round = dispute.getCurrentRound();
+
+    const appealLevel = round.type === 'internal_appeal' ? payer.getAppealLevel(round.level) : null;
+    if (appealLevel) {
+      lines.push(`Appeal Level: ${appealLevel.name} (must be filed within ${appealLevel.filingWindowDays} days of the ${round.level === 1 ? 'denial' : 'previous decision'}${appealLevel.decisionTurnaroundDays ? `; payer decides within ${appealLevel.decisionTurnaroundDays} days` : ''})`);
+    } else if (round.type === 'external_review' && payer.externalReview) {
+      lines.push(`External Review: must be requested within ${payer.externalReview.filingWindowDays} days of the final internal denial`);
+    }
+    if (dispute.requestDetails.urgency !== 'routine' && payer.expeditedReview?.available) {
+      lines.push(`Expedited Review: available, decision within ${payer.expeditedReview.turnaroundHours} hours`);
+    }
+
+    const denialCode = payer.findDenialCode(dispute.denial.denialCode);
+    if (denialCode) {
+      lines.push(`Denial Code ${denialCode.code}: ${denialCode.description}${denialCode.appealGuidance ? ` (appeal guidance: ${denialCode.appealGuidance})` : ''}`);
+    }
+
+    const requiredForms = payer.getRequiredForms(round.level || 0);
+    if (requiredForms.length > 0) {
+      lines.push(`Required Forms: ${requiredForms.map(form => form.formNumber ? `${form.name} (${form.formNumber})` : form.name).join(', ')}`);
+    }
+
+    const target = payer.getSubmissionTarget();
+    if (target) {
+      const value = target.channel === 'mail'
+        ? [target.value.attention, target.value.street, `${target.value.city}, ${target.value.state} ${target.value.zipCode}`].filter(Boolean).join(', ')
+        : target.value;
+      lines.push(`Submit Via: ${target.channel} - ${value}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  // Which round the document is for, and how earlier rounds went, so later appeals build on them
+  describeRound(dispute) {
+    const round = dispute.getCurrentRound();
+    const earlier = dispute.appealRounds
+      .filter(item => item.number < round.number && item.outcome?.result)
+      .map(item => `${item.name} ${item.outcome.result.replace('_', ' ')}${item.outcome.notes ? ` (${item.outcome.notes})` : ''}`);
+
+    return earlier.length > 0 ? `${round.name}; earlier rounds: ${earlier.join('; ')}` : round.name;
+  }
+
+  buildAnalysisPrompt(dispute, denialText) {
+    const payerContext = this.buildPayerContext(dispute);
+
+    return `
+As a medical prior authorization expert, analyze this denial and identify opportunities to dispute it.
+
+Patient Information:
+- Name: ${dispute.patient.firstName} ${dispute.patient.lastName}
+- Requested Service: ${dispute.requestDetails.requestedService}
+- Service Code: ${dispute.requestDetails.serviceCode || 'Not provided'}
+- Diagnosis Code: ${dispute.requestDetails.diagnosisCode || 'Not provided'}
+- Clinical Justification: ${dispute.requestDetails.clinicalJustification}
+
+Denial Information:
+- Denial Date: ${dispute.denial.denialDate}
+- Denial Reason: ${dispute.denial.denialReason}
+- Denial Code: ${dispute.denial.denialCode || 'Not provided'}
+${payerContext ? `\nPayer Appeal Rules:\n${payerContext}\n` : ''}
+Denial Content:
+${denialText}
+
+Please provide a comprehensive analysis including:
+1. Dispute opportunities (categorized by strength: strong, moderate, weak)
+2. Success probability estimate (0-100%)
+3. Recommended approach (peer_review, formal_appeal, expedited_review, external_review)
+4. Key arguments to make
+5. Supporting evidence needed
+
+Format your response as JSON with the following structure:
+{
+  "disputeOpportunities": [
+    {
+      "category": "medical_necessity|policy_interpretation|documentation|precedent|emergency",
+      "strength": "strong|moderate|weak",
+      "description": "Description of the opportunity",
+      "evidence": ["Evidence item 1", "Evidence item 2"],
+      "recommendedAction": "Specific action to take"
+    }
+  ],
+  "successProbability": 75,
+  "recommendedApproach": "peer_review",
+  "keyArguments": ["Argument 1", "Argument 2"],
+  "supportingEvidence": ["Evidence 1", "Evidence 2"]
+}
+`;
+  }
+
+  buildDocumentPrompt(dispute, documentType, denialLetterText) {
+    const payerContext = this.buildPayerContext(dispute);
+    const baseInfo = `
+Appeal Round: ${this.describeRound(dispute)}
+Patient: ${dispute.patient.firstName} ${dispute.patient.lastName}
+Requested Service: ${dispute.requestDetails.requestedService}
+Clinical Justification: ${dispute.requestDetails.clinicalJustification}
+Denial Reason: ${dispute.denial.denialReason}
+Key Arguments: ${dispute.analysis.keyArguments.join(', ')}
+Supporting Evidence: ${dispute.analysis.supportingEvidence.join(', ')}
+Recommended Approach: ${dispute.analysis.recommendedApproach}
+${payerContext ? `\nPayer Appeal Rules (reference the required forms and meet the filing window):\n${payerContext}\n` : ''}${denialLetterText ? `\nDenial Letter Text (payer's wording):\n${denialLetterText}\n` : ''}`;
+
+    return `${DOCUMENT_INSTRUCTIONS[documentType]}\n\n${baseInfo}`;
+  }
+
+  // Job handler for 'dispute_analysis'
+  async runAnalysis(job, { updateProgress, checkCancelled }) {
+    const userId = job.requestedBy;
+    const dispute = await this.loadDispute(job.dispute);
+
+    await updateProgress(10, 'Reading denial letter');
+
+    // Extract denial text content
+    let denialText = dispute.denial.denialReason;
+    const extractedText = await this.getDenialDocumentText(dispute);
+    if (extractedText) {
+      denialText += '\n\nDenial Document Content:\n' + extractedText;
+    }
+
+    const analysisPrompt = this.buildAnalysisPrompt(dispute, denialText);
+
+    // Call the configured LLM provider for analysis, asking it to repair invalid output
+    const analyzer = getLLMProvider('analyzer');
+    const maxAttempts = 1 + analyzer.config.repairAttempts;
+    let prompt = analysisPrompt;
+    let response;
+    let parsed;
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      await checkCancelled();
+
+      attempts++;
+      await updateProgress(
+        20 + Math.round(((attempts - 1) / maxAttempts) * 60),
+        attempts === 1 ? 'Analyzing denial' : `Repairing AI response (attempt ${attempts} of ${maxAttempts})`
+      );
+
+      response = await analyzer.complete({
+        task: 'analysis',
+        prompt,
+        variables: {
+          requestedService: dispute.requestDetails.requestedService,
+        },
+      });
+
+      parsed = analysisValidator.parse(response.text);
+      if (parsed.valid) break;
+
+      logger.warn(`Analysis output invalid (attempt ${attempts}/${maxAttempts}): ${parsed.errors.join('; ')}`);
+      prompt = `${analysisPrompt}\n\n${analysisValidator.buildRepairPrompt(response.text, parsed.errors)}`;
+    }
+
+    await checkCancelled();
+    await updateProgress(90, 'Saving analysis');
+
+    if (!parsed.valid) {
+      // Record the failure instead of inventing a result, keeping the last good analysis
+      dispute.analysisRun = {
+        status: 'failed',
+        attemptedAt: new Date(),
+        error: 'The AI response could not be validated. Please run the analysis again.',
+        validationErrors: parsed.errors,
+        attempts,
+        output: response.text,
+        aiModel: response.model,
+      };
+
+      dispute.addTimelineEntry('Analysis failed', userId, `AI output failed validation after ${attempts} attempts`);
+      await dispute.save();
+
+      await realtimeService.sendToGroup(dispute.patientGroup, 'dispute:analysis', {
+        disputeId: dispute._id,
+        requestedBy: userId,
+      });
+
+      // Another run would spend the same repair budget again; let the user retry explicitly
+      throw new NonRetryableJobError(
+        'Analysis failed: the AI response did not match the expected format',
+        { analysisRun: dispute.analysisRun }
+      );
+    }
+
+    const analysisResult = parsed.value;
+
+    // Update dispute with analysis
+    const analysisDate = new Date();
+    dispute.analysis = {
+      analysisDate,
+      status: 'completed',
+      attempts,
+      analysisResult: response.text,
+      aiModel: response.model,
+      disputeOpportunities: analysisResult.disputeOpportunities,
+      successProbability: analysisResult.successProbability,
+      recommendedApproach: analysisResult.recommendedApproach,
+      keyArguments: analysisResult.keyArguments,
+      supportingEvidence: analysisResult.supportingEvidence,
+    };
+    dispute.analysisRun = {
+      status: 'completed',
+      attemptedAt: analysisDate,
+      attempts,
+      aiModel: response.model,
+    };
+
+    dispute.addTimelineEntry('Analysis completed', userId, `AI analysis identified ${analysisResult.disputeOpportunities.length} dispute opportunities`);
+
+    await dispute.save();
+
+    // Send notification
+    await notificationService.notifyAnalysisComplete(
+      dispute._id,
+      userId,
+      analysisResult.successProbability
+    );
+
+    await realtimeService.sendToGroup(dispute.patientGroup, 'dispute:analysis', {
+      disputeId: dispute._id,
+      requestedBy: userId,
+    });
+
+    return { analysis: dispute.analysis };
+  }
+
+  // Loads the dispute and builds the LLM request for a document; shared by the job and streaming paths
+  async prepareDocumentRequest(disputeId, documentType) {
+    if (!DOCUMENT_TYPES.includes(documentType)) {
+      throw new NonRetryableJobError(`Unsupported document type: ${documentType}`);
+    }
+
+    const dispute = await this.loadDispute(disputeId);
+
+    if (!dispute.analysis || !dispute.analysis.analysisResult || dispute.analysis.status === 'failed') {
+      throw new NonRetryableJobError('Please run analysis first before generating documents');
+    }
+
+    // Quote the payer's own wording from the denial letter when we have it
+    const denialLetterText = await this.getDenialDocumentText(dispute);
+
+    return {
+      dispute,
+      request: {
+        task: 'document',
+        documentType,
+        prompt: this.buildDocumentPrompt(dispute, documentType, denialLetterText),
+        variables: {
+          patientName: `${dispute.patient.firstName} ${dispute.patient.lastName}`,
+          requestedService: dispute.requestDetails.requestedService,
+          clinicalJustification: dispute.requestDetails.clinicalJustification,
+          denialReason: dispute.denial.denialReason,
+        },
+      },
+    };
+  }
+
+  // Only completed documents are saved; a cancelled or failed generation leaves the dispute untouched.
+  // Regenerating a type adds a new version to the latest unsent document of that type in the current appeal round.
+  async saveGeneratedDocument(dispute, documentType, response, userId) {
+    const documents = dispute.dispute.generatedDocuments;
+    const appealRound = dispute.getCurrentRound().number;
+    let document = [...documents].reverse().find(existing =>
+      existing.type === documentType && existing.status !== 'sent' && existing.appealRound === appealRound
+    );
+
+    if (document) {
+      const version = dispute.addDocumentVersion(document, {
+        content: response.text,
+        format: 'text',
+        source: 'ai',
+        userId,
+        aiModel: response.model,
+      });
+      dispute.addTimelineEntry(`Regenerated ${documentType}`, userId, `AI-generated version ${version.versionNumber} of ${documentType} document`);
+    } else {
+      documents.push({
+        type: documentType,
+        content: response.text,
+        generatedBy: userId,
+        aiModel: response.model,
+        appealRound,
+        versions: [{
+          versionNumber: 1,
+          content: response.text,
+          format: 'text',
+          source: 'ai',
+          createdBy: userId,
+          aiModel: response.model,
+        }],
+      });
+      document = documents[documents.length - 1];
+      dispute.addTimelineEntry(`Generated ${documentType}`, userId, `AI-generated ${documentType} document created`);
+    }
+
+    await dispute.save();
+
+    // Send notification
+    await notificationService.notifyDocumentGenerated(
+      dispute._id,
+      userId,
+      documentType
+    );
+
+    return document;
+  }
+
+  // Job handler for 'document_generation'
+  async runDocumentGeneration(job, { updateProgress, checkCancelled }) {
+    const userId = job.requestedBy;
+    const { documentType } = job.payload;
+
+    const { dispute, request } = await this.prepareDocumentRequest(job.dispute, documentType);
+
+    await checkCancelled();
+    await updateProgress(30, `Writing ${documentType.replace('_', ' ')}`);
+
+    // Call the configured LLM provider for document generation
+    const response = await getLLMProvider('disputer').complete(request);
+
+    await checkCancelled();
+    await updateProgress(90, 'Saving document');
+
+    const document = await this.saveGeneratedDocument(dispute, documentType, response, userId);
+
+    return { document };
+  }
+
+  // Generates a document in the request, passing text chunks to onText as the model writes them
+  async streamDocument(disputeId, documentType, userId, { signal, onText }) {
+    const { dispute, request } = await this.prepareDocumentRequest(disputeId, documentType);
+
+    const response = await getLLMProvider('disputer').stream({
+      ...request,
+      signal,
+      onText,
+    });
+
+    if (signal?.aborted) {
+      return null;
+    }
+
+    return this.saveGeneratedDocument(dispute, documentType, response, userId);
+  }
+}
+
+const disputeAiService = new DisputeAiService();
+
+jobQueueService.registerHandler('dispute_analysis', (job, context) => disputeAiService.runAnalysis(job, context));
+jobQueueService.registerHandler('document_generation', (job, context) => disputeAiService.runDocumentGeneration(job, context));
+
+module.exports = disputeAiService;
@@ -0,0 +1,125 @@
+// services/disputeStatusService.js
+// Allowed dispute status changes, their guards and side effects.
+// A denial ends the current appeal round; the dispute carries on through POST /api/disputes/:id/rounds.
+
+const TRANSITIONS = {
+  pending: ['in_progress', 'submitted', 'withdrawn'],
+  in_progress: ['pending', 'submitted', 'withdrawn'],
+  submitted: ['under_review', 'approved', 'denied', 'withdrawn'],
+  under_review: ['approved', 'denied', 'withdrawn'],
+  approved: [],
+  denied: [],
+  withdrawn: [],
+};
+
+// Statuses that record the payer's decision (or the practice dropping the appeal) on the current round
+const CLOSING_STATUSES = ['approved', 'denied', 'withdrawn'];
+
+// Outcome results that each closing status accepts
+const OUTCOME_RESULTS = {
+  approved: ['approved', 'partial_approval'],
+  denied: ['denied'],
+  withdrawn: ['withdrawn'],
+};
+
+class StatusTransitionError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'StatusTransitionError';
+    this.details = details;
+  }
+}
+
+class DisputeStatusService {
+  // Reason `to` is blocked for this dispute, or null if it is allowed.
+  // A peer-to-peer call can overturn the denial while the round is still open, before a formal decision.
+  getBlockedReason(dispute, to, { outcome, round } = {}) {
+    const from = dispute.dispute.status;
+    const viaPeerToPeer = round?.type === 'peer_to_peer' && to === 'approved' && !CLOSING_STATUSES.includes(from);
+
+    if (!TRANSITIONS[from]?.includes(to) && !viaPeerToPeer) {
+      return TRANSITIONS[from]?.length
+        ? `A ${from.replace('_', ' ')} dispute cannot be moved to ${to.replace('_', ' ')}`
+        : `A ${from} dispute is closed${from === 'denied' ? ' - start the next appeal round to continue' : ''}`;
+    }
+
+    if (to === 'submitted' && !dispute.validation?.canSubmit) {
+      return 'Run pre-submission validation and resolve failed checks before submitting';
+    }
+
+    // Withdrawing needs no payer decision; approvals and denials must say what the payer decided
+    if (to !== 'withdrawn' && CLOSING_STATUSES.includes(to)) {
+      if (!outcome?.result) {
+        return `Record the payer's decision to mark the dispute ${to}`;
+      }
+      if (!OUTCOME_RESULTS[to].includes(outcome.result)) {
+        return `A ${outcome.result.replace('_', ' ')} outcome does not match ${to}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Every status reachable from the current one, with what it needs, for the UI
+  getAllowedTransitions(dispute) {
+    return (TRANSITIONS[dispute.dispute.status] || []).map(status => {
+      const requiresOutcome = status !== 'withdrawn' && CLOSING_STATUSES.includes(status);
+      // The outcome is supplied with the request, so only the other guards decide availability here
+      const blockedReason = this.getBlockedReason(dispute, status, requiresOutcome ? { outcome: { result: OUTCOME_RESULTS[status][0] } } : {});
+
+      return {
+        status,
+        allowed: !blockedReason,
+        blockedReason,
+        requiresOutcome,
+        outcomeResults: OUTCOME_RESULTS[status] || [],
+      };
+    });
+  }
+
+  // Apply a status change with its side effects. `payer` must be populated and `settings` are the group's
+  // deadline settings. Returns the next appeal round on offer after a denial.
+  transition(dispute, to, { userId, notes, outcome, submittedAt, round, payer, settings } = {}) {
+    const blockedReason = this.getBlockedReason(dispute, to, { outcome, round });
+    if (blockedReason) {
+      throw new StatusTransitionError(blockedReason, {
+        from: dispute.dispute.status,
+        to,
+        allowed: TRANSITIONS[dispute.dispute.status] || [],
+      });
+    }
+
+    const oldStatus = dispute.dispute.status;
+
+    if (CLOSING_STATUSES.includes(to)) {
+      // Nothing is due on a closed round
+      dispute.deadlines.deadlineFlags.forEach(flag => {
+        flag.resolved = true;
+      });
+
+      // Records the outcome on the round, changes the status and writes `resolution` unless another round can follow
+      return dispute.recordRoundOutcome(round || dispute.getCurrentRound(), {
+        result: outcome?.result || to,
+        decisionDate: outcome?.decisionDate,
+        receivedDate: outcome?.receivedDate,
+        notes: outcome?.notes || notes,
+      }, userId, { payer, settings });
+    }
+
+    dispute.dispute.status = to;
+
+    if (to === 'submitted') {
+      dispute.dispute.submittedDate = submittedAt || new Date();
+      // Start the payer's decision clock
+      dispute.setDecisionDueDate(payer, settings);
+    }
+
+    dispute.addTimelineEntry(`Status changed from ${oldStatus} to ${to}`, userId, notes);
+    return null;
+  }
+}
+
+module.exports = new DisputeStatusService();
+module.exports.StatusTransitionError = StatusTransitionError;
+module.exports.TRANSITIONS = TRANSITIONS;
+module.exports.CLOSING_STATUSES = CLOSING_STATUSES;
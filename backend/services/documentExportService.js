@@ -0,0 +1,528 @@
+// services/documentExportService.js
+// Renders generated dispute documents to PDF or DOCX on the practice letterhead. Runs fully offline.
+const PDFDocument = require('pdfkit');
+const docx = require('docx');
+const documentStorageService = require('./documentStorageService');
+const { logger } = require('../utils/logger');
+
+const PAGE_MARGIN = 72; // 1 inch
+const LOGO_MAX = { width: 150, height: 60 };
+
+// Only letters carry a signature; emails and notes already end the way they should
+const SIGNED_TYPES = ['letter'];
+
+const DOCUMENT_TITLES = {
+  email: 'Email to Insurance',
+  letter: 'Formal Appeal Letter',
+  phone_notes: 'Phone Call Script',
+  peer_review: 'Peer Review Notes',
+};
+
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+const ENTITIES = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+const decodeEntities = text => text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => ENTITIES[entity]);
+
+const formatDate = date => (date ? new Date(date).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  timeZone: 'UTC',
+}) : '');
+
+class DocumentExportService {
+  get formats() {
+    return Object.keys(MIME_TYPES);
+  }
+
+  getMimeType(format) {
+    return MIME_TYPES[format];
+  }
+
+  // Splits stored content into blocks: { kind: paragraph|heading|bullet|numbered|quote, number, runs: [{ text, bold, italic, strike }] }
+  parseBlocks(content, format = 'text') {
+    if (format !== 'html') {
+      return content
+        .split(/\n{2,}/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean)
+        .map(paragraph => ({ kind: 'paragraph', runs: [{ text: paragraph }] }));
+    }
+
+    // The editor only produces a small, well-formed tag set, so a tokenizer is enough here
+    const blocks = [];
+    const lists = [];
+    const inline = { bold: 0, italic: 0, strike: 0 };
+    let current = null;
+    let inQuote = false;
+
+    const startBlock = (kind) => {
+      current = { kind, runs: [] };
+      if (kind === 'numbered') {
+        current.number = ++lists[lists.length - 1].count;
+      }
+      blocks.push(current);
+    };
+
+    const tokens = content.match(/<\/?[a-z0-9]+[^>]*>|[^<]+/gi) || [];
+    tokens.forEach(token => {
+      const tag = token.match(/^<(\/?)([a-z0-9]+)/i);
+
+      if (!tag) {
+        const text = decodeEntities(token);
+        if (!current) startBlock(inQuote ? 'quote' : 'paragraph');
+        current.runs.push({
+          text,
+          bold: inline.bold > 0,
+          italic: inline.italic > 0,
+          strike: inline.strike > 0,
+        });
+        return;
+      }
+
+      const closing = tag[1] === '/';
+      const name = tag[2].toLowerCase();
+
+      switch (name) {
+        case 'p':
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+          if (closing) {
+            current = null;
+          } else if (!(current && ['bullet', 'numbered'].includes(current.kind) && current.runs.length === 0)) {
+            startBlock(name === 'p' ? (inQuote ? 'quote' : 'paragraph') : 'heading');
+          }
+          break;
+        case 'ul':
+        case 'ol':
+          if (closing) {
+            lists.pop();
+          } else {
+            lists.push({ ordered: name === 'ol', count: 0 });
+          }
+          current = null;
+          break;
+        case 'li':
+          if (closing) {
+            current = null;
+          } else {
+            startBlock(lists[lists.length - 1]?.ordered ? 'numbered' : 'bullet');
+          }
+          break;
+        case 'blockquote':
+          inQuote = !closing;
+          current = null;
+          break;
+        case 'br':
+          if (current) current.runs.push({ text: '\n' });
+          break;
+        case 'strong':
+        case 'b':
+          inline.bold += closing ? -1 : 1;
+          break;
+        case 'em':
+        case 'i':
+          inline.italic += closing ? -1 : 1;
+          break;
+        case 's':
+        case 'strike':
+          inline.strike += closing ? -1 : 1;
+          break;
+        default:
+          break;
+      }
+    });
+
+    return blocks.filter(block => block.runs.some(run => run.text.trim()));
+  }
+
+  // Patient and claim identifiers printed in the RE: block
+  buildIdentifiers(dispute) {
+    const patient = dispute.patient;
+    const insurance = patient.insuranceInfo || {};
+    const identifiers = [
+      ['Patient', `${patient.firstName} ${patient.lastName}`],
+      ['Date of Birth', formatDate(patient.dateOfBirth)],
+      ['Insurance', dispute.payer?.name || insurance.provider],
+      ['Member ID', insurance.subscriberId || insurance.policyNumber],
+      ['Group Number', insurance.groupNumber],
+      ['Service', dispute.requestDetails.serviceCode
+        ? `${dispute.requestDetails.requestedService} (${dispute.requestDetails.serviceCode})`
+        : dispute.requestDetails.requestedService],
+      ['Diagnosis', dispute.requestDetails.diagnosisCode],
+      ['Denial Date', formatDate(dispute.denial.denialDate)],
+      ['Denial Code', dispute.denial.denialCode],
+      ['Reference', dispute._id.toString()],
+    ];
+
+    return identifiers.filter(([, value]) => value);
+  }
+
+  // Inside address for letters, from the linked payer profile's appeals mailing address
+  buildRecipientLines(dispute) {
+    const payer = dispute.payer;
+    if (!payer || !payer.name) return [];
+
+    const submission = payer.submission || {};
+    const address = submission.mailingAddress || {};
+    const cityLine = [address.city, [address.state, address.zipCode].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+
+    return [
+      submission.preferredChannel === 'fax' && submission.fax && `Via fax: ${submission.fax}`,
+      address.attention,
+      payer.name,
+      address.street,
+      cityLine,
+    ].filter(Boolean);
+  }
+
+  buildAddressLines(letterhead) {
+    const address = letterhead.address || {};
+    const cityLine = [address.city, [address.state, address.zipCode].filter(Boolean).join(' ')]
+      .filter(Boolean)
+      .join(', ');
+    const contactLine = [
+      letterhead.phone && `Phone ${letterhead.phone}`,
+      letterhead.fax && `Fax ${letterhead.fax}`,
+    ].filter(Boolean).join('  |  ');
+
+    return [
+      address.street,
+      cityLine,
+      contactLine,
+      letterhead.npi && `NPI ${letterhead.npi}`,
+    ].filter(Boolean);
+  }
+
+  buildSignatureLines(letterhead) {
+    const signature = letterhead.signature || {};
+    const name = [signature.name, signature.credentials].filter(Boolean).join(', ');
+
+    return [
+      name,
+      signature.title,
+      letterhead.practiceName,
+    ].filter(Boolean);
+  }
+
+  async loadLogo(letterhead) {
+    if (!letterhead.logo || !letterhead.logo.filename) return null;
+
+    const data = await documentStorageService.read(letterhead.logo, 'letterhead_logo');
+    if (!data) {
+      logger.warn(`Letterhead logo missing from storage: ${letterhead.logo.filename}`);
+      return null;
+    }
+
+    const size = this.getImageSize(data);
+    if (!size) return null;
+
+    const scale = Math.min(LOGO_MAX.width / size.width, LOGO_MAX.height / size.height, 1);
+    return {
+      data,
+      type: size.type,
+      width: Math.round(size.width * scale),
+      height: Math.round(size.height * scale),
+    };
+  }
+
+  // Reads pixel dimensions from a PNG or JPEG header
+  getImageSize(buffer) {
+    if (buffer.length > 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+      return { type: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    if (buffer.length > 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) return null;
+        const marker = buffer[offset + 1];
+        const length = buffer.readUInt16BE(offset + 2);
+        // SOF0-SOF15 frames carry the dimensions (C4, C8 and CC are not frames)
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+          return { type: 'jpg', height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+        }
+        offset += 2 + length;
+      }
+    }
+
+    return null;
+  }
+
+  // `exhibits` ([{ label, title, batesRange }]) adds an enclosure list; `footer: false` leaves page numbering to the caller
+  async buildContext({ dispute, document, version, letterhead, exhibits = [], footer = true }) {
+    const content = version ? version.content : document.content;
+    const format = version ? version.format : document.format;
+    const practiceLetterhead = letterhead || {};
+
+    return {
+      title: DOCUMENT_TITLES[document.type] || document.type,
+      blocks: this.parseBlocks(content, format),
+      identifiers: this.buildIdentifiers(dispute),
+      practiceName: practiceLetterhead.practiceName,
+      addressLines: this.buildAddressLines(practiceLetterhead),
+      logo: await this.loadLogo(practiceLetterhead),
+      signed: SIGNED_TYPES.includes(document.type),
+      recipientLines: SIGNED_TYPES.includes(document.type) ? this.buildRecipientLines(dispute) : [],
+      closing: practiceLetterhead.signature?.closing || 'Sincerely,',
+      signatureLines: this.buildSignatureLines(practiceLetterhead),
+      footerText: `${dispute.patient.lastName}, ${dispute.patient.firstName} | Ref ${dispute._id}`,
+      date: formatDate(new Date()),
+      exhibits,
+      footer,
+    };
+  }
+
+  async render(format, options) {
+    const context = await this.buildContext(options);
+    if (format === 'pdf') return this.renderPdf(context);
+    if (format === 'docx') return this.renderDocx(context);
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  renderPdf(context) {
+    return new Promise((resolve, reject) => {
+      const pdf = new PDFDocument({
+        size: 'LETTER',
+        margin: PAGE_MARGIN,
+        bufferPages: true,
+        info: { Title: context.title },
+      });
+
+      const chunks = [];
+      pdf.on('data', chunk => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+
+      const left = PAGE_MARGIN;
+      const width = pdf.page.width - PAGE_MARGIN * 2;
+
+      // Letterhead: logo on the left, practice details on the right
+      const top = pdf.y;
+      if (context.logo) {
+        pdf.image(context.logo.data, left, top, { width: context.logo.width, height: context.logo.height });
+      }
+      const detailsX = context.logo ? left + context.logo.width + 18 : left;
+      const detailsWidth = width - (detailsX - left);
+      const align = context.logo ? 'right' : 'center';
+      if (context.practiceName) {
+        pdf.font('Helvetica-Bold').fontSize(14).text(context.practiceName, detailsX, top, { width: detailsWidth, align });
+      }
+      pdf.font('Helvetica').fontSize(9);
+      context.addressLines.forEach(line => pdf.text(line, detailsX, pdf.y, { width: detailsWidth, align }));
+
+      const letterheadBottom = Math.max(pdf.y, top + (context.logo ? context.logo.height : 0));
+      if (context.practiceName || context.addressLines.length > 0 || context.logo) {
+        pdf.moveTo(left, letterheadBottom + 8).lineTo(left + width, letterheadBottom + 8).lineWidth(0.5).stroke();
+        pdf.y = letterheadBottom + 20;
+      }
+
+      pdf.x = left;
+      pdf.font('Helvetica').fontSize(11).text(context.date, { width });
+      pdf.moveDown();
+
+      if (context.recipientLines.length > 0) {
+        context.recipientLines.forEach(line => pdf.text(line, { width }));
+        pdf.moveDown();
+      }
+
+      // RE: block with patient and claim identifiers
+      pdf.font('Helvetica-Bold').text(`RE: ${context.title}`, { width });
+      context.identifiers.forEach(([label, value]) => {
+        pdf.font('Helvetica-Bold').text(`${label}: `, { continued: true });
+        pdf.font('Helvetica').text(value);
+      });
+      pdf.moveDown();
+
+      context.blocks.forEach(block => {
+        const indent = ['bullet', 'numbered', 'quote'].includes(block.kind) ? 18 : 0;
+        const prefix = block.kind === 'bullet' ? '• ' : block.kind === 'numbered' ? `${block.number}. ` : '';
+        const size = block.kind === 'heading' ? 13 : 11;
+
+        // pdfkit drops a bare line-break run inside continued text, so fold it into the next run
+        const runs = block.runs.reduce((merged, run) => {
+          const previous = merged[merged.length - 1];
+          if (previous && previous.text.endsWith('\n') && previous.text.trim() === '') {
+            merged[merged.length - 1] = { ...run, text: previous.text + run.text };
+          } else {
+            merged.push(run);
+          }
+          return merged;
+        }, []);
+
+        pdf.fontSize(size);
+        runs.forEach((run, index) => {
+          const bold = run.bold || block.kind === 'heading';
+          const font = bold && run.italic ? 'Helvetica-BoldOblique'
+            : bold ? 'Helvetica-Bold'
+              : run.italic || block.kind === 'quote' ? 'Helvetica-Oblique'
+                : 'Helvetica';
+          const text = index === 0 ? prefix + run.text : run.text;
+          pdf.font(font).text(text, left + indent, pdf.y, {
+            width: width - indent,
+            continued: index < runs.length - 1,
+            strike: !!run.strike,
+          });
+        });
+        pdf.moveDown(0.6);
+      });
+
+      if (context.signed) {
+        pdf.moveDown();
+        pdf.font('Helvetica').fontSize(11).text(context.closing, left, pdf.y, { width });
+        pdf.moveDown(2.5);
+        context.signatureLines.forEach(line => pdf.text(line, { width }));
+      }
+
+      if (context.exhibits.length > 0) {
+        pdf.moveDown(2);
+        pdf.font('Helvetica-Bold').fontSize(11).text('Enclosed Exhibits', left, pdf.y, { width });
+        pdf.moveDown(0.3);
+        context.exhibits.forEach(exhibit => {
+          pdf.font('Helvetica-Bold').fontSize(10).text(`Exhibit ${exhibit.label}: `, left + 18, pdf.y, { width: width - 18, continued: true });
+          pdf.font('Helvetica').text(`${exhibit.title} (${exhibit.batesRange})`);
+        });
+      }
+
+      // Footer on every page; lift the bottom margin so writing there doesn't add a page
+      const range = pdf.bufferedPageRange();
+      for (let index = 0; index < range.count && context.footer; index++) {
+        pdf.switchToPage(range.start + index);
+        pdf.page.margins.bottom = 0;
+        const footerY = pdf.page.height - PAGE_MARGIN / 2;
+        pdf.font('Helvetica').fontSize(8).fillColor('#666666');
+        pdf.text(context.footerText, left, footerY, { width, align: 'left', lineBreak: false });
+        pdf.text(`Page ${index + 1} of ${range.count}`, left, footerY, { width, align: 'right', lineBreak: false });
+        pdf.fillColor('black');
+        pdf.page.margins.bottom = PAGE_MARGIN;
+      }
+
+      pdf.end();
+    });
+  }
+
+  renderDocx(context) {
+    const { Document, Packer, Paragraph, TextRun, ImageRun, Footer, PageNumber, AlignmentType, HeadingLevel, BorderStyle, TabStopType } = docx;
+
+    const toRuns = (block) => {
+      const prefix = block.kind === 'numbered' ? `${block.number}. ` : '';
+      return block.runs.flatMap((run, index) => run.text.split('\n').map((text, lineIndex) => new TextRun({
+        text: index === 0 && lineIndex === 0 ? prefix + text : text,
+        bold: run.bold,
+        italics: run.italic || block.kind === 'quote',
+        strike: run.strike,
+        break: lineIndex > 0 ? 1 : 0,
+      })));
+    };
+
+    const children = [];
+
+    // Letterhead
+    if (context.logo) {
+      children.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new ImageRun({
+          type: context.logo.type,
+          data: context.logo.data,
+          transformation: { width: context.logo.width, height: context.logo.height },
+        })],
+      }));
+    }
+    if (context.practiceName) {
+      children.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: context.practiceName, bold: true, size: 28 })],
+      }));
+    }
+    context.addressLines.forEach((line, index) => {
+      const last = index === context.addressLines.length - 1;
+      children.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: line, size: 18 })],
+        ...(last && {
+          border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: '999999', space: 6 } },
+          spacing: { after: 240 },
+        }),
+      }));
+    });
+
+    children.push(new Paragraph({ text: context.date, spacing: { after: 240 } }));
+
+    context.recipientLines.forEach((line, index) => {
+      children.push(new Paragraph({
+        text: line,
+        ...(index === context.recipientLines.length - 1 && { spacing: { after: 240 } }),
+      }));
+    });
+
+    // RE: block with patient and claim identifiers
+    children.push(new Paragraph({ children: [new TextRun({ text: `RE: ${context.title}`, bold: true })] }));
+    context.identifiers.forEach(([label, value], index) => {
+      children.push(new Paragraph({
+        children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+        ...(index === context.identifiers.length - 1 && { spacing: { after: 240 } }),
+      }));
+    });
+
+    context.blocks.forEach(block => {
+      children.push(new Paragraph({
+        children: toRuns(block),
+        spacing: { after: 160 },
+        ...(block.kind === 'heading' && { heading: HeadingLevel.HEADING_2 }),
+        ...(block.kind === 'bullet' && { bullet: { level: 0 } }),
+        ...(['numbered', 'quote'].includes(block.kind) && { indent: { left: 360 } }),
+      }));
+    });
+
+    if (context.signed) {
+      children.push(new Paragraph({ text: context.closing, spacing: { before: 240, after: 720 } }));
+      context.signatureLines.forEach(line => children.push(new Paragraph({ text: line })));
+    }
+
+    const document = new Document({
+      title: context.title,
+      sections: [{
+        properties: {
+          page: {
+            margin: { top: 1440, bottom: 1440, left: 1440, right: 1440 },
+          },
+        },
+        footers: {
+          default: new Footer({
+            children: [new Paragraph({
+              tabStops: [{ type: TabStopType.RIGHT, position: 9360 }],
+              children: [
+                new TextRun({ text: context.footerText, size: 16, color: '666666' }),
+                new TextRun({
+                  children: ['\tPage ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+                  size: 16,
+                  color: '666666',
+                }),
+              ],
+            })],
+          }),
+        },
+        children,
+      }],
+    });
+
+    return Packer.toBuffer(document);
+  }
+}
+
+module.exports = new DocumentExportService();
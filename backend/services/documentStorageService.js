@@ -0,0 +1,123 @@
+// services/documentStorageService.js
+// Saves and reads uploaded patient documents, denial letters and letterhead logos, and assembled appeal
+// packets, through the configured storage driver.
+// Files are stored under the SHA-256 of their contents: uploading an identical file reuses the stored
+// copy, and every read is checked against the hash.
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const { createReadStream } = require('fs');
+const path = require('path');
+const { pipeline, Transform } = require('stream');
+const { getStorageDriver } = require('./storage');
+
+// Where each kind of file was written before storage drivers, named by file name rather than hash.
+// `npm run migrate:storage` moves them into storage; until then they are read from here.
+const LEGACY_DIRECTORIES = {
+  patient_document: 'uploads/',
+  denial_letter: 'uploads/denials/',
+  attachment: 'uploads/attachments/',
+  letterhead_logo: 'uploads/letterheads/',
+};
+
+class DocumentStorageService {
+  hashContent(data) {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  // Returns the fields to record on the document: { filename (the storage key), contentHash, size, deduplicated }.
+  // `driver` defaults to the configured one; the migration command passes its target.
+  async save(data, { contentType, driver = getStorageDriver() } = {}) {
+    const contentHash = this.hashContent(data);
+    const deduplicated = await driver.exists(contentHash);
+
+    if (!deduplicated) {
+      await driver.put(contentHash, data, { contentType });
+    }
+
+    return {
+      filename: contentHash,
+      contentHash,
+      size: data.length,
+      deduplicated,
+    };
+  }
+
+  // Contents of a stored file record, or null when it is missing from storage.
+  // `kind` (a key of LEGACY_DIRECTORIES) locates files written before storage drivers.
+  async read(file, kind, { driver = getStorageDriver() } = {}) {
+    if (!file?.filename) return null;
+
+    if (!file.contentHash) {
+      return this.readLegacy(file, kind);
+    }
+
+    const data = await driver.get(file.filename);
+    if (data && this.hashContent(data) !== file.contentHash) {
+      throw new Error(`Stored file ${file.filename} does not match its content hash`);
+    }
+    return data;
+  }
+
+  // Opens a stored file record for streaming: { size, createReadStream(range) }, where `range` is
+  // { start, end } (inclusive) or left out for the whole file. Null when the file is missing from storage.
+  // A whole-file stream is checked against the content hash and fails at its end if they differ; a range
+  // can't be checked on its own.
+  async open(file, kind, { driver = getStorageDriver() } = {}) {
+    if (!file?.filename) return null;
+
+    if (!file.contentHash) {
+      return this.openLegacy(file, kind);
+    }
+
+    const size = await driver.size(file.filename);
+    if (size === null) return null;
+
+    return {
+      size,
+      createReadStream: async (range) => {
+        const stream = await driver.getStream(file.filename, range);
+        if (!stream || range) return stream;
+        return pipeline(stream, this.verifyStream(file), () => {});
+      },
+    };
+  }
+
+  // Passes data through, failing at the end when it doesn't hash to the file's contentHash
+  verifyStream(file) {
+    const hash = crypto.createHash('sha256');
+    return new Transform({
+      transform(chunk, encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+      flush(callback) {
+        callback(hash.digest('hex') === file.contentHash
+          ? null
+          : new Error(`Stored file ${file.filename} does not match its content hash`));
+      },
+    });
+  }
+
+  async openLegacy(file, kind) {
+    const filePath = path.join(LEGACY_DIRECTORIES[kind], path.basename(file.filename));
+    try {
+      const { size } = await fs.stat(filePath);
+      return { size, createReadStream: async (range) => createReadStream(filePath, range) };
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async readLegacy(file, kind) {
+    try {
+      return await fs.readFile(path.join(LEGACY_DIRECTORIES[kind], path.basename(file.filename)));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+module.exports = new DocumentStorageService();
+module.exports.LEGACY_DIRECTORIES = LEGACY_DIRECTORIES;
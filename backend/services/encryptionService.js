@@ -0,0 +1,166 @@
+// services/encryptionService.js
+// Envelope encryption for individual PHI values. Each value gets its own random data key (AES-256-GCM);
+// the data key is wrapped with the current key-encryption key and stored alongside the ciphertext:
+//
+//   enc:v1:<key version>:<wrapped data key>:<ciphertext>
+//
+// where both base64 parts are iv | auth tag | ciphertext. Stored files use the same envelope: an
+// `enc:v1:<key version>:<wrapped data key>` header line followed by the raw sealed bytes. Blind indexes
+// are keyed HMACs of a normalised value, so exact-match lookups work without decrypting.
+const crypto = require('crypto');
+const { getEncryptionConfig } = require('../config/encryption');
+
+const PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+class EncryptionService {
+  constructor() {
+    this.config = null;
+  }
+
+  // Keys are loaded on first use so requiring a model doesn't touch the key file
+  getConfig() {
+    if (!this.config) {
+      this.config = getEncryptionConfig();
+    }
+    return this.config;
+  }
+
+  seal(key, plaintext) {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  }
+
+  // `sealed` is the buffer from seal() or its base64 string
+  open(key, sealed) {
+    const data = Buffer.isBuffer(sealed) ? sealed : Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  isEncrypted(value) {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  // Key version a stored value was encrypted under, or null for plaintext
+  getKeyVersion(value) {
+    return this.isEncrypted(value) ? Number(value.slice(PREFIX.length).split(':')[0]) : null;
+  }
+
+  // True when the value is plaintext or encrypted under an older key
+  needsEncryption(value) {
+    return value !== undefined && value !== null && value !== ''
+      && this.getKeyVersion(value) !== this.getConfig().currentKeyVersion;
+  }
+
+  encrypt(value) {
+    if (value === undefined || value === null || value === '' || this.isEncrypted(value)) {
+      return value;
+    }
+
+    const { currentKeyVersion, keys } = this.getConfig();
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = this.seal(keys.get(currentKeyVersion), dataKey).toString('base64');
+    const ciphertext = this.seal(dataKey, Buffer.from(String(value), 'utf8')).toString('base64');
+
+    return `${PREFIX}${currentKeyVersion}:${wrappedKey}:${ciphertext}`;
+  }
+
+  // Plaintext (legacy or not yet migrated) values pass through unchanged
+  decrypt(value) {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [version, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(':');
+    const keyEncryptionKey = this.getConfig().keys.get(Number(version));
+    if (!keyEncryptionKey) {
+      throw new Error(`Encryption key version ${version} is not available`);
+    }
+
+    const dataKey = this.open(keyEncryptionKey, wrappedKey);
+    return this.open(dataKey, ciphertext).toString('utf8');
+  }
+
+  // Same envelope for file contents: the text header, then the sealed bytes
+  encryptBuffer(buffer) {
+    const { currentKeyVersion, keys } = this.getConfig();
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = this.seal(keys.get(currentKeyVersion), dataKey).toString('base64');
+
+    return Buffer.concat([Buffer.from(`${PREFIX}${currentKeyVersion}:${wrappedKey}\n`), this.seal(dataKey, buffer)]);
+  }
+
+  // Files written before encryption pass through unchanged
+  decryptBuffer(buffer) {
+    const envelope = this.readFileEnvelope(buffer);
+    if (!envelope) {
+      return buffer;
+    }
+
+    const decipher = this.createFileDecipher(envelope);
+    return Buffer.concat([decipher.update(buffer.subarray(envelope.dataOffset)), decipher.final()]);
+  }
+
+  // The envelope at the start of an encrypted file, from its first few hundred bytes: the data key, iv
+  // and auth tag, and the offset the ciphertext starts at. Null for files written before encryption.
+  readFileEnvelope(head) {
+    if (!head.subarray(0, PREFIX.length).equals(Buffer.from(PREFIX))) {
+      return null;
+    }
+
+    const headerEnd = head.indexOf('\n');
+    const [version, wrappedKey] = head.subarray(PREFIX.length, headerEnd).toString().split(':');
+    const keyEncryptionKey = this.getConfig().keys.get(Number(version));
+    if (!keyEncryptionKey) {
+      throw new Error(`Encryption key version ${version} is not available`);
+    }
+
+    const sealedStart = headerEnd + 1;
+    return {
+      dataKey: this.open(keyEncryptionKey, wrappedKey),
+      iv: head.subarray(sealedStart, sealedStart + IV_LENGTH),
+      authTag: head.subarray(sealedStart + IV_LENGTH, sealedStart + IV_LENGTH + TAG_LENGTH),
+      dataOffset: sealedStart + IV_LENGTH + TAG_LENGTH,
+    };
+  }
+
+  // Decipher stream for a file's ciphertext from plaintext byte `start` on. Reading the whole file checks
+  // the auth tag when the stream ends. A range can't be checked on its own: GCM is AES-CTR underneath, so
+  // it is deciphered from its block's counter instead.
+  createFileDecipher({ dataKey, iv, authTag }, { start = 0, whole = true } = {}) {
+    if (whole) {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, iv);
+      decipher.setAuthTag(authTag);
+      return decipher;
+    }
+
+    // With a 12-byte iv, GCM counts from iv | 2 for the first block of plaintext
+    const counter = Buffer.alloc(16);
+    iv.copy(counter);
+    counter.writeUInt32BE(2 + Math.floor(start / 16), IV_LENGTH);
+
+    const decipher = crypto.createDecipheriv('aes-256-ctr', dataKey, counter);
+    // Move the key stream on to `start` within its block
+    decipher.update(Buffer.alloc(start % 16));
+    return decipher;
+  }
+
+  // Identifiers compare case-insensitively and ignore spaces and dashes
+  normalize(value) {
+    return String(value).trim().toUpperCase().replace(/[\s-]/g, '');
+  }
+
+  blindIndex(value) {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    return crypto.createHmac('sha256', this.getConfig().blindIndexKey).update(this.normalize(value)).digest('hex');
+  }
+}
+
+module.exports = new EncryptionService();
@@ -0,0 +1,67 @@
+// services/fileDownloadService.js
+// Streams stored uploads back to the browser with range support, so large PDFs open page by page.
+const { pipeline } = require('stream');
+const documentStorageService = require('./documentStorageService');
+const { logger } = require('../utils/logger');
+
+class FileDownloadService {
+  // Content-Disposition with an ASCII fallback and the UTF-8 original name (RFC 6266)
+  contentDisposition(disposition, filename) {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+  }
+
+  // Sends a patient document or denial letter record (`kind` as for documentStorageService.open).
+  // `disposition` is 'inline' to show the file in the browser or 'attachment' to save it.
+  // Answers 404 itself when the file is missing from storage.
+  async send(req, res, { file, kind, disposition = 'attachment' }) {
+    const stored = await documentStorageService.open(file, kind);
+    if (!stored) {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // PHI: don't leave copies in shared or browser caches
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    // Only a single range is served; a malformed or multi-range header gets the whole file
+    const ranges = req.range(stored.size, { combine: true });
+    if (ranges === -1) {
+      res.setHeader('Content-Range', `bytes */${stored.size}`);
+      return res.status(416).json({ message: 'Range not satisfiable' });
+    }
+    const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+      ? { start: ranges[0].start, end: ranges[0].end }
+      : undefined;
+
+    const stream = req.method === 'HEAD' ? null : await stored.createReadStream(range);
+    if (!stream && req.method !== 'HEAD') {
+      return res.status(404).json({ message: 'File not found' });
+    }
+
+    res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+    res.setHeader('Content-Disposition', this.contentDisposition(disposition, file.originalName || file.filename));
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${stored.size}`);
+      res.setHeader('Content-Length', range.end - range.start + 1);
+    } else {
+      res.setHeader('Content-Length', stored.size);
+    }
+
+    if (!stream) {
+      return res.end();
+    }
+
+    // Headers are out by the time a read fails, so the response is cut short rather than answered with an error
+    pipeline(stream, res, (error) => {
+      if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        logger.error(`Error streaming ${kind} ${file.filename}:`, error.message);
+      }
+    });
+  }
+}
+
+module.exports = new FileDownloadService();
@@ -0,0 +1,174 @@
+// services/invitationService.js
+// Patient group invitations. The invitee is emailed a join link whose token expires; only a hash of the
+// token is stored, so resending an invitation issues a new link. An invitation is accepted by a signed-in
+// user (POST /api/patient-groups/join/:token) or while registering (POST /api/auth/register).
+const crypto = require('crypto');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const permissionService = require('./permissionService');
+const { getNotificationChannel } = require('./notifications');
+const { logger } = require('../utils/logger');
+
+class InvitationError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'InvitationError';
+    this.status = status;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class InvitationService {
+  constructor() {
+    this.defaultExpiryDays = 7;
+  }
+
+  getExpiryDays() {
+    const days = Number(process.env.INVITATION_EXPIRY_DAYS);
+    return days > 0 ? days : this.defaultExpiryDays;
+  }
+
+  hashToken(token) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Invitations from before expiry was tracked run out a full window after they were sent
+  getExpiresAt(invitation) {
+    return invitation.expiresAt || new Date(invitation.invitedAt.getTime() + this.getExpiryDays() * DAY_MS);
+  }
+
+  isExpired(invitation) {
+    return this.getExpiresAt(invitation) <= new Date();
+  }
+
+  // Gives the invitation a fresh token and expiry, replacing any earlier link; returns the token for the email
+  issueToken(invitation) {
+    const token = crypto.randomBytes(32).toString('hex');
+    invitation.token = this.hashToken(token);
+    invitation.expiresAt = new Date(Date.now() + this.getExpiryDays() * DAY_MS);
+    return token;
+  }
+
+  // The invitation as shown to group admins, without the token hash
+  serialize(patientGroup, invitation) {
+    return {
+      _id: invitation._id,
+      email: invitation.email,
+      permission: invitation.permission,
+      role: permissionService.getCustomRole(patientGroup, invitation.role)?.name || null,
+      invitedBy: invitation.invitedBy,
+      invitedAt: invitation.invitedAt,
+      lastSentAt: invitation.lastSentAt,
+      sendCount: invitation.sendCount,
+      expiresAt: this.getExpiresAt(invitation),
+      expired: this.isExpired(invitation),
+    };
+  }
+
+  // Emails the join link. The invitee may not have an account yet, so this goes straight to the address
+  // rather than through the user's notification preferences. Returns 'sent', 'failed', or 'not_configured'
+  // when there is no SMTP server and the email was only logged.
+  async send(patientGroup, invitation, token, inviter) {
+    const invitedUser = await User.findOne({ email: invitation.email }).select('firstName');
+    const inviterName = inviter ? `${inviter.firstName} ${inviter.lastName}` : 'A colleague';
+    const expiresOn = this.getExpiresAt(invitation).toDateString();
+
+    const channel = getNotificationChannel('email');
+
+    try {
+      await channel.send(
+        { email: invitation.email, firstName: invitedUser?.firstName || 'there' },
+        {
+          priority: 'high',
+          payload: {
+            title: `Join "${patientGroup.name}" on Prior Auth Disputes`,
+            message: `${inviterName} invited you to join the "${patientGroup.name}" patient group. `
+              + `Open the link to accept. It expires on ${expiresOn}.`,
+            url: `/join/${token}`,
+          },
+        }
+      );
+
+      if (!channel.isConfigured()) return 'not_configured';
+
+      invitation.lastSentAt = new Date();
+      invitation.sendCount = (invitation.sendCount || 0) + 1;
+      return 'sent';
+    } catch (error) {
+      logger.error(`Failed to email invitation to ${invitation.email}:`, error);
+      return 'failed';
+    }
+  }
+
+  // The group and pending invitation a join link points at
+  async findByToken(token) {
+    const hashedToken = this.hashToken(token);
+    const patientGroup = await PatientGroup.findOne({
+      'pendingInvitations.token': hashedToken,
+      isActive: true,
+    });
+    const invitation = patientGroup?.pendingInvitations.find(invite => invite.token === hashedToken);
+
+    if (!invitation) {
+      throw new InvitationError('Invalid invitation token', 404);
+    }
+    if (this.isExpired(invitation)) {
+      throw new InvitationError('This invitation has expired. Ask the group for a new one.', 410);
+    }
+
+    return { patientGroup, invitation };
+  }
+
+  // Adds the user to the group (and its organization) and uses up the invitation
+  async accept(token, user) {
+    const { patientGroup, invitation } = await this.findByToken(token);
+
+    if (invitation.email !== user.email) {
+      throw new InvitationError('This invitation is not for you', 403);
+    }
+
+    if (permissionService.getMember(patientGroup, user._id)) {
+      throw new InvitationError('You are already a member');
+    }
+
+    // Joining a group in an organization makes the user a member of that organization
+    const organization = patientGroup.organization && await Organization.findOne({
+      _id: patientGroup.organization,
+      isActive: true,
+    });
+    if (organization && user.organization && !user.organization.equals(organization._id)) {
+      throw new InvitationError('This group belongs to a different organization', 403);
+    }
+
+    patientGroup.members.push({
+      user: user._id,
+      permission: invitation.permission,
+      // The role may have been deleted since the invitation went out
+      role: permissionService.getCustomRole(patientGroup, invitation.role)?._id,
+    });
+    patientGroup.pendingInvitations.pull(invitation._id);
+    await patientGroup.save();
+
+    if (organization && !organization.getMember(user._id)) {
+      organization.members.push({ user: user._id, role: 'member' });
+      await organization.save();
+    }
+
+    await User.findByIdAndUpdate(user._id, {
+      $push: {
+        patientGroups: {
+          group: patientGroup._id,
+          permission: invitation.permission,
+        },
+      },
+      ...(organization && { organization: organization._id }),
+    });
+
+    return patientGroup;
+  }
+}
+
+module.exports = new InvitationService();
+module.exports.InvitationError = InvitationError;
@@ -0,0 +1,269 @@
+// services/jobQueueService.js
+const Job = require('../models/Job');
+const { logger } = require('../utils/logger');
+
+// Thrown by handlers when a job should stop immediately without being retried
+class NonRetryableJobError extends Error {
+  constructor(message, result) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+    this.result = result;
+  }
+}
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+class JobQueueService {
+  constructor() {
+    this.isRunning = false;
+    this.intervalId = null;
+    this.staleIntervalId = null;
+    this.pollInterval = 2 * 1000; // Look for new jobs every 2 seconds
+    this.staleAfter = 5 * 60 * 1000; // Running jobs without a heartbeat for 5 minutes are requeued
+    this.staleCheckInterval = 60 * 1000; // Look for them every minute
+    this.retryBaseDelay = 10 * 1000;
+    this.concurrency = 2;
+    this.activeJobs = 0;
+    // Set while processJobs is claiming, so the poll and enqueue can't claim past `concurrency` together
+    this.isClaiming = false;
+    this.handlers = {};
+  }
+
+  // Handlers receive (job, context) where context has updateProgress(percent, message) and checkCancelled()
+  registerHandler(type, handler) {
+    this.handlers[type] = handler;
+  }
+
+  start() {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      this.processJobs();
+    }, this.pollInterval);
+
+    this.requeueStaleJobs();
+    this.staleIntervalId = setInterval(() => {
+      this.requeueStaleJobs();
+    }, this.staleCheckInterval);
+
+    logger.info('Job queue service started');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (this.staleIntervalId) {
+      clearInterval(this.staleIntervalId);
+      this.staleIntervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Job queue service stopped');
+  }
+
+  async enqueue({ type, dispute, patientGroup, requestedBy, payload = {}, maxAttempts }) {
+    if (!this.handlers[type]) {
+      throw new Error(`No handler registered for job type ${type}`);
+    }
+
+    const job = await Job.create({
+      type,
+      dispute,
+      patientGroup,
+      requestedBy,
+      payload,
+      ...(maxAttempts && { maxAttempts }),
+    });
+
+    logger.info(`Job ${job._id} queued: ${type}`);
+
+    // Pick it up right away instead of waiting for the next poll
+    if (this.isRunning) {
+      setImmediate(() => this.processJobs());
+    }
+
+    return job;
+  }
+
+  async cancel(jobId) {
+    // Queued jobs are cancelled outright; running jobs stop at their next checkpoint
+    const queued = await Job.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      {
+        status: 'cancelled',
+        cancelRequested: true,
+        completedAt: new Date(),
+        'progress.message': 'Cancelled',
+      },
+      { new: true }
+    );
+    if (queued) return queued;
+
+    return Job.findOneAndUpdate(
+      { _id: jobId, status: 'running' },
+      { cancelRequested: true, 'progress.message': 'Cancelling...' },
+      { new: true }
+    );
+  }
+
+  async processJobs() {
+    if (this.isClaiming) return;
+
+    this.isClaiming = true;
+    try {
+      while (this.isRunning && this.activeJobs < this.concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) return;
+
+        this.activeJobs++;
+        this.runJob(job)
+          .catch(error => logger.error(`Unexpected error running job ${job._id}:`, error))
+          .finally(() => {
+            this.activeJobs--;
+          });
+      }
+    } finally {
+      this.isClaiming = false;
+    }
+  }
+
+  // Atomically move the oldest runnable job from queued to running
+  async claimNextJob() {
+    try {
+      return await Job.findOneAndUpdate(
+        {
+          status: 'queued',
+          runAfter: { $lte: new Date() },
+          type: { $in: Object.keys(this.handlers) },
+        },
+        {
+          status: 'running',
+          startedAt: new Date(),
+          heartbeatAt: new Date(),
+          $inc: { attempts: 1 },
+        },
+        { new: true, sort: { runAfter: 1, createdAt: 1 } }
+      );
+    } catch (error) {
+      logger.error('Error claiming job:', error);
+      return null;
+    }
+  }
+
+  async runJob(job) {
+    const handler = this.handlers[job.type];
+
+    const context = {
+      updateProgress: async (percent, message) => {
+        await Job.updateOne(
+          { _id: job._id },
+          { 'progress.percent': percent, 'progress.message': message, heartbeatAt: new Date() }
+        );
+      },
+      checkCancelled: async () => {
+        const current = await Job.findById(job._id).select('cancelRequested');
+        if (current?.cancelRequested) {
+          throw new JobCancelledError();
+        }
+      },
+    };
+
+    try {
+      const result = await handler(job, context);
+
+      await Job.updateOne({ _id: job._id }, {
+        status: 'succeeded',
+        result,
+        error: null,
+        completedAt: new Date(),
+        progress: { percent: 100, message: 'Completed' },
+      });
+      logger.info(`Job ${job._id} succeeded`);
+    } catch (error) {
+      await this.handleFailure(job, error);
+    }
+  }
+
+  async handleFailure(job, error) {
+    if (error instanceof JobCancelledError) {
+      await Job.updateOne({ _id: job._id }, {
+        status: 'cancelled',
+        completedAt: new Date(),
+        'progress.message': 'Cancelled',
+      });
+      logger.info(`Job ${job._id} cancelled`);
+      return;
+    }
+
+    const canRetry = !(error instanceof NonRetryableJobError) && job.attempts < job.maxAttempts;
+
+    if (canRetry) {
+      // Exponential backoff: 10s, 20s, 40s...
+      const delay = this.retryBaseDelay * Math.pow(2, job.attempts - 1);
+      await Job.updateOne({ _id: job._id }, {
+        status: 'queued',
+        error: error.message,
+        runAfter: new Date(Date.now() + delay),
+        'progress.message': `Attempt ${job.attempts} failed, retrying`,
+      });
+      logger.warn(`Job ${job._id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${error.message}`);
+      return;
+    }
+
+    await Job.updateOne({ _id: job._id }, {
+      status: 'failed',
+      error: error.message,
+      result: error.result,
+      completedAt: new Date(),
+      'progress.message': 'Failed',
+    });
+    logger.error(`Job ${job._id} failed: ${error.message}`);
+  }
+
+  // Jobs left running by a crashed or restarted server go back on the queue, unless that run was their
+  // last attempt
+  async requeueStaleJobs() {
+    try {
+      const stale = {
+        status: 'running',
+        heartbeatAt: { $lt: new Date(Date.now() - this.staleAfter) },
+      };
+
+      const failed = await Job.updateMany(
+        { ...stale, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+        {
+          status: 'failed',
+          error: 'The job was interrupted on its last attempt',
+          completedAt: new Date(),
+          'progress.message': 'Failed',
+        }
+      );
+      if (failed.modifiedCount > 0) {
+        logger.error(`Failed ${failed.modifiedCount} stale jobs with no attempts left`);
+      }
+
+      const requeued = await Job.updateMany(
+        { ...stale, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+        { status: 'queued', runAfter: new Date(), 'progress.message': 'Requeued after interruption' }
+      );
+      if (requeued.modifiedCount > 0) {
+        logger.warn(`Requeued ${requeued.modifiedCount} stale jobs`);
+      }
+    } catch (error) {
+      logger.error('Error requeueing stale jobs:', error);
+    }
+  }
+}
+
+const jobQueueService = new JobQueueService();
+
+module.exports = jobQueueService;
+module.exports.NonRetryableJobError = NonRetryableJobError;
+module.exports.JobCancelledError = JobCancelledError;
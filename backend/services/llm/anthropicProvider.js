@@ -0,0 +1,66 @@
+// services/llm/anthropicProvider.js
+const Anthropic = require('@anthropic-ai/sdk');
+
+class AnthropicProvider {
+  constructor(config) {
+    this.name = 'anthropic';
+    this.config = config;
+    // The SDK handles request timeouts and retries with exponential backoff
+    this.client = new Anthropic({
+      apiKey: config.apiKey,
+      timeout: config.timeoutMs,
+      maxRetries: config.maxRetries,
+    });
+  }
+
+  async complete({ prompt, system, maxTokens, temperature }) {
+    const response = await this.client.messages.create({
+      model: this.config.model,
+      max_tokens: maxTokens || this.config.maxTokens,
+      temperature: temperature ?? this.config.temperature,
+      ...(system && { system }),
+      messages: [{
+        role: 'user',
+        content: prompt,
+      }],
+    });
+
+    return this.formatResponse(response);
+  }
+
+  // Same as complete(), but calls onText with each chunk as it arrives. Aborting `signal` stops the request.
+  async stream({ prompt, system, maxTokens, temperature, signal, onText }) {
+    const stream = this.client.messages.stream({
+      model: this.config.model,
+      max_tokens: maxTokens || this.config.maxTokens,
+      temperature: temperature ?? this.config.temperature,
+      ...(system && { system }),
+      messages: [{
+        role: 'user',
+        content: prompt,
+      }],
+    }, { signal });
+
+    if (onText) {
+      stream.on('text', onText);
+    }
+
+    const response = await stream.finalMessage();
+    return this.formatResponse(response);
+  }
+
+  formatResponse(response) {
+    return {
+      text: response.content.map(block => block.text || '').join(''),
+      provider: this.name,
+      model: response.model,
+      stopReason: response.stop_reason,
+      usage: {
+        inputTokens: response.usage?.input_tokens,
+        outputTokens: response.usage?.output_tokens,
+      },
+    };
+  }
+}
+
+module.exports = AnthropicProvider;
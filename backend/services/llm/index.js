@@ -0,0 +1,38 @@
+// services/llm/index.js
+const { getLLMConfig } = require('../../config/llm');
+const AnthropicProvider = require('./anthropicProvider');
+const MockProvider = require('./mockProvider');
+const { logger } = require('../../utils/logger');
+
+const PROVIDERS = {
+  anthropic: AnthropicProvider,
+  mock: MockProvider,
+};
+
+const providers = {};
+
+// Returns the provider for an AI role ('analyzer' or 'disputer'), created once per process
+const getLLMProvider = (role) => {
+  if (providers[role]) return providers[role];
+
+  const config = getLLMConfig(role);
+  const Provider = PROVIDERS[config.provider];
+
+  if (!Provider) {
+    throw new Error(`Unknown LLM provider "${config.provider}" for ${role}`);
+  }
+
+  if (config.provider === 'mock') {
+    logger.warn(`Using mock LLM provider for ${role}; responses come from local fixtures`);
+  }
+
+  providers[role] = new Provider(config);
+  return providers[role];
+};
+
+// Clears cached providers so tests can switch configuration between runs
+const resetLLMProviders = () => {
+  Object.keys(providers).forEach(role => delete providers[role]);
+};
+
+module.exports = { getLLMProvider, resetLLMProviders };
@@ -0,0 +1,76 @@
+// services/llm/mockProvider.js
+// Deterministic, offline provider that answers from fixture files.
+// Used for local development without API keys and for Jest/supertest runs.
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+class MockProvider {
+  constructor(config) {
+    this.name = 'mock';
+    this.config = config;
+    this.fixturesDir = config.fixturesDir || DEFAULT_FIXTURES_DIR;
+    this.streamDelayMs = process.env.NODE_ENV === 'test' ? 0 : 20;
+  }
+
+  // task selects the fixture: 'analysis' -> analysis.txt, 'document' -> documents/<documentType>.txt
+  // {{placeholders}} in the fixture are filled from `variables`
+  async complete({ task, documentType, variables = {} }) {
+    const { text, fixturePath } = this.renderFixture(task, documentType, variables);
+
+    return this.formatResponse(text, fixturePath);
+  }
+
+  // Replays the fixture word by word so streaming UIs can be exercised offline
+  async stream({ task, documentType, variables = {}, signal, onText }) {
+    const { text, fixturePath } = this.renderFixture(task, documentType, variables);
+    const chunks = text.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      if (signal?.aborted) {
+        const error = new Error('Request was aborted.');
+        error.name = 'AbortError';
+        throw error;
+      }
+      if (onText) onText(chunk);
+      if (this.streamDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.streamDelayMs));
+      }
+    }
+
+    return this.formatResponse(text, fixturePath);
+  }
+
+  renderFixture(task, documentType, variables) {
+    const fixturePath = task === 'document'
+      ? path.join(this.fixturesDir, 'documents', `${documentType}.txt`)
+      : path.join(this.fixturesDir, `${task}.txt`);
+
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No mock LLM fixture found at ${fixturePath}`);
+    }
+
+    const template = fs.readFileSync(fixturePath, 'utf8');
+    const text = template.replace(/\{\{(\w+)\}\}/g, (placeholder, key) => (
+      variables[key] !== undefined ? String(variables[key]) : placeholder
+    ));
+
+    return { text, fixturePath };
+  }
+
+  formatResponse(text, fixturePath) {
+    return {
+      text,
+      provider: this.name,
+      model: `mock:${path.basename(fixturePath)}`,
+      stopReason: 'end_turn',
+      usage: {
+        inputTokens: 0,
+        outputTokens: 0,
+      },
+    };
+  }
+}
+
+module.exports = MockProvider;
@@ -0,0 +1,284 @@
+// services/mfaService.js
+// TOTP two-factor authentication (RFC 6238 with the 6-digit, 30-second, SHA-1 codes authenticator apps
+// expect) and one-time recovery codes. With MFA on, signing in takes two requests: the password step
+// answers with a short-lived challenge token instead of a session, and POST /api/auth/mfa/verify trades
+// that token and a code for the session. Secrets are stored encrypted; recovery codes only as hashes.
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const encryptionService = require('./encryptionService');
+const { getAuthConfig } = require('../config/auth');
+
+class MfaError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'MfaError';
+    this.status = status;
+  }
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from the step either side of now are accepted too, for clocks that have drifted
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const SECRET_FIELDS = '+mfa.secret +mfa.pendingSecret +mfa.lastUsedStep +mfa.recoveryCodes';
+
+class MfaService {
+  base32Encode(buffer) {
+    let bits = '';
+    buffer.forEach(byte => {
+      bits += byte.toString(2).padStart(8, '0');
+    });
+
+    let output = '';
+    for (let i = 0; i < bits.length; i += 5) {
+      output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return output;
+  }
+
+  base32Decode(text) {
+    const bits = text
+      .toUpperCase()
+      .replace(/=+$/, '')
+      .split('')
+      .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+      .join('');
+
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+      bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+  }
+
+  // The code for one time step (HOTP, RFC 4226)
+  generateCode(secret, step) {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+  }
+
+  // The time step `code` belongs to, or null when it doesn't match any step near `now`
+  matchStep(secret, code, now = Date.now()) {
+    if (!/^\d{6}$/.test(code)) return null;
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+
+    for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+      const expected = Buffer.from(this.generateCode(secret, current + drift));
+      if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+        return current + drift;
+      }
+    }
+    return null;
+  }
+
+  // Recovery codes are compared without case, spaces or dashes, so they can be typed as printed
+  hashRecoveryCode(code) {
+    return crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+  }
+
+  // Replaces the user's recovery codes and returns the new ones; only their hashes are kept
+  generateRecoveryCodes(user) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+    user.mfa.recoveryCodes = codes.map(code => ({ hash: this.hashRecoveryCode(code) }));
+    return codes;
+  }
+
+  async loadUser(userId) {
+    const user = await User.findById(userId).select(SECRET_FIELDS);
+    if (!user) {
+      throw new MfaError('User not found', 404);
+    }
+    return user;
+  }
+
+  getStatus(user) {
+    return {
+      enabled: Boolean(user.mfa?.enabled),
+      enabledAt: user.mfa?.enabledAt,
+      recoveryCodesRemaining: (user.mfa?.recoveryCodes || []).filter(code => !code.usedAt).length,
+    };
+  }
+
+  async getStatusFor(userId) {
+    return this.getStatus(await this.loadUser(userId));
+  }
+
+  // Starts enrollment with a new secret, returned with the otpauth:// link and a QR code of it
+  async setup(userId) {
+    const user = await this.loadUser(userId);
+    if (user.mfa.enabled) {
+      throw new MfaError('Two-factor authentication is already on');
+    }
+
+    const secret = this.base32Encode(crypto.randomBytes(20));
+    user.mfa.pendingSecret = encryptionService.encrypt(secret);
+    await user.save();
+
+    const { issuer } = getAuthConfig().mfa;
+    const label = encodeURIComponent(`${issuer}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`
+      + `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  // Finishes enrollment once the user shows a code from their app. The session they did it from counts
+  // as verified. Returns the recovery codes, which are only ever shown this once.
+  async enable(userId, code, sessionId) {
+    const user = await this.loadUser(userId);
+    if (user.mfa.enabled) {
+      throw new MfaError('Two-factor authentication is already on');
+    }
+    if (!user.mfa.pendingSecret) {
+      throw new MfaError('Start two-factor setup first');
+    }
+
+    const secret = encryptionService.decrypt(user.mfa.pendingSecret);
+    const step = this.matchStep(secret, String(code || '').replace(/\s/g, ''));
+    if (step === null) {
+      throw new MfaError('Invalid code. Check the time on your device and try again.');
+    }
+
+    user.mfa.secret = user.mfa.pendingSecret;
+    user.mfa.pendingSecret = undefined;
+    user.mfa.enabled = true;
+    user.mfa.enabledAt = new Date();
+    user.mfa.lastUsedStep = step;
+    user.mfa.failedAttempts = 0;
+    user.mfa.lockedUntil = undefined;
+    const recoveryCodes = this.generateRecoveryCodes(user);
+    await user.save();
+
+    if (sessionId) {
+      await Session.updateOne({ _id: sessionId }, { mfaVerifiedAt: new Date() });
+    }
+
+    return recoveryCodes;
+  }
+
+  async disable(userId, code) {
+    const user = await this.loadUser(userId);
+    if (!user.mfa.enabled) {
+      throw new MfaError('Two-factor authentication is not on');
+    }
+
+    await this.checkCode(user, code);
+
+    user.mfa.enabled = false;
+    user.mfa.enabledAt = undefined;
+    user.mfa.secret = undefined;
+    user.mfa.pendingSecret = undefined;
+    user.mfa.lastUsedStep = undefined;
+    user.mfa.recoveryCodes = [];
+    await user.save();
+  }
+
+  async regenerateRecoveryCodes(userId, code) {
+    const user = await this.loadUser(userId);
+    if (!user.mfa.enabled) {
+      throw new MfaError('Two-factor authentication is not on');
+    }
+
+    await this.checkCode(user, code);
+
+    const recoveryCodes = this.generateRecoveryCodes(user);
+    await user.save();
+    return recoveryCodes;
+  }
+
+  // Accepts a code from the user's app or an unused recovery code, and saves the user. Wrong codes count
+  // toward a temporary lockout. `user` must be loaded with the MFA secrets.
+  async checkCode(user, code) {
+    const config = getAuthConfig().mfa;
+    const now = new Date();
+
+    if (user.mfa.lockedUntil > now) {
+      const minutes = Math.ceil((user.mfa.lockedUntil - now) / 60000);
+      throw new MfaError(`Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, 429);
+    }
+
+    const input = String(code || '').replace(/\s/g, '');
+    let accepted = false;
+
+    if (/^\d+$/.test(input)) {
+      const step = this.matchStep(encryptionService.decrypt(user.mfa.secret), input);
+      // A code already used (by this request's step or a later one) is treated as wrong
+      if (step !== null && !(user.mfa.lastUsedStep >= step)) {
+        user.mfa.lastUsedStep = step;
+        accepted = true;
+      }
+    } else if (input) {
+      const hash = this.hashRecoveryCode(input);
+      const recoveryCode = user.mfa.recoveryCodes.find(entry => entry.hash === hash && !entry.usedAt);
+      if (recoveryCode) {
+        recoveryCode.usedAt = now;
+        accepted = true;
+      }
+    }
+
+    if (!accepted) {
+      user.mfa.failedAttempts = (user.mfa.failedAttempts || 0) + 1;
+      if (user.mfa.failedAttempts >= config.maxFailedAttempts) {
+        user.mfa.failedAttempts = 0;
+        user.mfa.lockedUntil = new Date(now.getTime() + config.lockoutMinutes * 60000);
+      }
+      await user.save();
+      throw new MfaError('Invalid code');
+    }
+
+    user.mfa.failedAttempts = 0;
+    user.mfa.lockedUntil = undefined;
+    await user.save();
+  }
+
+  // Short-lived token for the code step of signing in; it names the user but grants nothing by itself
+  issueChallenge(user) {
+    const config = getAuthConfig();
+    return jwt.sign({ id: user._id, purpose: 'mfa' }, config.accessSecret, {
+      expiresIn: config.mfa.challengeTtlSeconds,
+    });
+  }
+
+  // The user a challenge token and code sign in
+  async verifyChallenge(challengeToken, code) {
+    let decoded;
+    try {
+      decoded = jwt.verify(challengeToken, getAuthConfig().accessSecret);
+    } catch (error) {
+      decoded = null;
+    }
+    if (decoded?.purpose !== 'mfa') {
+      throw new MfaError('Sign-in has expired. Enter your password again.', 401);
+    }
+
+    const user = await this.loadUser(decoded.id);
+    if (!user.mfa.enabled) {
+      throw new MfaError('Sign-in has expired. Enter your password again.', 401);
+    }
+
+    await this.checkCode(user, code);
+    return user;
+  }
+}
+
+module.exports = new MfaService();
+module.exports.MfaError = MfaError;
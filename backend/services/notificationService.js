@@ -0,0 +1,318 @@
+// services/notificationService.js
+const User = require('../models/User');
+const NotificationDelivery = require('../models/NotificationDelivery');
+const { getNotificationConfig } = require('../config/notifications');
+const { CHANNEL_NAMES, CHANNEL_PREFERENCES, getNotificationChannel } = require('./notifications');
+const { logger } = require('../utils/logger');
+
+// User.preferences.notifications switch for each notification topic
+const TOPIC_PREFERENCES = {
+  dispute_deadline_reminder: 'deadlineReminders',
+  dispute_analysis_complete: 'analysisComplete',
+  document_generated: 'disputeUpdates',
+  dispute_status_update: 'disputeUpdates',
+  dispute_complete: 'disputeUpdates',
+  group_invitation: 'groupInvitations',
+  invitation: 'groupInvitations',
+};
+
+const DEFAULT_TITLES = {
+  dispute_deadline_reminder: 'Dispute deadline reminder',
+  dispute_analysis_complete: 'AI analysis complete',
+  document_generated: 'Dispute document generated',
+  dispute_status_update: 'Dispute status updated',
+  dispute_complete: 'Dispute complete',
+  group_invitation: 'Patient group invitation',
+  invitation: 'Patient group invitation',
+  group_update: 'Patient group updated',
+  digest: 'Dispute digest',
+};
+
+class NotificationService {
+  constructor() {
+    this.isRunning = false;
+    this.intervalId = null;
+    this.retryInterval = 60 * 1000; // Look for deliveries due a retry every minute
+    this.claimLeaseMs = 5 * 60 * 1000; // A claimed delivery is retried again if the attempt never finishes
+    this.retryBatchSize = 20;
+    this.deliveryConfig = getNotificationConfig().delivery;
+  }
+
+  start() {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      this.processRetries();
+    }, this.retryInterval);
+
+    // Pick up retries left over from before a restart
+    this.processRetries();
+
+    logger.info('Notification retry service started');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+    logger.info('Notification retry service stopped');
+  }
+
+  // Delivers a notification on each requested channel the user has enabled.
+  // Every channel gets a NotificationDelivery record, including the ones skipped.
+  // `data.externalMessage` replaces `data.message` on channels that leave the app (email and push), so
+  // text naming a patient can stay in the app.
+  // Critical notifications ignore topic switches such as deadlineReminders, but never a disabled channel.
+  async queueNotification(notificationData) {
+    try {
+      const { userId, type, data, channels = ['in_app'], priority = 'normal' } = notificationData;
+
+      const user = await User.findById(userId);
+      if (!user) {
+        logger.error(`User not found for notification: ${userId}`);
+        return [];
+      }
+
+      const unknownChannels = channels.filter(channel => !CHANNEL_NAMES.includes(channel));
+      if (unknownChannels.length > 0) {
+        logger.warn(`Ignoring unknown notification channels for ${type}: ${unknownChannels.join(', ')}`);
+      }
+
+      const deliveries = [];
+
+      for (const channel of [...new Set(channels)].filter(name => CHANNEL_NAMES.includes(name))) {
+        const skipReason = this.getSkipReason(user, type, channel, priority);
+
+        const delivery = await NotificationDelivery.create({
+          user: user._id,
+          type,
+          channel,
+          priority,
+          payload: this.buildPayload(type, data, channel),
+          status: skipReason ? 'skipped' : 'pending',
+          skipReason,
+          maxAttempts: this.deliveryConfig.maxAttempts,
+          // Keep the retry poller off it while the first attempt runs
+          nextAttemptAt: new Date(Date.now() + this.claimLeaseMs),
+        });
+
+        if (!skipReason) {
+          await this.attemptDelivery(delivery, user);
+        }
+        deliveries.push(delivery);
+      }
+
+      const summary = deliveries.map(delivery => `${delivery.channel}=${delivery.status}`).join(', ');
+      logger.info(`Notification queued for user ${userId}: ${type} (${summary || 'no channels'})`);
+
+      return deliveries;
+    } catch (error) {
+      logger.error('Error queueing notification:', error);
+      return [];
+    }
+  }
+
+  buildPayload(type, data, channel) {
+    let url = data.url;
+    if (!url && data.disputeId) url = `/dispute/${data.disputeId}`;
+    if (!url && data.relatedGroup) url = `/group/${data.relatedGroup}`;
+
+    const external = channel !== 'in_app' && data.externalMessage;
+
+    return {
+      title: data.title || DEFAULT_TITLES[type] || 'Notification',
+      message: external || data.message,
+      html: external ? undefined : data.html,
+      url,
+      disputeId: data.disputeId,
+      relatedGroup: data.relatedGroup,
+    };
+  }
+
+  getSkipReason(user, type, channel, priority) {
+    const preferences = user.preferences?.notifications || {};
+    const topic = TOPIC_PREFERENCES[type];
+
+    if (topic && preferences[topic] === false && priority !== 'critical') {
+      return 'topic_disabled';
+    }
+    if (preferences[CHANNEL_PREFERENCES[channel]] === false) {
+      return 'channel_disabled';
+    }
+    // Users on a digest get non-critical deadline emails in the digest instead
+    if (channel === 'email' && type === 'dispute_deadline_reminder' && priority !== 'critical' &&
+        ['daily', 'weekly'].includes(user.preferences?.digest?.frequency)) {
+      return 'in_digest';
+    }
+    return getNotificationChannel(channel).getSkipReason(user);
+  }
+
+  // Runs one attempt and records it; failures are rescheduled with exponential backoff
+  async attemptDelivery(delivery, user) {
+    delivery.attempts += 1;
+
+    try {
+      const response = await getNotificationChannel(delivery.channel).send(user, delivery);
+
+      delivery.status = 'sent';
+      delivery.sentAt = new Date();
+      delivery.lastError = undefined;
+      delivery.attemptLog.push({ success: true, response: response ? String(response) : undefined });
+    } catch (error) {
+      delivery.lastError = error.message;
+      delivery.attemptLog.push({ success: false, error: error.message });
+
+      if (delivery.attempts < delivery.maxAttempts) {
+        // 1m, 2m, 4m, 8m...
+        const delay = this.deliveryConfig.retryBaseDelayMs * Math.pow(2, delivery.attempts - 1);
+        delivery.status = 'pending';
+        delivery.nextAttemptAt = new Date(Date.now() + delay);
+        logger.warn(`Notification ${delivery._id} (${delivery.channel}) failed (attempt ${delivery.attempts}/${delivery.maxAttempts}), retrying in ${delay}ms: ${error.message}`);
+      } else {
+        delivery.status = 'failed';
+        logger.error(`Notification ${delivery._id} (${delivery.channel}) failed: ${error.message}`);
+      }
+    }
+
+    await delivery.save();
+    return delivery;
+  }
+
+  async processRetries() {
+    try {
+      for (let i = 0; i < this.retryBatchSize; i++) {
+        const delivery = await this.claimNextRetry();
+        if (!delivery) return;
+
+        const user = await User.findById(delivery.user);
+        if (!user) {
+          delivery.status = 'failed';
+          delivery.lastError = 'User not found';
+          await delivery.save();
+          continue;
+        }
+
+        // Preferences may have changed since the first attempt
+        const skipReason = this.getSkipReason(user, delivery.type, delivery.channel, delivery.priority);
+        if (skipReason) {
+          delivery.status = 'skipped';
+          delivery.skipReason = skipReason;
+          await delivery.save();
+          continue;
+        }
+
+        await this.attemptDelivery(delivery, user);
+      }
+    } catch (error) {
+      logger.error('Error retrying notifications:', error);
+    }
+  }
+
+  // Atomically claim the oldest delivery due a retry by pushing its next attempt out by the lease
+  async claimNextRetry() {
+    return NotificationDelivery.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+      { nextAttemptAt: new Date(Date.now() + this.claimLeaseMs) },
+      { new: true, sort: { nextAttemptAt: 1 } }
+    );
+  }
+
+  // Deadline reminder notification; `alert` carries the channels and priority for the flag type
+  async notifyDeadlineReminder(userId, data, alert) {
+    try {
+      return await this.queueNotification({
+        userId,
+        type: 'dispute_deadline_reminder',
+        data,
+        channels: alert.channels,
+        priority: alert.priority,
+      });
+    } catch (error) {
+      logger.error('Error sending deadline reminder:', error);
+    }
+  }
+
+  // Batch notification for multiple users
+  async notifyMultipleUsers(userIds, notificationData) {
+    try {
+      const promises = userIds.map(userId => 
+        this.queueNotification({ ...notificationData, userId })
+      );
+      await Promise.all(promises);
+    } catch (error) {
+      logger.error('Error notifying multiple users:', error);
+    }
+  }
+
+  // Analysis complete notification
+  async notifyAnalysisComplete(disputeId, userId, successProbability) {
+    try {
+      await this.queueNotification({
+        userId,
+        type: 'dispute_analysis_complete',
+        data: {
+          message: `AI analysis completed for dispute. Success probability: ${successProbability}%`,
+          disputeId,
+        },
+        channels: ['in_app']
+      });
+    } catch (error) {
+      logger.error('Error sending analysis complete notification:', error);
+    }
+  }
+
+  // Document generation notification
+  async notifyDocumentGenerated(disputeId, userId, documentType) {
+    try {
+      await this.queueNotification({
+        userId,
+        type: 'document_generated',
+        data: {
+          message: `${documentType} document has been generated for your dispute`,
+          disputeId,
+        },
+        channels: ['in_app']
+      });
+    } catch (error) {
+      logger.error('Error sending document generated notification:', error);
+    }
+  }
+
+  // Status update notification
+  async notifyStatusUpdate(disputeId, userId, oldStatus, newStatus) {
+    try {
+      await this.queueNotification({
+        userId,
+        type: 'dispute_status_update',
+        data: {
+          message: `Dispute status changed from ${oldStatus} to ${newStatus}`,
+          disputeId,
+        },
+        channels: ['in_app']
+      });
+    } catch (error) {
+      logger.error('Error sending status update notification:', error);
+    }
+  }
+
+  // Group invitation notification
+  async notifyGroupInvitation(userId, groupName, inviterName) {
+    try {
+      await this.queueNotification({
+        userId,
+        type: 'group_invitation',
+        data: {
+          message: `${inviterName} invited you to join "${groupName}" patient group`,
+        },
+        channels: ['in_app', 'email']
+      });
+    } catch (error) {
+      logger.error('Error sending group invitation notification:', error);
+    }
+  }
+}
+
+module.exports = new NotificationService();
\ No newline at end of file
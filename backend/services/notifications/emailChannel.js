@@ -0,0 +1,70 @@
+// services/notifications/emailChannel.js
+const nodemailer = require('nodemailer');
+const { logger } = require('../../utils/logger');
+
+const EMAIL_PRIORITY = {
+  critical: 'high',
+  high: 'high',
+  normal: 'normal',
+  low: 'low',
+};
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+class EmailChannel {
+  constructor(config) {
+    this.name = 'email';
+    this.config = config.email;
+    this.appUrl = config.appUrl;
+
+    // Without an SMTP host the message is built but only logged
+    this.transport = this.isConfigured()
+      ? nodemailer.createTransport({
+        host: this.config.host,
+        port: this.config.port,
+        secure: this.config.secure,
+        ...(this.config.user && { auth: { user: this.config.user, pass: this.config.password } }),
+      })
+      : nodemailer.createTransport({ jsonTransport: true });
+  }
+
+  // Whether messages go to an SMTP server rather than only to the log
+  isConfigured() {
+    return Boolean(this.config.host);
+  }
+
+  // Returns why this user cannot receive the notification, or null
+  getSkipReason(user) {
+    return user.email ? null : 'no_address';
+  }
+
+  async send(user, delivery) {
+    const { title, message, html, url } = delivery.payload;
+    const link = url ? `${this.appUrl}${url}` : null;
+
+    const info = await this.transport.sendMail({
+      from: this.config.from,
+      to: user.email,
+      subject: title,
+      priority: EMAIL_PRIORITY[delivery.priority] || 'normal',
+      text: [`Hi ${user.firstName},`, message, link && `Open in the app: ${link}`].filter(Boolean).join('\n\n'),
+      html: [
+        `<p>Hi ${escapeHtml(user.firstName)},</p>`,
+        html || `<p>${escapeHtml(message)}</p>`,
+        link && `<p><a href="${escapeHtml(link)}">Open in the app</a></p>`,
+      ].filter(Boolean).join('\n'),
+    });
+
+    if (!this.isConfigured()) {
+      logger.info(`Email to ${user.email} not sent (SMTP_HOST not set): ${title}`);
+    }
+
+    return info.messageId;
+  }
+}
+
+module.exports = EmailChannel;
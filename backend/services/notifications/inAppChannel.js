@@ -0,0 +1,30 @@
+// services/notifications/inAppChannel.js
+// Stores the notification on the user so it shows in the app's notification list,
+// and pushes it to any browser the user has open
+const realtimeService = require('../realtimeService');
+
+class InAppChannel {
+  constructor() {
+    this.name = 'in_app';
+  }
+
+  getSkipReason() {
+    return null;
+  }
+
+  async send(user, delivery) {
+    user.addNotification({
+      type: delivery.type,
+      message: delivery.payload.message,
+      relatedGroup: delivery.payload.relatedGroup,
+      relatedDispute: delivery.payload.disputeId,
+    });
+    await user.save();
+
+    realtimeService.sendToUser(user._id, 'notification', user.notifications[0]);
+
+    return 'stored';
+  }
+}
+
+module.exports = InAppChannel;
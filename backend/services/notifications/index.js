@@ -0,0 +1,54 @@
+// services/notifications/index.js
+const { getNotificationConfig } = require('../../config/notifications');
+const EmailChannel = require('./emailChannel');
+const PushChannel = require('./pushChannel');
+const InAppChannel = require('./inAppChannel');
+const { logger } = require('../../utils/logger');
+
+const CHANNELS = {
+  email: EmailChannel,
+  push: PushChannel,
+  in_app: InAppChannel,
+};
+
+// User.preferences.notifications switch for each channel
+const CHANNEL_PREFERENCES = {
+  email: 'email',
+  push: 'push',
+  in_app: 'inApp',
+};
+
+const channels = {};
+
+// Returns the dispatcher for a channel ('email', 'push' or 'in_app'), created once per process
+const getNotificationChannel = (name) => {
+  if (channels[name]) return channels[name];
+
+  const Channel = CHANNELS[name];
+  if (!Channel) {
+    throw new Error(`Unknown notification channel "${name}"`);
+  }
+
+  const config = getNotificationConfig();
+  if (name === 'email' && !config.email.host) {
+    logger.warn('SMTP_HOST not set; notification emails will be logged instead of sent');
+  }
+  if (name === 'push' && !(config.push.publicKey && config.push.privateKey)) {
+    logger.warn('VAPID keys not set; web push notifications are disabled');
+  }
+
+  channels[name] = new Channel(config);
+  return channels[name];
+};
+
+// Clears cached dispatchers so tests can switch configuration between runs
+const resetNotificationChannels = () => {
+  Object.keys(channels).forEach(name => delete channels[name]);
+};
+
+module.exports = {
+  CHANNEL_NAMES: Object.keys(CHANNELS),
+  CHANNEL_PREFERENCES,
+  getNotificationChannel,
+  resetNotificationChannels,
+};
@@ -0,0 +1,87 @@
+// services/notifications/pushChannel.js
+const webpush = require('web-push');
+const { logger } = require('../../utils/logger');
+
+const PUSH_URGENCY = {
+  critical: 'high',
+  high: 'high',
+  normal: 'normal',
+  low: 'low',
+};
+
+class PushChannel {
+  constructor(config) {
+    this.name = 'push';
+    this.config = config.push;
+    this.vapidDetails = this.isConfigured()
+      ? {
+        subject: this.config.subject,
+        publicKey: this.config.publicKey,
+        privateKey: this.config.privateKey,
+      }
+      : null;
+  }
+
+  isConfigured() {
+    return Boolean(this.config.publicKey && this.config.privateKey);
+  }
+
+  getSkipReason(user) {
+    if (!this.isConfigured()) return 'not_configured';
+    if (!user.pushSubscriptions?.length) return 'no_subscriptions';
+    return null;
+  }
+
+  // Sends to every browser the user subscribed; succeeds if at least one accepts it.
+  // Subscriptions the push service reports as gone are removed from the user.
+  async send(user, delivery) {
+    const body = JSON.stringify({
+      title: delivery.payload.title,
+      body: delivery.payload.message,
+      url: delivery.payload.url,
+      tag: delivery.payload.disputeId ? `dispute-${delivery.payload.disputeId}` : delivery.type,
+      priority: delivery.priority,
+    });
+
+    const options = {
+      vapidDetails: this.vapidDetails,
+      TTL: this.config.ttlSeconds,
+      urgency: PUSH_URGENCY[delivery.priority] || 'normal',
+    };
+
+    const expired = [];
+    const errors = [];
+    let accepted = 0;
+
+    for (const subscription of user.pushSubscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: subscription.keys },
+          body,
+          options
+        );
+        accepted++;
+      } catch (error) {
+        if ([404, 410].includes(error.statusCode)) {
+          expired.push(subscription.endpoint);
+        } else {
+          errors.push(error.statusCode ? `${error.statusCode} ${error.body || error.message}` : error.message);
+        }
+      }
+    }
+
+    if (expired.length > 0) {
+      user.pushSubscriptions = user.pushSubscriptions.filter(sub => !expired.includes(sub.endpoint));
+      await user.save();
+      logger.info(`Removed ${expired.length} expired push subscriptions for user ${user._id}`);
+    }
+
+    if (accepted === 0 && errors.length > 0) {
+      throw new Error(`Push failed: ${errors.join('; ')}`);
+    }
+
+    return `${accepted} of ${accepted + errors.length + expired.length} subscriptions accepted`;
+  }
+}
+
+module.exports = PushChannel;
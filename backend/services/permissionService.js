@@ -0,0 +1,157 @@
+// services/permissionService.js
+// What each patient group role may do. Routes name the permission they need (see middleware/permissions.js)
+// and this module decides whether the user's roles in the group and its organization grant it.
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+
+// Every permission a role can grant
+const PERMISSIONS = {
+  'group.update': 'Edit group details, letterhead and deadline settings',
+  'member.invite': 'Invite people to the group',
+  'member.manage': 'Change member roles and remove members',
+  'role.manage': 'Create, edit and delete custom roles',
+  'audit.view': 'Search, export and verify the audit log',
+  'patient.view': 'View patients, their documents and disputes',
+  'patient.create': 'Add patients',
+  'patient.update': 'Edit patients and add notes',
+  'patient.delete': 'Delete patients',
+  'patient.export': 'Download patient documents, exported letters and attachments',
+  'document.upload': 'Upload patient documents',
+  'document.delete': 'Delete patient documents',
+  'dispute.create': 'Open disputes',
+  'dispute.update': 'Edit disputes, deadlines, payers, appeal rounds and letters',
+  'dispute.analyze': 'Run AI analysis and generate letters',
+  'document.approve': 'Approve generated letters',
+  'dispute.submit': 'Submit disputes and mark letters as sent',
+};
+
+const PERMISSION_NAMES = Object.keys(PERMISSIONS);
+
+// Permissions that reach patient records. Groups that require MFA only grant these to sessions signed in
+// with a second factor.
+const PATIENT_DATA_PREFIXES = ['patient.', 'document.', 'dispute.'];
+
+const VIEW_PERMISSIONS = ['patient.view', 'patient.export'];
+
+const EDIT_PERMISSIONS = [
+  ...VIEW_PERMISSIONS,
+  'group.update',
+  'member.invite',
+  'patient.create',
+  'patient.update',
+  'patient.delete',
+  'document.upload',
+  'document.delete',
+  'dispute.create',
+  'dispute.update',
+  'dispute.analyze',
+  'document.approve',
+  'dispute.submit',
+];
+
+// The view/edit/admin levels every group has; members without a custom role get their level's bundle
+const BUILT_IN_ROLES = {
+  view: VIEW_PERMISSIONS,
+  edit: EDIT_PERMISSIONS,
+  admin: PERMISSION_NAMES,
+};
+
+// What organization roles grant in every group the organization owns; plain organization members
+// only get what their own group memberships give them
+const ORGANIZATION_ROLE_PERMISSIONS = {
+  org_admin: BUILT_IN_ROLES.admin,
+  billing_manager: BUILT_IN_ROLES.edit,
+  auditor: [...BUILT_IN_ROLES.view, 'audit.view'],
+};
+
+class PermissionService {
+  getMember(group, userId) {
+    return group.members.find(member => (member.user._id || member.user).toString() === userId.toString());
+  }
+
+  getCustomRole(group, roleId) {
+    return roleId ? (group.roles || []).find(role => role._id.equals(roleId)) || null : null;
+  }
+
+  // Permissions a group member entry grants: their custom role's bundle, else their level's
+  getMemberPermissions(group, member) {
+    const customRole = this.getCustomRole(group, member.role);
+    return customRole ? [...customRole.permissions] : BUILT_IN_ROLES[member.permission] || [];
+  }
+
+  // The user's role names and effective permissions in the group, or null when they have no access.
+  // Group membership and the organization role both count; the user gets everything either grants.
+  async getAccess(group, userId) {
+    const member = this.getMember(group, userId);
+    const organizationRole = await Organization.getMemberRole(group.organization?._id || group.organization, userId);
+    const organizationPermissions = ORGANIZATION_ROLE_PERMISSIONS[organizationRole];
+
+    if (!member && !organizationPermissions) return null;
+
+    const granted = new Set([
+      ...(member ? this.getMemberPermissions(group, member) : []),
+      ...(organizationPermissions || []),
+    ]);
+
+    return {
+      role: member ? this.getCustomRole(group, member.role)?.name || member.permission : null,
+      organizationRole: organizationPermissions ? organizationRole : null,
+      permissions: PERMISSION_NAMES.filter(permission => granted.has(permission)),
+    };
+  }
+
+  async can(group, userId, permission) {
+    const access = await this.getAccess(group, userId);
+    return Boolean(access?.permissions.includes(permission));
+  }
+
+  // IDs of the users whose group or organization roles grant the permission. For patient data in a group
+  // that requires MFA, users without two-factor authentication are left out: they could not open it.
+  async getUsersWith(group, permission) {
+    const userIds = new Set();
+
+    group.members
+      .filter(member => this.getMemberPermissions(group, member).includes(permission))
+      .forEach(member => userIds.add((member.user._id || member.user).toString()));
+
+    const organizationId = group.organization?._id || group.organization;
+    const organization = organizationId && await Organization.findOne({ _id: organizationId, isActive: true })
+      .select('members');
+    (organization?.members || [])
+      .filter(member => ORGANIZATION_ROLE_PERMISSIONS[member.role]?.includes(permission))
+      .forEach(member => userIds.add(member.user.toString()));
+
+    if (userIds.size === 0 || !group.settings?.requireMfa || !this.isPatientDataPermission(permission)) {
+      return [...userIds];
+    }
+
+    const enrolled = await User.find({ _id: { $in: [...userIds] }, 'mfa.enabled': true }).select('_id');
+    return enrolled.map(user => user._id.toString());
+  }
+
+  // For work done outside a request, such as emails: whether the user's roles grant the permission and,
+  // for patient data in a group that requires MFA, they have two-factor authentication set up
+  async canReach(group, user, permission) {
+    if (!await this.can(group, user._id, permission)) return false;
+    return !(group.settings?.requireMfa && this.isPatientDataPermission(permission) && !user.mfa?.enabled);
+  }
+
+  isPermission(name) {
+    return PERMISSION_NAMES.includes(name);
+  }
+
+  isPatientDataPermission(name) {
+    return PATIENT_DATA_PREFIXES.some(prefix => name.startsWith(prefix));
+  }
+
+  // Whether the group's MFA requirement keeps this request away from patient data
+  // (req.mfaVerified is set by the auth middleware)
+  isBlockedByMfa(group, req) {
+    return Boolean(group.settings?.requireMfa) && !req.mfaVerified;
+  }
+}
+
+module.exports = new PermissionService();
+module.exports.PERMISSIONS = PERMISSIONS;
+module.exports.PERMISSION_NAMES = PERMISSION_NAMES;
+module.exports.BUILT_IN_ROLES = BUILT_IN_ROLES;
@@ -0,0 +1,197 @@
+// services/realtimeService.js
+// WebSocket channel at /ws that pushes notifications and dispute updates to signed-in browsers.
+// Clients send { type: 'auth', token: <access token> } as their first message; the server's messages are
+// JSON { type, data }. A socket belongs to the session that authenticated it and is closed when that
+// session ends. Group events only carry IDs; clients fetch the rest through the API, which checks access.
+const jwt = require('jsonwebtoken');
+const { WebSocketServer, WebSocket } = require('ws');
+const sessionService = require('./sessionService');
+const permissionService = require('./permissionService');
+const PatientGroup = require('../models/PatientGroup');
+const Session = require('../models/Session');
+const { getAuthConfig } = require('../config/auth');
+const { logger } = require('../utils/logger');
+
+class RealtimeService {
+  constructor() {
+    this.wss = null;
+    this.intervalId = null;
+    this.heartbeatInterval = 30 * 1000; // Drop connections that miss a ping for 30 seconds
+    this.authTimeout = 10 * 1000; // Close connections that don't send their token within 10 seconds
+    this.clients = new Map(); // userId -> Set of sockets
+  }
+
+  attach(server) {
+    if (this.wss) return;
+
+    this.wss = new WebSocketServer({ server, path: '/ws' });
+    this.wss.on('connection', (socket, req) => this.handleConnection(socket, req));
+
+    this.intervalId = setInterval(() => this.checkHeartbeats(), this.heartbeatInterval);
+
+    logger.info('Realtime service listening on /ws');
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (this.wss) {
+      this.wss.clients.forEach(socket => socket.close(1001, 'Server shutting down'));
+      this.wss.close();
+      this.wss = null;
+    }
+    this.clients.clear();
+    logger.info('Realtime service stopped');
+  }
+
+  handleConnection(socket) {
+    socket.isAlive = true;
+
+    socket.on('pong', () => {
+      socket.isAlive = true;
+    });
+    socket.on('close', () => this.removeSocket(socket));
+    socket.on('error', (error) => {
+      logger.warn(`Realtime socket error for user ${socket.userId || 'unauthenticated'}: ${error.message}`);
+    });
+
+    const authTimer = setTimeout(() => socket.close(4401, 'Unauthorized'), this.authTimeout);
+    socket.once('message', async (message) => {
+      clearTimeout(authTimer);
+
+      const auth = await this.authenticate(message);
+      if (!auth || socket.readyState !== WebSocket.OPEN) {
+        socket.close(4401, 'Unauthorized');
+        return;
+      }
+
+      const userId = auth.user._id.toString();
+      socket.userId = userId;
+      socket.sessionId = auth.session._id.toString();
+      // Same rule as middleware/auth, so permissionService.isBlockedByMfa can take the socket
+      socket.mfaEnabled = Boolean(auth.user.mfa?.enabled);
+      socket.mfaVerified = Boolean(socket.mfaEnabled && auth.session.mfaVerifiedAt);
+
+      if (!this.clients.has(userId)) {
+        this.clients.set(userId, new Set());
+      }
+      this.clients.get(userId).add(socket);
+
+      this.scheduleSessionCheck(socket, auth.expiresAt - Date.now());
+      this.send(socket, 'connected', { userId });
+    });
+  }
+
+  // Same token check as middleware/auth. Browsers can't set headers on a WebSocket, and a token in the
+  // URL would end up in proxy and access logs, so it comes as the first message.
+  async authenticate(message) {
+    try {
+      const { type, token } = JSON.parse(message.toString());
+      if (type !== 'auth' || !token) return null;
+
+      const { user, session } = await sessionService.authenticate(token);
+      return { user, session, expiresAt: jwt.decode(token).exp * 1000 };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // When the access token the socket was opened with expires, and every token lifetime after that,
+  // check that its session is still active and pick up a second factor passed since
+  scheduleSessionCheck(socket, delay) {
+    socket.sessionTimer = setTimeout(async () => {
+      try {
+        const session = await Session.findById(socket.sessionId).select('revokedAt expiresAt mfaVerifiedAt');
+        if (!session?.isActive()) {
+          socket.close(4401, 'Session has ended');
+          return;
+        }
+        socket.mfaVerified = Boolean(socket.mfaEnabled && session.mfaVerifiedAt);
+        this.scheduleSessionCheck(socket, getAuthConfig().accessTokenTtlSeconds * 1000);
+      } catch (error) {
+        logger.error(`Error checking realtime session ${socket.sessionId}:`, error);
+        this.scheduleSessionCheck(socket, this.heartbeatInterval);
+      }
+    }, Math.max(delay, 0));
+  }
+
+  // Closes the sockets of one session, e.g. when it is signed out
+  disconnectSession(sessionId) {
+    this.wss?.clients.forEach(socket => {
+      if (socket.sessionId === sessionId.toString()) {
+        socket.close(4401, 'Session has ended');
+      }
+    });
+  }
+
+  // Closes every socket of the user, except those of `exceptSessionId` when given
+  disconnectUser(userId, exceptSessionId) {
+    this.clients.get(userId.toString())?.forEach(socket => {
+      if (!exceptSessionId || socket.sessionId !== exceptSessionId.toString()) {
+        socket.close(4401, 'Session has ended');
+      }
+    });
+  }
+
+  removeSocket(socket) {
+    clearTimeout(socket.sessionTimer);
+
+    const sockets = this.clients.get(socket.userId);
+    if (!sockets) return;
+
+    sockets.delete(socket);
+    if (sockets.size === 0) {
+      this.clients.delete(socket.userId);
+    }
+  }
+
+  checkHeartbeats() {
+    this.wss?.clients.forEach(socket => {
+      if (!socket.isAlive) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }
+
+  send(socket, type, data) {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type, data }));
+    }
+  }
+
+  sendToUser(userId, type, data) {
+    const sockets = this.clients.get(userId.toString());
+    if (!sockets) return;
+
+    sockets.forEach(socket => this.send(socket, type, data));
+  }
+
+  // Sends to the connected sessions that may view the group's patients: users whose group or organization
+  // roles grant patient.view, signed in with a second factor when the group requires one
+  async sendToGroup(groupId, type, data) {
+    try {
+      if (this.clients.size === 0) return;
+
+      const group = await PatientGroup.findById(groupId).select('organization members roles settings');
+      if (!group) return;
+
+      const userIds = await permissionService.getUsersWith(group, 'patient.view');
+      userIds.forEach(userId => {
+        this.clients.get(userId)?.forEach(socket => {
+          if (!permissionService.isBlockedByMfa(group, socket)) {
+            this.send(socket, type, data);
+          }
+        });
+      });
+    } catch (error) {
+      logger.error(`Error sending realtime ${type} to group ${groupId}:`, error);
+    }
+  }
+}
+
+module.exports = new RealtimeService();
@@ -0,0 +1,282 @@
+// services/sessionService.js
+// Signed-in sessions, one per device. API requests carry a short-lived access token; the browser holds a
+// refresh token in an httpOnly cookie and trades it at POST /api/auth/refresh for a new access token and a
+// new refresh token. A refresh token that has already been traded is evidence of a stolen copy, so
+// presenting it again ends the session. Lifetimes and cookie settings are in config/auth.js.
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const { getAuthConfig } = require('../config/auth');
+const { logger } = require('../utils/logger');
+
+// Loaded on first use: realtimeService authenticates its sockets through this module
+const realtimeService = () => require('./realtimeService');
+
+class SessionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SessionError';
+    this.status = 401;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Checked in order, so browsers that also claim to be Chrome or Safari come first
+const BROWSERS = [
+  ['Edge', /Edg(e|A|iOS)?\//],
+  ['Opera', /OPR\//],
+  ['Firefox', /Firefox\/|FxiOS\//],
+  ['Chrome', /Chrome\/|CriOS\//],
+  ['Safari', /Safari\//],
+];
+
+const OPERATING_SYSTEMS = [
+  ['iOS', /iPhone|iPad|iPod/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+];
+
+class SessionService {
+  constructor() {
+    // How often a request moves a session's "last seen" time forward
+    this.lastSeenIntervalMs = 5 * 60 * 1000;
+  }
+
+  hashToken(secret) {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  // Refresh tokens are "<session id>.<secret>", so even a stale token names the session it belonged to
+  newSecret() {
+    return crypto.randomBytes(32).toString('hex');
+  }
+
+  parseRefreshToken(refreshToken) {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    return mongoose.isValidObjectId(sessionId) && secret ? { sessionId, secret } : null;
+  }
+
+  getClientInfo(req) {
+    return {
+      userAgent: req.get('user-agent')?.slice(0, 500),
+      ip: req.ip,
+    };
+  }
+
+  issueAccessToken(user, session) {
+    const config = getAuthConfig();
+    return jwt.sign({ id: user._id, sid: session._id }, config.accessSecret, {
+      expiresIn: config.accessTokenTtlSeconds,
+    });
+  }
+
+  // Starts a session for the device making the request, sets its refresh cookie and returns an access token.
+  // `mfaVerified` marks a session signed in with a second factor.
+  async start(req, res, user, { mfaVerified = false } = {}) {
+    const secret = this.newSecret();
+    const session = await Session.create({
+      user: user._id,
+      tokenHash: this.hashToken(secret),
+      ...this.getClientInfo(req),
+      mfaVerifiedAt: mfaVerified ? new Date() : undefined,
+      expiresAt: new Date(Date.now() + getAuthConfig().refreshTokenTtlDays * DAY_MS),
+    });
+
+    this.setRefreshCookie(res, `${session._id}.${secret}`, session.expiresAt);
+    return this.issueAccessToken(user, session);
+  }
+
+  // Trades a refresh token for a new one (null when the token was just replaced by a concurrent refresh)
+  // and an access token
+  async refresh(refreshToken, req) {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new SessionError('Not signed in');
+    }
+
+    const config = getAuthConfig();
+    const tokenHash = this.hashToken(parsed.secret);
+    const secret = this.newSecret();
+    const now = new Date();
+
+    // Conditional on the hash, so two refreshes with the same token can't both rotate it
+    let session = await Session.findOneAndUpdate(
+      { _id: parsed.sessionId, tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+      {
+        $set: {
+          tokenHash: this.hashToken(secret),
+          previousTokenHash: tokenHash,
+          rotatedAt: now,
+          lastSeenAt: now,
+          ...this.getClientInfo(req),
+        },
+      },
+      { new: true }
+    );
+    let rotatedToken = session && `${session._id}.${secret}`;
+
+    if (!session) {
+      session = await Session.findById(parsed.sessionId);
+      if (!session || !session.isActive()) {
+        throw new SessionError('Session has ended');
+      }
+
+      const justRotated = session.previousTokenHash === tokenHash
+        && now - session.rotatedAt < config.refreshReuseGraceSeconds * 1000;
+
+      if (!justRotated) {
+        session.revokedAt = now;
+        session.revokedReason = 'token_reuse';
+        await session.save();
+        realtimeService().disconnectSession(session._id);
+        logger.warn(`Refresh token reused for session ${session._id} (user ${session.user}); session revoked`);
+        throw new SessionError('Session has ended');
+      }
+      // Another tab refreshed a moment ago and the browser already has its cookie
+      rotatedToken = null;
+    }
+
+    const user = await User.findById(session.user).select('-password');
+    if (!user) {
+      throw new SessionError('Session has ended');
+    }
+
+    return {
+      user,
+      session,
+      refreshToken: rotatedToken,
+      accessToken: this.issueAccessToken(user, session),
+    };
+  }
+
+  // The user and session behind an access token; throws for bad or expired tokens and ended sessions
+  async authenticate(accessToken) {
+    let decoded;
+    try {
+      decoded = jwt.verify(accessToken, getAuthConfig().accessSecret);
+    } catch (error) {
+      throw new SessionError(error.name === 'TokenExpiredError' ? 'Token expired' : 'Token is not valid');
+    }
+
+    const session = decoded.sid && await Session.findById(decoded.sid);
+    if (!session || !session.isActive() || !session.user.equals(decoded.id)) {
+      throw new SessionError('Session has ended');
+    }
+
+    const user = await User.findById(decoded.id).select('-password');
+    if (!user) {
+      throw new SessionError('Token is not valid');
+    }
+
+    if (Date.now() - session.lastSeenAt > this.lastSeenIntervalMs) {
+      await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() });
+    }
+
+    return { user, session };
+  }
+
+  // The still-active session a refresh token belongs to, if it is the current token or the one just replaced
+  async findByRefreshToken(refreshToken) {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) return null;
+
+    const session = await Session.findById(parsed.sessionId);
+    const tokenHash = this.hashToken(parsed.secret);
+    return session?.isActive() && [session.tokenHash, session.previousTokenHash].includes(tokenHash) ? session : null;
+  }
+
+  async list(userId) {
+    return Session.find({
+      user: userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastSeenAt: -1 });
+  }
+
+  async revoke(userId, sessionId, reason = 'revoked') {
+    const result = await Session.updateOne(
+      { _id: sessionId, user: userId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    if (result.modifiedCount > 0) {
+      realtimeService().disconnectSession(sessionId);
+    }
+    return result.modifiedCount > 0;
+  }
+
+  // Ends every session of the user, except `exceptSessionId` when given; returns how many ended
+  async revokeAll(userId, reason, exceptSessionId) {
+    const result = await Session.updateMany(
+      {
+        user: userId,
+        revokedAt: null,
+        ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+      },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    realtimeService().disconnectUser(userId, exceptSessionId);
+    return result.modifiedCount;
+  }
+
+  // "Chrome on Windows" from a user agent string
+  describeDevice(userAgent = '') {
+    const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+    const system = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || 'Unknown device';
+  }
+
+  serialize(session, currentSessionId) {
+    return {
+      _id: session._id,
+      device: this.describeDevice(session.userAgent),
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: Boolean(currentSessionId && session._id.equals(currentSessionId)),
+    };
+  }
+
+  setRefreshCookie(res, refreshToken, expiresAt) {
+    const { cookie } = getAuthConfig();
+    res.cookie(cookie.name, refreshToken, {
+      httpOnly: true,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+      path: cookie.path,
+      expires: expiresAt,
+    });
+  }
+
+  clearRefreshCookie(res) {
+    const { cookie } = getAuthConfig();
+    res.clearCookie(cookie.name, {
+      httpOnly: true,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+      path: cookie.path,
+    });
+  }
+
+  // No cookie-parsing middleware is mounted, and this is the only cookie the API reads
+  readRefreshCookie(req) {
+    const { cookie } = getAuthConfig();
+    const prefix = `${cookie.name}=`;
+    const entry = (req.headers.cookie || '')
+      .split(';')
+      .map(part => part.trim())
+      .find(part => part.startsWith(prefix));
+
+    return entry ? decodeURIComponent(entry.slice(prefix.length)) : null;
+  }
+}
+
+module.exports = new SessionService();
+module.exports.SessionError = SessionError;
@@ -0,0 +1,53 @@
+// services/signedUrlService.js
+// Short-lived links to a single API path, for files the browser loads itself (viewer iframes, images,
+// new tabs) where the Authorization header can't be sent. A link is bound to the user, the session it was
+// issued to and the exact path. The session must still be active, and the user's permissions are still
+// checked, when it is opened.
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const { getAuthConfig } = require('../config/auth');
+
+const AUDIENCE = 'signed-url';
+
+class SignedUrlService {
+  constructor() {
+    this.defaultTtlSeconds = 5 * 60;
+    this.maxTtlSeconds = 60 * 60;
+  }
+
+  // Derived from the JWT secret so a session token can't be replayed as a signature, or the reverse
+  getSecret() {
+    const base = process.env.SIGNED_URL_SECRET || getAuthConfig().accessSecret;
+    return crypto.createHmac('sha256', base).update(AUDIENCE).digest('hex');
+  }
+
+  // Absolute URL for `urlPath` (e.g. /api/patients/:id/documents/:documentId/preview) signed for the user
+  sign(req, urlPath, { expiresIn = this.defaultTtlSeconds } = {}) {
+    const ttl = Math.min(expiresIn, this.maxTtlSeconds);
+    const signature = jwt.sign({ path: urlPath, sid: req.sessionId.toString() }, this.getSecret(), {
+      subject: req.user.id.toString(),
+      audience: AUDIENCE,
+      expiresIn: ttl,
+    });
+
+    return {
+      url: `${req.protocol}://${req.get('host')}${urlPath}?signature=${encodeURIComponent(signature)}`,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    };
+  }
+
+  // User and session ids the signature was issued to. Throws if it is expired, tampered with or for
+  // another path.
+  verify(signature, urlPath) {
+    const decoded = jwt.verify(signature, this.getSecret(), { audience: AUDIENCE });
+    if (decoded.path !== urlPath) {
+      throw new Error('Signature is for a different path');
+    }
+    if (!decoded.sid) {
+      throw new Error('Signature has no session');
+    }
+    return { userId: decoded.sub, sessionId: decoded.sid };
+  }
+}
+
+module.exports = new SignedUrlService();
@@ -0,0 +1,36 @@
+// services/storage/index.js
+const { getStorageConfig } = require('../../config/storage');
+const LocalDriver = require('./localDriver');
+const S3Driver = require('./s3Driver');
+
+const DRIVERS = {
+  local: LocalDriver,
+  s3: S3Driver,
+};
+
+const drivers = {};
+
+// Returns the storage driver ('local' or 's3', default STORAGE_DRIVER), created once per process
+const getStorageDriver = (name) => {
+  const config = getStorageConfig(name);
+  if (drivers[config.driver]) return drivers[config.driver];
+
+  const Driver = DRIVERS[config.driver];
+  if (!Driver) {
+    throw new Error(`Unknown storage driver "${config.driver}"`);
+  }
+
+  drivers[config.driver] = new Driver(config);
+  return drivers[config.driver];
+};
+
+// Clears cached drivers so tests can switch configuration between runs
+const resetStorageDrivers = () => {
+  Object.keys(drivers).forEach(name => delete drivers[name]);
+};
+
+module.exports = {
+  DRIVER_NAMES: Object.keys(DRIVERS),
+  getStorageDriver,
+  resetStorageDrivers,
+};
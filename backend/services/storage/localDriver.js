@@ -0,0 +1,131 @@
+// services/storage/localDriver.js
+// Keeps stored files in a directory on this host. A plain disk has no server-side encryption of its
+// own, so files are encrypted with the PHI encryption keys before they are written.
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const { pipeline } = require('stream');
+const encryptionService = require('../encryptionService');
+
+// Keys are content hashes; anything else could walk out of the storage directory
+const VALID_KEY = /^[a-zA-Z0-9]+$/;
+
+// Enough of the start of a file to hold its whole encryption header
+const HEADER_BYTES = 256;
+
+class LocalDriver {
+  constructor(config) {
+    this.name = 'local';
+    this.directory = path.resolve(config.local.directory);
+  }
+
+  // Files are spread over subdirectories by the first two characters of their key
+  pathFor(key) {
+    if (!VALID_KEY.test(key || '')) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return path.join(this.directory, key.slice(0, 2), key);
+  }
+
+  async put(key, data) {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename, so a concurrent read never sees half a file
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    await fs.writeFile(tempPath, encryptionService.encryptBuffer(data), { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Resolves to null when there is no file under the key
+  async get(key) {
+    try {
+      return encryptionService.decryptBuffer(await fs.readFile(this.pathFor(key)));
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Plaintext size of the file under the key, or null when there is none
+  async size(key) {
+    const opened = await this.openFile(key);
+    if (!opened) return null;
+
+    await opened.handle.close();
+    return opened.size;
+  }
+
+  // Stream of the file under the key, from byte `start` to `end` (inclusive) when given, decrypted as it
+  // is read. Resolves to null when there is no file under the key.
+  async getStream(key, { start = 0, end } = {}) {
+    const opened = await this.openFile(key);
+    if (!opened) return null;
+
+    const { handle, envelope, size } = opened;
+    const dataOffset = envelope?.dataOffset || 0;
+    const last = end ?? size - 1;
+    const whole = start === 0 && last >= size - 1;
+
+    const source = handle.createReadStream({
+      start: dataOffset + start,
+      ...(!whole && { end: dataOffset + last }),
+    });
+    if (!envelope) return source;
+
+    return pipeline(source, encryptionService.createFileDecipher(envelope, { start, whole }), () => {});
+  }
+
+  // Open handle, encryption envelope and plaintext size of the file under the key; null when there is none
+  async openFile(key) {
+    let handle;
+    try {
+      handle = await fs.open(this.pathFor(key), 'r');
+    } catch (error) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    try {
+      const { size } = await handle.stat();
+      const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEADER_BYTES), 0, HEADER_BYTES, 0);
+      const envelope = encryptionService.readFileEnvelope(buffer.subarray(0, bytesRead));
+      return { handle, envelope, size: size - (envelope?.dataOffset || 0) };
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  async exists(key) {
+    try {
+      await fs.access(this.pathFor(key));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async delete(key) {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async *keys() {
+    let shards;
+    try {
+      shards = await fs.readdir(this.directory);
+    } catch (error) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const shard of shards) {
+      const entries = await fs.readdir(path.join(this.directory, shard)).catch(() => []);
+      for (const entry of entries) {
+        if (VALID_KEY.test(entry)) yield entry;
+      }
+    }
+  }
+}
+
+module.exports = LocalDriver;
@@ -0,0 +1,189 @@
+// services/textExtractionService.js
+const fs = require('fs');
+const path = require('path');
+const { logger } = require('../utils/logger');
+
+// Pages whose text layer has fewer characters than this are treated as scanned images
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Scale used when rendering image-only PDF pages for OCR (higher = better accuracy, slower)
+const OCR_RENDER_SCALE = 2;
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif'];
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+class TextExtractionService {
+  // Extract text from an uploaded file, given its contents or its path on disk.
+  // Returns { text, method, status, confidence, pages: [{ pageNumber, method, confidence, characterCount }], error }
+  async extractText(source, mimeType, originalName = '') {
+    const extension = path.extname(originalName || (Buffer.isBuffer(source) ? '' : source)).toLowerCase();
+    const read = () => (Buffer.isBuffer(source) ? source : fs.readFileSync(source));
+
+    try {
+      let result;
+
+      if (mimeType === 'text/plain' || extension === '.txt') {
+        result = this.extractFromPlainText(read());
+      } else if (mimeType === 'application/pdf' || extension === '.pdf') {
+        result = await this.extractFromPdf(read());
+      } else if (mimeType === DOCX_MIME_TYPE || extension === '.docx') {
+        result = await this.extractFromDocx(read());
+      } else if (IMAGE_MIME_TYPES.includes(mimeType) || ['.jpg', '.jpeg', '.png', '.gif'].includes(extension)) {
+        result = await this.extractFromImage(read());
+      } else {
+        return {
+          text: '',
+          method: 'none',
+          status: 'unsupported',
+          confidence: 0,
+          pages: [],
+          error: `Text extraction is not supported for ${mimeType || extension}`,
+        };
+      }
+
+      return {
+        ...result,
+        text: result.text.trim(),
+        status: result.text.trim() ? 'completed' : 'failed',
+        confidence: this.averageConfidence(result.pages),
+        error: result.text.trim() ? undefined : 'No text could be extracted from the document',
+      };
+    } catch (error) {
+      logger.error(`Text extraction failed for ${originalName || source}:`, error);
+      return {
+        text: '',
+        method: 'none',
+        status: 'failed',
+        confidence: 0,
+        pages: [],
+        error: error.message,
+      };
+    }
+  }
+
+  extractFromPlainText(data) {
+    const text = data.toString('utf8');
+    return {
+      text,
+      method: 'plain_text',
+      pages: [this.buildPage(1, 'plain_text', 100, text)],
+    };
+  }
+
+  // Reads the PDF text layer page by page and falls back to OCR for pages without one
+  async extractFromPdf(data) {
+    const { PDFParse } = require('pdf-parse');
+    // pdf.js may take over the bytes it is given, so it gets its own copy
+    const parser = new PDFParse({ data: new Uint8Array(data) });
+
+    try {
+      const textResult = await parser.getText();
+      const pages = [];
+      const pageTexts = [];
+      let ocrWorker = null;
+
+      try {
+        for (const page of textResult.pages) {
+          const layerText = (page.text || '').trim();
+
+          if (layerText.length >= MIN_TEXT_LAYER_CHARS) {
+            pages.push(this.buildPage(page.num, 'pdf_text', 100, layerText));
+            pageTexts.push(layerText);
+            continue;
+          }
+
+          // Image-only page - render it and run OCR
+          const screenshot = await parser.getScreenshot({
+            partial: [page.num],
+            scale: OCR_RENDER_SCALE,
+            imageDataUrl: false,
+            imageBuffer: true,
+          });
+
+          if (!ocrWorker) {
+            ocrWorker = await this.createOcrWorker();
+          }
+
+          const { data } = await ocrWorker.recognize(Buffer.from(screenshot.pages[0].data));
+          const ocrText = (data.text || '').trim();
+
+          pages.push(this.buildPage(page.num, 'ocr', data.confidence, ocrText));
+          pageTexts.push(ocrText);
+        }
+      } finally {
+        if (ocrWorker) {
+          await ocrWorker.terminate();
+        }
+      }
+
+      const usedOcr = pages.some(page => page.method === 'ocr');
+      const usedTextLayer = pages.some(page => page.method === 'pdf_text');
+
+      return {
+        text: pageTexts.join('\n\n'),
+        method: usedOcr && usedTextLayer ? 'pdf_mixed' : usedOcr ? 'ocr' : 'pdf_text',
+        pages,
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  async extractFromDocx(data) {
+    const mammoth = require('mammoth');
+    const { value } = await mammoth.extractRawText({ buffer: data });
+
+    // DOCX files carry no fixed pagination, so the whole document is reported as one page
+    return {
+      text: value,
+      method: 'docx',
+      pages: [this.buildPage(1, 'docx', 100, value)],
+    };
+  }
+
+  async extractFromImage(image) {
+    const worker = await this.createOcrWorker();
+
+    try {
+      const { data } = await worker.recognize(image);
+      return {
+        text: data.text || '',
+        method: 'ocr',
+        pages: [this.buildPage(1, 'ocr', data.confidence, data.text || '')],
+      };
+    } finally {
+      await worker.terminate();
+    }
+  }
+
+  // OCR runs fully locally using the bundled English traineddata
+  async createOcrWorker() {
+    const { createWorker } = require('tesseract.js');
+    const engData = require('@tesseract.js-data/eng');
+
+    return createWorker('eng', 1, {
+      langPath: process.env.OCR_LANG_PATH || engData.langPath,
+      gzip: process.env.OCR_LANG_PATH ? false : engData.gzip,
+      cacheMethod: 'none',
+    });
+  }
+
+  buildPage(pageNumber, method, confidence, text) {
+    return {
+      pageNumber,
+      method,
+      confidence: Math.round(confidence || 0),
+      characterCount: (text || '').trim().length,
+    };
+  }
+
+  averageConfidence(pages) {
+    const pagesWithText = pages.filter(page => page.characterCount > 0);
+    if (pagesWithText.length === 0) return 0;
+
+    const total = pagesWithText.reduce((sum, page) => sum + page.confidence, 0);
+    return Math.round(total / pagesWithText.length);
+  }
+}
+
+module.exports = new TextExtractionService();
@@ -0,0 +1,102 @@
+const { Document, Packer, Paragraph } = require('docx');
+const { PDFDocument } = require('pdf-lib');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const Patient = require('../models/Patient');
+const appealPacketService = require('../services/appealPacketService');
+const documentStorageService = require('../services/documentStorageService');
+const textExtractionService = require('../services/textExtractionService');
+
+const { PacketError } = appealPacketService;
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Stored file contents by storage key
+let files;
+let dispute;
+
+const attach = (originalName, mimeType, contents, description) => {
+  const filename = documentStorageService.hashContent(contents);
+  files[filename] = contents;
+  dispute.attachments.push({ filename, contentHash: filename, originalName, mimeType, size: contents.length, description });
+  return dispute.attachments[dispute.attachments.length - 1];
+};
+
+beforeEach(() => {
+  files = {};
+  const patient = new Patient({ firstName: 'Jordan', lastName: 'Smith' });
+  dispute = new PriorAuthorization({
+    patient: patient._id,
+    requestDetails: {
+      requestedService: 'Lumbar MRI',
+      requestedDate: new Date('2024-03-01'),
+      clinicalJustification: 'Radiating pain for six weeks despite physical therapy',
+    },
+    denial: {
+      denialDate: new Date('2024-03-10'),
+      denialReason: 'Not medically necessary',
+    },
+  });
+  // Stands in for populate('patient')
+  dispute.patient = patient;
+  dispute.dispute.generatedDocuments.push({ type: 'letter', content: 'We ask the plan to reconsider its denial.' });
+
+  jest.spyOn(documentStorageService, 'read').mockImplementation(async file => files[file.filename] || null);
+  jest.spyOn(textExtractionService, 'extractText');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('appealPacketService.build', () => {
+  it('re-typesets text and DOCX exhibits behind the letter with Bates numbers', async () => {
+    const notes = attach('notes.txt', 'text/plain', Buffer.from('Physical therapy notes, six sessions'), 'Therapy notes');
+    const docx = await Packer.toBuffer(new Document({
+      sections: [{ children: [new Paragraph('MRI requested after failed conservative care')] }],
+    }));
+    const referral = attach('referral.docx', DOCX_TYPE, docx, 'Referral');
+
+    const packet = await appealPacketService.build(dispute, {
+      letterId: dispute.dispute.generatedDocuments[0]._id.toString(),
+      items: [
+        { sourceType: 'attachment', sourceId: notes._id.toString() },
+        { sourceType: 'attachment', sourceId: referral._id.toString() },
+      ],
+      batesPrefix: 'SMITH',
+    });
+
+    expect(textExtractionService.extractText).toHaveBeenCalledWith(files[notes.filename], 'text/plain', 'notes.txt');
+    expect(textExtractionService.extractText).toHaveBeenCalledWith(docx, DOCX_TYPE, 'referral.docx');
+
+    const { manifest } = packet;
+    expect(manifest.sections.map(({ exhibit, title }) => ({ exhibit, title }))).toEqual([
+      { title: 'Cover Sheet and Table of Contents' },
+      { title: 'Appeal Letter' },
+      { exhibit: 'A', title: 'Therapy notes' },
+      { exhibit: 'B', title: 'Referral' },
+    ]);
+    // A slip sheet and one page of text for each exhibit, numbered through to the end of the packet
+    const [, letter, notesSection, referralSection] = manifest.sections;
+    expect(notesSection).toMatchObject({ batesStart: letter.batesEnd + 1, batesEnd: letter.batesEnd + 2 });
+    expect(referralSection).toMatchObject({ batesStart: letter.batesEnd + 3, batesEnd: letter.batesEnd + 4 });
+    expect(manifest).toMatchObject({ batesPrefix: 'SMITH', batesStart: 1, batesEnd: referralSection.batesEnd });
+    expect((await PDFDocument.load(packet.buffer)).getPageCount()).toBe(manifest.pageCount);
+  });
+
+  it('refuses an exhibit whose text cannot be read', async () => {
+    const empty = attach('blank.txt', 'text/plain', Buffer.from('   '), 'Blank page');
+
+    await expect(appealPacketService.build(dispute, {
+      items: [{ sourceType: 'attachment', sourceId: empty._id.toString() }],
+    })).rejects.toThrow(new PacketError('Could not read "blank.txt": No text could be extracted from the document'));
+  });
+
+  it('refuses an exhibit missing from storage', async () => {
+    const missing = attach('notes.txt', 'text/plain', Buffer.from('Therapy notes'));
+    delete files[missing.filename];
+
+    await expect(appealPacketService.build(dispute, {
+      items: [{ sourceType: 'attachment', sourceId: missing._id.toString() }],
+    })).rejects.toThrow('File for "notes.txt" is missing from storage');
+  });
+});
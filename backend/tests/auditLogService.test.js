@@ -0,0 +1,203 @@
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+const auditLogService = require('../services/auditLogService');
+const { logger } = require('../utils/logger');
+const { mockQuery } = require('./helpers');
+
+const { GENESIS_HASH } = auditLogService;
+
+const groupA = new mongoose.Types.ObjectId();
+const groupB = new mongoose.Types.ObjectId();
+const userId = new mongoose.Types.ObjectId();
+
+// The audit collection, as the lean documents the service reads back
+let stored;
+
+const bySequence = sequence => stored.find(entry => entry.sequence === sequence) || null;
+
+const entryFor = (patientGroup, fields = {}) => ({
+  timestamp: new Date('2024-05-01T12:00:00Z'),
+  user: userId,
+  userEmail: 'pat.lee@example.com',
+  userName: 'Pat Lee',
+  action: 'read',
+  method: 'GET',
+  route: '/api/patient-groups/:id',
+  resourceType: 'patient_group',
+  resourceId: patientGroup.toString(),
+  params: {},
+  statusCode: 200,
+  ip: '127.0.0.1',
+  userAgent: 'jest',
+  ...fields,
+});
+
+const recordAll = async entries => {
+  for (const entry of entries) {
+    await auditLogService.record(entry);
+  }
+};
+
+beforeEach(() => {
+  stored = [];
+  auditLogService.tail = null;
+
+  jest.spyOn(AuditLog, 'create').mockImplementation(async doc => {
+    if (bySequence(doc.sequence)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    stored.push({ ...doc });
+    return doc;
+  });
+  jest.spyOn(AuditLog, 'findOne').mockImplementation((filter = {}) => mockQuery(
+    filter.sequence !== undefined
+      ? bySequence(filter.sequence)
+      : [...stored].sort((a, b) => b.sequence - a.sequence)[0] || null
+  ));
+  jest.spyOn(AuditLog, 'find').mockImplementation((filter = {}) => mockQuery(
+    stored
+      .filter(entry => !filter.patientGroup || entry.patientGroup?.toString() === filter.patientGroup.toString())
+      .sort((a, b) => a.sequence - b.sequence)
+  ));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('auditLogService hash chain', () => {
+  it('links each entry to the hash of the one before it', async () => {
+    await recordAll([entryFor(groupA), entryFor(groupB), entryFor(groupA)]);
+
+    expect(stored.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    expect(stored[0].previousHash).toBe(GENESIS_HASH);
+    expect(stored[1].previousHash).toBe(stored[0].hash);
+    expect(stored[2].previousHash).toBe(stored[1].hash);
+    stored.forEach(entry => {
+      expect(entry.hash).toBe(auditLogService.computeHash(entry));
+    });
+  });
+
+  it('scopes group routes to the group they name', async () => {
+    await recordAll([entryFor(groupA)]);
+
+    expect(stored[0].patientGroup.toString()).toBe(groupA.toString());
+  });
+
+  it('hashes params the same whatever their key order', () => {
+    const entry = entryFor(groupA, { sequence: 1, previousHash: GENESIS_HASH });
+
+    expect(auditLogService.computeHash({ ...entry, params: { documentId: 'a', mode: 'view' } }))
+      .toBe(auditLogService.computeHash({ ...entry, params: new Map([['mode', 'view'], ['documentId', 'a']]) }));
+  });
+
+  it('picks up the end of the chain when another process appended first', async () => {
+    await recordAll([entryFor(groupA)]);
+    // Written by another server behind this one's back
+    const other = { ...entryFor(groupB), sequence: 2, previousHash: stored[0].hash };
+    stored.push({ ...other, hash: auditLogService.computeHash(other) });
+
+    await recordAll([entryFor(groupA)]);
+
+    expect(stored[2]).toMatchObject({ sequence: 3, previousHash: stored[1].hash });
+    expect((await auditLogService.verifyChain()).valid).toBe(true);
+  });
+
+  it('logs a failed write instead of throwing', async () => {
+    AuditLog.create.mockRejectedValue(new Error('connection lost'));
+    jest.spyOn(logger, 'error').mockImplementation(() => {});
+
+    await expect(auditLogService.record(entryFor(groupA))).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith('Failed to write audit log entry:', 'connection lost', expect.any(Object));
+  });
+
+  describe('verifyChain', () => {
+    beforeEach(async () => {
+      await recordAll([entryFor(groupA), entryFor(groupB), entryFor(groupA), entryFor(groupB)]);
+    });
+
+    it('accepts an untouched chain', async () => {
+      expect(await auditLogService.verifyChain()).toEqual({ valid: true, checked: 4, brokenAt: null });
+    });
+
+    it('finds an edited entry', async () => {
+      stored[2].userName = 'Someone Else';
+
+      expect(await auditLogService.verifyChain()).toEqual({
+        valid: false,
+        checked: 2,
+        brokenAt: { sequence: 3, reason: 'Entry contents do not match its hash' },
+      });
+    });
+
+    it('finds a deleted entry', async () => {
+      stored.splice(1, 1);
+
+      expect((await auditLogService.verifyChain()).brokenAt).toEqual({
+        sequence: 3,
+        reason: 'Expected entry 2, found 3',
+      });
+    });
+
+    it('finds an entry rewritten with a fresh hash', async () => {
+      stored[1].statusCode = 500;
+      stored[1].hash = auditLogService.computeHash(stored[1]);
+
+      expect((await auditLogService.verifyChain()).brokenAt).toEqual({
+        sequence: 3,
+        reason: 'Previous hash does not match the entry before it',
+      });
+    });
+  });
+
+  describe('verifyGroupChain', () => {
+    beforeEach(async () => {
+      await recordAll([entryFor(groupA), entryFor(groupB), entryFor(groupA), entryFor(groupB), entryFor(groupA)]);
+    });
+
+    it("checks only the group's own entries", async () => {
+      expect(await auditLogService.verifyGroupChain(groupA)).toEqual({ valid: true, checked: 3, brokenAt: null });
+      expect(await auditLogService.verifyGroupChain(groupB)).toEqual({ valid: true, checked: 2, brokenAt: null });
+    });
+
+    it('is not affected by edits to entries of other groups', async () => {
+      stored[1].userName = 'Someone Else';
+
+      expect((await auditLogService.verifyGroupChain(groupA)).valid).toBe(true);
+      expect((await auditLogService.verifyGroupChain(groupB)).brokenAt).toEqual({
+        sequence: 2,
+        reason: 'Entry contents do not match its hash',
+      });
+    });
+
+    it('finds an entry of another group deleted next to one of its own', async () => {
+      stored.splice(1, 1);
+
+      expect(await auditLogService.verifyGroupChain(groupA)).toEqual({
+        valid: false,
+        checked: 0,
+        brokenAt: { sequence: 1, reason: 'Entry 2 after it is missing' },
+      });
+    });
+
+    it('finds a neighbour rewritten with a fresh hash', async () => {
+      stored[3].statusCode = 500;
+      stored[3].hash = auditLogService.computeHash(stored[3]);
+
+      expect((await auditLogService.verifyGroupChain(groupA)).brokenAt).toEqual({
+        sequence: 5,
+        reason: 'Previous hash does not match the entry before it',
+      });
+    });
+
+    it('finds an edited entry of its own', async () => {
+      stored[2].userAgent = 'curl';
+
+      expect(await auditLogService.verifyGroupChain(groupA)).toEqual({
+        valid: false,
+        checked: 1,
+        brokenAt: { sequence: 3, reason: 'Entry contents do not match its hash' },
+      });
+    });
+  });
+});
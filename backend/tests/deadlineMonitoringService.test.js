@@ -0,0 +1,102 @@
+// Who deadline alerts reach and what each channel is told
+const mongoose = require('mongoose');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const Patient = require('../models/Patient');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const NotificationDelivery = require('../models/NotificationDelivery');
+const deadlineMonitoringService = require('../services/deadlineMonitoringService');
+const realtimeService = require('../services/realtimeService');
+const { getNotificationChannel } = require('../services/notifications');
+const { mockQuery } = require('./helpers');
+
+let users;
+let group;
+let dispute;
+
+const newUser = (firstName) => new User({
+  email: `${firstName.toLowerCase()}@example.com`,
+  password: 'hashed',
+  firstName,
+  lastName: 'Lee',
+});
+
+beforeEach(() => {
+  users = [newUser('Pat'), newUser('Sam'), newUser('Alex'), newUser('Robin')];
+  const [owner, viewer, auditor, colleague] = users;
+
+  group = new PatientGroup({
+    name: 'Cardiology',
+    owner: owner._id,
+    organization: new mongoose.Types.ObjectId(),
+    members: [{ user: owner._id, permission: 'admin' }, { user: viewer._id, permission: 'view' }],
+  });
+
+  const patient = new Patient({ firstName: 'Jordan', lastName: 'Smith', patientGroup: group._id });
+  dispute = new PriorAuthorization({
+    patient: patient._id,
+    patientGroup: group._id,
+    createdBy: owner._id,
+    requestDetails: {
+      requestedService: 'Lumbar MRI',
+      requestedDate: new Date('2024-03-01'),
+      clinicalJustification: 'Radiating pain for six weeks despite physical therapy',
+    },
+  });
+  // Stands in for populate('patient')
+  dispute.patient = patient;
+
+  jest.spyOn(PatientGroup, 'findById').mockImplementation(() => mockQuery(group));
+  jest.spyOn(Organization, 'findOne').mockImplementation(() => mockQuery(new Organization({
+    name: 'Heart Clinic',
+    createdBy: owner._id,
+    members: [{ user: auditor._id, role: 'auditor' }, { user: colleague._id, role: 'member' }],
+  })));
+  jest.spyOn(User, 'findById').mockImplementation(async id => users.find(user => user._id.equals(id)));
+  jest.spyOn(User.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(NotificationDelivery, 'create').mockImplementation(async fields => new NotificationDelivery(fields));
+  jest.spyOn(NotificationDelivery.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(realtimeService, 'sendToGroup').mockResolvedValue();
+  jest.spyOn(getNotificationChannel('email').transport, 'sendMail');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('deadlineMonitoringService.createDeadlineNotification', () => {
+  const flag = { type: 'overdue', daysRemaining: 2, dayType: 'calendar' };
+
+  it('alerts everyone who can view the group, counting organization roles', async () => {
+    await deadlineMonitoringService.createDeadlineNotification(dispute, flag);
+
+    const recipients = new Set(NotificationDelivery.create.mock.calls.map(([fields]) => fields.user.toString()));
+    expect([...recipients].sort()).toEqual(users.slice(0, 3).map(user => user.id).sort());
+    expect(realtimeService.sendToGroup).toHaveBeenCalledWith(group._id, 'dispute:deadline_flag', { disputeId: dispute._id });
+  });
+
+  it('names the patient in the app only', async () => {
+    await deadlineMonitoringService.createDeadlineNotification(dispute, flag);
+
+    const [owner] = users;
+    expect(owner.notifications[0].message).toBe('OVERDUE: Response deadline passed 2 days ago for Jordan Smith - Lumbar MRI');
+
+    const emails = getNotificationChannel('email').transport.sendMail.mock.calls.map(([mail]) => mail);
+    expect(emails).toHaveLength(3);
+    emails.forEach(mail => {
+      expect(mail.subject).toBe('Dispute deadline overdue');
+      expect(mail.text).toContain('A dispute deadline is overdue');
+      expect(mail.text).toContain(`http://localhost:3000/dispute/${dispute._id}`);
+      expect(`${mail.text}${mail.html}`).not.toMatch(/Jordan|Smith|Lumbar/);
+    });
+
+    NotificationDelivery.create.mock.calls
+      .filter(([fields]) => fields.channel !== 'in_app')
+      .forEach(([fields]) => expect(fields.payload.message).toBe('A dispute deadline is overdue'));
+  });
+});
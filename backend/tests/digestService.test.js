@@ -0,0 +1,99 @@
+// What goes into a digest email and which groups it covers
+const mongoose = require('mongoose');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const deadlineMonitoringService = require('../services/deadlineMonitoringService');
+const digestService = require('../services/digestService');
+const { mockQuery, testUser } = require('./helpers');
+
+const organizationId = new mongoose.Types.ObjectId();
+const user = testUser({
+  organization: organizationId,
+  preferences: { digest: { frequency: 'daily', timezone: 'UTC' } },
+});
+const since = new Date('2024-03-01T00:00:00Z');
+
+let groups;
+let deadlineDispute;
+let changedDispute;
+let analyzedDispute;
+
+const buildGroup = (fields) => new PatientGroup({ name: 'Cardiology', owner: new mongoose.Types.ObjectId(), ...fields });
+
+beforeEach(() => {
+  const member = buildGroup({ members: [{ user: user._id, permission: 'view' }] });
+  const requiresMfa = buildGroup({ members: [{ user: user._id, permission: 'edit' }], settings: { requireMfa: true } });
+  const organizationGroup = buildGroup({ organization: organizationId });
+  const billingOnly = buildGroup({ roles: [{ name: 'Biller', permissions: ['dispute.submit'] }] });
+  billingOnly.members.push({ user: user._id, permission: 'view', role: billingOnly.roles[0]._id });
+  groups = { member, requiresMfa, organizationGroup, billingOnly };
+
+  deadlineDispute = new mongoose.Types.ObjectId();
+  changedDispute = new PriorAuthorization({
+    timeline: [{ action: 'Status changed from pending to submitted', date: new Date('2024-03-02T12:00:00Z') }],
+  });
+  analyzedDispute = new PriorAuthorization({
+    analysis: { status: 'completed', analysisDate: new Date('2024-03-03T12:00:00Z'), successProbability: 80 },
+  });
+
+  jest.spyOn(Organization, 'getMemberRole').mockImplementation(async id => (
+    id && id.toString() === organizationId.toString() ? 'auditor' : null
+  ));
+  jest.spyOn(PatientGroup, 'find').mockImplementation(() => mockQuery(Object.values(groups)));
+  jest.spyOn(deadlineMonitoringService, 'getDeadlineSummary').mockResolvedValue({
+    overdue: 1,
+    urgent: 0,
+    warning: 0,
+    details: [{
+      disputeId: deadlineDispute,
+      patientName: 'Jordan Smith',
+      service: 'Lumbar MRI',
+      deadline: new Date('2024-03-04T12:00:00Z'),
+      daysRemaining: 2,
+      dayType: 'calendar',
+      category: 'overdue',
+    }],
+  });
+  // Both disputes are in every group the query asks about
+  jest.spyOn(PriorAuthorization, 'find').mockImplementation(filter => mockQuery(
+    filter.patientGroup.$in.length === 0 ? [] : [filter.timeline ? changedDispute : analyzedDispute]
+  ));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('digestService.buildDigest', () => {
+  it('covers groups the user can view patients in, through membership or the organization', async () => {
+    await digestService.buildDigest(user, since);
+
+    const expected = [groups.member._id, groups.organizationGroup._id];
+    expect(deadlineMonitoringService.getDeadlineSummary).toHaveBeenCalledWith(user._id, expected);
+    PriorAuthorization.find.mock.calls.forEach(([filter]) => {
+      expect(filter.patientGroup).toEqual({ $in: expected });
+    });
+  });
+
+  it('names disputes by reference and links to them', async () => {
+    const digest = await digestService.buildDigest(user, since);
+
+    expect(digest.subject).toBe('Your daily dispute digest: 1 overdue, 1 status change, 1 new analysis');
+    expect(digest.itemCount).toBe(3);
+    expect(digest.text).toContain(`- Dispute ${deadlineDispute}: 2 days overdue (due Mar 4)\n  http://localhost:3000/dispute/${deadlineDispute}`);
+    expect(digest.text).toContain(`- Dispute ${changedDispute._id}: pending -> submitted on Mar 2`);
+    expect(digest.text).toContain(`- Dispute ${analyzedDispute._id}: analysis completed on Mar 3`);
+    expect(digest.html).toContain(`<a href="http://localhost:3000/dispute/${analyzedDispute._id}">`);
+    expect(`${digest.text}${digest.html}`).not.toMatch(/Jordan|Smith|Lumbar|80%/);
+  });
+
+  it('reports nothing without a group to cover', async () => {
+    groups = {};
+
+    const digest = await digestService.buildDigest(user, since);
+
+    expect(deadlineMonitoringService.getDeadlineSummary).not.toHaveBeenCalled();
+    expect(digest.itemCount).toBe(0);
+  });
+});
@@ -0,0 +1,179 @@
+const mongoose = require('mongoose');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const disputeStatusService = require('../services/disputeStatusService');
+
+const { StatusTransitionError } = disputeStatusService;
+
+const userId = new mongoose.Types.ObjectId();
+
+const buildDispute = (status = 'pending', fields = {}) => new PriorAuthorization({
+  patient: new mongoose.Types.ObjectId(),
+  patientGroup: new mongoose.Types.ObjectId(),
+  createdBy: userId,
+  requestDetails: {
+    requestedService: 'Lumbar MRI',
+    requestedDate: new Date('2024-03-01'),
+    clinicalJustification: 'Radiating pain for six weeks despite physical therapy',
+  },
+  denial: {
+    denialDate: new Date('2024-03-10'),
+    denialReason: 'Not medically necessary',
+  },
+  dispute: { status },
+  ...fields,
+});
+
+const submittable = (status = 'pending') => buildDispute(status, { validation: { canSubmit: true } });
+
+describe('disputeStatusService', () => {
+  describe('getBlockedReason', () => {
+    it('allows the moves in the transition table', () => {
+      expect(disputeStatusService.getBlockedReason(buildDispute('pending'), 'in_progress')).toBeNull();
+      expect(disputeStatusService.getBlockedReason(buildDispute('in_progress'), 'pending')).toBeNull();
+      expect(disputeStatusService.getBlockedReason(buildDispute('submitted'), 'under_review')).toBeNull();
+      expect(disputeStatusService.getBlockedReason(buildDispute('under_review'), 'withdrawn')).toBeNull();
+    });
+
+    it('blocks moves the table does not list', () => {
+      expect(disputeStatusService.getBlockedReason(buildDispute('pending'), 'under_review'))
+        .toBe('A pending dispute cannot be moved to under review');
+      expect(disputeStatusService.getBlockedReason(buildDispute('submitted'), 'pending'))
+        .toBe('A submitted dispute cannot be moved to pending');
+    });
+
+    it('treats approved, denied and withdrawn disputes as closed', () => {
+      expect(disputeStatusService.getBlockedReason(buildDispute('approved'), 'pending'))
+        .toBe('A approved dispute is closed');
+      expect(disputeStatusService.getBlockedReason(buildDispute('denied'), 'submitted'))
+        .toBe('A denied dispute is closed - start the next appeal round to continue');
+    });
+
+    it('only submits disputes that passed pre-submission validation', () => {
+      expect(disputeStatusService.getBlockedReason(buildDispute('pending'), 'submitted'))
+        .toMatch(/pre-submission validation/);
+      expect(disputeStatusService.getBlockedReason(submittable('pending'), 'submitted')).toBeNull();
+    });
+
+    it('needs a matching payer decision to approve or deny, but not to withdraw', () => {
+      const dispute = buildDispute('under_review');
+
+      expect(disputeStatusService.getBlockedReason(dispute, 'approved'))
+        .toBe("Record the payer's decision to mark the dispute approved");
+      expect(disputeStatusService.getBlockedReason(dispute, 'denied', { outcome: { result: 'approved' } }))
+        .toBe('A approved outcome does not match denied');
+      expect(disputeStatusService.getBlockedReason(dispute, 'approved', { outcome: { result: 'partial_approval' } }))
+        .toBeNull();
+      expect(disputeStatusService.getBlockedReason(dispute, 'withdrawn')).toBeNull();
+    });
+
+    it('lets a peer-to-peer call approve a dispute that is still open', () => {
+      const outcome = { result: 'approved' };
+
+      expect(disputeStatusService.getBlockedReason(buildDispute('pending'), 'approved', { outcome }))
+        .toMatch(/cannot be moved/);
+      expect(disputeStatusService.getBlockedReason(buildDispute('pending'), 'approved', { outcome, round: { type: 'peer_to_peer' } }))
+        .toBeNull();
+    });
+  });
+
+  describe('getAllowedTransitions', () => {
+    it('lists every next status with what it needs', () => {
+      const transitions = disputeStatusService.getAllowedTransitions(buildDispute('submitted'));
+
+      expect(transitions.map(item => item.status)).toEqual(['under_review', 'approved', 'denied', 'withdrawn']);
+      expect(transitions.find(item => item.status === 'approved')).toMatchObject({
+        allowed: true,
+        requiresOutcome: true,
+        outcomeResults: ['approved', 'partial_approval'],
+      });
+      expect(transitions.find(item => item.status === 'withdrawn')).toMatchObject({ allowed: true, requiresOutcome: false });
+    });
+
+    it('marks submitting as blocked until validation passes', () => {
+      const submitted = disputeStatusService.getAllowedTransitions(buildDispute('pending'))
+        .find(item => item.status === 'submitted');
+
+      expect(submitted.allowed).toBe(false);
+      expect(submitted.blockedReason).toMatch(/pre-submission validation/);
+    });
+  });
+
+  describe('transition', () => {
+    it('throws with the allowed statuses when the move is blocked', () => {
+      const dispute = buildDispute('pending');
+      let thrown;
+
+      try {
+        disputeStatusService.transition(dispute, 'under_review', { userId });
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(StatusTransitionError);
+      expect(thrown.details).toEqual({
+        from: 'pending',
+        to: 'under_review',
+        allowed: ['in_progress', 'submitted', 'withdrawn'],
+      });
+      expect(dispute.dispute.status).toBe('pending');
+      expect(dispute.timeline).toHaveLength(0);
+    });
+
+    it('records submission and a timeline entry', () => {
+      const dispute = submittable('in_progress');
+      const submittedAt = new Date('2024-03-15');
+
+      const nextRound = disputeStatusService.transition(dispute, 'submitted', { userId, submittedAt, notes: 'Faxed' });
+
+      expect(nextRound).toBeNull();
+      expect(dispute.dispute.status).toBe('submitted');
+      expect(dispute.dispute.submittedDate).toEqual(submittedAt);
+      expect(dispute.timeline[dispute.timeline.length - 1]).toMatchObject({
+        action: 'Status changed from in_progress to submitted',
+        notes: 'Faxed',
+      });
+    });
+
+    it('resolves the dispute when the payer approves', () => {
+      const dispute = buildDispute('under_review');
+      dispute.deadlines.deadlineFlags.push({ type: 'urgent', daysRemaining: 2 });
+
+      const nextRound = disputeStatusService.transition(dispute, 'approved', {
+        userId,
+        outcome: { result: 'approved', decisionDate: new Date('2024-04-01') },
+      });
+
+      expect(nextRound).toBeNull();
+      expect(dispute.dispute.status).toBe('approved');
+      expect(dispute.dispute.resolution.outcome).toBe('approved');
+      expect(dispute.getCurrentRound().outcome.result).toBe('approved');
+      expect(dispute.deadlines.deadlineFlags.every(flag => flag.resolved)).toBe(true);
+    });
+
+    it('offers the next appeal round after a denial instead of resolving the dispute', () => {
+      const dispute = buildDispute('under_review');
+
+      const nextRound = disputeStatusService.transition(dispute, 'denied', {
+        userId,
+        outcome: { result: 'denied', decisionDate: new Date('2024-04-01') },
+      });
+
+      expect(dispute.dispute.status).toBe('denied');
+      expect(nextRound).toMatchObject({ type: 'internal_appeal', level: 2 });
+      expect(nextRound.filingDeadline).toBeInstanceOf(Date);
+      expect(dispute.dispute.resolution?.outcome).toBeUndefined();
+    });
+
+    it('withdraws without a payer decision', () => {
+      const dispute = buildDispute('pending');
+
+      disputeStatusService.transition(dispute, 'withdrawn', { userId, notes: 'Patient chose another provider' });
+
+      expect(dispute.dispute.status).toBe('withdrawn');
+      expect(dispute.dispute.resolution).toMatchObject({
+        outcome: 'withdrawn',
+        notes: 'Patient chose another provider',
+      });
+    });
+  });
+});
@@ -0,0 +1,221 @@
+// Analyze and generate requests through the API, answered by the mock LLM provider
+const request = require('supertest');
+const app = require('../server');
+const PriorAuthorization = require('../models/PriorAuthorization');
+const Patient = require('../models/Patient');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const Job = require('../models/Job');
+const jobQueueService = require('../services/jobQueueService');
+const auditLogService = require('../services/auditLogService');
+const notificationService = require('../services/notificationService');
+const realtimeService = require('../services/realtimeService');
+const { getLLMProvider } = require('../services/llm');
+const { mockQuery, signIn, testUser } = require('./helpers');
+
+const user = testUser();
+let headers;
+let group;
+let dispute;
+
+const buildDispute = (fields = {}) => {
+  const patient = new Patient({ firstName: 'Jordan', lastName: 'Smith', patientGroup: group._id });
+  const built = new PriorAuthorization({
+    patient: patient._id,
+    patientGroup: group._id,
+    createdBy: user._id,
+    requestDetails: {
+      requestedService: 'Lumbar MRI',
+      requestedDate: new Date('2024-03-01'),
+      clinicalJustification: 'Radiating pain for six weeks despite physical therapy',
+    },
+    denial: {
+      denialDate: new Date('2024-03-10'),
+      denialReason: 'Not medically necessary',
+    },
+    ...fields,
+  });
+  // Stands in for populate('patient')
+  built.patient = patient;
+  return built;
+};
+
+beforeEach(() => {
+  headers = signIn(user);
+  group = new PatientGroup({
+    name: 'Cardiology',
+    owner: user._id,
+    members: [{ user: user._id, permission: 'edit' }],
+  });
+  dispute = buildDispute();
+
+  jest.spyOn(PriorAuthorization, 'findOne').mockImplementation(() => mockQuery(dispute));
+  jest.spyOn(PatientGroup, 'findOne').mockImplementation(() => mockQuery(group));
+  jest.spyOn(Organization, 'getMemberRole').mockResolvedValue(null);
+  jest.spyOn(PriorAuthorization.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(auditLogService, 'record').mockResolvedValue();
+  jest.spyOn(notificationService, 'notifyAnalysisComplete').mockResolvedValue();
+  jest.spyOn(notificationService, 'notifyDocumentGenerated').mockResolvedValue();
+  jest.spyOn(realtimeService, 'sendToGroup').mockResolvedValue();
+  jest.spyOn(Job, 'findOne').mockImplementation(() => mockQuery(null));
+  jest.spyOn(Job, 'create').mockImplementation(async fields => new Job(fields));
+  jest.spyOn(Job, 'findById').mockImplementation(() => mockQuery({ cancelRequested: false }));
+  jest.spyOn(Job, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /api/disputes/:id/analyze', () => {
+  it('queues an analysis job that the mock provider completes', async () => {
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/analyze`)
+      .set(headers)
+      .expect(202);
+
+    expect(res.body.job).toMatchObject({
+      type: 'dispute_analysis',
+      dispute: dispute._id.toString(),
+      status: 'queued',
+    });
+
+    const [[fields]] = Job.create.mock.calls;
+    await jobQueueService.runJob(new Job(fields));
+
+    expect(dispute.analysis.status).toBe('completed');
+    expect(dispute.analysis.aiModel).toBe('mock:analysis.txt');
+    expect(dispute.analysis.disputeOpportunities.length).toBeGreaterThan(0);
+    expect(Job.updateOne).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: 'succeeded' })
+    );
+    expect(notificationService.notifyAnalysisComplete).toHaveBeenCalledWith(
+      dispute._id,
+      user._id,
+      dispute.analysis.successProbability
+    );
+  });
+
+  it('keeps the last good analysis when a re-run fails validation', async () => {
+    const analysisJob = () => new Job({ type: 'dispute_analysis', dispute: dispute._id, requestedBy: user._id });
+    await jobQueueService.runJob(analysisJob());
+    const previous = dispute.analysis.toObject();
+    jest.spyOn(getLLMProvider('analyzer'), 'complete').mockResolvedValue({ text: 'Not JSON', model: 'mock:broken' });
+
+    await jobQueueService.runJob(analysisJob());
+
+    expect(dispute.analysis.toObject()).toEqual(previous);
+    expect(dispute.analysisRun).toMatchObject({ status: 'failed', output: 'Not JSON', aiModel: 'mock:broken' });
+    expect(dispute.analysisRun.validationErrors.length).toBeGreaterThan(0);
+    expect(dispute.analysisRun.attemptedAt).toBeInstanceOf(Date);
+    expect(Job.updateOne).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ status: 'failed' })
+    );
+  });
+
+  it('returns the running job instead of queueing another', async () => {
+    const running = new Job({ type: 'dispute_analysis', dispute: dispute._id, status: 'running' });
+    Job.findOne.mockImplementation(() => mockQuery(running));
+
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/analyze`)
+      .set(headers)
+      .expect(202);
+
+    expect(res.body.job._id).toBe(running._id.toString());
+    expect(Job.create).not.toHaveBeenCalled();
+  });
+
+  it('is refused to members with view access', async () => {
+    group.members[0].permission = 'view';
+
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/analyze`)
+      .set(headers)
+      .expect(403);
+
+    expect(res.body.permission).toBe('dispute.analyze');
+    expect(Job.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/disputes/:id/generate', () => {
+  const analyze = async () => {
+    const analysisJob = new Job({ type: 'dispute_analysis', dispute: dispute._id, requestedBy: user._id });
+    await jobQueueService.runJob(analysisJob);
+  };
+
+  it('asks for an analysis first', async () => {
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/generate`)
+      .set(headers)
+      .send({ documentType: 'letter' })
+      .expect(400);
+
+    expect(res.body.message).toMatch(/run analysis first/);
+  });
+
+  it('rejects unknown document types', async () => {
+    await request(app)
+      .post(`/api/disputes/${dispute._id}/generate`)
+      .set(headers)
+      .send({ documentType: 'fax' })
+      .expect(400);
+  });
+
+  it('writes the document in a background job', async () => {
+    await analyze();
+
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/generate`)
+      .set(headers)
+      .send({ documentType: 'letter' })
+      .expect(202);
+
+    expect(res.body.job).toMatchObject({ type: 'document_generation', payload: { documentType: 'letter' } });
+
+    const [[fields]] = Job.create.mock.calls;
+    await jobQueueService.runJob(new Job(fields));
+
+    const [document] = dispute.dispute.generatedDocuments;
+    expect(document.type).toBe('letter');
+    expect(document.content).toContain('Jordan Smith');
+    expect(document.versions).toHaveLength(1);
+    expect(notificationService.notifyDocumentGenerated).toHaveBeenCalledWith(dispute._id, user._id, 'letter');
+  });
+
+  it('streams the document as server-sent events and saves it', async () => {
+    await analyze();
+
+    const res = await request(app)
+      .post(`/api/disputes/${dispute._id}/generate`)
+      .set(headers)
+      .set('Accept', 'text/event-stream')
+      .send({ documentType: 'email' })
+      .buffer(true)
+      .parse((response, callback) => {
+        let text = '';
+        response.on('data', chunk => { text += chunk; });
+        response.on('end', () => callback(null, text));
+      })
+      .expect(200)
+      .expect('Content-Type', /text\/event-stream/);
+
+    const events = res.body.trim().split('\n\n').map(block => {
+      const [eventLine, dataLine] = block.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+
+    const streamed = events.filter(item => item.event === 'token').map(item => item.data.text).join('');
+    const done = events[events.length - 1];
+
+    expect(done.event).toBe('done');
+    expect(done.data.document.content).toBe(streamed);
+    expect(dispute.dispute.generatedDocuments[0].content).toBe(streamed);
+    expect(Job.create).not.toHaveBeenCalled();
+  });
+});
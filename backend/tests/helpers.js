@@ -0,0 +1,46 @@
+// Shared stubs for tests that run routes and services without MongoDB
+const mongoose = require('mongoose');
+const sessionService = require('../services/sessionService');
+
+// A stand-in for a Mongoose query that resolves to `result` however it is chained. `cursor()` walks
+// an array result the way `for await` reads a query cursor.
+const mockQuery = (result) => {
+  const query = {
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+    exec: () => Promise.resolve(result),
+    cursor: async function* () {
+      yield* result;
+    },
+  };
+  ['select', 'populate', 'sort', 'limit', 'skip', 'lean'].forEach(method => {
+    query[method] = () => query;
+  });
+  return query;
+};
+
+// Lets requests with `Authorization: Bearer test` through the auth middleware as `user`
+const signIn = (user, session = {}) => {
+  jest.spyOn(sessionService, 'authenticate').mockResolvedValue({
+    user,
+    session: { _id: new mongoose.Types.ObjectId(), ...session },
+  });
+  return { Authorization: 'Bearer test' };
+};
+
+const testUser = (fields = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  get id() {
+    return this._id.toString();
+  },
+  email: 'pat.lee@example.com',
+  firstName: 'Pat',
+  lastName: 'Lee',
+  mfa: { enabled: false },
+  ...fields,
+});
+
+module.exports = {
+  mockQuery,
+  signIn,
+  testUser,
+};
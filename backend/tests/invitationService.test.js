@@ -0,0 +1,55 @@
+// What an invitation email reports back to the route
+const PatientGroup = require('../models/PatientGroup');
+const User = require('../models/User');
+const invitationService = require('../services/invitationService');
+const { getNotificationChannel } = require('../services/notifications');
+const { logger } = require('../utils/logger');
+const { mockQuery, testUser } = require('./helpers');
+
+const inviter = testUser();
+let group;
+let invitation;
+let token;
+
+beforeEach(() => {
+  group = new PatientGroup({ name: 'Cardiology', owner: inviter._id });
+  group.pendingInvitations.push({ email: 'sam.lee@example.com', permission: 'view', invitedBy: inviter._id });
+  [invitation] = group.pendingInvitations;
+  token = invitationService.issueToken(invitation);
+
+  jest.spyOn(User, 'findOne').mockImplementation(() => mockQuery(null));
+  jest.spyOn(logger, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('invitationService.send', () => {
+  it('reports an email that was only logged because SMTP is not configured', async () => {
+    const channel = getNotificationChannel('email');
+    jest.spyOn(channel.transport, 'sendMail');
+
+    expect(await invitationService.send(group, invitation, token, inviter)).toBe('not_configured');
+    expect(channel.transport.sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'sam.lee@example.com' }));
+    expect(invitation.lastSentAt).toBeUndefined();
+  });
+
+  it('reports an email that went out', async () => {
+    const channel = getNotificationChannel('email');
+    jest.spyOn(channel, 'isConfigured').mockReturnValue(true);
+    jest.spyOn(channel.transport, 'sendMail').mockResolvedValue({ messageId: 'sent-1' });
+
+    expect(await invitationService.send(group, invitation, token, inviter)).toBe('sent');
+    expect(invitation.sendCount).toBe(1);
+  });
+
+  it('reports an email the server refused', async () => {
+    const channel = getNotificationChannel('email');
+    jest.spyOn(channel, 'isConfigured').mockReturnValue(true);
+    jest.spyOn(channel.transport, 'sendMail').mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(logger, 'error').mockImplementation(() => {});
+
+    expect(await invitationService.send(group, invitation, token, inviter)).toBe('failed');
+  });
+});
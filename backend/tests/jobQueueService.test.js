@@ -0,0 +1,33 @@
+// Recovery of jobs a stopped server left running
+const Job = require('../models/Job');
+const jobQueueService = require('../services/jobQueueService');
+const { logger } = require('../utils/logger');
+
+beforeEach(() => {
+  jest.spyOn(Job, 'updateMany').mockResolvedValue({ modifiedCount: 1 });
+  jest.spyOn(logger, 'warn').mockImplementation(() => {});
+  jest.spyOn(logger, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('jobQueueService.requeueStaleJobs', () => {
+  it('fails stale jobs that were on their last attempt', async () => {
+    await jobQueueService.requeueStaleJobs();
+
+    const [filter, update] = Job.updateMany.mock.calls[0];
+    expect(filter).toMatchObject({ status: 'running', $expr: { $gte: ['$attempts', '$maxAttempts'] } });
+    expect(filter.heartbeatAt.$lt.getTime()).toBeLessThanOrEqual(Date.now() - jobQueueService.staleAfter);
+    expect(update).toMatchObject({ status: 'failed', error: 'The job was interrupted on its last attempt' });
+  });
+
+  it('requeues stale jobs with attempts left', async () => {
+    await jobQueueService.requeueStaleJobs();
+
+    const [filter, update] = Job.updateMany.mock.calls[1];
+    expect(filter).toMatchObject({ status: 'running', $expr: { $lt: ['$attempts', '$maxAttempts'] } });
+    expect(update).toMatchObject({ status: 'queued', 'progress.message': 'Requeued after interruption' });
+  });
+});
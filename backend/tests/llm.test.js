@@ -0,0 +1,61 @@
+const { getLLMConfig } = require('../config/llm');
+
+const ENV_KEYS = ['NODE_ENV', 'LLM_PROVIDER', 'ANALYZER_PROVIDER', 'ANALYZER_API'];
+const savedEnv = {};
+
+beforeEach(() => {
+  ENV_KEYS.forEach(key => {
+    savedEnv[key] = process.env[key];
+    delete process.env[key];
+  });
+});
+
+afterEach(() => {
+  ENV_KEYS.forEach(key => {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  });
+});
+
+describe('getLLMConfig', () => {
+  it('uses the API key when there is one', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.ANALYZER_API = 'key';
+
+    expect(getLLMConfig('analyzer')).toMatchObject({ provider: 'anthropic', apiKey: 'key' });
+  });
+
+  it('falls back to the mock provider only in test and development', () => {
+    process.env.NODE_ENV = 'development';
+    expect(getLLMConfig('analyzer').provider).toBe('mock');
+
+    process.env.NODE_ENV = 'test';
+    process.env.ANALYZER_API = 'key';
+    expect(getLLMConfig('analyzer').provider).toBe('mock');
+  });
+
+  it('refuses to run without an API key anywhere else', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => getLLMConfig('analyzer')).toThrow('ANALYZER_API must be set (or LLM_PROVIDER=mock to run from fixtures)');
+
+    delete process.env.NODE_ENV;
+    expect(() => getLLMConfig('analyzer')).toThrow('ANALYZER_API must be set');
+  });
+
+  it('uses the mock provider anywhere when it is chosen', () => {
+    process.env.NODE_ENV = 'production';
+    process.env.LLM_PROVIDER = 'mock';
+
+    expect(getLLMConfig('analyzer').provider).toBe('mock');
+  });
+
+  it('refuses the anthropic provider without an API key', () => {
+    process.env.NODE_ENV = 'development';
+    process.env.ANALYZER_PROVIDER = 'anthropic';
+
+    expect(() => getLLMConfig('analyzer')).toThrow('ANALYZER_API must be set to use the anthropic provider');
+  });
+});
@@ -0,0 +1,193 @@
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const encryptionService = require('../services/encryptionService');
+const mfaService = require('../services/mfaService');
+const { mockQuery } = require('./helpers');
+
+const { MfaError } = mfaService;
+
+// The RFC 6238 test secret, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const STEP_MS = 30 * 1000;
+
+const stepAt = time => Math.floor(time / STEP_MS);
+
+let user;
+
+const enrolledUser = () => new User({
+  email: 'pat.lee@example.com',
+  password: 'hashed',
+  firstName: 'Pat',
+  lastName: 'Lee',
+  mfa: {
+    enabled: true,
+    enabledAt: new Date(),
+    secret: encryptionService.encrypt(RFC_SECRET),
+    recoveryCodes: [],
+  },
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: new Date('2024-05-01T12:00:10Z'), doNotFake: ['nextTick', 'setImmediate'] });
+  user = enrolledUser();
+  jest.spyOn(User, 'findById').mockImplementation(() => mockQuery(user));
+  jest.spyOn(User.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('TOTP codes', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    // The RFC lists 8-digit codes; authenticator apps show their last 6 digits
+    expect(mfaService.generateCode(RFC_SECRET, stepAt(59 * 1000))).toBe('287082');
+    expect(mfaService.generateCode(RFC_SECRET, stepAt(1111111109 * 1000))).toBe('081804');
+    expect(mfaService.generateCode(RFC_SECRET, stepAt(1234567890 * 1000))).toBe('005924');
+    expect(mfaService.generateCode(RFC_SECRET, stepAt(2000000000 * 1000))).toBe('279037');
+  });
+
+  it('round-trips secrets through base32', () => {
+    expect(mfaService.base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(mfaService.base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(mfaService.base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+  });
+
+  it('accepts codes from one step either side of now, for drifting clocks', () => {
+    const now = Date.now();
+    const current = stepAt(now);
+
+    expect(mfaService.matchStep(RFC_SECRET, mfaService.generateCode(RFC_SECRET, current), now)).toBe(current);
+    expect(mfaService.matchStep(RFC_SECRET, mfaService.generateCode(RFC_SECRET, current - 1), now)).toBe(current - 1);
+    expect(mfaService.matchStep(RFC_SECRET, mfaService.generateCode(RFC_SECRET, current + 1), now)).toBe(current + 1);
+    expect(mfaService.matchStep(RFC_SECRET, mfaService.generateCode(RFC_SECRET, current - 2), now)).toBeNull();
+  });
+
+  it('only accepts six digits', () => {
+    const code = mfaService.generateCode(RFC_SECRET, stepAt(Date.now()));
+
+    expect(mfaService.matchStep(RFC_SECRET, `0${code}`)).toBeNull();
+    expect(mfaService.matchStep(RFC_SECRET, code.slice(1))).toBeNull();
+    expect(mfaService.matchStep(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('mfaService.checkCode', () => {
+  const currentCode = () => mfaService.generateCode(RFC_SECRET, stepAt(Date.now()));
+
+  it('accepts the current code once', async () => {
+    const code = currentCode();
+
+    await mfaService.checkCode(user, code);
+    expect(user.mfa.lastUsedStep).toBe(stepAt(Date.now()));
+
+    await expect(mfaService.checkCode(user, code)).rejects.toThrow('Invalid code');
+  });
+
+  it('refuses a code older than the last one used', async () => {
+    const previous = mfaService.generateCode(RFC_SECRET, stepAt(Date.now()) - 1);
+    await mfaService.checkCode(user, currentCode());
+
+    await expect(mfaService.checkCode(user, previous)).rejects.toThrow('Invalid code');
+  });
+
+  it('ignores spaces in the code', async () => {
+    const code = currentCode();
+
+    await expect(mfaService.checkCode(user, `${code.slice(0, 3)} ${code.slice(3)}`)).resolves.toBeUndefined();
+  });
+
+  it('accepts each recovery code once, however it is typed', async () => {
+    const [first, second] = mfaService.generateRecoveryCodes(user);
+    expect(first).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(user.mfa.recoveryCodes).toHaveLength(10);
+    expect(user.mfa.recoveryCodes[0].hash).not.toContain(first);
+
+    await mfaService.checkCode(user, first.toUpperCase());
+    await mfaService.checkCode(user, second.replace('-', ''));
+    expect(mfaService.getStatus(user).recoveryCodesRemaining).toBe(8);
+
+    await expect(mfaService.checkCode(user, first)).rejects.toThrow('Invalid code');
+  });
+
+  it('locks code entry after too many wrong codes', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(mfaService.checkCode(user, '000000')).rejects.toThrow('Invalid code');
+    }
+    expect(user.mfa.failedAttempts).toBe(4);
+
+    await expect(mfaService.checkCode(user, '000000')).rejects.toThrow('Invalid code');
+    expect(user.mfa.lockedUntil.getTime()).toBe(Date.now() + 15 * 60 * 1000);
+
+    const locked = mfaService.checkCode(user, currentCode());
+    await expect(locked).rejects.toThrow('Too many incorrect codes. Try again in 15 minutes.');
+    await expect(locked).rejects.toMatchObject({ status: 429 });
+
+    jest.setSystemTime(Date.now() + 15 * 60 * 1000 + 1);
+    await mfaService.checkCode(user, currentCode());
+    expect(user.mfa.failedAttempts).toBe(0);
+    expect(user.mfa.lockedUntil).toBeUndefined();
+  });
+});
+
+describe('enrollment', () => {
+  beforeEach(() => {
+    user = new User({
+      email: 'pat.lee@example.com',
+      password: 'hashed',
+      firstName: 'Pat',
+      lastName: 'Lee',
+    });
+    jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  it('turns MFA on once the user shows a code for the new secret', async () => {
+    const { secret, otpauthUrl, qrCode } = await mfaService.setup(user._id);
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(otpauthUrl).toBe(
+      `otpauth://totp/Prior%20Auth%20Disputes%3Apat.lee%40example.com?secret=${secret}`
+      + '&issuer=Prior%20Auth%20Disputes&algorithm=SHA1&digits=6&period=30'
+    );
+    expect(qrCode).toMatch(/^data:image\/png;base64,/);
+    expect(user.mfa.pendingSecret).not.toContain(secret);
+    expect(user.mfa.enabled).toBe(false);
+
+    await expect(mfaService.enable(user._id, '000000')).rejects.toThrow(MfaError);
+
+    const sessionId = 'session-id';
+    const recoveryCodes = await mfaService.enable(user._id, mfaService.generateCode(secret, stepAt(Date.now())), sessionId);
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(user.mfa.enabled).toBe(true);
+    expect(encryptionService.decrypt(user.mfa.secret)).toBe(secret);
+    expect(user.mfa.pendingSecret).toBeUndefined();
+    expect(Session.updateOne).toHaveBeenCalledWith({ _id: sessionId }, { mfaVerifiedAt: expect.any(Date) });
+  });
+
+  it('needs setup to be started first', async () => {
+    await expect(mfaService.enable(user._id, '123456')).rejects.toThrow('Start two-factor setup first');
+  });
+});
+
+describe('mfaService.verifyChallenge', () => {
+  it('signs in with the challenge token and a code', async () => {
+    const challenge = mfaService.issueChallenge(user);
+
+    await expect(mfaService.verifyChallenge(challenge, mfaService.generateCode(RFC_SECRET, stepAt(Date.now()))))
+      .resolves.toBe(user);
+  });
+
+  it('refuses access tokens and expired challenges', async () => {
+    const accessToken = jwt.sign({ id: user._id, sid: 'session-id' }, process.env.JWT_SECRET);
+    await expect(mfaService.verifyChallenge(accessToken, '123456')).rejects.toMatchObject({ status: 401 });
+
+    const challenge = mfaService.issueChallenge(user);
+    jest.setSystemTime(Date.now() + 5 * 60 * 1000 + 1000);
+    await expect(mfaService.verifyChallenge(challenge, '123456')).rejects.toThrow('Sign-in has expired');
+  });
+});
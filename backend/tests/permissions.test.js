@@ -0,0 +1,284 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const { body } = require('express-validator');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const permissionService = require('../services/permissionService');
+const { requirePermission, inGroup } = require('../middleware/permissions');
+const { mockQuery, testUser } = require('./helpers');
+
+const { BUILT_IN_ROLES, PERMISSION_NAMES } = permissionService;
+
+const user = testUser();
+const organizationId = new mongoose.Types.ObjectId();
+
+// Access lists permissions in the order PERMISSIONS declares them
+const inOrder = permissions => PERMISSION_NAMES.filter(name => permissions.includes(name));
+
+const buildGroup = (members = [], fields = {}) => new PatientGroup({
+  name: 'Cardiology',
+  owner: user._id,
+  organization: organizationId,
+  members,
+  ...fields,
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('permissionService.getAccess', () => {
+  beforeEach(() => {
+    jest.spyOn(Organization, 'getMemberRole').mockResolvedValue('member');
+  });
+
+  it('gives members the bundle of their built-in level', async () => {
+    const group = buildGroup([{ user: user._id, permission: 'view' }]);
+
+    const access = await permissionService.getAccess(group, user.id);
+
+    expect(access).toEqual({
+      role: 'view',
+      organizationRole: null,
+      permissions: inOrder(BUILT_IN_ROLES.view),
+    });
+    expect(await permissionService.can(group, user.id, 'patient.view')).toBe(true);
+    expect(await permissionService.can(group, user.id, 'patient.update')).toBe(false);
+  });
+
+  it('gives admins every permission', async () => {
+    const group = buildGroup([{ user: user._id, permission: 'admin' }]);
+
+    expect((await permissionService.getAccess(group, user._id)).permissions).toEqual(PERMISSION_NAMES);
+  });
+
+  it("replaces the level's bundle with a custom role's permissions", async () => {
+    const group = buildGroup([], {
+      roles: [{ name: 'Coder', permissions: ['patient.view', 'dispute.analyze'] }],
+    });
+    group.members.push({ user: user._id, permission: 'edit', role: group.roles[0]._id });
+
+    const access = await permissionService.getAccess(group, user.id);
+
+    expect(access.role).toBe('Coder');
+    expect(access.permissions).toEqual(['patient.view', 'dispute.analyze']);
+  });
+
+  it('falls back to the level when the custom role was deleted', async () => {
+    const group = buildGroup([{ user: user._id, permission: 'view', role: new mongoose.Types.ObjectId() }]);
+
+    expect((await permissionService.getAccess(group, user.id)).permissions).toEqual(inOrder(BUILT_IN_ROLES.view));
+  });
+
+  it('adds what the organization role grants in its groups', async () => {
+    Organization.getMemberRole.mockResolvedValue('auditor');
+    const group = buildGroup([{ user: user._id, permission: 'view' }]);
+
+    const access = await permissionService.getAccess(group, user.id);
+
+    expect(access.organizationRole).toBe('auditor');
+    expect(access.permissions).toEqual(inOrder([...BUILT_IN_ROLES.view, 'audit.view']));
+    expect(Organization.getMemberRole).toHaveBeenCalledWith(organizationId, user.id);
+  });
+
+  it('lets organization admins into groups they are not members of', async () => {
+    Organization.getMemberRole.mockResolvedValue('org_admin');
+
+    const access = await permissionService.getAccess(buildGroup(), user.id);
+
+    expect(access).toEqual({
+      role: null,
+      organizationRole: 'org_admin',
+      permissions: PERMISSION_NAMES,
+    });
+  });
+
+  it('gives plain organization members nothing outside their groups', async () => {
+    expect(await permissionService.getAccess(buildGroup(), user.id)).toBeNull();
+  });
+});
+
+describe('permissionService.getUsersWith', () => {
+  const viewer = new mongoose.Types.ObjectId();
+  const coder = new mongoose.Types.ObjectId();
+  const auditor = new mongoose.Types.ObjectId();
+  const colleague = new mongoose.Types.ObjectId();
+
+  let group;
+
+  beforeEach(() => {
+    group = buildGroup([
+      { user: user._id, permission: 'admin' },
+      { user: viewer, permission: 'view' },
+    ], {
+      roles: [{ name: 'Coder', permissions: ['dispute.analyze'] }],
+    });
+    group.members.push({ user: coder, permission: 'edit', role: group.roles[0]._id });
+
+    jest.spyOn(Organization, 'findOne').mockImplementation(() => mockQuery(new Organization({
+      name: 'Heart Clinic',
+      createdBy: user._id,
+      members: [{ user: auditor, role: 'auditor' }, { user: colleague, role: 'member' }],
+    })));
+  });
+
+  it('finds members and organization roles that grant the permission', async () => {
+    const userIds = await permissionService.getUsersWith(group, 'patient.view');
+
+    expect(userIds.sort()).toEqual([user.id, viewer.toString(), auditor.toString()].sort());
+    expect(await permissionService.getUsersWith(group, 'audit.view')).toEqual([user.id, auditor.toString()]);
+  });
+
+  it('leaves out users without two-factor authentication when the group requires it', async () => {
+    group.settings.requireMfa = true;
+    jest.spyOn(User, 'find').mockImplementation(filter => {
+      expect(filter['mfa.enabled']).toBe(true);
+      return mockQuery([{ _id: viewer }]);
+    });
+
+    expect(await permissionService.getUsersWith(group, 'patient.view')).toEqual([viewer.toString()]);
+    expect(await permissionService.getUsersWith(group, 'member.invite')).toEqual([user.id]);
+  });
+});
+
+describe('permissionService.isBlockedByMfa', () => {
+  it('blocks sessions without a second factor in groups that require one', () => {
+    const group = buildGroup([], { settings: { requireMfa: true } });
+
+    expect(permissionService.isBlockedByMfa(group, { mfaVerified: false })).toBe(true);
+    expect(permissionService.isBlockedByMfa(group, { mfaVerified: true })).toBe(false);
+    expect(permissionService.isBlockedByMfa(buildGroup(), { mfaVerified: false })).toBe(false);
+  });
+
+  it('only guards patient data', () => {
+    expect(permissionService.isPatientDataPermission('dispute.submit')).toBe(true);
+    expect(permissionService.isPatientDataPermission('member.invite')).toBe(false);
+  });
+});
+
+describe('requirePermission', () => {
+  let group;
+  let mfaVerified;
+  let handler;
+
+  const app = express();
+  app.use(express.json());
+  app.use((request, res, next) => {
+    request.user = user;
+    request.mfaVerified = mfaVerified;
+    next();
+  });
+  app.post('/groups/:id/patients', [
+    body('firstName').notEmpty(),
+  ], requirePermission('patient.create', inGroup()), (request, res) => handler(request, res));
+  app.post('/groups/:id/members', requirePermission(request => request.body.permission, inGroup()), (request, res) => handler(request, res));
+
+  const groupId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    mfaVerified = false;
+    group = buildGroup([{ user: user._id, permission: 'edit' }], { _id: groupId });
+    handler = jest.fn((request, res) => res.json({
+      group: request.patientGroup._id,
+      permissions: request.access.permissions,
+    }));
+
+    jest.spyOn(PatientGroup, 'findOne').mockImplementation(() => mockQuery(group));
+    jest.spyOn(Organization, 'getMemberRole').mockResolvedValue(null);
+  });
+
+  it('passes the group and access on to the handler', async () => {
+    const res = await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(200);
+
+    expect(res.body).toEqual({ group: groupId.toString(), permissions: inOrder(BUILT_IN_ROLES.edit) });
+    expect(PatientGroup.findOne).toHaveBeenCalledWith({ _id: groupId.toString(), isActive: true });
+  });
+
+  it('rejects an invalid body before looking up the group', async () => {
+    const res = await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({})
+      .expect(400);
+
+    expect(res.body.errors[0].path).toBe('firstName');
+    expect(PatientGroup.findOne).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('answers 403 with the missing permission', async () => {
+    group.members[0].permission = 'view';
+
+    const res = await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(403);
+
+    expect(res.body).toEqual({ message: 'Insufficient permissions', permission: 'patient.create' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('hides groups the user has no access to', async () => {
+    group.members = [];
+
+    const res = await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(404);
+
+    expect(res.body.message).toBe('Patient group not found');
+  });
+
+  it('answers 404 for deleted groups', async () => {
+    group = null;
+
+    await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(404);
+  });
+
+  it('works out the permission from the request', async () => {
+    await request(app)
+      .post(`/groups/${groupId}/members`)
+      .send({ permission: 'member.invite' })
+      .expect(200);
+
+    const res = await request(app)
+      .post(`/groups/${groupId}/members`)
+      .send({ permission: 'member.manage' })
+      .expect(403);
+
+    expect(res.body.permission).toBe('member.manage');
+  });
+
+  it('keeps sessions without a second factor away from patient data in groups that require one', async () => {
+    group.settings = { requireMfa: true };
+
+    const res = await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(403);
+
+    expect(res.body.mfaRequired).toBe(true);
+
+    mfaVerified = true;
+    await request(app)
+      .post(`/groups/${groupId}/patients`)
+      .send({ firstName: 'Jordan' })
+      .expect(200);
+  });
+
+  it('still allows group management without a second factor', async () => {
+    group.settings = { requireMfa: true };
+
+    await request(app)
+      .post(`/groups/${groupId}/members`)
+      .send({ permission: 'member.invite' })
+      .expect(200);
+  });
+});
@@ -0,0 +1,74 @@
+// Which connected sessions group events reach
+const mongoose = require('mongoose');
+const { WebSocket } = require('ws');
+const PatientGroup = require('../models/PatientGroup');
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const realtimeService = require('../services/realtimeService');
+const { mockQuery } = require('./helpers');
+
+const admin = new mongoose.Types.ObjectId();
+const coder = new mongoose.Types.ObjectId();
+const auditor = new mongoose.Types.ObjectId();
+const outsider = new mongoose.Types.ObjectId();
+
+let group;
+
+const connect = (userId, fields = {}) => {
+  const socket = { readyState: WebSocket.OPEN, send: jest.fn(), userId: userId.toString(), mfaVerified: false, ...fields };
+  if (!realtimeService.clients.has(socket.userId)) {
+    realtimeService.clients.set(socket.userId, new Set());
+  }
+  realtimeService.clients.get(socket.userId).add(socket);
+  return socket;
+};
+
+const received = socket => socket.send.mock.calls.map(([message]) => JSON.parse(message));
+
+beforeEach(() => {
+  group = new PatientGroup({
+    name: 'Cardiology',
+    owner: admin,
+    organization: new mongoose.Types.ObjectId(),
+    members: [{ user: admin, permission: 'admin' }],
+    roles: [{ name: 'Coder', permissions: ['dispute.analyze'] }],
+  });
+  group.members.push({ user: coder, permission: 'edit', role: group.roles[0]._id });
+
+  jest.spyOn(PatientGroup, 'findById').mockImplementation(() => mockQuery(group));
+  jest.spyOn(Organization, 'findOne').mockImplementation(() => mockQuery(new Organization({
+    name: 'Heart Clinic',
+    createdBy: admin,
+    members: [{ user: auditor, role: 'auditor' }, { user: outsider, role: 'member' }],
+  })));
+});
+
+afterEach(() => {
+  realtimeService.clients.clear();
+  jest.restoreAllMocks();
+});
+
+describe('realtimeService.sendToGroup', () => {
+  it('reaches users who can view patients, through the group or the organization', async () => {
+    const sockets = [admin, coder, auditor, outsider].map(userId => connect(userId));
+
+    await realtimeService.sendToGroup(group._id, 'dispute:status', { disputeId: 'd1', changedBy: admin });
+
+    expect(sockets.map(socket => socket.send.mock.calls.length)).toEqual([1, 0, 1, 0]);
+    expect(received(sockets[0])).toEqual([{ type: 'dispute:status', data: { disputeId: 'd1', changedBy: admin.toString() } }]);
+  });
+
+  it('skips sessions without a second factor when the group requires one', async () => {
+    group.settings.requireMfa = true;
+    jest.spyOn(User, 'find').mockImplementation(() => mockQuery([{ _id: admin }, { _id: auditor }]));
+    const verified = connect(admin, { mfaVerified: true });
+    const unverified = connect(admin);
+    const auditorSocket = connect(auditor);
+
+    await realtimeService.sendToGroup(group._id, 'dispute:deadline_flag', { disputeId: 'd1' });
+
+    expect(verified.send).toHaveBeenCalledTimes(1);
+    expect(unverified.send).not.toHaveBeenCalled();
+    expect(auditorSocket.send).not.toHaveBeenCalled();
+  });
+});
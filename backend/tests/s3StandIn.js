@@ -0,0 +1,86 @@
+// A small in-process stand-in for an S3-compatible service (path-style requests, one bucket), enough for
+// the calls the S3 storage driver makes: PUT, GET with Range, HEAD, DELETE and ListObjectsV2.
+// Signatures aren't checked.
+const http = require('http');
+
+const escapeXml = text => text.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+const sendError = (res, status, code) => {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${code}</Message></Error>`);
+};
+
+const startS3StandIn = async (bucket) => {
+  // Object key -> { body, contentType, headers (of the PUT) }
+  const objects = new Map();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const [, bucketName, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+
+    if (bucketName !== bucket) {
+      return sendError(res, 404, 'NoSuchBucket');
+    }
+
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      if (!key && req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+        const prefix = url.searchParams.get('prefix') || '';
+        const contents = [...objects.entries()]
+          .filter(([name]) => name.startsWith(prefix))
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([name, object]) => `<Contents><Key>${escapeXml(name)}</Key><Size>${object.body.length}</Size></Contents>`)
+          .join('');
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        return res.end(`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name>`
+          + `<Prefix>${escapeXml(prefix)}</Prefix><KeyCount>${objects.size}</KeyCount><IsTruncated>false</IsTruncated>`
+          + `${contents}</ListBucketResult>`);
+      }
+
+      if (req.method === 'PUT') {
+        objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'], headers: req.headers });
+        res.writeHead(200, { ETag: '"stand-in"' });
+        return res.end();
+      }
+
+      if (req.method === 'DELETE') {
+        objects.delete(key);
+        res.writeHead(204);
+        return res.end();
+      }
+
+      const object = objects.get(key);
+      if (!object) {
+        if (req.method === 'HEAD') {
+          res.writeHead(404);
+          return res.end();
+        }
+        return sendError(res, 404, 'NoSuchKey');
+      }
+
+      const size = object.body.length;
+      const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range || '');
+      const start = range ? Number(range[1]) : 0;
+      const end = range && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+
+      res.writeHead(range ? 206 : 200, {
+        'Content-Type': object.contentType,
+        'Content-Length': end - start + 1,
+        ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+      });
+      res.end(req.method === 'HEAD' ? undefined : object.body.subarray(start, end + 1));
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    endpoint: `http://127.0.0.1:${server.address().port}`,
+    objects,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
+
+module.exports = { startS3StandIn };
@@ -0,0 +1,162 @@
+// Refresh token rotation through POST /api/auth/refresh, and what happens when a traded token comes back
+const jwt = require('jsonwebtoken');
+const request = require('supertest');
+const app = require('../server');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const sessionService = require('../services/sessionService');
+const realtimeService = require('../services/realtimeService');
+const { logger } = require('../utils/logger');
+const { mockQuery } = require('./helpers');
+
+let user;
+let session;
+let refreshToken;
+
+const refresh = token => request(app)
+  .post('/api/auth/refresh')
+  .set('Cookie', `refresh_token=${encodeURIComponent(token)}`);
+
+// The refresh token a response sets, or null when it sets none (an empty value clears the cookie)
+const cookieToken = res => {
+  const cookie = (res.headers['set-cookie'] || []).find(value => value.startsWith('refresh_token='));
+  return cookie ? decodeURIComponent(cookie.split(';')[0].slice('refresh_token='.length)) || null : null;
+};
+
+const matches = (filter) => filter._id.toString() === session._id.toString()
+  && filter.tokenHash === session.tokenHash
+  && !session.revokedAt
+  && session.expiresAt > filter.expiresAt.$gt;
+
+beforeEach(() => {
+  user = new User({
+    email: 'pat.lee@example.com',
+    password: 'hashed',
+    firstName: 'Pat',
+    lastName: 'Lee',
+  });
+
+  const secret = sessionService.newSecret();
+  session = new Session({
+    user: user._id,
+    tokenHash: sessionService.hashToken(secret),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  });
+  refreshToken = `${session._id}.${secret}`;
+
+  // One session in the collection; the rotation update only applies when its conditions hold
+  jest.spyOn(Session, 'findOneAndUpdate').mockImplementation(async (filter, update) => {
+    if (!matches(filter)) return null;
+    session.set(update.$set);
+    return session;
+  });
+  jest.spyOn(Session, 'findById').mockImplementation(id => mockQuery(
+    id.toString() === session._id.toString() ? session : null
+  ));
+  jest.spyOn(Session.prototype, 'save').mockImplementation(function() {
+    return Promise.resolve(this);
+  });
+  jest.spyOn(User, 'findById').mockImplementation(() => mockQuery(user));
+  jest.spyOn(realtimeService, 'disconnectSession').mockImplementation(() => {});
+  jest.spyOn(logger, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('POST /api/auth/refresh', () => {
+  it('trades the refresh token for a new one and an access token', async () => {
+    const oldHash = session.tokenHash;
+
+    const res = await refresh(refreshToken).expect(200);
+
+    const rotated = cookieToken(res);
+    expect(rotated).toMatch(new RegExp(`^${session._id}\\.[0-9a-f]{64}$`));
+    expect(rotated).not.toBe(refreshToken);
+    expect(res.headers['set-cookie'][0]).toMatch(/HttpOnly/);
+
+    const decoded = jwt.verify(res.body.token, process.env.JWT_SECRET);
+    expect(decoded).toMatchObject({ id: user._id.toString(), sid: session._id.toString() });
+    expect(res.body.user.email).toBe('pat.lee@example.com');
+
+    expect(session.tokenHash).toBe(sessionService.hashToken(rotated.split('.')[1]));
+    expect(session.previousTokenHash).toBe(oldHash);
+    expect(session.rotatedAt).toBeInstanceOf(Date);
+  });
+
+  it('keeps rotating with each new token', async () => {
+    const first = cookieToken(await refresh(refreshToken).expect(200));
+    const second = cookieToken(await refresh(first).expect(200));
+
+    expect(second).not.toBe(first);
+    expect(session.isActive()).toBe(true);
+  });
+
+  it('lets a tab that refreshed at the same moment through without rotating again', async () => {
+    const rotated = cookieToken(await refresh(refreshToken).expect(200));
+
+    const res = await refresh(refreshToken).expect(200);
+
+    expect(cookieToken(res)).toBeNull();
+    expect(res.body.token).toBeTruthy();
+    expect(session.tokenHash).toBe(sessionService.hashToken(rotated.split('.')[1]));
+    expect(session.isActive()).toBe(true);
+  });
+
+  it('ends the session when a replaced token is used after the grace period', async () => {
+    const rotated = cookieToken(await refresh(refreshToken).expect(200));
+    session.rotatedAt = new Date(Date.now() - 60 * 1000);
+
+    const res = await refresh(refreshToken).expect(401);
+
+    expect(res.body.message).toBe('Session has ended');
+    expect(res.headers['set-cookie'][0]).toMatch(/^refresh_token=;/);
+    expect(session.revokedReason).toBe('token_reuse');
+    expect(session.isActive()).toBe(false);
+    expect(realtimeService.disconnectSession).toHaveBeenCalledWith(session._id);
+
+    // The thief's copy and the rightful owner's newer token are both dead now
+    await refresh(rotated).expect(401);
+  });
+
+  it('ends the session when a token older than the previous one comes back', async () => {
+    const first = cookieToken(await refresh(refreshToken).expect(200));
+    await refresh(first).expect(200);
+
+    await refresh(refreshToken).expect(401);
+
+    expect(session.revokedReason).toBe('token_reuse');
+  });
+
+  it('refuses revoked and expired sessions', async () => {
+    session.revokedAt = new Date();
+    await refresh(refreshToken).expect(401);
+
+    session.revokedAt = undefined;
+    session.expiresAt = new Date(Date.now() - 1000);
+    await refresh(refreshToken).expect(401);
+
+    expect(Session.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses a missing or malformed cookie', async () => {
+    const res = await request(app).post('/api/auth/refresh').expect(401);
+    expect(res.body.message).toBe('Not signed in');
+
+    await refresh('not-a-token').expect(401);
+    expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('sessionService.authenticate', () => {
+  it('stops accepting access tokens once the session is revoked', async () => {
+    const accessToken = sessionService.issueAccessToken(user, session);
+    jest.spyOn(Session, 'updateOne').mockResolvedValue({ modifiedCount: 1 });
+
+    await expect(sessionService.authenticate(accessToken)).resolves.toMatchObject({ user, session });
+
+    session.revokedAt = new Date();
+    await expect(sessionService.authenticate(accessToken)).rejects.toThrow('Session has ended');
+  });
+});
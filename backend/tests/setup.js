@@ -0,0 +1,14 @@
+// Runs before each test file. Tests never reach a database: models are stubbed per test, and with
+// command buffering off anything left unstubbed fails straight away instead of hanging.
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+
+process.env.JWT_SECRET = 'test-secret';
+process.env.LLM_PROVIDER = 'mock';
+process.env.ENCRYPTION_KEYS = JSON.stringify({
+  currentKeyVersion: 1,
+  keys: { 1: crypto.randomBytes(32).toString('base64') },
+  blindIndexKey: crypto.randomBytes(32).toString('base64'),
+});
+
+mongoose.set('bufferCommands', false);
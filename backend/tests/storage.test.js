@@ -0,0 +1,270 @@
+// Both storage drivers, the S3 one against a local stand-in for an S3-compatible service
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const express = require('express');
+const request = require('supertest');
+const { getStorageDriver, resetStorageDrivers } = require('../services/storage');
+const documentStorageService = require('../services/documentStorageService');
+const fileDownloadService = require('../services/fileDownloadService');
+const { startS3StandIn } = require('./s3StandIn');
+
+const readAll = async stream => {
+  const chunks = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+const ENV_KEYS = [
+  'STORAGE_DRIVER',
+  'STORAGE_LOCAL_DIR',
+  'S3_BUCKET',
+  'S3_ENDPOINT',
+  'S3_ACCESS_KEY_ID',
+  'S3_SECRET_ACCESS_KEY',
+  'S3_PREFIX',
+];
+
+let localDirectory;
+let s3;
+const savedEnv = {};
+
+beforeAll(async () => {
+  ENV_KEYS.forEach(key => {
+    savedEnv[key] = process.env[key];
+  });
+
+  localDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+  s3 = await startS3StandIn('documents');
+
+  process.env.STORAGE_DRIVER = 'local';
+  process.env.STORAGE_LOCAL_DIR = localDirectory;
+  process.env.S3_BUCKET = 'documents';
+  process.env.S3_ENDPOINT = s3.endpoint;
+  process.env.S3_ACCESS_KEY_ID = 'test';
+  process.env.S3_SECRET_ACCESS_KEY = 'test';
+  process.env.S3_PREFIX = 'uploads/';
+  resetStorageDrivers();
+});
+
+afterAll(async () => {
+  resetStorageDrivers();
+  await s3.close();
+  await fs.rm(localDirectory, { recursive: true, force: true });
+
+  ENV_KEYS.forEach(key => {
+    if (savedEnv[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = savedEnv[key];
+    }
+  });
+});
+
+describe.each(['local', 's3'])('%s driver', (name) => {
+  let driver;
+  // Long enough to span many cipher blocks, and not a multiple of their size
+  const data = crypto.randomBytes(5000 + 7);
+  const key = documentStorageService.hashContent(data);
+
+  beforeAll(async () => {
+    driver = getStorageDriver(name);
+    await driver.put(key, data, { contentType: 'application/pdf' });
+  });
+
+  it('reads back what was stored', async () => {
+    expect(await driver.exists(key)).toBe(true);
+    expect((await driver.get(key)).equals(data)).toBe(true);
+    expect(await driver.size(key)).toBe(data.length);
+  });
+
+  it('streams the whole file', async () => {
+    expect((await readAll(await driver.getStream(key))).equals(data)).toBe(true);
+  });
+
+  it.each([
+    [0, 0],
+    [0, 15],
+    [1, 16],
+    [15, 17],
+    [100, 2047],
+    [4096, 5006],
+    [5006, 5006],
+  ])('streams bytes %i to %i', async (start, end) => {
+    const stream = await driver.getStream(key, { start, end });
+
+    expect((await readAll(stream)).equals(data.subarray(start, end + 1))).toBe(true);
+  });
+
+  it('answers null for a missing key', async () => {
+    const missing = 'a'.repeat(64);
+
+    expect(await driver.exists(missing)).toBe(false);
+    expect(await driver.get(missing)).toBeNull();
+    expect(await driver.size(missing)).toBeNull();
+    expect(await driver.getStream(missing)).toBeNull();
+  });
+
+  it('lists and deletes keys', async () => {
+    const other = Buffer.from('second file');
+    const otherKey = documentStorageService.hashContent(other);
+    await driver.put(otherKey, other);
+
+    const keys = [];
+    for await (const stored of driver.keys()) {
+      keys.push(stored);
+    }
+    expect(keys.sort()).toEqual([key, otherKey].sort());
+
+    await driver.delete(otherKey);
+    expect(await driver.exists(otherKey)).toBe(false);
+  });
+});
+
+describe('local driver', () => {
+  it('encrypts files on disk', async () => {
+    const driver = getStorageDriver('local');
+    const data = Buffer.from('Patient: Jordan Smith, DOB 1980-01-01');
+    const key = documentStorageService.hashContent(data);
+
+    await driver.put(key, data);
+
+    const onDisk = await fs.readFile(path.join(localDirectory, key.slice(0, 2), key));
+    expect(onDisk.includes('Jordan Smith')).toBe(false);
+    expect((await driver.get(key)).equals(data)).toBe(true);
+  });
+
+  it('refuses keys that could leave the storage directory', async () => {
+    const driver = getStorageDriver('local');
+
+    await expect(driver.get('../../etc/passwd')).rejects.toThrow('Invalid storage key');
+    await expect(driver.put('ab/cd', Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('s3 driver', () => {
+  it('stores objects under the prefix with server-side encryption', async () => {
+    const driver = getStorageDriver('s3');
+    const data = Buffer.from('denial letter');
+    const key = documentStorageService.hashContent(data);
+
+    await driver.put(key, data, { contentType: 'text/plain' });
+
+    const object = s3.objects.get(`uploads/${key}`);
+    expect(object.body.equals(data)).toBe(true);
+    expect(object.contentType).toBe('text/plain');
+    expect(object.headers['x-amz-server-side-encryption']).toBe('AES256');
+  });
+});
+
+describe('documentStorageService', () => {
+  const data = Buffer.from('%PDF-1.4 appeal packet');
+
+  it('stores identical contents once', async () => {
+    const driver = getStorageDriver('local');
+
+    const first = await documentStorageService.save(data, { driver });
+    const second = await documentStorageService.save(data, { driver });
+
+    expect(first).toEqual({
+      filename: documentStorageService.hashContent(data),
+      contentHash: documentStorageService.hashContent(data),
+      size: data.length,
+      deduplicated: false,
+    });
+    expect(second.deduplicated).toBe(true);
+  });
+
+  it('refuses contents that no longer match their hash', async () => {
+    const driver = getStorageDriver('s3');
+    const file = await documentStorageService.save(data, { driver });
+    s3.objects.get(`uploads/${file.filename}`).body = Buffer.from('%PDF-1.4 altered packet');
+
+    await expect(documentStorageService.read(file, 'attachment', { driver }))
+      .rejects.toThrow('does not match its content hash');
+
+    const stored = await documentStorageService.open(file, 'attachment', { driver });
+    await expect(readAll(await stored.createReadStream())).rejects.toThrow('does not match its content hash');
+  });
+
+  it('opens files for ranged reads', async () => {
+    const driver = getStorageDriver('local');
+    const file = await documentStorageService.save(data, { driver });
+
+    const stored = await documentStorageService.open(file, 'attachment', { driver });
+
+    expect(stored.size).toBe(data.length);
+    expect((await readAll(await stored.createReadStream())).equals(data)).toBe(true);
+    expect((await readAll(await stored.createReadStream({ start: 9, end: 14 }))).toString()).toBe('appeal');
+  });
+
+  it('answers null for files missing from storage', async () => {
+    const file = { filename: 'b'.repeat(64), contentHash: 'b'.repeat(64) };
+
+    expect(await documentStorageService.open(file, 'attachment', { driver: getStorageDriver('s3') })).toBeNull();
+    expect(await documentStorageService.read(file, 'attachment', { driver: getStorageDriver('local') })).toBeNull();
+  });
+});
+
+describe('fileDownloadService', () => {
+  const data = Buffer.from('%PDF-1.4 denial letter from the payer');
+  let file;
+
+  const app = express();
+  app.all('/file', (req, res) => fileDownloadService.send(req, res, { file, kind: 'denial_letter', disposition: 'inline' }));
+
+  beforeAll(async () => {
+    file = {
+      ...await documentStorageService.save(data),
+      originalName: 'Denial letter.pdf',
+      mimeType: 'application/pdf',
+    };
+  });
+
+  it('streams the whole file', async () => {
+    const res = await request(app).get('/file').expect(200);
+
+    expect(res.body.equals(data)).toBe(true);
+    expect(res.headers).toMatchObject({
+      'content-type': 'application/pdf',
+      'content-length': String(data.length),
+      'content-disposition': 'inline; filename="Denial letter.pdf"; filename*=UTF-8\'\'Denial%20letter.pdf',
+      'accept-ranges': 'bytes',
+      'cache-control': 'private, no-store',
+    });
+  });
+
+  it('answers a range with 206', async () => {
+    const res = await request(app).get('/file').set('Range', 'bytes=9-14').expect(206);
+
+    expect(res.body.toString()).toBe('denial');
+    expect(res.headers['content-range']).toBe(`bytes 9-14/${data.length}`);
+  });
+
+  it('answers a suffix range with the end of the file', async () => {
+    const res = await request(app).get('/file').set('Range', 'bytes=-5').expect(206);
+
+    expect(res.body.toString()).toBe('payer');
+  });
+
+  it('answers 416 for a range past the end', async () => {
+    const res = await request(app).get('/file').set('Range', `bytes=${data.length}-`).expect(416);
+
+    expect(res.headers['content-range']).toBe(`bytes */${data.length}`);
+  });
+
+  it('sends only headers for HEAD', async () => {
+    const res = await request(app).head('/file').expect(200);
+
+    expect(res.headers['content-length']).toBe(String(data.length));
+  });
+
+  it('answers 404 when the file is missing from storage', async () => {
+    file = { ...file, filename: 'c'.repeat(64), contentHash: 'c'.repeat(64) };
+
+    await request(app).get('/file').expect(404);
+  });
+});
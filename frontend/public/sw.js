@@ -0,0 +1,30 @@
+// Service worker for web push notifications sent by the API's push channel.
+// Payload: { title, body, url, tag, priority }
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  const urgent = ['critical', 'high'].includes(data.priority);
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Prior Auth Disputes', {
+      body: data.body,
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      requireInteraction: urgent,
+      data: { url: data.url || '/dashboard' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      if (existing) return existing.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -17,10 +17,15 @@ import Dashboard from "./pages/Dashboard";
 import PatientGroupPage from "./pages/PatientGroupPage";
 import PatientDetailsPage from "./pages/PatientDetailsPage";
 import DisputePage from "./pages/DisputePage";
+import PayersPage from "./pages/PayersPage";
+import AuditLogPage from "./pages/AuditLogPage";
+import OrganizationPage from "./pages/OrganizationPage";
+import JoinGroupPage from "./pages/JoinGroupPage";
 
 // Context
 import { AuthProvider, useAuth } from "./context/AuthContext";
 import { PatientGroupProvider } from "./context/PatientGroupContext";
+import { RealtimeProvider } from "./context/RealtimeContext";
 
 // Components
 import ProtectedRoute from "./components/ProtectedRoute";
@@ -72,6 +77,14 @@ function AppContent() {
                 user ? <Navigate to="/dashboard" replace /> : <SignupPage />
               }
             />
+            <Route
+              path="/join/:token"
+              element={
+                <PatientGroupProvider>
+                  <JoinGroupPage />
+                </PatientGroupProvider>
+              }
+            />
             <Route
               path="/dashboard"
               element={
@@ -92,6 +105,16 @@ function AppContent() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/group/:groupId/audit-log"
+              element={
+                <ProtectedRoute>
+                  <PatientGroupProvider>
+                    <AuditLogPage />
+                  </PatientGroupProvider>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/patient/:patientId"
               element={
@@ -112,6 +135,26 @@ function AppContent() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/payers"
+              element={
+                <ProtectedRoute>
+                  <PatientGroupProvider>
+                    <PayersPage />
+                  </PatientGroupProvider>
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/organization"
+              element={
+                <ProtectedRoute>
+                  <PatientGroupProvider>
+                    <OrganizationPage />
+                  </PatientGroupProvider>
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/"
               element={<Navigate to={user ? "/dashboard" : "/login"} replace />}
@@ -130,7 +173,9 @@ function AppContent() {
 function App() {
   return (
     <AuthProvider>
-      <AppContent />
+      <RealtimeProvider>
+        <AppContent />
+      </RealtimeProvider>
     </AuthProvider>
   );
 }
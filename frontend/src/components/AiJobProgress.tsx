@@ -0,0 +1,138 @@
+// components/AiJobProgress.tsx
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Paper, Group, Text, Progress, Button, Badge } from '@mantine/core';
+import { IconX } from '@tabler/icons-react';
+import api from '../utils/api';
+
+export interface AiJob {
+  _id: string;
+  type: 'dispute_analysis' | 'document_generation';
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  dispute: string;
+  payload: {
+    documentType?: string;
+  };
+  progress: {
+    percent: number;
+    message: string;
+  };
+  attempts: number;
+  maxAttempts: number;
+  cancelRequested: boolean;
+  result?: any;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+const POLL_INTERVAL = 2000;
+
+const isActive = (job: AiJob) => job.status === 'queued' || job.status === 'running';
+
+// Tracks the AI jobs for a dispute, resuming any that are still in flight after a page reload
+export const useAiJobs = (disputeId: string | undefined, onJobFinished: (job: AiJob) => void) => {
+  const [jobs, setJobs] = useState<AiJob[]>([]);
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  useEffect(() => {
+    if (!disputeId) return;
+
+    const fetchActiveJobs = async () => {
+      try {
+        const response = await api.get(`/disputes/${disputeId}/jobs`, { params: { active: true } });
+        setJobs(response.data);
+      } catch (error) {
+        console.error('Failed to fetch AI jobs:', error);
+      }
+    };
+
+    fetchActiveJobs();
+  }, [disputeId]);
+
+  // Each poll replaces the jobs array, which schedules the next poll while any job is active
+  useEffect(() => {
+    if (jobs.length === 0) return;
+
+    const timer = setTimeout(async () => {
+      const updates = await Promise.all(
+        jobs.map(async (job) => {
+          try {
+            const response = await api.get(`/jobs/${job._id}`);
+            return response.data as AiJob;
+          } catch (error) {
+            console.error('Failed to fetch job status:', error);
+            return null;
+          }
+        })
+      );
+
+      const finished = updates.filter((job): job is AiJob => !!job && !isActive(job));
+
+      setJobs(prev => prev
+        .map(job => updates.find(update => update?._id === job._id) || job)
+        .filter(isActive)
+      );
+
+      finished.forEach(job => onJobFinishedRef.current(job));
+    }, POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [jobs]);
+
+  const trackJob = useCallback((job: AiJob) => {
+    setJobs(prev => [...prev.filter(existing => existing._id !== job._id), job]);
+  }, []);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    const response = await api.post(`/jobs/${jobId}/cancel`);
+    trackJob(response.data.job);
+  }, [trackJob]);
+
+  return {
+    jobs,
+    analysisJob: jobs.find(job => job.type === 'dispute_analysis'),
+    generationJobs: jobs.filter(job => job.type === 'document_generation'),
+    trackJob,
+    cancelJob,
+  };
+};
+
+interface AiJobProgressProps {
+  job: AiJob;
+  onCancel: (jobId: string) => void;
+}
+
+export const AiJobProgress: React.FC<AiJobProgressProps> = ({ job, onCancel }) => {
+  const title = job.type === 'dispute_analysis'
+    ? 'AI Analysis'
+    : `Generating ${job.payload.documentType?.replace('_', ' ') || 'document'}`;
+
+  return (
+    <Paper p="sm" withBorder>
+      <Group justify="space-between" mb="xs">
+        <Text size="sm" fw={500}>{title}</Text>
+        <Badge size="sm" variant="light" color={job.status === 'running' ? 'blue' : 'gray'}>
+          {job.status}
+        </Badge>
+      </Group>
+      <Progress value={job.progress.percent} animated={job.status === 'running'} mb="xs" />
+      <Group justify="space-between">
+        <Text size="xs" c="dimmed">
+          {job.progress.message}
+          {job.attempts > 1 && ` (attempt ${job.attempts} of ${job.maxAttempts})`}
+        </Text>
+        <Button
+          size="compact-xs"
+          variant="subtle"
+          color="red"
+          leftSection={<IconX size="0.7rem" />}
+          disabled={job.cancelRequested}
+          onClick={() => onCancel(job._id)}
+        >
+          {job.cancelRequested ? 'Cancelling' : 'Cancel'}
+        </Button>
+      </Group>
+    </Paper>
+  );
+};
@@ -26,26 +26,44 @@ import {
   IconMoon,
   IconChevronDown,
   IconAlertTriangle,
+  IconBuildingHospital,
+  IconBuildingCommunity,
 } from '@tabler/icons-react';
 import { useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { notifications } from '@mantine/notifications';
 import { useAuth } from '../context/AuthContext';
+import { useRealtimeEvent } from '../context/RealtimeContext';
 import { useDeadlineAlerts } from '../components/DeadlineAlerts';
+import NotificationSettingsModal from './NotificationSettingsModal';
+import ProfileSettingsModal from './ProfileSettingsModal';
 
 interface AppLayoutProps {
   children: ReactNode;
 }
 
 const AppLayout = ({ children }: AppLayoutProps) => {
-  const { user, logout, updatePreferences } = useAuth();
+  const { user, logout, updatePreferences, addNotification } = useAuth();
   const { colorScheme, toggleColorScheme } = useMantineColorScheme();
   const navigate = useNavigate();
   const location = useLocation();
   const [navbarOpened, setNavbarOpened] = useState(false);
+  const [notificationSettingsOpened, setNotificationSettingsOpened] = useState(false);
+  const [profileSettingsOpened, setProfileSettingsOpened] = useState(false);
   
   // Add deadline alerts hook
   const { hasAlerts, alertCount } = useDeadlineAlerts();
 
+  useRealtimeEvent('notification', (notification) => {
+    addNotification(notification);
+    notifications.show({
+      title: 'New notification',
+      message: notification.message,
+      color: notification.type === 'dispute_deadline_reminder' ? 'orange' : 'blue',
+      onClick: notification.relatedDispute ? () => navigate(`/dispute/${notification.relatedDispute}`) : undefined,
+    });
+  });
+
   const handleThemeChange = async () => {
     const newTheme = colorScheme === 'dark' ? 'light' : 'dark';
     toggleColorScheme();
@@ -56,8 +74,8 @@ const AppLayout = ({ children }: AppLayoutProps) => {
     }
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -81,6 +99,16 @@ const AppLayout = ({ children }: AppLayoutProps) => {
       label: 'All Disputes',
       path: '/disputes',
     },
+    {
+      icon: IconBuildingHospital,
+      label: 'Payers',
+      path: '/payers',
+    },
+    {
+      icon: IconBuildingCommunity,
+      label: 'Organization',
+      path: '/organization',
+    },
     {
       icon: IconSettings,
       label: 'Settings',
@@ -173,10 +201,10 @@ const AppLayout = ({ children }: AppLayoutProps) => {
 
               <Menu.Dropdown>
                 <Menu.Label>Account</Menu.Label>
-                <Menu.Item leftSection={<IconSettings size="0.9rem" />}>
+                <Menu.Item leftSection={<IconSettings size="0.9rem" />} onClick={() => setProfileSettingsOpened(true)}>
                   Profile Settings
                 </Menu.Item>
-                <Menu.Item leftSection={<IconBell size="0.9rem" />}>
+                <Menu.Item leftSection={<IconBell size="0.9rem" />} onClick={() => setNotificationSettingsOpened(true)}>
                   Notifications
                   {unreadNotifications > 0 && (
                     <Badge size="xs" color="red" ml="auto">
@@ -273,6 +301,16 @@ const AppLayout = ({ children }: AppLayoutProps) => {
       <AppShell.Main>
         {children}
       </AppShell.Main>
+
+      <NotificationSettingsModal
+        opened={notificationSettingsOpened}
+        onClose={() => setNotificationSettingsOpened(false)}
+      />
+
+      <ProfileSettingsModal
+        opened={profileSettingsOpened}
+        onClose={() => setProfileSettingsOpened(false)}
+      />
     </AppShell>
   );
 };
@@ -0,0 +1,367 @@
+import { useState, useEffect } from 'react';
+import {
+  Paper,
+  Title,
+  Text,
+  Group,
+  Stack,
+  Checkbox,
+  ActionIcon,
+  Badge,
+  Button,
+  Select,
+  TextInput,
+  NumberInput,
+  Grid,
+  Loader,
+  Table,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import {
+  IconArrowUp,
+  IconArrowDown,
+  IconFileStack,
+  IconDownload,
+} from '@tabler/icons-react';
+import api, { downloadFile } from '../utils/api';
+import type { GeneratedDocument } from './GeneratedDocumentCard';
+import type { PermissionCheck } from '../utils/permissions';
+
+export interface PacketSection {
+  exhibit?: string;
+  title: string;
+  sourceType: string;
+  batesStart: number;
+  batesEnd: number;
+}
+
+export interface DisputeAttachment {
+  _id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+  documentType: string;
+  description?: string;
+  packet?: {
+    batesPrefix: string;
+    batesStart: number;
+    batesEnd: number;
+    pageCount: number;
+    sections: PacketSection[];
+  };
+}
+
+interface PacketSource {
+  sourceType: 'generated_document' | 'denial_letter' | 'patient_document' | 'attachment';
+  sourceId: string;
+  title: string;
+  documentType?: string;
+  mimeType: string;
+  supported: boolean;
+}
+
+interface AppealPacketBuilderProps {
+  disputeId: string;
+  documents: GeneratedDocument[];
+  attachments: DisputeAttachment[];
+  can: PermissionCheck;
+  onAssembled: () => void;
+}
+
+const SOURCE_LABELS: Record<PacketSource['sourceType'], string> = {
+  generated_document: 'Generated',
+  denial_letter: 'Denial',
+  patient_document: 'Patient file',
+  attachment: 'Attachment',
+};
+
+const sourceKey = (source: Pick<PacketSource, 'sourceType' | 'sourceId'>) => `${source.sourceType}:${source.sourceId}`;
+
+// Matches the server's exhibit lettering: A, B, ... Z, AA, AB, ...
+const exhibitLabel = (index: number) => {
+  let label = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+};
+
+const formatBates = (prefix: string, number: number) => `${prefix}${String(number).padStart(6, '0')}`;
+
+export const AppealPacketBuilder = ({ disputeId, documents, attachments, can, onAssembled }: AppealPacketBuilderProps) => {
+  const [sources, setSources] = useState<PacketSource[]>([]);
+  const [loadingSources, setLoadingSources] = useState(true);
+  // Keys of the selected exhibits, in packet order
+  const [selected, setSelected] = useState<string[]>([]);
+  const [letterId, setLetterId] = useState<string | null>(null);
+  const [batesPrefix, setBatesPrefix] = useState('APPEAL');
+  const [batesStart, setBatesStart] = useState<number | string>(1);
+  const [assembling, setAssembling] = useState(false);
+
+  const letters = documents.filter(document => document.type === 'letter');
+  const packets = attachments.filter(attachment => attachment.documentType === 'appeal_packet');
+
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        setLoadingSources(true);
+        const response = await api.get(`/disputes/${disputeId}/packet/sources`);
+        if (response.data.success) {
+          const fetched: PacketSource[] = response.data.sources;
+          setSources(fetched);
+          // Start with the denial letter as the first exhibit
+          setSelected(current => current.length > 0
+            ? current
+            : fetched.filter(source => source.sourceType === 'denial_letter' && source.supported).map(sourceKey));
+        }
+      } catch (error) {
+        console.error('Failed to load packet sources:', error);
+      } finally {
+        setLoadingSources(false);
+      }
+    };
+
+    fetchSources();
+  }, [disputeId, documents.length, attachments.length]);
+
+  // Default to the most recent appeal letter
+  useEffect(() => {
+    if (!letterId && letters.length > 0) {
+      setLetterId(letters[letters.length - 1]._id);
+    }
+  }, [letters.length]);
+
+  const exhibitSources = sources.filter(source => !(source.sourceType === 'generated_document' && source.sourceId === letterId));
+  const orderedSelection = selected.filter(key => exhibitSources.some(source => sourceKey(source) === key));
+
+  const toggleSource = (key: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, key] : current.filter(item => item !== key));
+  };
+
+  const moveSource = (key: string, offset: number) => {
+    setSelected(current => {
+      const index = current.indexOf(key);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleAssemble = async () => {
+    try {
+      setAssembling(true);
+      const items = orderedSelection.map(key => {
+        const [sourceType, sourceId] = key.split(':');
+        return { sourceType, sourceId };
+      });
+
+      const response = await api.post(`/disputes/${disputeId}/packet`, {
+        letterId,
+        items,
+        batesPrefix,
+        batesStart: Number(batesStart) || 1,
+      });
+
+      if (response.data.success) {
+        notifications.show({
+          title: 'Packet Assembled',
+          message: response.data.attachment.description,
+          color: 'green',
+        });
+        onAssembled();
+      }
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to assemble packet',
+        color: 'red',
+      });
+    } finally {
+      setAssembling(false);
+    }
+  };
+
+  const handleDownload = async (attachment: DisputeAttachment) => {
+    try {
+      await downloadFile(`/disputes/${disputeId}/attachments/${attachment._id}`, undefined, attachment.originalName);
+    } catch (error) {
+      console.error('Failed to download attachment:', error);
+      notifications.show({
+        title: 'Download Failed',
+        message: 'Failed to download attachment',
+        color: 'red',
+      });
+    }
+  };
+
+  // Unselected items are listed after the selected ones, in their original order
+  const orderedSources = [
+    ...orderedSelection.map(key => exhibitSources.find(source => sourceKey(source) === key)!),
+    ...exhibitSources.filter(source => !orderedSelection.includes(sourceKey(source))),
+  ];
+
+  return (
+    <Stack>
+      <Paper p="lg" withBorder>
+        <Title order={3} mb="xs">Assemble Appeal Packet</Title>
+        <Text size="sm" c="dimmed" mb="md">
+          Combines the appeal letter and the selected exhibits into one PDF with a cover sheet, table of contents
+          and Bates numbers. The letter lists each exhibit with its page range.
+        </Text>
+
+        <Grid mb="md">
+          <Grid.Col span={{ base: 12, md: 6 }}>
+            <Select
+              label="Appeal Letter"
+              placeholder={letters.length === 0 ? 'Generate an appeal letter first' : 'None'}
+              data={letters.map(letter => ({
+                value: letter._id,
+                label: `Appeal letter v${letter.currentVersion || 1} (${letter.status || 'draft'})`,
+              }))}
+              value={letterId}
+              onChange={setLetterId}
+              clearable
+            />
+          </Grid.Col>
+          <Grid.Col span={{ base: 6, md: 3 }}>
+            <TextInput
+              label="Bates Prefix"
+              value={batesPrefix}
+              onChange={(event) => setBatesPrefix(event.currentTarget.value.toUpperCase())}
+              maxLength={12}
+            />
+          </Grid.Col>
+          <Grid.Col span={{ base: 6, md: 3 }}>
+            <NumberInput
+              label="Starting Number"
+              value={batesStart}
+              onChange={setBatesStart}
+              min={1}
+              max={999999}
+            />
+          </Grid.Col>
+        </Grid>
+
+        <Text fw={500} size="sm" mb="xs">Exhibits</Text>
+        {loadingSources ? (
+          <Loader size="sm" />
+        ) : exhibitSources.length === 0 ? (
+          <Text size="sm" c="dimmed">No documents are available to attach</Text>
+        ) : (
+          <Stack gap="xs">
+            {orderedSources.map(source => {
+              const key = sourceKey(source);
+              const position = orderedSelection.indexOf(key);
+              return (
+                <Group key={key} justify="space-between" wrap="nowrap">
+                  <Group gap="sm" wrap="nowrap">
+                    <Checkbox
+                      checked={position >= 0}
+                      disabled={!source.supported}
+                      onChange={(event) => toggleSource(key, event.currentTarget.checked)}
+                    />
+                    {position >= 0 && (
+                      <Badge variant="filled" size="sm">
+                        {exhibitLabel(position)}
+                      </Badge>
+                    )}
+                    <Text size="sm" c={source.supported ? undefined : 'dimmed'}>
+                      {source.title}
+                    </Text>
+                    <Badge variant="light" color="gray" size="xs">
+                      {SOURCE_LABELS[source.sourceType]}
+                    </Badge>
+                    {!source.supported && (
+                      <Text size="xs" c="dimmed">Unsupported file type</Text>
+                    )}
+                  </Group>
+                  {position >= 0 && (
+                    <Group gap={4} wrap="nowrap">
+                      <ActionIcon
+                        variant="subtle"
+                        size="sm"
+                        disabled={position === 0}
+                        onClick={() => moveSource(key, -1)}
+                        aria-label="Move up"
+                      >
+                        <IconArrowUp size="0.9rem" />
+                      </ActionIcon>
+                      <ActionIcon
+                        variant="subtle"
+                        size="sm"
+                        disabled={position === orderedSelection.length - 1}
+                        onClick={() => moveSource(key, 1)}
+                        aria-label="Move down"
+                      >
+                        <IconArrowDown size="0.9rem" />
+                      </ActionIcon>
+                    </Group>
+                  )}
+                </Group>
+              );
+            })}
+          </Stack>
+        )}
+
+        {can('dispute.update') && (
+          <Group justify="flex-end" mt="lg">
+            <Button
+              leftSection={<IconFileStack size="1rem" />}
+              onClick={handleAssemble}
+              loading={assembling}
+              disabled={!letterId && orderedSelection.length === 0}
+            >
+              Assemble Packet
+            </Button>
+          </Group>
+        )}
+      </Paper>
+
+      {packets.length > 0 && (
+        <Paper p="lg" withBorder>
+          <Title order={4} mb="md">Assembled Packets</Title>
+          <Table>
+            <Table.Thead>
+              <Table.Tr>
+                <Table.Th>Created</Table.Th>
+                <Table.Th>Pages</Table.Th>
+                <Table.Th>Bates Range</Table.Th>
+                <Table.Th>Exhibits</Table.Th>
+                <Table.Th />
+              </Table.Tr>
+            </Table.Thead>
+            <Table.Tbody>
+              {[...packets].reverse().map(packet => (
+                <Table.Tr key={packet._id}>
+                  <Table.Td>{new Date(packet.uploadedAt).toLocaleString()}</Table.Td>
+                  <Table.Td>{packet.packet?.pageCount}</Table.Td>
+                  <Table.Td>
+                    {packet.packet && `${formatBates(packet.packet.batesPrefix, packet.packet.batesStart)} - ${formatBates(packet.packet.batesPrefix, packet.packet.batesEnd)}`}
+                  </Table.Td>
+                  <Table.Td>
+                    {packet.packet?.sections.filter(section => section.exhibit).length || 0}
+                  </Table.Td>
+                  <Table.Td>
+                    {can('patient.export') && (
+                      <Button
+                        size="xs"
+                        variant="light"
+                        leftSection={<IconDownload size="0.8rem" />}
+                        onClick={() => handleDownload(packet)}
+                      >
+                        Download
+                      </Button>
+                    )}
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Paper>
+      )}
+    </Stack>
+  );
+};
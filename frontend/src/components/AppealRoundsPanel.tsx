@@ -0,0 +1,391 @@
+import { useState, useEffect } from 'react';
+import {
+  Paper,
+  Title,
+  Text,
+  Group,
+  Stack,
+  Badge,
+  Button,
+  Timeline,
+  Alert,
+  Modal,
+  Select,
+  TextInput,
+  Textarea,
+} from '@mantine/core';
+import { DateInput, DateTimePicker } from '@mantine/dates';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import {
+  IconGavel,
+  IconPhoneCall,
+  IconSend,
+  IconArrowUpRight,
+  IconScale,
+} from '@tabler/icons-react';
+import api from '../utils/api';
+import type { GeneratedDocument } from './GeneratedDocumentCard';
+import type { PermissionCheck } from '../utils/permissions';
+
+type Outcome = 'approved' | 'denied' | 'partial_approval' | 'withdrawn';
+
+export interface AppealRound {
+  _id: string;
+  number: number;
+  type: 'internal_appeal' | 'external_review' | 'peer_to_peer';
+  level?: number;
+  name: string;
+  status: string;
+  noticeDate?: string;
+  filingDeadline?: string;
+  deadlineSource?: 'default' | 'payer' | 'manual';
+  decisionDueDate?: string;
+  scheduledAt?: string;
+  submission?: {
+    submittedAt?: string;
+    channel?: string;
+    confirmationNumber?: string;
+    notes?: string;
+  };
+  outcome?: {
+    result?: Outcome;
+    decisionDate?: string;
+    receivedDate?: string;
+    notes?: string;
+  };
+  startedAt: string;
+}
+
+// The round offered after a loss, with its filing deadline already worked out
+interface NextRoundOffer {
+  type: AppealRound['type'];
+  level?: number;
+  name: string;
+  filingDeadline: string;
+  deadlineSource: 'default' | 'payer';
+}
+
+interface AppealRoundsPanelProps {
+  disputeId: string;
+  rounds: AppealRound[];
+  documents: GeneratedDocument[];
+  can: PermissionCheck;
+  onChanged: () => void;
+}
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  approved: 'Approved',
+  denied: 'Denied',
+  partial_approval: 'Partially approved',
+  withdrawn: 'Withdrawn',
+};
+
+const OUTCOME_COLORS: Record<Outcome, string> = {
+  approved: 'green',
+  denied: 'red',
+  partial_approval: 'yellow',
+  withdrawn: 'gray',
+};
+
+const CHANNEL_OPTIONS = [
+  { value: 'fax', label: 'Fax' },
+  { value: 'portal', label: 'Payer portal' },
+  { value: 'mail', label: 'Mail' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'email', label: 'Email' },
+];
+
+const ROUND_ICONS = {
+  internal_appeal: <IconGavel size="0.8rem" />,
+  external_review: <IconScale size="0.8rem" />,
+  peer_to_peer: <IconPhoneCall size="0.8rem" />,
+};
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : '—');
+
+const errorMessage = (error: any, fallback: string) =>
+  error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || fallback;
+
+export const AppealRoundsPanel = ({ disputeId, rounds, documents, can, onChanged }: AppealRoundsPanelProps) => {
+  const [nextRound, setNextRound] = useState<NextRoundOffer | null>(null);
+  const [activeRound, setActiveRound] = useState<AppealRound | null>(null);
+  const [dialog, setDialog] = useState<'submission' | 'outcome' | 'peer_to_peer' | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const formalRounds = rounds.filter(round => round.type !== 'peer_to_peer');
+  const currentRound = formalRounds[formalRounds.length - 1];
+  const currentResult = currentRound?.outcome?.result;
+
+  const submissionForm = useForm({
+    initialValues: {
+      submittedAt: new Date() as Date | null,
+      channel: 'fax',
+      confirmationNumber: '',
+      notes: '',
+    },
+  });
+
+  const outcomeForm = useForm({
+    initialValues: {
+      result: 'denied' as Outcome,
+      decisionDate: new Date() as Date | null,
+      receivedDate: null as Date | null,
+      notes: '',
+    },
+    validate: {
+      decisionDate: (value) => (value ? null : 'Decision date is required'),
+    },
+  });
+
+  const peerToPeerForm = useForm({
+    initialValues: {
+      scheduledAt: null as Date | null,
+    },
+  });
+
+  // Only a lost round has a next round to offer
+  useEffect(() => {
+    if (currentResult !== 'denied' && currentResult !== 'partial_approval') {
+      setNextRound(null);
+      return;
+    }
+
+    api.get(`/disputes/${disputeId}/rounds/next`)
+      .then(response => setNextRound(response.data.nextRound))
+      .catch(() => setNextRound(null));
+  }, [disputeId, currentRound?._id, currentResult]);
+
+  const openDialog = (type: 'submission' | 'outcome' | 'peer_to_peer', round: AppealRound | null) => {
+    setActiveRound(round);
+    submissionForm.reset();
+    outcomeForm.reset();
+    peerToPeerForm.reset();
+    setDialog(type);
+  };
+
+  const closeDialog = () => {
+    setDialog(null);
+    setActiveRound(null);
+  };
+
+  const run = async (request: () => Promise<unknown>, success: string, failure: string) => {
+    try {
+      setSaving(true);
+      await request();
+      notifications.show({ title: 'Appeal Rounds', message: success, color: 'green' });
+      closeDialog();
+      onChanged();
+    } catch (error: any) {
+      notifications.show({ title: 'Error', message: errorMessage(error, failure), color: 'red' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmission = (values: typeof submissionForm.values) => run(
+    () => api.put(`/disputes/${disputeId}/rounds/${activeRound!._id}/submission`, {
+      ...values,
+      submittedAt: values.submittedAt?.toISOString(),
+    }),
+    `${activeRound!.name} marked as submitted`,
+    'Failed to record submission'
+  );
+
+  const handleOutcome = (values: typeof outcomeForm.values) => run(
+    () => api.put(`/disputes/${disputeId}/rounds/${activeRound!._id}/outcome`, {
+      ...values,
+      decisionDate: values.decisionDate?.toISOString(),
+      receivedDate: values.receivedDate?.toISOString() || null,
+    }),
+    `Decision recorded for ${activeRound!.name}`,
+    'Failed to record decision'
+  );
+
+  const handlePeerToPeer = (values: typeof peerToPeerForm.values) => run(
+    () => api.post(`/disputes/${disputeId}/rounds`, {
+      type: 'peer_to_peer',
+      scheduledAt: values.scheduledAt?.toISOString() || null,
+    }),
+    'Peer-to-peer review added',
+    'Failed to add peer-to-peer review'
+  );
+
+  const handleStartNextRound = () => run(
+    () => api.post(`/disputes/${disputeId}/rounds`),
+    `${nextRound!.name} started`,
+    'Failed to start the next round'
+  );
+
+  // Rounds that can still be submitted or decided: the current round and peer-to-peer calls since it started
+  const isOpen = (round: AppealRound) => !round.outcome?.result && round.number >= (currentRound?.number ?? 0);
+
+  return (
+    <Paper p="lg" withBorder>
+      <Group justify="space-between" mb="md">
+        <Title order={3}>Appeal Rounds</Title>
+        {currentRound && isOpen(currentRound) && can('dispute.update') && (
+          <Button
+            size="xs"
+            variant="light"
+            leftSection={<IconPhoneCall size="0.9rem" />}
+            onClick={() => openDialog('peer_to_peer', null)}
+          >
+            Add Peer-to-Peer
+          </Button>
+        )}
+      </Group>
+
+      <Timeline active={rounds.length - 1} bulletSize={24} lineWidth={2}>
+        {rounds.map(round => {
+          const roundDocuments = documents.filter(document => (document.appealRound ?? 1) === round.number);
+          const result = round.outcome?.result;
+
+          return (
+            <Timeline.Item
+              key={round._id}
+              bullet={ROUND_ICONS[round.type]}
+              title={
+                <Group gap="xs">
+                  <Text fw={500}>{round.number}. {round.name}</Text>
+                  {result ? (
+                    <Badge size="sm" color={OUTCOME_COLORS[result]}>{OUTCOME_LABELS[result]}</Badge>
+                  ) : (
+                    <Badge size="sm" variant="light">{round.status.replace(/_/g, ' ')}</Badge>
+                  )}
+                </Group>
+              }
+            >
+              <Stack gap={2} mt={4}>
+                {round.type === 'peer_to_peer' ? (
+                  <Text size="sm" c="dimmed">
+                    {round.scheduledAt ? `Call scheduled ${new Date(round.scheduledAt).toLocaleString()}` : 'Call not yet scheduled'}
+                  </Text>
+                ) : (
+                  <Text size="sm" c="dimmed">
+                    File by {formatDate(round.filingDeadline)}
+                    {round.deadlineSource === 'manual' && ' (set manually)'}
+                    {round.decisionDueDate && ` · decision due ${formatDate(round.decisionDueDate)}`}
+                  </Text>
+                )}
+                {round.submission?.submittedAt && (
+                  <Text size="sm">
+                    Submitted {formatDate(round.submission.submittedAt)}
+                    {round.submission.channel && ` by ${round.submission.channel}`}
+                    {round.submission.confirmationNumber && ` · confirmation ${round.submission.confirmationNumber}`}
+                  </Text>
+                )}
+                {result && (
+                  <Text size="sm">
+                    Decided {formatDate(round.outcome?.decisionDate)}
+                    {round.outcome?.notes && ` - ${round.outcome.notes}`}
+                  </Text>
+                )}
+                {round.type !== 'peer_to_peer' && (
+                  <Text size="xs" c="dimmed">
+                    {roundDocuments.length === 0
+                      ? 'No documents generated for this round'
+                      : `Documents: ${roundDocuments.map(document => document.type.replace(/_/g, ' ')).join(', ')}`}
+                  </Text>
+                )}
+
+                {isOpen(round) && (can('dispute.submit') || can('dispute.update')) && (
+                  <Group gap="xs" mt="xs">
+                    {!round.submission?.submittedAt && can('dispute.submit') && (
+                      <Button size="xs" variant="default" leftSection={<IconSend size="0.8rem" />} onClick={() => openDialog('submission', round)}>
+                        {round.type === 'peer_to_peer' ? 'Mark Call Held' : 'Record Submission'}
+                      </Button>
+                    )}
+                    {can('dispute.update') && (
+                      <Button size="xs" variant="default" leftSection={<IconGavel size="0.8rem" />} onClick={() => openDialog('outcome', round)}>
+                        Record Decision
+                      </Button>
+                    )}
+                  </Group>
+                )}
+              </Stack>
+            </Timeline.Item>
+          );
+        })}
+      </Timeline>
+
+      {nextRound && (
+        <Alert mt="lg" color="orange" icon={<IconArrowUpRight size="1rem" />} title={`Next: ${nextRound.name}`}>
+          <Stack gap="xs">
+            <Text size="sm">
+              {currentRound?.name} was {currentResult === 'partial_approval' ? 'only partly approved' : 'denied'}.
+              The {nextRound.name.toLowerCase()} must be filed by {formatDate(nextRound.filingDeadline)}
+              {nextRound.deadlineSource === 'default' && ' (default window - check the decision letter)'}.
+            </Text>
+            {can('dispute.update') && (
+              <Group>
+                <Button size="xs" color="orange" loading={saving && dialog === null} onClick={handleStartNextRound}>
+                  Start {nextRound.name}
+                </Button>
+              </Group>
+            )}
+          </Stack>
+        </Alert>
+      )}
+
+      <Modal opened={dialog === 'submission'} onClose={closeDialog} title={`Submit ${activeRound?.name || ''}`} centered>
+        <form onSubmit={submissionForm.onSubmit(handleSubmission)}>
+          <Stack>
+            <DateInput label="Submitted on" maxDate={new Date()} {...submissionForm.getInputProps('submittedAt')} />
+            {activeRound?.type !== 'peer_to_peer' && (
+              <>
+                <Select label="Sent by" data={CHANNEL_OPTIONS} allowDeselect={false} {...submissionForm.getInputProps('channel')} />
+                <TextInput label="Confirmation number" placeholder="Fax confirmation or portal reference" {...submissionForm.getInputProps('confirmationNumber')} />
+              </>
+            )}
+            <Textarea label="Notes" autosize minRows={2} {...submissionForm.getInputProps('notes')} />
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={closeDialog}>Cancel</Button>
+              <Button type="submit" loading={saving}>Save</Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+
+      <Modal opened={dialog === 'outcome'} onClose={closeDialog} title={`Decision on ${activeRound?.name || ''}`} centered>
+        <form onSubmit={outcomeForm.onSubmit(handleOutcome)}>
+          <Stack>
+            <Select
+              label="Result"
+              data={Object.entries(OUTCOME_LABELS).map(([value, label]) => ({ value, label }))}
+              allowDeselect={false}
+              {...outcomeForm.getInputProps('result')}
+            />
+            <Group grow>
+              <DateInput label="Decision date" maxDate={new Date()} required {...outcomeForm.getInputProps('decisionDate')} />
+              <DateInput label="Letter received" maxDate={new Date()} clearable {...outcomeForm.getInputProps('receivedDate')} />
+            </Group>
+            <Textarea label="Notes" placeholder="Reason given by the payer" autosize minRows={2} {...outcomeForm.getInputProps('notes')} />
+            {activeRound?.type === 'peer_to_peer' && (
+              <Text size="xs" c="dimmed">Only an approval changes the dispute; otherwise the appeal round carries on.</Text>
+            )}
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={closeDialog}>Cancel</Button>
+              <Button type="submit" loading={saving}>Save Decision</Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+
+      <Modal opened={dialog === 'peer_to_peer'} onClose={closeDialog} title="Add Peer-to-Peer Review" centered>
+        <form onSubmit={peerToPeerForm.onSubmit(handlePeerToPeer)}>
+          <Stack>
+            <Text size="sm" c="dimmed">
+              A call between the ordering physician and the payer's medical reviewer during the {currentRound?.name.toLowerCase()}.
+            </Text>
+            <DateTimePicker label="Scheduled for" placeholder="Not yet scheduled" clearable {...peerToPeerForm.getInputProps('scheduledAt')} />
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={closeDialog}>Cancel</Button>
+              <Button type="submit" loading={saving}>Add</Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+    </Paper>
+  );
+};
@@ -14,6 +14,7 @@ import {
   Paper,
   Alert,
   Loader,
+  Badge,
 } from '@mantine/core';
 import { useForm } from '@mantine/form';
 import { DateInput } from '@mantine/dates';
@@ -25,9 +26,11 @@ import {
   IconCalendar,
   IconStethoscope,
   IconCheck,
+  IconFileSearch,
 } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import api from '../utils/api';
+import { PayerSelect, usePayers } from './PayerSelect';
 
 interface CreateDisputeModalProps {
   opened: boolean;
@@ -39,6 +42,10 @@ interface CreateDisputeModalProps {
     patientGroup: {
       _id: string;
     };
+    insuranceInfo?: {
+      provider: string;
+      payer?: string;
+    };
   };
   onSuccess?: () => void;
 }
@@ -51,13 +58,45 @@ interface DisputeFormData {
   urgency: string;
   clinicalJustification: string;
   denialDate: Date | null;
+  receivedDate: Date | null;
   denialReason: string;
   denialCode: string;
   denialType: string;
   insuranceReviewer: string;
+  payerId: string;
   denialDocument: File | null;
 }
 
+interface ParsedField {
+  value: string;
+  confidence: number;
+  source: {
+    text: string;
+    start: number;
+    end: number;
+  } | null;
+}
+
+interface ParsedDenialLetter {
+  requestDetails: {
+    requestedService: ParsedField | null;
+    serviceCode: ParsedField | null;
+    diagnosisCode: ParsedField | null;
+    requestedDate: ParsedField | null;
+  };
+  denial: {
+    denialDate: ParsedField | null;
+    denialReason: ParsedField | null;
+    denialCode: ParsedField | null;
+    insuranceReviewer: ParsedField | null;
+    denialType: ParsedField | null;
+  };
+}
+
+type ParsedFieldName = keyof ParsedDenialLetter['requestDetails'] | keyof ParsedDenialLetter['denial'];
+
+const DATE_FIELDS: ParsedFieldName[] = ['requestedDate', 'denialDate'];
+
 interface CodeValidationResult {
   cptValidation?: {
     status: 'passed' | 'failed' | 'warning';
@@ -79,6 +118,13 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
   const [codeValidation, setCodeValidation] = useState<CodeValidationResult>({});
   const [validatingCodes, setValidatingCodes] = useState(false);
 
+  // Denial letter parsing state
+  const [parsingLetter, setParsingLetter] = useState(false);
+  const [parsedFields, setParsedFields] = useState<Partial<Record<ParsedFieldName, ParsedField>>>({});
+  const [confirmedFields, setConfirmedFields] = useState<ParsedFieldName[]>([]);
+
+  const { payers } = usePayers();
+
   const form = useForm<DisputeFormData>({
     initialValues: {
       requestedService: '',
@@ -88,10 +134,12 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
       urgency: 'routine',
       clinicalJustification: '',
       denialDate: null,
+      receivedDate: null,
       denialReason: '',
       denialCode: '',
       denialType: 'other',
       insuranceReviewer: '',
+      payerId: '',
       denialDocument: null,
     },
     validate: {
@@ -100,9 +148,163 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
       clinicalJustification: (value) => (value.trim().length < 10 ? 'Clinical justification must be at least 10 characters' : null),
       denialDate: (value) => (!value ? 'Denial date is required' : null),
       denialReason: (value) => (value.trim().length < 5 ? 'Denial reason must be at least 5 characters' : null),
+      receivedDate: (value, values) => (
+        value && values.denialDate && value < values.denialDate ? 'Cannot be before the denial date' : null
+      ),
     },
   });
 
+  // Default to the patient's payer profile, or one matching their insurance provider
+  useEffect(() => {
+    if (!opened || form.values.payerId) return;
+
+    if (patient.insuranceInfo?.payer) {
+      form.setFieldValue('payerId', patient.insuranceInfo.payer);
+      return;
+    }
+    if (!patient.insuranceInfo?.provider) return;
+
+    api.get('/payers/match', { params: { provider: patient.insuranceInfo.provider } })
+      .then(response => {
+        if (response.data.payer) {
+          form.setFieldValue('payerId', response.data.payer._id);
+        }
+      })
+      .catch(error => console.error('Failed to match payer:', error));
+  }, [opened, patient.insuranceInfo?.payer, patient.insuranceInfo?.provider]);
+
+  const toDateString = (value: Date | null) => {
+    if (!value) return '';
+    const date = new Date(value);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  };
+
+  // A parsed field counts as corrected once the user changes the pre-filled value
+  const isFieldCorrected = (name: ParsedFieldName) => {
+    const parsed = parsedFields[name];
+    if (!parsed) return false;
+
+    const currentValue = form.values[name];
+    if (DATE_FIELDS.includes(name)) {
+      return toDateString(currentValue as Date | null) !== parsed.value;
+    }
+    return currentValue !== parsed.value;
+  };
+
+  const unconfirmedFields = (Object.keys(parsedFields) as ParsedFieldName[]).filter(
+    name => !confirmedFields.includes(name) && !isFieldCorrected(name)
+  );
+
+  const confirmField = (name: ParsedFieldName) => {
+    setConfirmedFields(current => current.includes(name) ? current : [...current, name]);
+  };
+
+  const resetParsedLetter = () => {
+    setParsedFields({});
+    setConfirmedFields([]);
+  };
+
+  // Upload the denial letter and pre-fill the form with the fields found in it
+  const handleParseLetter = async (file: File | null) => {
+    form.setFieldValue('denialDocument', file);
+    resetParsedLetter();
+    if (!file) return;
+
+    try {
+      setParsingLetter(true);
+      const formData = new FormData();
+      formData.append('denialDocument', file);
+
+      const response = await api.post('/disputes/parse-denial-letter', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+
+      if (response.data.success) {
+        const parsed: ParsedDenialLetter = response.data.fields;
+        const found: Partial<Record<ParsedFieldName, ParsedField>> = {};
+
+        [parsed.requestDetails, parsed.denial].forEach(section => {
+          (Object.entries(section) as Array<[ParsedFieldName, ParsedField | null]>).forEach(([name, field]) => {
+            if (field && field.source) {
+              found[name] = field;
+            }
+          });
+        });
+
+        const values: Partial<DisputeFormData> = {};
+        (Object.entries(found) as Array<[ParsedFieldName, ParsedField]>).forEach(([name, field]) => {
+          if (DATE_FIELDS.includes(name)) {
+            (values as Record<string, unknown>)[name] = new Date(`${field.value}T00:00:00`);
+          } else {
+            (values as Record<string, unknown>)[name] = field.value;
+          }
+        });
+
+        form.setValues(values);
+        setParsedFields(found);
+
+        notifications.show({
+          title: 'Denial Letter Read',
+          message: `Pre-filled ${Object.keys(found).length} fields. Please confirm or correct each one.`,
+          color: 'blue',
+        });
+      }
+    } catch (error: any) {
+      notifications.show({
+        title: 'Could Not Read Letter',
+        message: error.response?.data?.message || 'Failed to parse denial letter. Please enter the details manually.',
+        color: 'orange',
+      });
+    } finally {
+      setParsingLetter(false);
+    }
+  };
+
+  // Shows where a pre-filled value came from and lets the user confirm it
+  const ParsedFieldHint = ({ name }: { name: ParsedFieldName }) => {
+    const parsed = parsedFields[name];
+    if (!parsed) return null;
+
+    if (isFieldCorrected(name)) {
+      return (
+        <Text size="xs" c="blue" mt={4}>
+          Corrected (letter said: {parsed.value})
+        </Text>
+      );
+    }
+
+    if (confirmedFields.includes(name)) {
+      return (
+        <Group gap={4} mt={4}>
+          <IconCheck size="0.8rem" color="green" />
+          <Text size="xs" c="green">Confirmed from denial letter</Text>
+        </Group>
+      );
+    }
+
+    return (
+      <Group justify="space-between" wrap="nowrap" mt={4}>
+        <Group gap="xs" wrap="nowrap" style={{ minWidth: 0 }}>
+          <Badge
+            size="xs"
+            variant="light"
+            color={parsed.confidence >= 80 ? 'green' : parsed.confidence >= 50 ? 'yellow' : 'red'}
+          >
+            {parsed.confidence}%
+          </Badge>
+          <Text size="xs" c="dimmed" fs="italic" truncate>
+            "{parsed.source?.text}"
+          </Text>
+        </Group>
+        <Button size="compact-xs" variant="light" onClick={() => confirmField(name)}>
+          Confirm
+        </Button>
+      </Group>
+    );
+  };
+
   // Add code validation function
   const validateCodes = async (cptCode?: string, icdCode?: string) => {
     if (!cptCode && !icdCode) return;
@@ -184,12 +386,11 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
       // Create FormData for file upload
       const formData = new FormData();
       
-      // Calculate response deadline (30 days from denial date for standard appeals)
-      const denialDate = new Date(values.denialDate!);
-      const responseDeadline = new Date(denialDate.getTime() + (30 * 24 * 60 * 60 * 1000));
-      
-      // Add dispute data
+      // Add dispute data; the server sets the response deadline from the payer's filing window
       formData.append('patientId', patient._id);
+      if (values.payerId) {
+        formData.append('payerId', values.payerId);
+      }
       formData.append('requestDetails', JSON.stringify({
         requestedService: values.requestedService.trim(),
         serviceCode: values.serviceCode.trim(),
@@ -201,17 +402,13 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
       
       formData.append('denial', JSON.stringify({
         denialDate: values.denialDate,
+        receivedDate: values.receivedDate || undefined,
         denialReason: values.denialReason.trim(),
         denialCode: values.denialCode.trim(),
         denialType: values.denialType,
         insuranceReviewer: values.insuranceReviewer.trim(),
       }));
 
-      // Add calculated deadline
-      formData.append('deadlines', JSON.stringify({
-        responseDeadline: responseDeadline.toISOString(),
-      }));
-
       // Add denial document if provided
       if (values.denialDocument) {
         formData.append('denialDocument', values.denialDocument);
@@ -224,6 +421,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
       });
 
       if (response.data.success) {
+        const responseDeadline = new Date(response.data.dispute.deadlines.responseDeadline);
         notifications.show({
           title: 'Success',
           message: `Prior authorization dispute created successfully. Response deadline: ${responseDeadline.toLocaleDateString()}`,
@@ -233,6 +431,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
         form.reset();
         setActiveStep(0);
         setCodeValidation({});
+        resetParsedLetter();
         onSuccess?.();
       }
     } catch (error: any) {
@@ -250,6 +449,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
     form.reset();
     setActiveStep(0);
     setCodeValidation({});
+    resetParsedLetter();
     onClose();
   };
 
@@ -294,6 +494,21 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
             icon={<IconStethoscope size="1rem" />}
           >
             <Stack mt="md">
+              <Paper p="sm" withBorder>
+                <FileInput
+                  label="Start from the denial letter (optional)"
+                  description="We'll read the letter and pre-fill the form for you to confirm"
+                  placeholder="Select the denial letter file"
+                  accept=".pdf,.docx,.txt,.jpg,.jpeg,.png"
+                  leftSection={<IconFileSearch size="1rem" />}
+                  rightSection={parsingLetter ? <Loader size="xs" /> : null}
+                  disabled={parsingLetter}
+                  value={form.values.denialDocument}
+                  onChange={handleParseLetter}
+                  clearable
+                />
+              </Paper>
+
               <Alert color="blue" icon={<IconAlertCircle size="1rem" />}>
                 Enter details about the original prior authorization request that was denied.
               </Alert>
@@ -304,6 +519,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 required
                 {...form.getInputProps('requestedService')}
               />
+              <ParsedFieldHint name="requestedService" />
               
               <Grid>
                 <Grid.Col span={6}>
@@ -314,6 +530,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                       rightSection={validatingCodes ? <Loader size="xs" /> : null}
                       {...form.getInputProps('serviceCode')}
                     />
+                    <ParsedFieldHint name="serviceCode" />
                     <ValidationIndicator validation={codeValidation.cptValidation} type="cpt" />
                   </div>
                 </Grid.Col>
@@ -325,6 +542,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                       rightSection={validatingCodes ? <Loader size="xs" /> : null}
                       {...form.getInputProps('diagnosisCode')}
                     />
+                    <ParsedFieldHint name="diagnosisCode" />
                     <ValidationIndicator validation={codeValidation.icdValidation} type="icd" />
                   </div>
                 </Grid.Col>
@@ -340,6 +558,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                     maxDate={new Date()}
                     {...form.getInputProps('requestedDate')}
                   />
+                  <ParsedFieldHint name="requestedDate" />
                 </Grid.Col>
                 <Grid.Col span={6}>
                   <Select
@@ -391,8 +610,17 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 Enter details from the denial letter or notification you received.
               </Alert>
 
+              <PayerSelect
+                label="Payer"
+                description="The payer's filing window sets the response deadline"
+                placeholder="No payer profile (30-day default)"
+                payers={payers}
+                value={form.values.payerId || null}
+                onChange={(payer) => form.setFieldValue('payerId', payer?._id || '')}
+              />
+
               <Grid>
-                <Grid.Col span={6}>
+                <Grid.Col span={4}>
                   <DateInput
                     label="Denial Date"
                     placeholder="When was this denied?"
@@ -401,13 +629,25 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                     maxDate={new Date()}
                     {...form.getInputProps('denialDate')}
                   />
+                  <ParsedFieldHint name="denialDate" />
                 </Grid.Col>
-                <Grid.Col span={6}>
+                <Grid.Col span={4}>
+                  <DateInput
+                    label="Date Received"
+                    placeholder="If later than the denial date"
+                    clearable
+                    leftSection={<IconCalendar size="1rem" />}
+                    maxDate={new Date()}
+                    {...form.getInputProps('receivedDate')}
+                  />
+                </Grid.Col>
+                <Grid.Col span={4}>
                   <TextInput
                     label="Denial Code"
                     placeholder="e.g., D001, if provided"
                     {...form.getInputProps('denialCode')}
                   />
+                  <ParsedFieldHint name="denialCode" />
                 </Grid.Col>
               </Grid>
 
@@ -422,6 +662,7 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 ]}
                 {...form.getInputProps('denialType')}
               />
+              <ParsedFieldHint name="denialType" />
 
               <Textarea
                 label="Denial Reason"
@@ -430,12 +671,14 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 rows={4}
                 {...form.getInputProps('denialReason')}
               />
+              <ParsedFieldHint name="denialReason" />
 
               <TextInput
                 label="Insurance Reviewer (Optional)"
                 placeholder="Name of the reviewing physician/staff"
                 {...form.getInputProps('insuranceReviewer')}
               />
+              <ParsedFieldHint name="insuranceReviewer" />
             </Stack>
           </Stepper.Step>
 
@@ -466,6 +709,12 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 </Paper>
               )}
 
+              {unconfirmedFields.length > 0 && (
+                <Alert color="orange" icon={<IconAlertCircle size="1rem" />}>
+                  {unconfirmedFields.length} field(s) pre-filled from the denial letter still need to be confirmed or corrected.
+                </Alert>
+              )}
+
               <Text size="sm" c="dimmed">
                 <strong>Tip:</strong> Uploading the denial letter will allow our AI to analyze the denial 
                 and identify the best opportunities for a successful dispute.
@@ -505,7 +754,11 @@ const CreateDisputeModal = ({ opened, onClose, patient, onSuccess }: CreateDispu
                 type="submit"
                 loading={loading}
                 leftSection={<IconFileText size="1rem" />}
-                disabled={codeValidation.cptValidation?.status === 'failed' || codeValidation.icdValidation?.status === 'failed'}
+                disabled={
+                  codeValidation.cptValidation?.status === 'failed' ||
+                  codeValidation.icdValidation?.status === 'failed' ||
+                  unconfirmedFields.length > 0
+                }
               >
                 Create Dispute
               </Button>
@@ -31,11 +31,13 @@ import { useForm } from '@mantine/form';
 import { notifications } from '@mantine/notifications';
 import { useNavigate } from 'react-router-dom';
 import api from '../utils/api';
+import { useRealtime, useRealtimeEvent } from '../context/RealtimeContext';
 
 interface DeadlineFlag {
   _id: string;
   type: 'warning' | 'urgent' | 'overdue';
   daysRemaining: number;
+  dayType?: 'calendar' | 'business';
   flaggedAt: string;
   resolved: boolean;
 }
@@ -58,11 +60,15 @@ interface DeadlineSummary {
     service: string;
     deadline: string;
     daysRemaining: number;
+    dayType?: 'calendar' | 'business';
     category: 'overdue' | 'urgent' | 'warning';
     status: string;
   }>;
 }
 
+// Thresholds and day counting come from each patient group's deadline settings
+const formatDays = (days: number, dayType?: string) => `${days} ${dayType === 'business' ? 'business ' : ''}day${days === 1 ? '' : 's'}`;
+
 interface DeadlineAlertsProps {
   disputeId?: string;
   showSummary?: boolean;
@@ -95,6 +101,17 @@ export const DeadlineAlerts: React.FC<DeadlineAlertsProps> = ({
     }
   }, [disputeId, showSummary]);
 
+  // New flags and status changes can add or clear alerts
+  const handleDisputeEvent = ({ disputeId: changedId }: { disputeId: string }) => {
+    if (disputeId) {
+      if (changedId === disputeId) fetchDeadlines();
+    } else if (showSummary) {
+      fetchDeadlineSummary();
+    }
+  };
+  useRealtimeEvent('dispute:deadline_flag', handleDisputeEvent);
+  useRealtimeEvent('dispute:status', handleDisputeEvent);
+
   const fetchDeadlines = async () => {
     if (!disputeId) return;
     
@@ -195,11 +212,11 @@ export const DeadlineAlerts: React.FC<DeadlineAlertsProps> = ({
   const getFlagMessage = (flag: DeadlineFlag) => {
     switch (flag.type) {
       case 'overdue':
-        return `Response deadline passed ${flag.daysRemaining} days ago`;
+        return `Response deadline passed ${formatDays(flag.daysRemaining, flag.dayType)} ago`;
       case 'urgent':
-        return `Response deadline in ${flag.daysRemaining} days - Urgent action needed`;
+        return `Response deadline in ${formatDays(flag.daysRemaining, flag.dayType)} - Urgent action needed`;
       case 'warning':
-        return `Response deadline in ${flag.daysRemaining} days`;
+        return `Response deadline in ${formatDays(flag.daysRemaining, flag.dayType)}`;
       default:
         return `Deadline reminder`;
     }
@@ -232,14 +249,14 @@ export const DeadlineAlerts: React.FC<DeadlineAlertsProps> = ({
 
               {summary.urgent > 0 && (
                 <Alert color="orange" icon={<IconAlertTriangle size="1rem" />}>
-                  <Text fw={500}>{summary.urgent} Urgent Deadlines (≤3 days)</Text>
+                  <Text fw={500}>{summary.urgent} Urgent Deadlines</Text>
                   <Text size="sm">Priority attention needed</Text>
                 </Alert>
               )}
 
               {summary.warning > 0 && (
                 <Alert color="yellow" icon={<IconClock size="1rem" />}>
-                  <Text fw={500}>{summary.warning} Upcoming Deadlines (≤7 days)</Text>
+                  <Text fw={500}>{summary.warning} Upcoming Deadlines</Text>
                   <Text size="sm">Plan submission soon</Text>
                 </Alert>
               )}
@@ -265,7 +282,7 @@ export const DeadlineAlerts: React.FC<DeadlineAlertsProps> = ({
                     </div>
                     <Group>
                       <Badge size="xs" color={getFlagColor(detail.category)}>
-                        {detail.category === 'overdue' ? 'OVERDUE' : `${detail.daysRemaining}d`}
+                        {detail.category === 'overdue' ? 'OVERDUE' : `${detail.daysRemaining}${detail.dayType === 'business' ? 'bd' : 'd'}`}
                       </Badge>
                       <ActionIcon size="sm" variant="subtle">
                         <IconExternalLink size="0.8rem" />
@@ -419,13 +436,21 @@ export const useDeadlineAlerts = () => {
     }
   };
 
+  const { connected } = useRealtime();
+
   useEffect(() => {
     fetchSummary();
-    
-    // Refresh every 5 minutes
+  }, []);
+
+  // Deadline flags and status changes arrive over the realtime channel; poll only while it is down
+  useEffect(() => {
+    if (connected) return;
     const interval = setInterval(fetchSummary, 5 * 60 * 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [connected]);
+
+  useRealtimeEvent('dispute:deadline_flag', () => fetchSummary());
+  useRealtimeEvent('dispute:status', () => fetchSummary());
 
   return {
     summary,
@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  TextInput,
+  NumberInput,
+  Select,
+  SegmentedControl,
+  Button,
+  Stack,
+  Group,
+  Text,
+  Grid,
+  ActionIcon,
+  Divider,
+} from '@mantine/core';
+import { DateInput } from '@mantine/dates';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import api from '../utils/api';
+
+export interface DeadlineSettings {
+  timeZone?: string;
+  warningDays?: number;
+  urgentDays?: number;
+  reminderDayType?: 'calendar' | 'business';
+  filingClockStart?: 'denial_date' | 'received_date';
+  holidays?: Array<{ date: string; name?: string }>;
+}
+
+interface DeadlineSettingsModalProps {
+  opened: boolean;
+  onClose: () => void;
+  groupId: string;
+  deadlineSettings?: DeadlineSettings;
+  canEdit: boolean;
+  onSaved?: (deadlineSettings: DeadlineSettings) => void;
+}
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+// Holidays are stored as local calendar dates ('YYYY-MM-DD'), not instants
+const toYmd = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const fromYmd = (ymd: string) => {
+  const [year, month, day] = ymd.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toFormValues = (settings?: DeadlineSettings) => ({
+  timeZone: settings?.timeZone || 'UTC',
+  warningDays: settings?.warningDays ?? 7,
+  urgentDays: settings?.urgentDays ?? 3,
+  reminderDayType: settings?.reminderDayType || 'calendar',
+  filingClockStart: settings?.filingClockStart || 'denial_date',
+  holidays: (settings?.holidays || []).map(holiday => ({
+    date: fromYmd(holiday.date) as Date | null,
+    name: holiday.name || '',
+  })),
+});
+
+const DeadlineSettingsModal = ({ opened, onClose, groupId, deadlineSettings, canEdit, onSaved }: DeadlineSettingsModalProps) => {
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm({
+    initialValues: toFormValues(deadlineSettings),
+    validate: {
+      urgentDays: (value, values) => (value < values.warningDays ? null : 'Must be shorter than the warning threshold'),
+      holidays: {
+        date: (value) => (value ? null : 'Pick a date'),
+      },
+    },
+  });
+
+  useEffect(() => {
+    if (opened) {
+      form.setValues(toFormValues(deadlineSettings));
+    }
+  }, [opened, deadlineSettings]);
+
+  const handleSubmit = async (values: ReturnType<typeof toFormValues>) => {
+    try {
+      setLoading(true);
+      const response = await api.put(`/patient-groups/${groupId}/deadline-settings`, {
+        ...values,
+        holidays: values.holidays
+          .filter(holiday => holiday.date)
+          .map(holiday => ({ date: toYmd(holiday.date!), name: holiday.name })),
+      });
+
+      notifications.show({
+        title: 'Deadline Settings Saved',
+        message: `Recalculated deadlines for ${response.data.recalculated} open disputes`,
+        color: 'green',
+      });
+      onSaved?.(response.data.deadlineSettings);
+      onClose();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to save deadline settings',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Deadline Settings"
+      size="lg"
+      centered
+    >
+      <form onSubmit={form.onSubmit(handleSubmit)}>
+        <Stack>
+          <Text size="sm" c="dimmed">
+            Deadlines fall at the end of the day in the group's time zone. Business days skip weekends and the holidays below.
+          </Text>
+
+          <Select
+            label="Time Zone"
+            searchable
+            data={Array.from(new Set([form.values.timeZone, ...TIMEZONES]))}
+            allowDeselect={false}
+            disabled={!canEdit}
+            {...form.getInputProps('timeZone')}
+          />
+
+          <div>
+            <Text size="sm" fw={500} mb={4}>Filing clock starts on</Text>
+            <SegmentedControl
+              fullWidth
+              disabled={!canEdit}
+              data={[
+                { value: 'denial_date', label: 'Date on the denial letter' },
+                { value: 'received_date', label: 'Date the letter was received' },
+              ]}
+              {...form.getInputProps('filingClockStart')}
+            />
+            <Text size="xs" c="dimmed" mt={4}>
+              Used unless the payer profile says otherwise. Disputes without a received date count from the letter date.
+            </Text>
+          </div>
+
+          <Divider label="Reminders" labelPosition="left" />
+
+          <Grid>
+            <Grid.Col span={6}>
+              <NumberInput
+                label="Warning threshold"
+                description="Flag deadlines this many days out"
+                min={1}
+                max={90}
+                disabled={!canEdit}
+                {...form.getInputProps('warningDays')}
+              />
+            </Grid.Col>
+            <Grid.Col span={6}>
+              <NumberInput
+                label="Urgent threshold"
+                description="Escalate to email at this many days"
+                min={0}
+                max={30}
+                disabled={!canEdit}
+                {...form.getInputProps('urgentDays')}
+              />
+            </Grid.Col>
+          </Grid>
+          <SegmentedControl
+            disabled={!canEdit}
+            data={[
+              { value: 'calendar', label: 'Count calendar days' },
+              { value: 'business', label: 'Count business days' },
+            ]}
+            {...form.getInputProps('reminderDayType')}
+          />
+
+          <Divider label="Holidays" labelPosition="left" />
+
+          {form.values.holidays.length === 0 && (
+            <Text size="sm" c="dimmed">No holidays added</Text>
+          )}
+          {form.values.holidays.map((_, index) => (
+            <Group key={index} align="flex-start" wrap="nowrap">
+              <DateInput
+                placeholder="Date"
+                valueFormat="MMM D, YYYY"
+                disabled={!canEdit}
+                {...form.getInputProps(`holidays.${index}.date`)}
+              />
+              <TextInput
+                style={{ flex: 1 }}
+                placeholder="Name (optional)"
+                disabled={!canEdit}
+                {...form.getInputProps(`holidays.${index}.name`)}
+              />
+              {canEdit && (
+                <ActionIcon variant="subtle" color="red" mt={4} onClick={() => form.removeListItem('holidays', index)}>
+                  <IconTrash size="1rem" />
+                </ActionIcon>
+              )}
+            </Group>
+          ))}
+          {canEdit && (
+            <Button
+              variant="subtle"
+              leftSection={<IconPlus size="1rem" />}
+              style={{ alignSelf: 'flex-start' }}
+              onClick={() => form.insertListItem('holidays', { date: null, name: '' })}
+            >
+              Add Holiday
+            </Button>
+          )}
+
+          <Group justify="flex-end" mt="md">
+            <Button variant="subtle" onClick={onClose}>
+              {canEdit ? 'Cancel' : 'Close'}
+            </Button>
+            {canEdit && (
+              <Button type="submit" loading={loading}>
+                Save Settings
+              </Button>
+            )}
+          </Group>
+        </Stack>
+      </form>
+    </Modal>
+  );
+};
+
+export default DeadlineSettingsModal;
@@ -0,0 +1,105 @@
+// components/DocumentVersionDiff.tsx
+import { useState, useEffect, useMemo } from 'react';
+import { Modal, Grid, Select, Paper, Text, Group, Badge } from '@mantine/core';
+import { diffWords } from 'diff';
+import type { DocumentVersion } from './GeneratedDocumentCard';
+import { toPlainText } from '../utils/documentContent';
+
+interface DocumentVersionDiffProps {
+  opened: boolean;
+  onClose: () => void;
+  versions: DocumentVersion[];
+  currentVersion: number;
+}
+
+const versionLabel = (version: DocumentVersion) => {
+  const author = typeof version.createdBy === 'object' && version.createdBy
+    ? ` by ${version.createdBy.firstName} ${version.createdBy.lastName}`
+    : '';
+  const source = version.source === 'ai' ? 'AI' : 'Edit';
+  return `v${version.versionNumber} · ${source}${author} · ${new Date(version.createdAt).toLocaleString()}`;
+};
+
+export const DocumentVersionDiff: React.FC<DocumentVersionDiffProps> = ({
+  opened,
+  onClose,
+  versions,
+  currentVersion,
+}) => {
+  const [fromVersion, setFromVersion] = useState<string | null>(null);
+  const [toVersion, setToVersion] = useState<string | null>(null);
+
+  // Default to comparing the current version with the one before it
+  useEffect(() => {
+    if (!opened) return;
+    setToVersion(String(currentVersion));
+    setFromVersion(String(Math.max(1, currentVersion - 1)));
+  }, [opened, currentVersion]);
+
+  const options = versions.map(version => ({
+    value: String(version.versionNumber),
+    label: versionLabel(version),
+  }));
+
+  const changes = useMemo(() => {
+    const from = versions.find(version => String(version.versionNumber) === fromVersion);
+    const to = versions.find(version => String(version.versionNumber) === toVersion);
+    if (!from || !to) return [];
+    return diffWords(toPlainText(from.content, from.format), toPlainText(to.content, to.format));
+  }, [versions, fromVersion, toVersion]);
+
+  const added = changes.filter(change => change.added).length;
+  const removed = changes.filter(change => change.removed).length;
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Compare Versions" size="90%">
+      <Grid>
+        <Grid.Col span={6}>
+          <Select label="Older version" data={options} value={fromVersion} onChange={setFromVersion} />
+        </Grid.Col>
+        <Grid.Col span={6}>
+          <Select label="Newer version" data={options} value={toVersion} onChange={setToVersion} />
+        </Grid.Col>
+      </Grid>
+
+      <Group gap="xs" mt="md">
+        <Badge color="red" variant="light">{removed} removed</Badge>
+        <Badge color="green" variant="light">{added} added</Badge>
+      </Group>
+
+      <Grid mt="md">
+        <Grid.Col span={6}>
+          <Paper p="md" withBorder style={{ whiteSpace: 'pre-wrap' }}>
+            <Text size="sm" component="div">
+              {changes.filter(change => !change.added).map((change, index) => (
+                <span
+                  key={index}
+                  style={change.removed ? {
+                    backgroundColor: 'var(--mantine-color-red-1)',
+                    textDecoration: 'line-through',
+                  } : undefined}
+                >
+                  {change.value}
+                </span>
+              ))}
+            </Text>
+          </Paper>
+        </Grid.Col>
+        <Grid.Col span={6}>
+          <Paper p="md" withBorder style={{ whiteSpace: 'pre-wrap' }}>
+            <Text size="sm" component="div">
+              {changes.filter(change => !change.removed).map((change, index) => (
+                <span
+                  key={index}
+                  style={change.added ? { backgroundColor: 'var(--mantine-color-green-1)' } : undefined}
+                >
+                  {change.value}
+                </span>
+              ))}
+            </Text>
+          </Paper>
+        </Grid.Col>
+      </Grid>
+    </Modal>
+  );
+};
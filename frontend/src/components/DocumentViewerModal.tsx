@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  Button,
+  Stack,
+  Group,
+  Text,
+  Image,
+  Loader,
+  Center,
+  Alert,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconDownload, IconExternalLink } from '@tabler/icons-react';
+import api, { downloadFile } from '../utils/api';
+
+interface DocumentViewerModalProps {
+  opened: boolean;
+  onClose: () => void;
+  // API path of the file, without the /download or /preview suffix
+  basePath: string;
+  filename: string;
+  mimeType?: string;
+  canDownload?: boolean;
+}
+
+// Types the browser can show on its own; Word and Excel files can only be downloaded
+const canPreview = (mimeType?: string) =>
+  !!mimeType && (mimeType === 'application/pdf' || mimeType.startsWith('image/') || mimeType.startsWith('text/'));
+
+// Shows an uploaded file through a short-lived signed URL, since iframes and images can't send the auth header
+const DocumentViewerModal = ({ opened, onClose, basePath, filename, mimeType, canDownload = true }: DocumentViewerModalProps) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!opened || !canPreview(mimeType)) return;
+
+    setPreviewUrl(null);
+    setError(null);
+    setLoading(true);
+    api.post(`${basePath}/signed-url`, { mode: 'preview' })
+      .then(response => setPreviewUrl(response.data.url))
+      .catch((err) => setError(err.response?.data?.message || 'Failed to load preview'))
+      .finally(() => setLoading(false));
+  }, [opened, basePath, mimeType]);
+
+  const handleDownload = async () => {
+    try {
+      await downloadFile(`${basePath}/download`, undefined, filename);
+    } catch (err) {
+      console.error('Failed to download document:', err);
+      notifications.show({
+        title: 'Download Failed',
+        message: 'Failed to download document',
+        color: 'red',
+      });
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={filename} size="xl" centered>
+      <Stack>
+        {!canPreview(mimeType) ? (
+          <Text c="dimmed" ta="center" py="xl">
+            This file type can't be previewed. Download it to open it.
+          </Text>
+        ) : loading ? (
+          <Center h={400}>
+            <Loader />
+          </Center>
+        ) : error ? (
+          <Alert color="red">{error}</Alert>
+        ) : previewUrl && mimeType?.startsWith('image/') ? (
+          <Image src={previewUrl} alt={filename} fit="contain" mah="70vh" />
+        ) : previewUrl ? (
+          <iframe
+            src={previewUrl}
+            title={filename}
+            style={{ width: '100%', height: '70vh', border: 'none' }}
+          />
+        ) : null}
+
+        <Group justify="flex-end">
+          {previewUrl && (
+            <Button
+              variant="subtle"
+              component="a"
+              href={previewUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              leftSection={<IconExternalLink size="1rem" />}
+            >
+              Open in New Tab
+            </Button>
+          )}
+          {canDownload && (
+            <Button leftSection={<IconDownload size="1rem" />} onClick={handleDownload}>
+              Download
+            </Button>
+          )}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+export default DocumentViewerModal;
@@ -0,0 +1,345 @@
+// components/GeneratedDocumentCard.tsx
+import { useState, useEffect } from 'react';
+import { Paper, Group, Text, Badge, Button, TextInput, Alert, Menu } from '@mantine/core';
+import { RichTextEditor, Link } from '@mantine/tiptap';
+import { useEditor } from '@tiptap/react';
+import StarterKit from '@tiptap/starter-kit';
+import {
+  IconEdit,
+  IconDeviceFloppy,
+  IconGitCompare,
+  IconCircleCheck,
+  IconSend,
+  IconLock,
+  IconDownload,
+  IconFileTypePdf,
+  IconFileTypeDocx,
+} from '@tabler/icons-react';
+import { notifications } from '@mantine/notifications';
+import { DocumentVersionDiff } from './DocumentVersionDiff';
+import { toEditorHtml, type DocumentFormat } from '../utils/documentContent';
+import api, { downloadFile } from '../utils/api';
+import type { PermissionCheck } from '../utils/permissions';
+
+interface UserRef {
+  _id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface DocumentVersion {
+  _id: string;
+  versionNumber: number;
+  content: string;
+  format: DocumentFormat;
+  source: 'ai' | 'edit';
+  createdBy?: UserRef | string;
+  createdAt: string;
+  note?: string;
+}
+
+export interface GeneratedDocument {
+  _id: string;
+  type: string;
+  content: string;
+  format?: DocumentFormat;
+  generatedAt: string;
+  // Appeal round the document was written for
+  appealRound?: number;
+  versions?: DocumentVersion[];
+  currentVersion?: number;
+  status?: 'draft' | 'approved' | 'sent';
+  approval?: {
+    approvedBy?: UserRef | string;
+    approvedAt?: string;
+    versionNumber?: number;
+  };
+  sentAt?: string;
+  sentBy?: UserRef | string;
+}
+
+interface GeneratedDocumentCardProps {
+  disputeId: string;
+  document: GeneratedDocument;
+  can: PermissionCheck;
+  onUpdated: (document: GeneratedDocument) => void;
+  onReload: () => void;
+}
+
+const STATUS_COLORS = {
+  draft: 'gray',
+  approved: 'green',
+  sent: 'blue',
+};
+
+const userName = (user?: UserRef | string) =>
+  typeof user === 'object' && user ? `${user.firstName} ${user.lastName}` : 'a team member';
+
+export const GeneratedDocumentCard: React.FC<GeneratedDocumentCardProps> = ({
+  disputeId,
+  document,
+  can,
+  onUpdated,
+  onReload,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [note, setNote] = useState('');
+  const [diffOpened, setDiffOpened] = useState(false);
+
+  const status = document.status || 'draft';
+  const currentVersion = document.currentVersion || 1;
+  const versions = document.versions || [];
+  const locked = status === 'sent';
+  const contentHtml = toEditorHtml(document.content, document.format);
+
+  const editor = useEditor({
+    extensions: [StarterKit, Link],
+    content: contentHtml,
+    editable: false,
+  });
+
+  // Show the latest saved version whenever the document changes outside the editor
+  useEffect(() => {
+    if (editor && !editing) {
+      editor.commands.setContent(contentHtml);
+    }
+  }, [editor, contentHtml, editing]);
+
+  useEffect(() => {
+    editor?.setEditable(editing);
+  }, [editor, editing]);
+
+  const handleCancelEdit = () => {
+    editor?.commands.setContent(contentHtml);
+    setNote('');
+    setEditing(false);
+  };
+
+  const handleSave = async () => {
+    if (!editor) return;
+
+    try {
+      setSaving(true);
+      const response = await api.put(`/disputes/${disputeId}/documents/${document._id}`, {
+        content: editor.getHTML(),
+        format: 'html',
+        baseVersion: currentVersion,
+        note: note || undefined,
+      });
+
+      if (response.data.success) {
+        onUpdated(response.data.document);
+        setNote('');
+        setEditing(false);
+        notifications.show({
+          title: 'Document Saved',
+          message: `Saved as version ${response.data.document.currentVersion}`,
+          color: 'green',
+        });
+      }
+    } catch (error: any) {
+      notifications.show({
+        title: 'Save Failed',
+        message: error.response?.data?.message || 'Failed to save document',
+        color: 'red',
+      });
+      if (error.response?.status === 409 || error.response?.status === 423) {
+        onReload();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWorkflowAction = async (action: 'approve' | 'sent') => {
+    try {
+      const response = await api.post(`/disputes/${disputeId}/documents/${document._id}/${action}`);
+
+      if (response.data.success) {
+        onUpdated(response.data.document);
+        notifications.show({
+          title: action === 'approve' ? 'Document Approved' : 'Document Sent',
+          message: action === 'approve'
+            ? `Version ${currentVersion} is marked as final`
+            : 'The document is now locked',
+          color: 'green',
+        });
+      }
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update document',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleExport = async (format: 'pdf' | 'docx') => {
+    try {
+      await downloadFile(
+        `/disputes/${disputeId}/documents/${document._id}/export`,
+        { format },
+        `${document.type}.${format}`
+      );
+    } catch (error) {
+      console.error('Failed to export document:', error);
+      notifications.show({
+        title: 'Export Failed',
+        message: 'Failed to export document',
+        color: 'red',
+      });
+    }
+  };
+
+  return (
+    <Paper p="lg" withBorder>
+      <Group justify="space-between" mb="md">
+        <div>
+          <Group gap="xs">
+            <Text fw={500} size="lg">
+              {document.type.replace('_', ' ').toUpperCase()}
+            </Text>
+            <Badge color={STATUS_COLORS[status]} variant="light">{status}</Badge>
+            <Badge color="gray" variant="outline">v{currentVersion}</Badge>
+            {document.appealRound && document.appealRound > 1 && (
+              <Badge color="grape" variant="outline">Round {document.appealRound}</Badge>
+            )}
+          </Group>
+          <Text size="sm" c="dimmed">
+            Generated on {new Date(document.generatedAt).toLocaleString()}
+          </Text>
+        </div>
+        <Group>
+          {versions.length > 1 && (
+            <Button
+              size="xs"
+              variant="subtle"
+              leftSection={<IconGitCompare size="0.8rem" />}
+              onClick={() => setDiffOpened(true)}
+            >
+              Compare Versions
+            </Button>
+          )}
+          {!locked && !editing && can('dispute.update') && (
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconEdit size="0.8rem" />}
+              onClick={() => setEditing(true)}
+            >
+              Edit
+            </Button>
+          )}
+          {status === 'draft' && !editing && can('document.approve') && (
+            <Button
+              size="xs"
+              variant="light"
+              color="green"
+              leftSection={<IconCircleCheck size="0.8rem" />}
+              onClick={() => handleWorkflowAction('approve')}
+            >
+              Approve
+            </Button>
+          )}
+          {status === 'approved' && !editing && can('dispute.submit') && (
+            <Button
+              size="xs"
+              leftSection={<IconSend size="0.8rem" />}
+              onClick={() => handleWorkflowAction('sent')}
+            >
+              Mark as Sent
+            </Button>
+          )}
+          {can('patient.export') && (
+            <Menu position="bottom-end">
+              <Menu.Target>
+                <Button size="xs" variant="light" leftSection={<IconDownload size="0.8rem" />}>
+                  Download
+                </Button>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Item leftSection={<IconFileTypePdf size="0.9rem" />} onClick={() => handleExport('pdf')}>
+                  PDF
+                </Menu.Item>
+                <Menu.Item leftSection={<IconFileTypeDocx size="0.9rem" />} onClick={() => handleExport('docx')}>
+                  Word (DOCX)
+                </Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+          )}
+        </Group>
+      </Group>
+
+      {status === 'approved' && document.approval?.approvedAt && (
+        <Alert color="green" icon={<IconCircleCheck size="1rem" />} mb="md" p="xs">
+          Version {document.approval.versionNumber} approved by {userName(document.approval.approvedBy)} on{' '}
+          {new Date(document.approval.approvedAt).toLocaleString()}. Editing will return it to draft.
+        </Alert>
+      )}
+      {locked && (
+        <Alert color="blue" icon={<IconLock size="1rem" />} mb="md" p="xs">
+          Sent by {userName(document.sentBy)} on {new Date(document.sentAt!).toLocaleString()}. This document is locked.
+        </Alert>
+      )}
+
+      <RichTextEditor editor={editor}>
+        {editing && (
+          <RichTextEditor.Toolbar sticky>
+            <RichTextEditor.ControlsGroup>
+              <RichTextEditor.Bold />
+              <RichTextEditor.Italic />
+              <RichTextEditor.Strikethrough />
+              <RichTextEditor.ClearFormatting />
+            </RichTextEditor.ControlsGroup>
+            <RichTextEditor.ControlsGroup>
+              <RichTextEditor.H2 />
+              <RichTextEditor.H3 />
+              <RichTextEditor.BulletList />
+              <RichTextEditor.OrderedList />
+              <RichTextEditor.Blockquote />
+            </RichTextEditor.ControlsGroup>
+            <RichTextEditor.ControlsGroup>
+              <RichTextEditor.Link />
+              <RichTextEditor.Unlink />
+            </RichTextEditor.ControlsGroup>
+            <RichTextEditor.ControlsGroup>
+              <RichTextEditor.Undo />
+              <RichTextEditor.Redo />
+            </RichTextEditor.ControlsGroup>
+          </RichTextEditor.Toolbar>
+        )}
+        <RichTextEditor.Content />
+      </RichTextEditor>
+
+      {editing && (
+        <Group mt="md" align="flex-end">
+          <TextInput
+            style={{ flex: 1 }}
+            label="Change note"
+            placeholder="Optional: describe what you changed"
+            value={note}
+            onChange={(event) => setNote(event.currentTarget.value)}
+          />
+          <Button variant="default" onClick={handleCancelEdit}>
+            Cancel
+          </Button>
+          <Button
+            leftSection={<IconDeviceFloppy size="1rem" />}
+            loading={saving}
+            onClick={handleSave}
+          >
+            Save Version
+          </Button>
+        </Group>
+      )}
+
+      <DocumentVersionDiff
+        opened={diffOpened}
+        onClose={() => setDiffOpened(false)}
+        versions={versions}
+        currentVersion={currentVersion}
+      />
+    </Paper>
+  );
+};
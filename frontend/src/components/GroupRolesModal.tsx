@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  TextInput,
+  Checkbox,
+  Button,
+  Stack,
+  Group,
+  Text,
+  Paper,
+  Badge,
+  ActionIcon,
+  SimpleGrid,
+  Divider,
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconEdit, IconPlus, IconTrash } from '@tabler/icons-react';
+import api from '../utils/api';
+import type { Permission } from '../utils/permissions';
+
+export interface GroupRole {
+  _id: string;
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+interface GroupRolesModalProps {
+  opened: boolean;
+  onClose: () => void;
+  groupId: string;
+  onChanged?: () => void;
+}
+
+const emptyRole = { name: '', description: '', permissions: [] as string[] };
+
+// Lets group admins bundle named permissions into custom roles they can then hand out to members
+const GroupRolesModal = ({ opened, onClose, groupId, onChanged }: GroupRolesModalProps) => {
+  const [catalog, setCatalog] = useState<Record<string, string>>({});
+  const [roles, setRoles] = useState<GroupRole[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formOpened, setFormOpened] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm({
+    initialValues: emptyRole,
+    validate: {
+      name: (value) => (value.trim() ? null : 'Role name is required'),
+      permissions: (value) => (value.length > 0 ? null : 'Pick at least one permission'),
+    },
+  });
+
+  const fetchRoles = async () => {
+    try {
+      const response = await api.get(`/patient-groups/${groupId}/roles`);
+      setCatalog(response.data.permissions);
+      setRoles(response.data.roles);
+    } catch (error) {
+      console.error('Failed to fetch roles:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (opened) {
+      fetchRoles();
+      setFormOpened(false);
+    }
+  }, [opened, groupId]);
+
+  const openForm = (role?: GroupRole) => {
+    setEditingId(role?._id || null);
+    form.setValues(role
+      ? { name: role.name, description: role.description || '', permissions: role.permissions }
+      : emptyRole);
+    form.resetDirty();
+    setFormOpened(true);
+  };
+
+  const handleSubmit = async (values: typeof emptyRole) => {
+    try {
+      setSaving(true);
+      if (editingId) {
+        await api.put(`/patient-groups/${groupId}/roles/${editingId}`, values);
+      } else {
+        await api.post(`/patient-groups/${groupId}/roles`, values);
+      }
+
+      notifications.show({
+        title: editingId ? 'Role Updated' : 'Role Created',
+        message: `${values.name} saved`,
+        color: 'green',
+      });
+      setFormOpened(false);
+      fetchRoles();
+      onChanged?.();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to save role',
+        color: 'red',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: GroupRole) => {
+    if (!window.confirm(`Delete the ${role.name} role? Members holding it go back to their permission level.`)) return;
+
+    try {
+      await api.delete(`/patient-groups/${groupId}/roles/${role._id}`);
+      notifications.show({
+        title: 'Role Deleted',
+        message: `${role.name} deleted`,
+        color: 'green',
+      });
+      fetchRoles();
+      onChanged?.();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete role',
+        color: 'red',
+      });
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Custom Roles" size="lg" centered>
+      <Stack>
+        <Text size="sm" c="dimmed">
+          A member with a custom role gets exactly the permissions it lists instead of their view, edit or admin level.
+        </Text>
+
+        {roles.length === 0 && !formOpened && (
+          <Text size="sm" c="dimmed" ta="center" py="md">
+            No custom roles yet
+          </Text>
+        )}
+
+        {roles.map(role => (
+          <Paper key={role._id} p="sm" withBorder>
+            <Group justify="space-between" wrap="nowrap">
+              <div>
+                <Text fw={500}>{role.name}</Text>
+                {role.description && <Text size="sm" c="dimmed">{role.description}</Text>}
+              </div>
+              <Group gap="xs" wrap="nowrap">
+                <ActionIcon variant="subtle" onClick={() => openForm(role)}>
+                  <IconEdit size="1rem" />
+                </ActionIcon>
+                <ActionIcon variant="subtle" color="red" onClick={() => handleDelete(role)}>
+                  <IconTrash size="1rem" />
+                </ActionIcon>
+              </Group>
+            </Group>
+            <Group gap={4} mt="xs">
+              {role.permissions.map(permission => (
+                <Badge key={permission} size="xs" variant="light">{permission}</Badge>
+              ))}
+            </Group>
+          </Paper>
+        ))}
+
+        {formOpened ? (
+          <form onSubmit={form.onSubmit(handleSubmit)}>
+            <Stack>
+              <Divider label={editingId ? 'Edit role' : 'New role'} labelPosition="left" />
+              <TextInput label="Name" placeholder="Billing clerk" required {...form.getInputProps('name')} />
+              <TextInput label="Description" {...form.getInputProps('description')} />
+              <Checkbox.Group label="Permissions" {...form.getInputProps('permissions')}>
+                <SimpleGrid cols={{ base: 1, sm: 2 }} mt="xs">
+                  {Object.entries(catalog).map(([permission, description]) => (
+                    <Checkbox key={permission} value={permission} label={permission} description={description} />
+                  ))}
+                </SimpleGrid>
+              </Checkbox.Group>
+              <Group justify="flex-end">
+                <Button variant="subtle" onClick={() => setFormOpened(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" loading={saving}>
+                  Save Role
+                </Button>
+              </Group>
+            </Stack>
+          </form>
+        ) : (
+          <Group justify="flex-end">
+            <Button leftSection={<IconPlus size="1rem" />} variant="light" onClick={() => openForm()}>
+              New Role
+            </Button>
+          </Group>
+        )}
+      </Stack>
+    </Modal>
+  );
+};
+
+export default GroupRolesModal;
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { Alert, Text } from '@mantine/core';
+import { IconMailOpened, IconAlertCircle } from '@tabler/icons-react';
+import api from '../utils/api';
+
+export interface InvitationDetails {
+  email: string;
+  groupName: string;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+// Looks up the invitation behind a join link; works before the invitee has signed in
+export const useInvitation = (token?: string | null) => {
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(Boolean(token));
+
+  useEffect(() => {
+    if (!token) return;
+
+    setLoading(true);
+    setError(null);
+    api.get(`/patient-groups/invitations/${token}`)
+      .then(response => setInvitation(response.data.invitation))
+      .catch((err) => setError(err.response?.data?.message || 'This invitation link is not valid'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  return { invitation, error, loading };
+};
+
+interface InvitationSummaryProps {
+  invitation: InvitationDetails | null;
+  error: string | null;
+}
+
+export const InvitationSummary = ({ invitation, error }: InvitationSummaryProps) => {
+  if (error) {
+    return (
+      <Alert icon={<IconAlertCircle size="1rem" />} title="Invitation unavailable" color="red">
+        {error}
+      </Alert>
+    );
+  }
+
+  if (!invitation) return null;
+
+  return (
+    <Alert icon={<IconMailOpened size="1rem" />} title={`Join ${invitation.groupName}`} color="blue">
+      <Text size="sm">
+        {invitation.invitedBy || 'A colleague'} invited {invitation.email} to this patient group.
+      </Text>
+      <Text size="xs" c="dimmed" mt={4}>
+        The invitation expires on {new Date(invitation.expiresAt).toLocaleDateString()}.
+      </Text>
+    </Alert>
+  );
+};
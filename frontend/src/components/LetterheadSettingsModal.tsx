@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  TextInput,
+  Button,
+  Stack,
+  Group,
+  Text,
+  Grid,
+  FileInput,
+  Image,
+  Divider,
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconPhoto } from '@tabler/icons-react';
+import api from '../utils/api';
+
+export interface Letterhead {
+  practiceName?: string;
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+  };
+  phone?: string;
+  fax?: string;
+  npi?: string;
+  logo?: {
+    filename: string;
+    originalName: string;
+  };
+  signature?: {
+    name?: string;
+    credentials?: string;
+    title?: string;
+    closing?: string;
+  };
+}
+
+interface LetterheadSettingsModalProps {
+  opened: boolean;
+  onClose: () => void;
+  groupId: string;
+  letterhead?: Letterhead;
+  onSaved?: (letterhead: Letterhead) => void;
+}
+
+const toFormValues = (letterhead?: Letterhead) => ({
+  practiceName: letterhead?.practiceName || '',
+  address: {
+    street: letterhead?.address?.street || '',
+    city: letterhead?.address?.city || '',
+    state: letterhead?.address?.state || '',
+    zipCode: letterhead?.address?.zipCode || '',
+  },
+  phone: letterhead?.phone || '',
+  fax: letterhead?.fax || '',
+  npi: letterhead?.npi || '',
+  signature: {
+    name: letterhead?.signature?.name || '',
+    credentials: letterhead?.signature?.credentials || '',
+    title: letterhead?.signature?.title || '',
+    closing: letterhead?.signature?.closing || 'Sincerely,',
+  },
+});
+
+const LetterheadSettingsModal = ({ opened, onClose, groupId, letterhead, onSaved }: LetterheadSettingsModalProps) => {
+  const [loading, setLoading] = useState(false);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+
+  const form = useForm({
+    initialValues: toFormValues(letterhead),
+    validate: {
+      npi: (value) => (!value || /^\d{10}$/.test(value) ? null : 'NPI must be 10 digits'),
+    },
+  });
+
+  useEffect(() => {
+    if (opened) {
+      form.setValues(toFormValues(letterhead));
+      setLogoFile(null);
+    }
+  }, [opened, letterhead]);
+
+  // The logo endpoint needs the auth header, so load it as a blob for the preview
+  useEffect(() => {
+    if (!opened || !letterhead?.logo?.filename) return;
+
+    let objectUrl: string | null = null;
+    api.get(`/patient-groups/${groupId}/letterhead/logo`, { responseType: 'blob' })
+      .then(response => {
+        objectUrl = URL.createObjectURL(response.data);
+        setLogoUrl(objectUrl);
+      })
+      .catch(() => setLogoUrl(null));
+
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [opened, groupId, letterhead?.logo?.filename]);
+
+  const handleSubmit = async (values: ReturnType<typeof toFormValues>) => {
+    try {
+      setLoading(true);
+      let response = await api.put(`/patient-groups/${groupId}/letterhead`, values);
+
+      if (logoFile) {
+        const formData = new FormData();
+        formData.append('logo', logoFile);
+        response = await api.post(`/patient-groups/${groupId}/letterhead/logo`, formData, {
+          headers: { 'Content-Type': 'multipart/form-data' },
+        });
+      }
+
+      notifications.show({
+        title: 'Letterhead Saved',
+        message: 'Exported documents will use the updated letterhead',
+        color: 'green',
+      });
+      onSaved?.(response.data.letterhead);
+      onClose();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to save letterhead',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Practice Letterhead"
+      size="lg"
+      centered
+    >
+      <form onSubmit={form.onSubmit(handleSubmit)}>
+        <Stack>
+          <Text size="sm" c="dimmed">
+            These details appear at the top of exported appeal letters, with the signature block at the end.
+          </Text>
+
+          <TextInput
+            label="Practice Name"
+            placeholder="Riverside Orthopedics"
+            {...form.getInputProps('practiceName')}
+          />
+          <TextInput
+            label="Street Address"
+            {...form.getInputProps('address.street')}
+          />
+          <Grid>
+            <Grid.Col span={6}>
+              <TextInput label="City" {...form.getInputProps('address.city')} />
+            </Grid.Col>
+            <Grid.Col span={3}>
+              <TextInput label="State" {...form.getInputProps('address.state')} />
+            </Grid.Col>
+            <Grid.Col span={3}>
+              <TextInput label="ZIP Code" {...form.getInputProps('address.zipCode')} />
+            </Grid.Col>
+            <Grid.Col span={4}>
+              <TextInput label="Phone" {...form.getInputProps('phone')} />
+            </Grid.Col>
+            <Grid.Col span={4}>
+              <TextInput label="Fax" {...form.getInputProps('fax')} />
+            </Grid.Col>
+            <Grid.Col span={4}>
+              <TextInput label="NPI" placeholder="10 digits" {...form.getInputProps('npi')} />
+            </Grid.Col>
+          </Grid>
+
+          <Group align="flex-end">
+            {logoUrl && !logoFile && (
+              <Image src={logoUrl} alt="Practice logo" h={48} w="auto" fit="contain" />
+            )}
+            <FileInput
+              style={{ flex: 1 }}
+              label="Logo"
+              placeholder={letterhead?.logo?.originalName || 'Upload a PNG or JPEG'}
+              accept="image/png,image/jpeg"
+              leftSection={<IconPhoto size="1rem" />}
+              value={logoFile}
+              onChange={setLogoFile}
+              clearable
+            />
+          </Group>
+
+          <Divider label="Signature Block" labelPosition="left" />
+
+          <Grid>
+            <Grid.Col span={8}>
+              <TextInput label="Signer Name" placeholder="Alex Smith" {...form.getInputProps('signature.name')} />
+            </Grid.Col>
+            <Grid.Col span={4}>
+              <TextInput label="Credentials" placeholder="MD" {...form.getInputProps('signature.credentials')} />
+            </Grid.Col>
+            <Grid.Col span={8}>
+              <TextInput label="Title" placeholder="Attending Physician" {...form.getInputProps('signature.title')} />
+            </Grid.Col>
+            <Grid.Col span={4}>
+              <TextInput label="Closing" {...form.getInputProps('signature.closing')} />
+            </Grid.Col>
+          </Grid>
+
+          <Group justify="flex-end" mt="md">
+            <Button variant="subtle" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={loading}>
+              Save Letterhead
+            </Button>
+          </Group>
+        </Stack>
+      </form>
+    </Modal>
+  );
+};
+
+export default LetterheadSettingsModal;
@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Stack,
+  Group,
+  Text,
+  Button,
+  TextInput,
+  Image,
+  Code,
+  Badge,
+  Alert,
+  SimpleGrid,
+  CopyButton,
+  Loader,
+  Center,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconShieldCheck, IconShieldLock, IconDownload, IconCopy } from '@tabler/icons-react';
+import { useAuth } from '../context/AuthContext';
+import api from '../utils/api';
+
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+  sessionVerified: boolean;
+}
+
+interface MfaSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+// Which action is waiting for a code from the user's app
+type PendingAction = 'enable' | 'disable' | 'regenerate';
+
+// Two-factor authentication section of Profile Settings: set up with a QR code, show recovery codes
+// once, make new ones and turn MFA off
+const MfaSettings = () => {
+  const { refreshUser } = useAuth();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [setup, setSetup] = useState<MfaSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await api.get('/auth/mfa');
+      setStatus(response.data);
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const showError = (error: any, fallback: string) => {
+    notifications.show({
+      title: 'Two-Factor Authentication',
+      message: error.response?.data?.message || fallback,
+      color: 'red',
+    });
+  };
+
+  const handleStartSetup = async () => {
+    try {
+      setSubmitting(true);
+      const response = await api.post('/auth/mfa/setup');
+      setSetup(response.data);
+      setPendingAction('enable');
+      setCode('');
+    } catch (error) {
+      showError(error, 'Failed to start setup');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setSetup(null);
+    setPendingAction(null);
+    setCode('');
+  };
+
+  const handleSubmitCode = async () => {
+    if (!pendingAction || !code.trim()) return;
+
+    try {
+      setSubmitting(true);
+      if (pendingAction === 'enable') {
+        const response = await api.post('/auth/mfa/enable', { code });
+        setRecoveryCodes(response.data.recoveryCodes);
+        setSetup(null);
+        notifications.show({
+          title: 'Two-Factor Authentication On',
+          message: 'You will be asked for a code from your app when you sign in',
+          color: 'green',
+        });
+      } else if (pendingAction === 'regenerate') {
+        const response = await api.post('/auth/mfa/recovery-codes', { code });
+        setRecoveryCodes(response.data.recoveryCodes);
+      } else {
+        await api.post('/auth/mfa/disable', { code });
+        setRecoveryCodes(null);
+        notifications.show({
+          title: 'Two-Factor Authentication Off',
+          message: 'Signing in now only needs your password',
+          color: 'blue',
+        });
+      }
+      setPendingAction(null);
+      setCode('');
+      fetchStatus();
+      refreshUser();
+    } catch (error) {
+      showError(error, 'Invalid code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+
+    const blob = new Blob([`${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const objectUrl = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  if (!status) {
+    return (
+      <Center py="md">
+        <Loader size="sm" />
+      </Center>
+    );
+  }
+
+  const codeInput = (
+    <Group align="flex-end">
+      <TextInput
+        style={{ flex: 1 }}
+        label={pendingAction === 'enable' ? 'Code from your app' : 'Code from your app or a recovery code'}
+        placeholder="123456"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(event) => setCode(event.currentTarget.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') handleSubmitCode();
+        }}
+      />
+      <Button variant="default" onClick={handleCancel} disabled={submitting}>
+        Cancel
+      </Button>
+      <Button
+        color={pendingAction === 'disable' ? 'red' : undefined}
+        loading={submitting}
+        onClick={handleSubmitCode}
+      >
+        {pendingAction === 'enable' ? 'Turn on' : pendingAction === 'disable' ? 'Turn off' : 'Make new codes'}
+      </Button>
+    </Group>
+  );
+
+  return (
+    <Stack gap="sm">
+      <Group justify="space-between">
+        <Text size="sm" fw={500}>Two-factor authentication</Text>
+        {status.enabled ? (
+          <Badge color="green" leftSection={<IconShieldCheck size="0.8rem" />}>On</Badge>
+        ) : (
+          <Badge color="gray">Off</Badge>
+        )}
+      </Group>
+
+      {recoveryCodes && (
+        <Alert icon={<IconShieldLock size="1rem" />} title="Save your recovery codes" color="orange">
+          <Stack gap="xs">
+            <Text size="sm">
+              Each code signs you in once if you lose your authenticator app. They won't be shown again.
+            </Text>
+            <SimpleGrid cols={2} spacing={4}>
+              {recoveryCodes.map(recoveryCode => (
+                <Code key={recoveryCode}>{recoveryCode}</Code>
+              ))}
+            </SimpleGrid>
+            <Group gap="xs">
+              <CopyButton value={recoveryCodes.join('\n')}>
+                {({ copied, copy }) => (
+                  <Button size="xs" variant="light" leftSection={<IconCopy size="0.8rem" />} onClick={copy}>
+                    {copied ? 'Copied' : 'Copy'}
+                  </Button>
+                )}
+              </CopyButton>
+              <Button size="xs" variant="light" leftSection={<IconDownload size="0.8rem" />} onClick={handleDownloadCodes}>
+                Download
+              </Button>
+              <Button size="xs" variant="subtle" onClick={() => setRecoveryCodes(null)}>
+                I've saved them
+              </Button>
+            </Group>
+          </Stack>
+        </Alert>
+      )}
+
+      {!status.enabled && !setup && (
+        <Group justify="space-between">
+          <Text size="xs" c="dimmed" style={{ flex: 1 }}>
+            Ask for a code from an authenticator app as well as your password when signing in.
+          </Text>
+          <Button size="xs" loading={submitting} onClick={handleStartSetup}>
+            Set up
+          </Button>
+        </Group>
+      )}
+
+      {setup && (
+        <Stack gap="xs">
+          <Text size="sm">
+            Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+            then enter the 6-digit code it shows.
+          </Text>
+          <Center>
+            <Image src={setup.qrCode} alt="QR code for your authenticator app" w={180} h={180} />
+          </Center>
+          <Text size="xs" c="dimmed">
+            Can't scan it? Enter this key instead: <Code>{setup.secret}</Code>
+          </Text>
+          {codeInput}
+        </Stack>
+      )}
+
+      {status.enabled && (
+        <>
+          <Text size="xs" c="dimmed">
+            On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'setup'}.{' '}
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+          </Text>
+          {!status.sessionVerified && (
+            <Text size="xs" c="orange">
+              This device signed in without a code. Sign in again to open groups that require two-factor authentication.
+            </Text>
+          )}
+          {pendingAction ? codeInput : (
+            <Group gap="xs">
+              <Button size="xs" variant="light" onClick={() => setPendingAction('regenerate')}>
+                New recovery codes
+              </Button>
+              <Button size="xs" variant="subtle" color="red" onClick={() => setPendingAction('disable')}>
+                Turn off
+              </Button>
+            </Group>
+          )}
+        </>
+      )}
+    </Stack>
+  );
+};
+
+export default MfaSettings;
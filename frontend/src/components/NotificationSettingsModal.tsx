@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Switch,
+  Button,
+  Divider,
+  SegmentedControl,
+  Select,
+} from '@mantine/core';
+import { TimeInput } from '@mantine/dates';
+import { notifications } from '@mantine/notifications';
+import { useAuth } from '../context/AuthContext';
+import { isPushSupported, getPushSubscription, subscribeToPush, unsubscribeFromPush } from '../utils/push';
+
+type NotificationPreferences = {
+  email: boolean;
+  inApp: boolean;
+  push: boolean;
+  disputeUpdates: boolean;
+  groupInvitations: boolean;
+  deadlineReminders: boolean;
+  analysisComplete: boolean;
+};
+
+type DigestPreferences = {
+  frequency: 'off' | 'daily' | 'weekly';
+  time: string;
+  dayOfWeek: number;
+  timezone: string;
+};
+
+interface NotificationSettingsModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  email: true,
+  inApp: true,
+  push: true,
+  disputeUpdates: true,
+  groupInvitations: true,
+  deadlineReminders: true,
+  analysisComplete: true,
+};
+
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const DEFAULT_DIGEST: DigestPreferences = {
+  frequency: 'off',
+  time: '07:00',
+  dayOfWeek: 1,
+  timezone: BROWSER_TIMEZONE,
+};
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const CHANNELS: Array<{ key: keyof NotificationPreferences; label: string; description: string }> = [
+  { key: 'inApp', label: 'In-app', description: 'Show notifications in the notification list' },
+  { key: 'email', label: 'Email', description: 'Send notifications to your account email' },
+  { key: 'push', label: 'Browser push', description: 'Show desktop notifications in browsers you enable below' },
+];
+
+const TOPICS: Array<{ key: keyof NotificationPreferences; label: string }> = [
+  { key: 'deadlineReminders', label: 'Deadline reminders' },
+  { key: 'disputeUpdates', label: 'Dispute status and document updates' },
+  { key: 'analysisComplete', label: 'AI analysis complete' },
+  { key: 'groupInvitations', label: 'Patient group invitations' },
+];
+
+const NotificationSettingsModal = ({ opened, onClose }: NotificationSettingsModalProps) => {
+  const { user, updatePreferences } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [digest, setDigest] = useState<DigestPreferences>(DEFAULT_DIGEST);
+  const [saving, setSaving] = useState(false);
+  const [browserSubscribed, setBrowserSubscribed] = useState(false);
+  const [pushLoading, setPushLoading] = useState(false);
+
+  useEffect(() => {
+    if (!opened) return;
+    setPreferences({ ...DEFAULT_PREFERENCES, ...user?.preferences?.notifications });
+    const savedDigest = user?.preferences?.digest;
+    // Suggest this browser's timezone until a digest has been set up
+    setDigest(savedDigest && savedDigest.frequency !== 'off' ? savedDigest : { ...DEFAULT_DIGEST, ...savedDigest, timezone: BROWSER_TIMEZONE });
+    getPushSubscription()
+      .then(subscription => setBrowserSubscribed(Boolean(subscription)))
+      .catch(() => setBrowserSubscribed(false));
+  }, [opened, user]);
+
+  const toggle = (key: keyof NotificationPreferences) => {
+    setPreferences(current => ({ ...current, [key]: !current[key] }));
+  };
+
+  const handlePushToggle = async () => {
+    try {
+      setPushLoading(true);
+      if (browserSubscribed) {
+        await unsubscribeFromPush();
+        setBrowserSubscribed(false);
+      } else {
+        await subscribeToPush();
+        setBrowserSubscribed(true);
+      }
+    } catch (error: any) {
+      notifications.show({
+        title: 'Push Notifications',
+        message: error.response?.data?.message || error.message || 'Failed to update push notifications',
+        color: 'red',
+      });
+    } finally {
+      setPushLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await updatePreferences({ notifications: preferences, digest });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save notification preferences:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Notification Settings" size="md">
+      <Stack gap="md">
+        <Text size="sm" fw={500}>Channels</Text>
+        {CHANNELS.map(channel => (
+          <Switch
+            key={channel.key}
+            label={channel.label}
+            description={channel.description}
+            checked={preferences[channel.key]}
+            onChange={() => toggle(channel.key)}
+          />
+        ))}
+
+        {preferences.push && (
+          <Group justify="space-between">
+            <Text size="sm" c="dimmed">
+              {!isPushSupported()
+                ? 'This browser does not support push notifications'
+                : browserSubscribed
+                  ? 'Push notifications are on for this browser'
+                  : 'Push notifications are off for this browser'}
+            </Text>
+            {isPushSupported() && (
+              <Button size="xs" variant="light" loading={pushLoading} onClick={handlePushToggle}>
+                {browserSubscribed ? 'Disable here' : 'Enable here'}
+              </Button>
+            )}
+          </Group>
+        )}
+
+        <Divider />
+
+        <Text size="sm" fw={500}>Notify me about</Text>
+        {TOPICS.map(topic => (
+          <Switch
+            key={topic.key}
+            label={topic.label}
+            checked={preferences[topic.key]}
+            onChange={() => toggle(topic.key)}
+          />
+        ))}
+        <Text size="xs" c="dimmed">
+          Overdue deadline alerts are always sent on every channel you have turned on.
+        </Text>
+
+        <Divider />
+
+        <Text size="sm" fw={500}>Email digest</Text>
+        <SegmentedControl
+          value={digest.frequency}
+          onChange={(value) => setDigest(current => ({ ...current, frequency: value as DigestPreferences['frequency'] }))}
+          data={[
+            { value: 'off', label: 'Off' },
+            { value: 'daily', label: 'Daily' },
+            { value: 'weekly', label: 'Weekly' },
+          ]}
+        />
+        {digest.frequency !== 'off' && (
+          <>
+            <Group grow align="flex-start">
+              {digest.frequency === 'weekly' && (
+                <Select
+                  label="Day"
+                  data={WEEKDAYS.map((day, index) => ({ value: String(index), label: day }))}
+                  value={String(digest.dayOfWeek)}
+                  onChange={(value) => setDigest(current => ({ ...current, dayOfWeek: Number(value ?? 1) }))}
+                  allowDeselect={false}
+                />
+              )}
+              <TimeInput
+                label="Time"
+                value={digest.time}
+                onChange={(event) => {
+                  const { value } = event.currentTarget;
+                  setDigest(current => ({ ...current, time: value || current.time }));
+                }}
+              />
+            </Group>
+            <Select
+              label="Timezone"
+              searchable
+              data={Array.from(new Set([digest.timezone, ...TIMEZONES]))}
+              value={digest.timezone}
+              onChange={(value) => setDigest(current => ({ ...current, timezone: value || current.timezone }))}
+              allowDeselect={false}
+            />
+            <Text size="xs" c="dimmed">
+              Lists overdue and upcoming deadlines, status changes and new AI analyses across your patient groups.
+              Other deadline reminder emails are folded into the digest.
+            </Text>
+          </>
+        )}
+
+        <Group justify="flex-end">
+          <Button variant="default" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={saving}>
+            Save
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+export default NotificationSettingsModal;
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import {
+  Paper,
+  Title,
+  Text,
+  Group,
+  Stack,
+  Badge,
+  Button,
+  Anchor,
+  List,
+  Alert,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { IconEdit } from '@tabler/icons-react';
+import api from '../utils/api';
+import { PayerSelect, usePayers, type Payer } from './PayerSelect';
+
+export interface DisputeDeadlines {
+  responseDeadline: string;
+  deadlineSource?: 'default' | 'payer' | 'manual';
+  // How a computed response deadline was counted
+  deadlineBasis?: {
+    clockStart?: 'denial_date' | 'received_date';
+    startDate?: string;
+    days?: number;
+    dayType?: 'calendar' | 'business';
+    timeZone?: string;
+  };
+  decisionDueDate?: string;
+}
+
+const formatDays = (days?: number, dayType?: string) => `${days} ${dayType === 'business' ? 'business ' : ''}days`;
+
+interface PayerCardProps {
+  disputeId: string;
+  payer?: Payer | null;
+  deadlines: DisputeDeadlines;
+  denialCode?: string;
+  canEdit?: boolean;
+  onChanged: () => void;
+}
+
+const DEADLINE_SOURCE_LABELS: Record<string, string> = {
+  default: '30-day default',
+  payer: 'Payer filing window',
+  manual: 'Set manually',
+};
+
+const formatAddress = (payer: Payer) => {
+  const address = payer.submission.mailingAddress;
+  if (!address?.street) return null;
+  return [address.attention, address.street, [address.city, address.state, address.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+};
+
+export const PayerCard = ({ disputeId, payer, deadlines, denialCode, canEdit = true, onChanged }: PayerCardProps) => {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { payers } = usePayers();
+
+  const handleChange = async (selected: Payer | null) => {
+    try {
+      setSaving(true);
+      await api.put(`/disputes/${disputeId}/payer`, { payerId: selected?._id || null });
+      notifications.show({
+        title: 'Payer Updated',
+        message: selected ? `Deadlines now follow ${selected.name}'s rules` : 'Payer profile removed',
+        color: 'green',
+      });
+      setEditing(false);
+      onChanged();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update payer',
+        color: 'red',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const firstLevel = payer?.appealLevels.find(level => level.level === 1);
+  const knownCode = denialCode
+    ? payer?.denialCodes.find(code => code.code.toUpperCase() === denialCode.trim().toUpperCase())
+    : undefined;
+  const requiredForms = payer?.requiredForms.filter(form => !form.appealLevel || form.appealLevel === 1) || [];
+  const mailingAddress = payer ? formatAddress(payer) : null;
+
+  return (
+    <Paper p="lg" withBorder>
+      <Group justify="space-between" mb="md">
+        <Title order={4}>Payer</Title>
+        {!editing && canEdit && (
+          <Button size="xs" variant="subtle" leftSection={<IconEdit size="0.8rem" />} onClick={() => setEditing(true)}>
+            Change
+          </Button>
+        )}
+      </Group>
+
+      {editing && (
+        <Stack gap="xs" mb="md">
+          <PayerSelect
+            placeholder="No payer profile"
+            payers={payers}
+            value={payer?._id || null}
+            onChange={handleChange}
+            disabled={saving}
+          />
+          {deadlines.deadlineSource === 'manual' && (
+            <Text size="xs" c="dimmed">The manually set response deadline will be kept.</Text>
+          )}
+          <Button size="xs" variant="default" onClick={() => setEditing(false)} disabled={saving}>
+            Cancel
+          </Button>
+        </Stack>
+      )}
+
+      <Stack gap="sm">
+        {payer ? (
+          <Text fw={500}>{payer.name}</Text>
+        ) : (
+          <Text size="sm" c="dimmed">No payer profile linked</Text>
+        )}
+
+        <div>
+          <Text size="sm" fw={500}>Response Deadline:</Text>
+          <Group gap="xs">
+            <Text size="sm">{new Date(deadlines.responseDeadline).toLocaleDateString()}</Text>
+            <Badge size="xs" variant="light" color={deadlines.deadlineSource === 'payer' ? 'blue' : 'gray'}>
+              {DEADLINE_SOURCE_LABELS[deadlines.deadlineSource || 'default']}
+            </Badge>
+          </Group>
+          {deadlines.deadlineSource !== 'manual' && deadlines.deadlineBasis?.startDate && (
+            <Text size="xs" c="dimmed">
+              {formatDays(deadlines.deadlineBasis.days, deadlines.deadlineBasis.dayType)} from the{' '}
+              {deadlines.deadlineBasis.clockStart === 'received_date' ? 'date received' : 'denial date'}{' '}
+              ({new Date(deadlines.deadlineBasis.startDate).toLocaleDateString()}), end of day {deadlines.deadlineBasis.timeZone}
+            </Text>
+          )}
+        </div>
+
+        {deadlines.decisionDueDate && (
+          <div>
+            <Text size="sm" fw={500}>Payer Decision Due:</Text>
+            <Text size="sm">{new Date(deadlines.decisionDueDate).toLocaleString()}</Text>
+          </div>
+        )}
+
+        {firstLevel && (
+          <Text size="sm">
+            {firstLevel.name}: file within {formatDays(firstLevel.filingWindowDays, firstLevel.filingDayType)}
+            {firstLevel.decisionTurnaroundDays && `, decision within ${formatDays(firstLevel.decisionTurnaroundDays, firstLevel.decisionDayType)}`}
+          </Text>
+        )}
+
+        {payer?.expeditedReview.available && (
+          <Text size="sm">Expedited review: decision within {payer.expeditedReview.turnaroundHours} hours</Text>
+        )}
+
+        {payer && (
+          <div>
+            <Text size="sm" fw={500}>Submit via {payer.submission.preferredChannel}:</Text>
+            {payer.submission.fax && <Text size="sm">Fax {payer.submission.fax}</Text>}
+            {payer.submission.portalUrl && (
+              <Anchor size="sm" href={payer.submission.portalUrl} target="_blank" rel="noreferrer">
+                Provider portal
+              </Anchor>
+            )}
+            {mailingAddress && <Text size="sm">{mailingAddress}</Text>}
+          </div>
+        )}
+
+        {requiredForms.length > 0 && (
+          <div>
+            <Text size="sm" fw={500}>Required Forms:</Text>
+            <List size="sm">
+              {requiredForms.map(form => (
+                <List.Item key={form.name}>
+                  {form.url ? (
+                    <Anchor size="sm" href={form.url} target="_blank" rel="noreferrer">{form.name}</Anchor>
+                  ) : form.name}
+                  {form.formNumber && ` (${form.formNumber})`}
+                </List.Item>
+              ))}
+            </List>
+          </div>
+        )}
+
+        {knownCode && (
+          <Alert color="blue" p="sm" title={`Denial code ${knownCode.code}`}>
+            <Text size="sm">{knownCode.description}</Text>
+            {knownCode.appealGuidance && <Text size="sm" mt={4}>{knownCode.appealGuidance}</Text>}
+          </Alert>
+        )}
+      </Stack>
+    </Paper>
+  );
+};
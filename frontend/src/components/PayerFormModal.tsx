@@ -0,0 +1,452 @@
+import { useState, useEffect } from 'react';
+import {
+  Modal,
+  TextInput,
+  Textarea,
+  TagsInput,
+  NumberInput,
+  Select,
+  SegmentedControl,
+  Switch,
+  Button,
+  Stack,
+  Group,
+  Grid,
+  Text,
+  Divider,
+  ActionIcon,
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconPlus, IconTrash } from '@tabler/icons-react';
+import api from '../utils/api';
+import type { Payer } from './PayerSelect';
+
+interface PayerFormModalProps {
+  opened: boolean;
+  onClose: () => void;
+  // Full payer profile to edit; omit to create a new one
+  payer?: Payer | null;
+  onSaved?: (payer: Payer) => void;
+}
+
+const DAY_TYPE_OPTIONS = [
+  { value: 'calendar', label: 'Calendar days' },
+  { value: 'business', label: 'Business days' },
+];
+
+const FILING_CLOCK_OPTIONS = [
+  { value: 'group_default', label: 'Group default' },
+  { value: 'denial_date', label: 'Denial letter date' },
+  { value: 'received_date', label: 'Date received' },
+];
+
+const toFormValues = (payer?: Payer | null) => ({
+  name: payer?.name || '',
+  aliases: payer?.aliases || [],
+  payerId: payer?.payerId || '',
+  planType: payer?.planType || 'commercial',
+  appealLevels: (payer?.appealLevels || [{ level: 1, name: 'First-level internal appeal', filingWindowDays: 180 }]).map(level => ({
+    level: level.level,
+    name: level.name,
+    filingWindowDays: level.filingWindowDays as number | string,
+    filingDayType: level.filingDayType || 'calendar',
+    filingClockStart: level.filingClockStart || 'group_default',
+    decisionTurnaroundDays: (level.decisionTurnaroundDays ?? '') as number | string,
+    decisionDayType: level.decisionDayType || 'calendar',
+  })),
+  externalReview: {
+    available: payer?.externalReview?.available ?? true,
+    filingWindowDays: (payer?.externalReview?.filingWindowDays ?? 120) as number | string,
+    filingDayType: payer?.externalReview?.filingDayType || 'calendar',
+    decisionTurnaroundDays: (payer?.externalReview?.decisionTurnaroundDays ?? 45) as number | string,
+  },
+  expeditedReview: {
+    available: payer?.expeditedReview?.available ?? true,
+    turnaroundHours: (payer?.expeditedReview?.turnaroundHours ?? 72) as number | string,
+  },
+  submission: {
+    preferredChannel: payer?.submission?.preferredChannel || 'fax',
+    fax: payer?.submission?.fax || '',
+    phone: payer?.submission?.phone || '',
+    portalUrl: payer?.submission?.portalUrl || '',
+    mailingAddress: {
+      attention: payer?.submission?.mailingAddress?.attention || '',
+      street: payer?.submission?.mailingAddress?.street || '',
+      city: payer?.submission?.mailingAddress?.city || '',
+      state: payer?.submission?.mailingAddress?.state || '',
+      zipCode: payer?.submission?.mailingAddress?.zipCode || '',
+    },
+  },
+  requiredForms: (payer?.requiredForms || []).map(form => ({
+    name: form.name,
+    formNumber: form.formNumber || '',
+    url: form.url || '',
+    appealLevel: (form.appealLevel ?? '') as number | string,
+  })),
+  denialCodes: (payer?.denialCodes || []).map(code => ({
+    code: code.code,
+    description: code.description,
+    category: code.category || 'other',
+    appealGuidance: code.appealGuidance || '',
+  })),
+  notes: payer?.notes || '',
+});
+
+type PayerFormValues = ReturnType<typeof toFormValues>;
+
+// Empty optional numbers are sent as null so the server clears them
+const toNumber = (value: number | string) => (value === '' ? null : Number(value));
+
+const PayerFormModal = ({ opened, onClose, payer, onSaved }: PayerFormModalProps) => {
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm({
+    initialValues: toFormValues(payer),
+    validate: {
+      name: (value) => (value.trim().length < 2 ? 'Payer name is required' : null),
+      appealLevels: {
+        name: (value) => (!value.trim() ? 'Level name is required' : null),
+        filingWindowDays: (value) => (!value || Number(value) < 1 ? 'Filing window is required' : null),
+      },
+      requiredForms: {
+        name: (value) => (!value.trim() ? 'Form name is required' : null),
+      },
+      denialCodes: {
+        code: (value) => (!value.trim() ? 'Code is required' : null),
+        description: (value) => (!value.trim() ? 'Description is required' : null),
+      },
+    },
+  });
+
+  useEffect(() => {
+    if (opened) {
+      form.setValues(toFormValues(payer));
+      form.resetDirty();
+    }
+  }, [opened, payer]);
+
+  const handleSubmit = async (values: PayerFormValues) => {
+    const payload = {
+      ...values,
+      appealLevels: values.appealLevels.map(level => ({
+        ...level,
+        filingWindowDays: Number(level.filingWindowDays),
+        filingClockStart: level.filingClockStart === 'group_default' ? null : level.filingClockStart,
+        decisionTurnaroundDays: toNumber(level.decisionTurnaroundDays),
+      })),
+      externalReview: {
+        ...values.externalReview,
+        filingWindowDays: toNumber(values.externalReview.filingWindowDays),
+        decisionTurnaroundDays: toNumber(values.externalReview.decisionTurnaroundDays),
+      },
+      expeditedReview: {
+        available: values.expeditedReview.available,
+        turnaroundHours: toNumber(values.expeditedReview.turnaroundHours),
+      },
+      requiredForms: values.requiredForms.map(requiredForm => ({
+        ...requiredForm,
+        appealLevel: toNumber(requiredForm.appealLevel),
+      })),
+    };
+
+    try {
+      setLoading(true);
+      const response = payer
+        ? await api.put(`/payers/${payer._id}`, payload)
+        : await api.post('/payers', payload);
+
+      notifications.show({
+        title: 'Payer Saved',
+        message: `${response.data.payer.name} has been saved`,
+        color: 'green',
+      });
+      onSaved?.(response.data.payer);
+      onClose();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to save payer',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={payer ? `Edit ${payer.name}` : 'Add Payer'}
+      size="xl"
+      centered
+    >
+      <form onSubmit={form.onSubmit(handleSubmit)}>
+        <Stack>
+          <Grid>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <TextInput label="Payer Name" placeholder="Acme Health Plan" required {...form.getInputProps('name')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 6, md: 3 }}>
+              <TextInput label="Payer ID" placeholder="EDI payer ID" {...form.getInputProps('payerId')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 6, md: 3 }}>
+              <Select
+                label="Plan Type"
+                data={[
+                  { value: 'commercial', label: 'Commercial' },
+                  { value: 'medicare_advantage', label: 'Medicare Advantage' },
+                  { value: 'medicaid', label: 'Medicaid' },
+                  { value: 'other', label: 'Other' },
+                ]}
+                {...form.getInputProps('planType')}
+              />
+            </Grid.Col>
+          </Grid>
+          <TagsInput
+            label="Also Known As"
+            description="Other names used in patients' insurance provider field; used to match disputes to this payer"
+            {...form.getInputProps('aliases')}
+          />
+
+          <Divider label="Appeal Levels" labelPosition="left" />
+          {form.values.appealLevels.map((_, index) => (
+            <Grid key={index} align="flex-end">
+              <Grid.Col span={2}>
+                <NumberInput label="Level" min={1} {...form.getInputProps(`appealLevels.${index}.level`)} />
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <TextInput label="Name" {...form.getInputProps(`appealLevels.${index}.name`)} />
+              </Grid.Col>
+              <Grid.Col span={3}>
+                <NumberInput label="Filing window (days)" min={1} {...form.getInputProps(`appealLevels.${index}.filingWindowDays`)} />
+              </Grid.Col>
+              <Grid.Col span={2}>
+                <NumberInput label="Decision (days)" min={1} {...form.getInputProps(`appealLevels.${index}.decisionTurnaroundDays`)} />
+              </Grid.Col>
+              <Grid.Col span={1}>
+                <ActionIcon color="red" variant="subtle" mb={4} onClick={() => form.removeListItem('appealLevels', index)}>
+                  <IconTrash size="1rem" />
+                </ActionIcon>
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <Select
+                  label="Filing clock starts"
+                  data={FILING_CLOCK_OPTIONS}
+                  allowDeselect={false}
+                  {...form.getInputProps(`appealLevels.${index}.filingClockStart`)}
+                />
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <Select
+                  label="Filing window counts"
+                  data={DAY_TYPE_OPTIONS}
+                  allowDeselect={false}
+                  {...form.getInputProps(`appealLevels.${index}.filingDayType`)}
+                />
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <Select
+                  label="Decision counts"
+                  data={DAY_TYPE_OPTIONS}
+                  allowDeselect={false}
+                  {...form.getInputProps(`appealLevels.${index}.decisionDayType`)}
+                />
+              </Grid.Col>
+            </Grid>
+          ))}
+          <Group>
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconPlus size="0.8rem" />}
+              onClick={() => form.insertListItem('appealLevels', {
+                level: form.values.appealLevels.length + 1,
+                name: '',
+                filingWindowDays: 60,
+                filingDayType: 'calendar',
+                filingClockStart: 'group_default',
+                decisionTurnaroundDays: '',
+                decisionDayType: 'calendar',
+              })}
+            >
+              Add Level
+            </Button>
+          </Group>
+
+          <Group align="flex-end">
+            <Switch
+              label="Expedited review available"
+              {...form.getInputProps('expeditedReview.available', { type: 'checkbox' })}
+            />
+            {form.values.expeditedReview.available && (
+              <NumberInput
+                label="Expedited turnaround (hours)"
+                min={1}
+                w={220}
+                {...form.getInputProps('expeditedReview.turnaroundHours')}
+              />
+            )}
+          </Group>
+
+          <Switch
+            label="External review available after the last internal level"
+            {...form.getInputProps('externalReview.available', { type: 'checkbox' })}
+          />
+          {form.values.externalReview.available && (
+            <Grid>
+              <Grid.Col span={4}>
+                <NumberInput label="Request within (days)" min={1} {...form.getInputProps('externalReview.filingWindowDays')} />
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <Select
+                  label="Counts"
+                  data={DAY_TYPE_OPTIONS}
+                  allowDeselect={false}
+                  {...form.getInputProps('externalReview.filingDayType')}
+                />
+              </Grid.Col>
+              <Grid.Col span={4}>
+                <NumberInput label="Decision (days)" min={1} {...form.getInputProps('externalReview.decisionTurnaroundDays')} />
+              </Grid.Col>
+            </Grid>
+          )}
+
+          <Divider label="Submission" labelPosition="left" />
+          <div>
+            <Text size="sm" fw={500} mb={4}>Preferred Channel</Text>
+            <SegmentedControl
+              data={[
+                { value: 'fax', label: 'Fax' },
+                { value: 'portal', label: 'Portal' },
+                { value: 'mail', label: 'Mail' },
+              ]}
+              {...form.getInputProps('submission.preferredChannel')}
+            />
+          </div>
+          <Grid>
+            <Grid.Col span={{ base: 6, md: 3 }}>
+              <TextInput label="Appeals Fax" {...form.getInputProps('submission.fax')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 6, md: 3 }}>
+              <TextInput label="Appeals Phone" {...form.getInputProps('submission.phone')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <TextInput label="Portal URL" placeholder="https://" {...form.getInputProps('submission.portalUrl')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <TextInput label="Attention" placeholder="Appeals Department" {...form.getInputProps('submission.mailingAddress.attention')} />
+            </Grid.Col>
+            <Grid.Col span={{ base: 12, md: 6 }}>
+              <TextInput label="Street / PO Box" {...form.getInputProps('submission.mailingAddress.street')} />
+            </Grid.Col>
+            <Grid.Col span={6}>
+              <TextInput label="City" {...form.getInputProps('submission.mailingAddress.city')} />
+            </Grid.Col>
+            <Grid.Col span={3}>
+              <TextInput label="State" {...form.getInputProps('submission.mailingAddress.state')} />
+            </Grid.Col>
+            <Grid.Col span={3}>
+              <TextInput label="ZIP Code" {...form.getInputProps('submission.mailingAddress.zipCode')} />
+            </Grid.Col>
+          </Grid>
+
+          <Divider label="Required Forms" labelPosition="left" />
+          {form.values.requiredForms.map((_, index) => (
+            <Grid key={index} align="flex-end">
+              <Grid.Col span={4}>
+                <TextInput label="Form" {...form.getInputProps(`requiredForms.${index}.name`)} />
+              </Grid.Col>
+              <Grid.Col span={2}>
+                <TextInput label="Number" {...form.getInputProps(`requiredForms.${index}.formNumber`)} />
+              </Grid.Col>
+              <Grid.Col span={3}>
+                <TextInput label="URL" {...form.getInputProps(`requiredForms.${index}.url`)} />
+              </Grid.Col>
+              <Grid.Col span={2}>
+                <NumberInput label="Level" placeholder="All" min={1} {...form.getInputProps(`requiredForms.${index}.appealLevel`)} />
+              </Grid.Col>
+              <Grid.Col span={1}>
+                <ActionIcon color="red" variant="subtle" mb={4} onClick={() => form.removeListItem('requiredForms', index)}>
+                  <IconTrash size="1rem" />
+                </ActionIcon>
+              </Grid.Col>
+            </Grid>
+          ))}
+          <Group>
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconPlus size="0.8rem" />}
+              onClick={() => form.insertListItem('requiredForms', { name: '', formNumber: '', url: '', appealLevel: '' })}
+            >
+              Add Form
+            </Button>
+          </Group>
+
+          <Divider label="Denial Codes" labelPosition="left" />
+          {form.values.denialCodes.map((_, index) => (
+            <Stack key={index} gap="xs">
+              <Grid align="flex-end">
+                <Grid.Col span={2}>
+                  <TextInput label="Code" {...form.getInputProps(`denialCodes.${index}.code`)} />
+                </Grid.Col>
+                <Grid.Col span={6}>
+                  <TextInput label="Description" {...form.getInputProps(`denialCodes.${index}.description`)} />
+                </Grid.Col>
+                <Grid.Col span={3}>
+                  <Select
+                    label="Category"
+                    data={[
+                      { value: 'medical_necessity', label: 'Medical Necessity' },
+                      { value: 'documentation', label: 'Documentation' },
+                      { value: 'coding', label: 'Coding' },
+                      { value: 'eligibility', label: 'Eligibility' },
+                      { value: 'network', label: 'Network' },
+                      { value: 'experimental', label: 'Experimental' },
+                      { value: 'other', label: 'Other' },
+                    ]}
+                    {...form.getInputProps(`denialCodes.${index}.category`)}
+                  />
+                </Grid.Col>
+                <Grid.Col span={1}>
+                  <ActionIcon color="red" variant="subtle" mb={4} onClick={() => form.removeListItem('denialCodes', index)}>
+                    <IconTrash size="1rem" />
+                  </ActionIcon>
+                </Grid.Col>
+              </Grid>
+              <TextInput
+                placeholder="Appeal guidance, e.g. what evidence overturns this code"
+                {...form.getInputProps(`denialCodes.${index}.appealGuidance`)}
+              />
+            </Stack>
+          ))}
+          <Group>
+            <Button
+              size="xs"
+              variant="light"
+              leftSection={<IconPlus size="0.8rem" />}
+              onClick={() => form.insertListItem('denialCodes', { code: '', description: '', category: 'other', appealGuidance: '' })}
+            >
+              Add Denial Code
+            </Button>
+          </Group>
+
+          <Textarea label="Notes" autosize minRows={2} {...form.getInputProps('notes')} />
+
+          <Group justify="flex-end" mt="md">
+            <Button variant="subtle" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" loading={loading}>
+              Save Payer
+            </Button>
+          </Group>
+        </Stack>
+      </form>
+    </Modal>
+  );
+};
+
+export default PayerFormModal;
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { Select, type SelectProps } from '@mantine/core';
+import { IconBuildingHospital } from '@tabler/icons-react';
+import api from '../utils/api';
+
+export interface PayerAppealLevel {
+  level: number;
+  name: string;
+  filingWindowDays: number;
+  filingDayType?: 'calendar' | 'business';
+  // Unset means the patient group's default
+  filingClockStart?: 'denial_date' | 'received_date';
+  decisionTurnaroundDays?: number;
+  decisionDayType?: 'calendar' | 'business';
+}
+
+export interface PayerAddress {
+  attention?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+}
+
+export interface Payer {
+  _id: string;
+  name: string;
+  aliases: string[];
+  payerId?: string;
+  planType: 'commercial' | 'medicare_advantage' | 'medicaid' | 'other';
+  appealLevels: PayerAppealLevel[];
+  externalReview?: {
+    available: boolean;
+    filingWindowDays?: number;
+    filingDayType?: 'calendar' | 'business';
+    decisionTurnaroundDays?: number;
+  };
+  expeditedReview: {
+    available: boolean;
+    turnaroundHours?: number;
+  };
+  submission: {
+    preferredChannel: 'fax' | 'portal' | 'mail';
+    fax?: string;
+    phone?: string;
+    portalUrl?: string;
+    mailingAddress?: PayerAddress;
+  };
+  requiredForms: Array<{
+    name: string;
+    formNumber?: string;
+    url?: string;
+    appealLevel?: number;
+    notes?: string;
+  }>;
+  denialCodes: Array<{
+    code: string;
+    description: string;
+    category: string;
+    appealGuidance?: string;
+  }>;
+  notes?: string;
+}
+
+// Loads the active payer profiles (list fields only)
+export const usePayers = () => {
+  const [payers, setPayers] = useState<Payer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPayers = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/payers');
+      if (response.data.success) {
+        setPayers(response.data.payers);
+      }
+    } catch (error) {
+      console.error('Failed to fetch payers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPayers();
+  }, []);
+
+  return { payers, loading, refresh: fetchPayers };
+};
+
+interface PayerSelectProps extends Omit<SelectProps, 'data' | 'onChange'> {
+  payers: Payer[];
+  onChange: (payer: Payer | null) => void;
+}
+
+export const PayerSelect = ({ payers, onChange, ...props }: PayerSelectProps) => (
+  <Select
+    searchable
+    clearable
+    nothingFoundMessage="No payer profile found"
+    leftSection={<IconBuildingHospital size="1rem" />}
+    data={payers.map(payer => ({ value: payer._id, label: payer.name }))}
+    onChange={(value) => onChange(payers.find(payer => payer._id === value) || null)}
+    {...props}
+  />
+);
@@ -57,6 +57,7 @@ const checkTypeLabels: Record<string, string> = {
   medical_necessity: 'Medical Necessity',
   documentation_completeness: 'Documentation',
   prior_authorization_history: 'Prior Authorization History',
+  payer_requirements: 'Payer Requirements',
 };
 
 const checkTypeDescriptions: Record<string, string> = {
@@ -67,6 +68,7 @@ const checkTypeDescriptions: Record<string, string> = {
   medical_necessity: 'Reviews clinical justification for medical necessity',
   documentation_completeness: 'Checks for required supporting documentation',
   prior_authorization_history: 'Reviews similar requests and potential conflicts',
+  payer_requirements: "Checks the payer's filing window, required forms and denial codes",
 };
 
 export const PreSubmissionValidation: React.FC<PreSubmissionValidationProps> = ({
@@ -214,6 +216,17 @@ export const PreSubmissionValidation: React.FC<PreSubmissionValidationProps> = (
           </Alert>
         )}
 
+        {details.denialCode && (
+          <Alert color="blue" p="sm">
+            <Text size="sm">
+              <strong>{details.denialCode.code}:</strong> {details.denialCode.description}
+            </Text>
+            {details.denialCode.appealGuidance && (
+              <Text size="sm" mt={4}>{details.denialCode.appealGuidance}</Text>
+            )}
+          </Alert>
+        )}
+
         {details.missingCode && (
           <Alert color="red" p="sm">
             <Text size="sm">This field is required for submission</Text>
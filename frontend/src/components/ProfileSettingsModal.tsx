@@ -0,0 +1,230 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  Button,
+  Divider,
+  PasswordInput,
+  Badge,
+  Paper,
+  Loader,
+  Center,
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconDeviceDesktop, IconLogout } from '@tabler/icons-react';
+import { useAuth } from '../context/AuthContext';
+import api from '../utils/api';
+import MfaSettings from './MfaSettings';
+
+interface Session {
+  _id: string;
+  device: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+interface PasswordForm {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}
+
+interface ProfileSettingsModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+const ProfileSettingsModal = ({ opened, onClose }: ProfileSettingsModalProps) => {
+  const { user, changePassword, logout, logoutAll } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(false);
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [signingOut, setSigningOut] = useState<string | null>(null);
+
+  const form = useForm<PasswordForm>({
+    initialValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+    validate: {
+      currentPassword: (value) => (value ? null : 'Enter your current password'),
+      newPassword: (value) => {
+        if (value.length < 6) return 'Password must be at least 6 characters';
+        if (!/(?=.*[a-z])(?=.*[A-Z])/.test(value)) return 'Password must contain both uppercase and lowercase letters';
+        if (!/(?=.*\d)/.test(value)) return 'Password must contain at least one number';
+        return null;
+      },
+      confirmPassword: (value, values) => (value !== values.newPassword ? 'Passwords do not match' : null),
+    },
+  });
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoadingSessions(true);
+      const response = await api.get('/auth/sessions');
+      setSessions(response.data.sessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setLoadingSessions(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (opened) fetchSessions();
+  }, [opened, fetchSessions]);
+
+  const handleChangePassword = async (values: PasswordForm) => {
+    try {
+      setSavingPassword(true);
+      await changePassword(values.currentPassword, values.newPassword);
+      form.reset();
+      fetchSessions();
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleSignOut = async (session: Session) => {
+    if (session.current) {
+      onClose();
+      await logout();
+      return;
+    }
+
+    try {
+      setSigningOut(session._id);
+      await api.delete(`/auth/sessions/${session._id}`);
+      setSessions(current => current.filter(s => s._id !== session._id));
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to sign out device',
+        color: 'red',
+      });
+    } finally {
+      setSigningOut(null);
+    }
+  };
+
+  const handleSignOutAll = async () => {
+    try {
+      setSigningOut('all');
+      await logoutAll();
+      onClose();
+    } catch (error) {
+      // Error is handled in AuthContext
+    } finally {
+      setSigningOut(null);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Profile Settings" size="md">
+      <Stack gap="md">
+        <div>
+          <Text fw={500}>{user?.firstName} {user?.lastName}</Text>
+          <Text size="sm" c="dimmed">{user?.email}</Text>
+        </div>
+
+        <Divider />
+
+        <form onSubmit={form.onSubmit(handleChangePassword)}>
+          <Stack gap="sm">
+            <Text size="sm" fw={500}>Change password</Text>
+            <PasswordInput
+              label="Current password"
+              required
+              {...form.getInputProps('currentPassword')}
+            />
+            <PasswordInput
+              label="New password"
+              required
+              {...form.getInputProps('newPassword')}
+            />
+            <PasswordInput
+              label="Confirm new password"
+              required
+              {...form.getInputProps('confirmPassword')}
+            />
+            <Text size="xs" c="dimmed">
+              Changing your password signs you out on every other device.
+            </Text>
+            <Group justify="flex-end">
+              <Button type="submit" loading={savingPassword}>
+                Change password
+              </Button>
+            </Group>
+          </Stack>
+        </form>
+
+        <Divider />
+
+        {opened && <MfaSettings />}
+
+        <Divider />
+
+        <Group justify="space-between">
+          <Text size="sm" fw={500}>Signed-in devices</Text>
+          <Button
+            size="xs"
+            variant="light"
+            color="red"
+            leftSection={<IconLogout size="0.9rem" />}
+            loading={signingOut === 'all'}
+            onClick={handleSignOutAll}
+          >
+            Sign out everywhere
+          </Button>
+        </Group>
+
+        {loadingSessions ? (
+          <Center py="md">
+            <Loader size="sm" />
+          </Center>
+        ) : (
+          <Stack gap="xs">
+            {sessions.map(session => (
+              <Paper key={session._id} withBorder p="sm" radius="md">
+                <Group justify="space-between" wrap="nowrap">
+                  <Group gap="sm" wrap="nowrap">
+                    <IconDeviceDesktop size="1.2rem" />
+                    <div>
+                      <Group gap="xs">
+                        <Text size="sm" fw={500}>{session.device}</Text>
+                        {session.current && <Badge size="xs" color="green">This device</Badge>}
+                      </Group>
+                      <Text size="xs" c="dimmed">
+                        {session.ip ? `${session.ip} · ` : ''}Last active {new Date(session.lastSeenAt).toLocaleString()}
+                      </Text>
+                    </div>
+                  </Group>
+                  <Button
+                    size="xs"
+                    variant="subtle"
+                    color="red"
+                    loading={signingOut === session._id}
+                    onClick={() => handleSignOut(session)}
+                  >
+                    Sign out
+                  </Button>
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+    </Modal>
+  );
+};
+
+export default ProfileSettingsModal;
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import {
+  Menu,
+  Button,
+  Text,
+  Modal,
+  Stack,
+  Group,
+  Select,
+  Textarea,
+} from '@mantine/core';
+import { DateInput } from '@mantine/dates';
+import { useForm } from '@mantine/form';
+import { notifications } from '@mantine/notifications';
+import { IconChevronDown } from '@tabler/icons-react';
+import api from '../utils/api';
+
+interface StatusTransition {
+  status: string;
+  allowed: boolean;
+  blockedReason: string | null;
+  requiresOutcome: boolean;
+  outcomeResults: string[];
+}
+
+interface StatusTransitionMenuProps {
+  disputeId: string;
+  status: string;
+  onChanged: () => void;
+}
+
+const RESULT_LABELS: Record<string, string> = {
+  approved: 'Approved',
+  partial_approval: 'Partially approved',
+  denied: 'Denied',
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+// Status changes the server allows from the current status; approvals and denials ask for the payer's decision
+export const StatusTransitionMenu = ({ disputeId, status, onChanged }: StatusTransitionMenuProps) => {
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [pending, setPending] = useState<StatusTransition | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm({
+    initialValues: {
+      result: '',
+      decisionDate: new Date() as Date | null,
+      receivedDate: null as Date | null,
+      notes: '',
+    },
+    validate: {
+      decisionDate: (value) => (value ? null : 'Decision date is required'),
+    },
+  });
+
+  useEffect(() => {
+    api.get(`/disputes/${disputeId}/status/transitions`)
+      .then(response => setTransitions(response.data.transitions))
+      .catch(() => setTransitions([]));
+  }, [disputeId, status]);
+
+  const changeStatus = async (to: string, body: Record<string, unknown> = {}) => {
+    try {
+      setSaving(true);
+      await api.put(`/disputes/${disputeId}/status`, { status: to, ...body });
+      notifications.show({
+        title: 'Status Updated',
+        message: `Dispute marked ${formatStatus(to)}`,
+        color: 'green',
+      });
+      setPending(null);
+      onChanged();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Status Not Changed',
+        message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to update status',
+        color: 'red',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSelect = (transition: StatusTransition) => {
+    if (transition.requiresOutcome) {
+      form.reset();
+      form.setFieldValue('result', transition.outcomeResults[0]);
+      setPending(transition);
+      return;
+    }
+    changeStatus(transition.status);
+  };
+
+  const handleOutcome = (values: typeof form.values) => changeStatus(pending!.status, {
+    outcome: {
+      result: values.result,
+      decisionDate: values.decisionDate?.toISOString(),
+      receivedDate: values.receivedDate?.toISOString() || null,
+      notes: values.notes,
+    },
+  });
+
+  if (transitions.length === 0) return null;
+
+  return (
+    <>
+      <Menu position="bottom-end" width={280} shadow="md">
+        <Menu.Target>
+          <Button variant="light" size="xs" rightSection={<IconChevronDown size="0.9rem" />} loading={saving && !pending}>
+            Change Status
+          </Button>
+        </Menu.Target>
+        <Menu.Dropdown>
+          {transitions.map(transition => (
+            <Menu.Item key={transition.status} disabled={!transition.allowed} onClick={() => handleSelect(transition)}>
+              <Text size="sm" tt="capitalize">{formatStatus(transition.status)}</Text>
+              {transition.blockedReason && (
+                <Text size="xs" c="dimmed">{transition.blockedReason}</Text>
+              )}
+            </Menu.Item>
+          ))}
+        </Menu.Dropdown>
+      </Menu>
+
+      <Modal
+        opened={pending !== null}
+        onClose={() => setPending(null)}
+        title={`Mark ${pending ? formatStatus(pending.status) : ''}`}
+        centered
+      >
+        <form onSubmit={form.onSubmit(handleOutcome)}>
+          <Stack>
+            <Text size="sm" c="dimmed">Record the payer's decision on the current appeal round.</Text>
+            {pending && pending.outcomeResults.length > 1 && (
+              <Select
+                label="Decision"
+                data={pending.outcomeResults.map(value => ({ value, label: RESULT_LABELS[value] || value }))}
+                allowDeselect={false}
+                {...form.getInputProps('result')}
+              />
+            )}
+            <Group grow>
+              <DateInput label="Decision date" maxDate={new Date()} required {...form.getInputProps('decisionDate')} />
+              <DateInput label="Letter received" maxDate={new Date()} clearable {...form.getInputProps('receivedDate')} />
+            </Group>
+            <Textarea label="Notes" placeholder="Reason given by the payer" autosize minRows={2} {...form.getInputProps('notes')} />
+            <Group justify="flex-end">
+              <Button variant="subtle" onClick={() => setPending(null)}>Cancel</Button>
+              <Button type="submit" loading={saving}>Save</Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+    </>
+  );
+};
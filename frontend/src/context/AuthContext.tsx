@@ -1,7 +1,9 @@
 import { createContext, useContext, useReducer, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import { notifications } from '@mantine/notifications';
-import api from '../utils/api';
+import api, { refreshAccessToken, setAccessToken } from '../utils/api';
+
+export type OrganizationRole = 'org_admin' | 'billing_manager' | 'auditor' | 'member';
 
 interface User {
   id: string;
@@ -14,8 +16,24 @@ interface User {
     notifications: {
       email: boolean;
       inApp: boolean;
+      push: boolean;
+      disputeUpdates: boolean;
+      groupInvitations: boolean;
+      deadlineReminders: boolean;
+      analysisComplete: boolean;
+    };
+    digest?: {
+      frequency: 'off' | 'daily' | 'weekly';
+      time: string;
+      dayOfWeek: number;
+      timezone: string;
     };
   };
+  organization?: {
+    _id: string;
+    name: string;
+    role: OrganizationRole;
+  } | null;
   patientGroups: Array<{
     group: {
       _id: string;
@@ -32,6 +50,7 @@ interface User {
     relatedGroup?: string;
     createdAt: string;
   }>;
+  mfaEnabled?: boolean;
 }
 
 interface AuthState {
@@ -45,13 +64,14 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'AUTH_FAILURE'; payload: string }
+  | { type: 'MFA_REQUIRED' }
   | { type: 'LOGOUT' }
   | { type: 'UPDATE_USER'; payload: Partial<User> }
   | { type: 'CLEAR_ERROR' };
 
 const initialState: AuthState = {
   user: null,
-  token: localStorage.getItem('token'),
+  token: null,
   loading: true,
   error: null,
 };
@@ -80,6 +100,12 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         loading: false,
         error: action.payload,
       };
+    case 'MFA_REQUIRED':
+      return {
+        ...state,
+        loading: false,
+        error: null,
+      };
     case 'LOGOUT':
       return {
         ...state,
@@ -104,12 +130,20 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
 };
 
 interface AuthContextType extends AuthState {
-  login: (email: string, password: string) => Promise<void>;
-  register: (data: RegisterData) => Promise<void>;
-  logout: () => void;
+  // Resolves to an MFA token when the account needs a code as well; pass it to verifyMfa
+  login: (email: string, password: string) => Promise<string | undefined>;
+  verifyMfa: (mfaToken: string, code: string) => Promise<void>;
+  // Resolves to the patient group joined through `inviteToken`, if any
+  register: (data: RegisterData) => Promise<string | undefined>;
+  logout: () => Promise<void>;
+  // Signs out every device, this one included
+  logoutAll: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
   forgotPassword: (email: string) => Promise<void>;
-  resetPassword: (token: string, password: string) => Promise<void>;
+  // Like login, resolves to an MFA token when the account needs a code to finish signing in
+  resetPassword: (token: string, password: string) => Promise<string | undefined>;
   updatePreferences: (preferences: Partial<User['preferences']>) => Promise<void>;
+  addNotification: (notification: User['notifications'][number]) => void;
   clearError: () => void;
   refreshUser: () => Promise<void>;
 }
@@ -119,6 +153,7 @@ interface RegisterData {
   password: string;
   firstName: string;
   lastName: string;
+  inviteToken?: string;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -138,13 +173,12 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
 
-  // Check for existing token on mount
+  // Resume the session from the refresh cookie on mount
   useEffect(() => {
     const checkAuth = async () => {
-      const token = localStorage.getItem('token');
+      const token = await refreshAccessToken();
       if (token) {
         try {
-          api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
           const response = await api.get('/auth/me');
           
           if (response.data.success) {
@@ -156,13 +190,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
               },
             });
           } else {
-            localStorage.removeItem('token');
-            delete api.defaults.headers.common['Authorization'];
+            setAccessToken(null);
             dispatch({ type: 'LOGOUT' });
           }
         } catch (error) {
-          localStorage.removeItem('token');
-          delete api.defaults.headers.common['Authorization'];
+          setAccessToken(null);
           dispatch({ type: 'LOGOUT' });
         }
       } else {
@@ -182,11 +214,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         password,
       });
 
+      if (response.data.mfaRequired) {
+        dispatch({ type: 'MFA_REQUIRED' });
+        return response.data.mfaToken;
+      }
+
       if (response.data.success) {
         const { user, token } = response.data;
         
-        localStorage.setItem('token', token);
-        api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+        setAccessToken(token);
         
         dispatch({
           type: 'AUTH_SUCCESS',
@@ -213,6 +249,54 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
+  const verifyMfa = async (mfaToken: string, code: string) => {
+    try {
+      dispatch({ type: 'AUTH_START' });
+
+      const response = await api.post('/auth/mfa/verify', {
+        mfaToken,
+        code,
+      });
+
+      if (response.data.success) {
+        const { user, token, recoveryCodesRemaining } = response.data;
+
+        setAccessToken(token);
+
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: { user, token },
+        });
+
+        notifications.show({
+          title: 'Welcome back!',
+          message: `Hello, ${user.firstName}!`,
+          color: 'green',
+        });
+
+        if (recoveryCodesRemaining <= 2) {
+          notifications.show({
+            title: 'Recovery Codes Running Low',
+            message: `You have ${recoveryCodesRemaining} recovery code${recoveryCodesRemaining === 1 ? '' : 's'} left. Make new ones in Profile Settings.`,
+            color: 'orange',
+          });
+        }
+      }
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Verification failed';
+      // A wrong code leaves the sign-in open for another try
+      dispatch({ type: 'MFA_REQUIRED' });
+
+      notifications.show({
+        title: 'Verification Failed',
+        message,
+        color: 'red',
+      });
+
+      throw error;
+    }
+  };
+
   const register = async (data: RegisterData) => {
     try {
       dispatch({ type: 'AUTH_START' });
@@ -222,8 +306,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       if (response.data.success) {
         const { user, token } = response.data;
         
-        localStorage.setItem('token', token);
-        api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+        setAccessToken(token);
         
         dispatch({
           type: 'AUTH_SUCCESS',
@@ -235,6 +318,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           message: `Welcome, ${user.firstName}!`,
           color: 'green',
         });
+
+        return response.data.joinedGroup;
       }
     } catch (error: any) {
       const message = error.response?.data?.message || 'Registration failed';
@@ -250,18 +335,75 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    delete api.defaults.headers.common['Authorization'];
+  const endSession = (message: string) => {
+    setAccessToken(null);
     dispatch({ type: 'LOGOUT' });
     
     notifications.show({
       title: 'Logged Out',
-      message: 'You have been successfully logged out',
+      message,
       color: 'blue',
     });
   };
 
+  const logout = async () => {
+    try {
+      // Ends the session on the server and clears the refresh cookie
+      await api.post('/auth/logout');
+    } catch (error) {
+      console.error('Failed to end session on the server:', error);
+    }
+    endSession('You have been successfully logged out');
+  };
+
+  const logoutAll = async () => {
+    try {
+      await api.post('/auth/logout-all');
+      endSession('You have been logged out on all devices');
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to log out other devices';
+      notifications.show({
+        title: 'Error',
+        message,
+        color: 'red',
+      });
+      throw error;
+    }
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    try {
+      const response = await api.put('/auth/password', {
+        currentPassword,
+        newPassword,
+      });
+
+      if (response.data.success) {
+        // Other devices were signed out; this one continues on a new session
+        const { token } = response.data;
+        setAccessToken(token);
+        dispatch({
+          type: 'AUTH_SUCCESS',
+          payload: { user: state.user!, token },
+        });
+
+        notifications.show({
+          title: 'Password Changed',
+          message: 'Your password was changed and your other devices were signed out',
+          color: 'green',
+        });
+      }
+    } catch (error: any) {
+      const message = error.response?.data?.message || 'Failed to change password';
+      notifications.show({
+        title: 'Change Failed',
+        message,
+        color: 'red',
+      });
+      throw error;
+    }
+  };
+
   const forgotPassword = async (email: string) => {
     try {
       const response = await api.post('/auth/forgot-password', { email });
@@ -291,11 +433,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         password,
       });
 
+      if (response.data.mfaRequired) {
+        notifications.show({
+          title: 'Password Reset',
+          message: 'Your password has been reset. Enter a code from your authenticator app to sign in.',
+          color: 'green',
+        });
+        return response.data.mfaToken;
+      }
+
       if (response.data.success) {
         const { user, token: newToken } = response.data;
         
-        localStorage.setItem('token', newToken);
-        api.defaults.headers.common['Authorization'] = `Bearer ${newToken}`;
+        setAccessToken(newToken);
         
         dispatch({
           type: 'AUTH_SUCCESS',
@@ -361,6 +511,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   };
 
+  // Notifications pushed over the realtime channel
+  const addNotification = (notification: User['notifications'][number]) => {
+    if (!state.user) return;
+    dispatch({
+      type: 'UPDATE_USER',
+      payload: { notifications: [notification, ...state.user.notifications].slice(0, 50) },
+    });
+  };
+
   const clearError = () => {
     dispatch({ type: 'CLEAR_ERROR' });
   };
@@ -368,11 +527,15 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const value: AuthContextType = {
     ...state,
     login,
+    verifyMfa,
     register,
     logout,
+    logoutAll,
+    changePassword,
     forgotPassword,
     resetPassword,
     updatePreferences,
+    addNotification,
     clearError,
     refreshUser,
   };
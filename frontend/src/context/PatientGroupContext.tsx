@@ -2,6 +2,10 @@ import { createContext, useContext, useReducer } from 'react';
 import type { ReactNode } from 'react';
 import { notifications } from '@mantine/notifications';
 import api from '../utils/api';
+import type { Letterhead } from '../components/LetterheadSettingsModal';
+import type { DeadlineSettings } from '../components/DeadlineSettingsModal';
+import type { GroupRole } from '../components/GroupRolesModal';
+import type { GroupAccess } from '../utils/permissions';
 
 interface PatientGroup {
   _id: string;
@@ -21,11 +25,22 @@ interface PatientGroup {
       email: string;
     };
     permission: 'view' | 'edit' | 'admin';
+    role?: string;
     joinedAt: string;
   }>;
+  roles?: GroupRole[];
   patients: any[];
+  letterhead?: Letterhead;
+  deadlineSettings?: DeadlineSettings;
+  settings?: {
+    allowMemberInvites: boolean;
+    autoApproveJoinRequests: boolean;
+    requireMfa?: boolean;
+  };
   memberCount: number;
   patientCount: number;
+  // The current user's role and permissions, sent with the group list
+  access?: GroupAccess;
   createdAt: string;
   updatedAt: string;
 }
@@ -128,7 +143,7 @@ interface PatientGroupContextType extends PatientGroupState {
   updatePatientGroup: (id: string, data: Partial<CreatePatientGroupData>) => Promise<void>;
   deletePatientGroup: (id: string) => Promise<void>;
   inviteToGroup: (groupId: string, email: string, permission: 'view' | 'edit') => Promise<void>;
-  joinGroup: (token: string) => Promise<void>;
+  joinGroup: (token: string) => Promise<PatientGroup | undefined>;
   clearError: () => void;
 }
 
@@ -284,6 +299,7 @@ export const PatientGroupProvider = ({ children }: PatientGroupProviderProps) =>
           message: 'Successfully joined the patient group',
           color: 'green',
         });
+        return response.data.patientGroup;
       }
     } catch (error: any) {
       const message = error.response?.data?.message || 'Failed to join group';
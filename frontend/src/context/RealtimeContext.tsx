@@ -0,0 +1,139 @@
+import { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { getAccessToken, getWebSocketUrl, refreshAccessToken } from '../utils/api';
+import { useAuth } from './AuthContext';
+
+// Events pushed by the API over /ws. Dispute events only name the dispute; fetch it for the details.
+export interface RealtimeEvents {
+  connected: { userId: string };
+  notification: {
+    _id: string;
+    type: string;
+    message: string;
+    isRead: boolean;
+    relatedGroup?: string;
+    relatedDispute?: string;
+    createdAt: string;
+  };
+  'dispute:status': { disputeId: string; changedBy: string };
+  'dispute:analysis': { disputeId: string; requestedBy: string };
+  'dispute:deadline_flag': { disputeId: string };
+}
+
+type RealtimeEventType = keyof RealtimeEvents;
+type Handler<T extends RealtimeEventType> = (data: RealtimeEvents[T]) => void;
+
+interface RealtimeContextType {
+  connected: boolean;
+  subscribe: <T extends RealtimeEventType>(type: T, handler: Handler<T>) => () => void;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// Calls `handler` for every event of `type`; the latest handler is always used, so it can close over state
+export const useRealtimeEvent = <T extends RealtimeEventType>(type: T, handler: Handler<T>) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribe(type, (data) => handlerRef.current(data)), [subscribe, type]);
+};
+
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [connected, setConnected] = useState(false);
+  const handlers = useRef(new Map<string, Set<(data: any) => void>>());
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+    let refreshedToken = false;
+
+    const connect = () => {
+      const current = new WebSocket(getWebSocketUrl('/ws'));
+      socket = current;
+
+      // The token goes in the first message rather than the URL, which proxies and servers log. It is
+      // read at connect time, so reconnects use the latest access token.
+      current.onopen = () => {
+        current.send(JSON.stringify({ type: 'auth', token: getAccessToken() || '' }));
+      };
+
+      current.onmessage = (message) => {
+        try {
+          const { type, data } = JSON.parse(message.data);
+          if (type === 'connected') {
+            attempts = 0;
+            refreshedToken = false;
+            setConnected(true);
+          }
+          handlers.current.get(type)?.forEach(handler => handler(data));
+        } catch (error) {
+          console.error('Invalid realtime message:', error);
+        }
+      };
+
+      current.onclose = (event) => {
+        setConnected(false);
+        if (closed) return;
+
+        // 4401 means the token was rejected, usually because it expired while disconnected, or the
+        // session was checked and has ended. Refresh the token once; if the new one is rejected too, the
+        // session has ended and the next login reconnects.
+        if (event.code === 4401) {
+          if (refreshedToken) return;
+          refreshedToken = true;
+          refreshAccessToken().then(newToken => {
+            if (newToken && !closed) connect();
+          });
+          return;
+        }
+
+        // Back off 1s, 2s, 4s... up to 30s
+        const delay = Math.min(1000 * Math.pow(2, attempts), MAX_RECONNECT_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [userId]);
+
+  const subscribe = useCallback(<T extends RealtimeEventType>(type: T, handler: Handler<T>) => {
+    if (!handlers.current.has(type)) {
+      handlers.current.set(type, new Set());
+    }
+    handlers.current.get(type)!.add(handler);
+
+    return () => {
+      handlers.current.get(type)?.delete(handler);
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ connected, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Container,
+  Title,
+  Text,
+  Button,
+  Group,
+  Stack,
+  Paper,
+  Table,
+  Badge,
+  ActionIcon,
+  TextInput,
+  Select,
+  Skeleton,
+  Pagination,
+  Tooltip,
+  SimpleGrid,
+} from '@mantine/core';
+import { DateInput } from '@mantine/dates';
+import { useDebouncedValue } from '@mantine/hooks';
+import { notifications } from '@mantine/notifications';
+import {
+  IconArrowLeft,
+  IconSearch,
+  IconDownload,
+  IconShieldCheck,
+  IconShieldX,
+  IconAlertTriangle,
+} from '@tabler/icons-react';
+
+// Components
+import AppLayout from '../components/AppLayout';
+
+// Context
+import { usePatientGroup } from '../context/PatientGroupContext';
+import api, { downloadFile } from '../utils/api';
+
+interface AuditLogEntry {
+  _id: string;
+  sequence: number;
+  timestamp: string;
+  user?: string;
+  userName?: string;
+  userEmail?: string;
+  action: 'read' | 'create' | 'update' | 'delete';
+  method: string;
+  route: string;
+  resourceType: 'patient' | 'dispute' | 'patient_group';
+  resourceId?: string;
+  params?: Record<string, string>;
+  statusCode?: number;
+  ip?: string;
+  userAgent?: string;
+  intact: boolean;
+}
+
+interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt: { sequence: number; reason: string } | null;
+}
+
+const ACTION_COLORS: Record<AuditLogEntry['action'], string> = {
+  read: 'gray',
+  create: 'green',
+  update: 'blue',
+  delete: 'red',
+};
+
+const RESOURCE_LABELS: Record<AuditLogEntry['resourceType'], string> = {
+  patient: 'Patient',
+  dispute: 'Dispute',
+  patient_group: 'Patient group',
+};
+
+const PAGE_SIZE = 50;
+
+const AuditLogPage = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const { currentGroup, fetchPatientGroup } = usePatientGroup();
+
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [forbidden, setForbidden] = useState(false);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+
+  const [search, setSearch] = useState('');
+  const [debouncedSearch] = useDebouncedValue(search, 300);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [action, setAction] = useState<string | null>(null);
+  const [resourceType, setResourceType] = useState<string | null>(null);
+  const [from, setFrom] = useState<Date | null>(null);
+  const [to, setTo] = useState<Date | null>(null);
+
+  // `to` picks a day, so include everything up to its end
+  const filters = {
+    search: debouncedSearch || undefined,
+    user: userId || undefined,
+    action: action || undefined,
+    resourceType: resourceType || undefined,
+    from: from?.toISOString(),
+    to: to ? new Date(to.getFullYear(), to.getMonth(), to.getDate(), 23, 59, 59, 999).toISOString() : undefined,
+  };
+
+  useEffect(() => {
+    if (groupId) {
+      fetchPatientGroup(groupId);
+      api.get(`/patient-groups/${groupId}/audit-log/verify`)
+        .then(response => setVerification(response.data))
+        .catch(() => setVerification(null));
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, userId, action, resourceType, from, to]);
+
+  useEffect(() => {
+    if (groupId) {
+      fetchEntries();
+    }
+  }, [groupId, page, debouncedSearch, userId, action, resourceType, from, to]);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get(`/patient-groups/${groupId}/audit-log`, {
+        params: { ...filters, page, limit: PAGE_SIZE },
+      });
+      setEntries(response.data.entries);
+      setTotal(response.data.total);
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        setForbidden(true);
+        return;
+      }
+      console.error('Failed to fetch audit log:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to load the audit log',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await downloadFile(`/patient-groups/${groupId}/audit-log/export`, filters, 'audit-log.csv');
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      notifications.show({
+        title: 'Export Failed',
+        message: 'Failed to export the audit log',
+        color: 'red',
+      });
+    }
+  };
+
+  const describeResource = (entry: AuditLogEntry) => {
+    const details = Object.entries(entry.params || {}).map(([key, value]) => `${key} ${value}`);
+    return [entry.resourceId, ...details].filter(Boolean).join(', ');
+  };
+
+  return (
+    <AppLayout>
+      <Container size="xl">
+        <Stack gap="xl">
+          {/* Header */}
+          <Group>
+            <ActionIcon variant="subtle" onClick={() => navigate(`/group/${groupId}`)}>
+              <IconArrowLeft size="1.2rem" />
+            </ActionIcon>
+            <div style={{ flex: 1 }}>
+              <Group justify="space-between">
+                <div>
+                  <Title order={1}>Audit Log</Title>
+                  <Text c="dimmed" size="lg" mt="xs">
+                    Every view and change of patient and dispute records in {currentGroup?.name || 'this group'}
+                  </Text>
+                </div>
+                <Group>
+                  {verification && (
+                    <Tooltip
+                      label={verification.valid
+                        ? `All ${verification.checked} entries match their hashes`
+                        : `Entry ${verification.brokenAt?.sequence}: ${verification.brokenAt?.reason}`}
+                    >
+                      <Badge
+                        size="lg"
+                        color={verification.valid ? 'green' : 'red'}
+                        leftSection={verification.valid ? <IconShieldCheck size="0.9rem" /> : <IconShieldX size="0.9rem" />}
+                      >
+                        {verification.valid ? 'Chain intact' : 'Chain broken'}
+                      </Badge>
+                    </Tooltip>
+                  )}
+                  <Button
+                    leftSection={<IconDownload size="1rem" />}
+                    variant="light"
+                    onClick={handleExport}
+                    disabled={forbidden}
+                  >
+                    Export CSV
+                  </Button>
+                </Group>
+              </Group>
+            </div>
+          </Group>
+
+          {forbidden ? (
+            <Paper p="xl" withBorder>
+              <Text c="dimmed" ta="center">Only group admins can view the audit log</Text>
+            </Paper>
+          ) : (
+            <>
+              {/* Filters */}
+              <SimpleGrid cols={{ base: 1, sm: 2, md: 3, lg: 6 }}>
+                <TextInput
+                  placeholder="Search user, route or ID"
+                  leftSection={<IconSearch size="1rem" />}
+                  value={search}
+                  onChange={(event) => setSearch(event.currentTarget.value)}
+                />
+                <Select
+                  placeholder="All users"
+                  clearable
+                  searchable
+                  data={(currentGroup?.members || []).map(member => ({
+                    value: member.user._id,
+                    label: `${member.user.firstName} ${member.user.lastName}`,
+                  }))}
+                  value={userId}
+                  onChange={setUserId}
+                />
+                <Select
+                  placeholder="All actions"
+                  clearable
+                  data={[
+                    { value: 'read', label: 'Read' },
+                    { value: 'create', label: 'Create' },
+                    { value: 'update', label: 'Update' },
+                    { value: 'delete', label: 'Delete' },
+                  ]}
+                  value={action}
+                  onChange={setAction}
+                />
+                <Select
+                  placeholder="All resources"
+                  clearable
+                  data={Object.entries(RESOURCE_LABELS).map(([value, label]) => ({ value, label }))}
+                  value={resourceType}
+                  onChange={setResourceType}
+                />
+                <DateInput placeholder="From" clearable value={from} onChange={setFrom} maxDate={to || undefined} />
+                <DateInput placeholder="To" clearable value={to} onChange={setTo} minDate={from || undefined} />
+              </SimpleGrid>
+
+              <Paper withBorder>
+                {loading ? (
+                  <Stack p="md">
+                    {Array.from({ length: 6 }).map((_, index) => (
+                      <Skeleton key={index} height={32} />
+                    ))}
+                  </Stack>
+                ) : entries.length === 0 ? (
+                  <Text c="dimmed" ta="center" p="xl">
+                    No audit entries match these filters
+                  </Text>
+                ) : (
+                  <Table.ScrollContainer minWidth={900}>
+                    <Table highlightOnHover>
+                      <Table.Thead>
+                        <Table.Tr>
+                          <Table.Th>#</Table.Th>
+                          <Table.Th>Time</Table.Th>
+                          <Table.Th>User</Table.Th>
+                          <Table.Th>Action</Table.Th>
+                          <Table.Th>Request</Table.Th>
+                          <Table.Th>Resource</Table.Th>
+                          <Table.Th>Status</Table.Th>
+                          <Table.Th>IP Address</Table.Th>
+                        </Table.Tr>
+                      </Table.Thead>
+                      <Table.Tbody>
+                        {entries.map(entry => (
+                          <Table.Tr key={entry._id} bg={entry.intact ? undefined : 'var(--mantine-color-red-light)'}>
+                            <Table.Td>
+                              <Group gap={4} wrap="nowrap">
+                                <Text size="sm">{entry.sequence}</Text>
+                                {!entry.intact && (
+                                  <Tooltip label="This entry does not match its hash">
+                                    <IconAlertTriangle size="0.9rem" color="var(--mantine-color-red-6)" />
+                                  </Tooltip>
+                                )}
+                              </Group>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm">{new Date(entry.timestamp).toLocaleString()}</Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm">{entry.userName}</Text>
+                              <Text size="xs" c="dimmed">{entry.userEmail}</Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Badge color={ACTION_COLORS[entry.action]} variant="light">
+                                {entry.action}
+                              </Badge>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm" ff="monospace">{entry.method} {entry.route}</Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Text size="sm">{RESOURCE_LABELS[entry.resourceType]}</Text>
+                              <Text size="xs" c="dimmed" ff="monospace">{describeResource(entry)}</Text>
+                            </Table.Td>
+                            <Table.Td>
+                              <Badge color={entry.statusCode && entry.statusCode < 400 ? 'green' : 'orange'} variant="outline">
+                                {entry.statusCode}
+                              </Badge>
+                            </Table.Td>
+                            <Table.Td>
+                              <Tooltip label={entry.userAgent || 'Unknown user agent'} multiline w={300}>
+                                <Text size="sm">{entry.ip}</Text>
+                              </Tooltip>
+                            </Table.Td>
+                          </Table.Tr>
+                        ))}
+                      </Table.Tbody>
+                    </Table>
+                  </Table.ScrollContainer>
+                )}
+              </Paper>
+
+              {total > PAGE_SIZE && (
+                <Group justify="space-between">
+                  <Text size="sm" c="dimmed">{total} entries</Text>
+                  <Pagination value={page} onChange={setPage} total={Math.ceil(total / PAGE_SIZE)} />
+                </Group>
+              )}
+            </>
+          )}
+        </Stack>
+      </Container>
+    </AppLayout>
+  );
+};
+
+export default AuditLogPage;
@@ -23,6 +23,7 @@ import {
 } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import api from '../utils/api';
+import { PayerSelect, usePayers } from '../components/PayerSelect';
 
 interface CreatePatientModalProps {
   opened: boolean;
@@ -37,6 +38,7 @@ interface PatientFormData {
   dateOfBirth: Date | null;
   gender: string;
   insuranceProvider: string;
+  payerId: string;
   policyNumber: string;
   groupNumber: string;
   subscriberId: string;
@@ -57,6 +59,7 @@ const CreatePatientModal = ({ opened, onClose, groupId, onSuccess }: CreatePatie
   const [loading, setLoading] = useState(false);
   const [activeStep, setActiveStep] = useState(0);
   const [files, setFiles] = useState<File[]>([]);
+  const { payers } = usePayers();
 
   const form = useForm<PatientFormData>({
     initialValues: {
@@ -65,6 +68,7 @@ const CreatePatientModal = ({ opened, onClose, groupId, onSuccess }: CreatePatie
       dateOfBirth: null,
       gender: '',
       insuranceProvider: '',
+      payerId: '',
       policyNumber: '',
       groupNumber: '',
       subscriberId: '',
@@ -97,6 +101,7 @@ const CreatePatientModal = ({ opened, onClose, groupId, onSuccess }: CreatePatie
         patientGroup: groupId,
         insuranceInfo: {
           provider: values.insuranceProvider.trim(),
+          payer: values.payerId || undefined,
           policyNumber: values.policyNumber.trim(),
           groupNumber: values.groupNumber.trim(),
           subscriberId: values.subscriberId.trim(),
@@ -289,6 +294,18 @@ const CreatePatientModal = ({ opened, onClose, groupId, onSuccess }: CreatePatie
             icon={<IconShieldCheck size="1rem" />}
           >
             <Stack mt="md">
+              <PayerSelect
+                label="Payer Profile"
+                description="Links the patient to the payer's appeal rules and deadlines"
+                placeholder="Select a payer"
+                payers={payers}
+                value={form.values.payerId || null}
+                onChange={(payer) => {
+                  form.setFieldValue('payerId', payer?._id || '');
+                  if (payer) form.setFieldValue('insuranceProvider', payer.name);
+                }}
+              />
+
               <TextInput
                 label="Insurance Provider"
                 placeholder="Blue Cross Blue Shield"
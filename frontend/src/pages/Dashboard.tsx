@@ -14,6 +14,7 @@ import {
   Paper,
   ThemeIcon,
   Skeleton,
+  Table,
 } from '@mantine/core';
 import {
   IconPlus,
@@ -28,6 +29,7 @@ import {
   IconClipboardData,
   IconTrendingUp,
   IconAlertTriangle,
+  IconBuildingCommunity,
 } from '@tabler/icons-react';
 import { useDisclosure } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
@@ -41,12 +43,37 @@ import { DeadlineAlerts, useDeadlineAlerts } from '../components/DeadlineAlerts'
 // Context
 import { useAuth } from '../context/AuthContext';
 import { usePatientGroup } from '../context/PatientGroupContext';
+import { useRealtimeEvent } from '../context/RealtimeContext';
+import api from '../utils/api';
+
+interface OverviewCounts {
+  total: number;
+  open: number;
+  approved: number;
+  denied: number;
+  successRate: number | null;
+  deadlines: { overdue: number; urgent: number; warning: number };
+}
+
+interface OrganizationOverview {
+  groups: Array<OverviewCounts & {
+    _id: string;
+    name: string;
+    memberCount: number;
+    patientCount: number;
+  }>;
+  totals: OverviewCounts & { groups: number; patients: number };
+}
+
+// Organization roles that can see every group's numbers
+const OVERVIEW_ROLES = ['org_admin', 'billing_manager', 'auditor'];
 
 const Dashboard = () => {
   const { user } = useAuth();
   const { patientGroups, loading, fetchPatientGroups, deletePatientGroup } = usePatientGroup();
   const [createModalOpened, { open: openCreateModal, close: closeCreateModal }] = useDisclosure(false);
   const [statsLoading, setStatsLoading] = useState(true);
+  const [overview, setOverview] = useState<OrganizationOverview | null>(null);
   
   // Add deadline alerts hook
   const { summary: deadlineSummary, hasAlerts, alertCount } = useDeadlineAlerts();
@@ -74,6 +101,28 @@ const Dashboard = () => {
     }, 1000);
   }, []);
 
+  useEffect(() => {
+    const organization = user?.organization;
+    if (!organization || !OVERVIEW_ROLES.includes(organization.role)) {
+      setOverview(null);
+      return;
+    }
+
+    api.get(`/organizations/${organization._id}/overview`)
+      .then(response => setOverview(response.data))
+      .catch(error => console.error('Failed to load organization overview:', error));
+  }, [user?.organization?._id, user?.organization?.role]);
+
+  // Invitations and group changes show up without a reload
+  useRealtimeEvent('notification', (notification) => {
+    if (notification.type === 'invitation' || notification.type === 'group_invitation') {
+      setStats(current => ({ ...current, pendingInvitations: current.pendingInvitations + 1 }));
+    }
+    if (notification.relatedGroup || notification.type === 'group_update') {
+      fetchPatientGroups();
+    }
+  });
+
   const handleDeleteGroup = async (groupId: string, groupName: string) => {
     try {
       await deletePatientGroup(groupId);
@@ -158,6 +207,60 @@ const Dashboard = () => {
             />
           </SimpleGrid>
 
+          {/* Organization Overview */}
+          {overview && (
+            <div>
+              <Group justify="space-between" mb="md">
+                <Group gap="xs">
+                  <IconBuildingCommunity size="1.5rem" />
+                  <Title order={2}>{user?.organization?.name}</Title>
+                </Group>
+                <Text c="dimmed" size="sm">
+                  {overview.totals.open} open disputes across {overview.totals.groups} groups
+                  {overview.totals.successRate !== null && ` · ${overview.totals.successRate}% success rate`}
+                </Text>
+              </Group>
+              <Paper withBorder radius="md">
+                <Table highlightOnHover>
+                  <Table.Thead>
+                    <Table.Tr>
+                      <Table.Th>Group</Table.Th>
+                      <Table.Th>Patients</Table.Th>
+                      <Table.Th>Open Disputes</Table.Th>
+                      <Table.Th>Overdue</Table.Th>
+                      <Table.Th>Urgent</Table.Th>
+                      <Table.Th>Success Rate</Table.Th>
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {overview.groups.map((group) => (
+                      <Table.Tr
+                        key={group._id}
+                        style={{ cursor: 'pointer' }}
+                        onClick={() => window.location.href = `/group/${group._id}`}
+                      >
+                        <Table.Td>{group.name}</Table.Td>
+                        <Table.Td>{group.patientCount}</Table.Td>
+                        <Table.Td>{group.open}</Table.Td>
+                        <Table.Td>
+                          {group.deadlines.overdue > 0
+                            ? <Badge color="red" size="sm">{group.deadlines.overdue}</Badge>
+                            : 0}
+                        </Table.Td>
+                        <Table.Td>
+                          {group.deadlines.urgent > 0
+                            ? <Badge color="orange" size="sm">{group.deadlines.urgent}</Badge>
+                            : 0}
+                        </Table.Td>
+                        <Table.Td>{group.successRate !== null ? `${group.successRate}%` : '—'}</Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              </Paper>
+            </div>
+          )}
+
           {/* Patient Groups */}
           <div>
             <Group justify="space-between" mb="md">
@@ -176,9 +279,8 @@ const Dashboard = () => {
             ) : patientGroups && patientGroups.length > 0 ? (
               <SimpleGrid cols={{ base: 1, sm: 2, lg: 3 }} spacing="lg">
                 {patientGroups.map((group) => {
-                  const userPermission = group.members?.find(
-                    (member) => member.user._id === user?.id
-                  )?.permission || 'view';
+                  const permissions = group.access?.permissions || [];
+                  const role = group.access?.role || group.access?.organizationRole || 'view';
 
                   return (
                     <Card
@@ -209,16 +311,23 @@ const Dashboard = () => {
                             </ActionIcon>
                           </Menu.Target>
                           <Menu.Dropdown>
-                            <Menu.Item leftSection={<IconEdit size="0.9rem" />}>
-                              Edit Group
-                            </Menu.Item>
-                            <Menu.Item leftSection={<IconUserPlus size="0.9rem" />}>
-                              Invite Members
-                            </Menu.Item>
-                            <Menu.Item leftSection={<IconSettings size="0.9rem" />}>
-                              Settings
-                            </Menu.Item>
-                            {userPermission === 'admin' && (
+                            {permissions.includes('group.update') && (
+                              <Menu.Item leftSection={<IconEdit size="0.9rem" />}>
+                                Edit Group
+                              </Menu.Item>
+                            )}
+                            {permissions.includes('member.invite') && (
+                              <Menu.Item leftSection={<IconUserPlus size="0.9rem" />}>
+                                Invite Members
+                              </Menu.Item>
+                            )}
+                            {permissions.includes('group.update') && (
+                              <Menu.Item leftSection={<IconSettings size="0.9rem" />}>
+                                Settings
+                              </Menu.Item>
+                            )}
+                            {/* Only the owner can delete a group */}
+                            {group.owner?._id === user?.id && (
                               <>
                                 <Menu.Divider />
                                 <Menu.Item
@@ -252,7 +361,7 @@ const Dashboard = () => {
                             {group.patientCount} patients
                           </Text>
                         </Group>
-                        {getPermissionBadge(userPermission)}
+                        {getPermissionBadge(role)}
                       </Group>
 
                       <Group justify="space-between" mt="md">
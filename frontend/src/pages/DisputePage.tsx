@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   Container,
@@ -19,6 +19,7 @@ import {
   Tabs,
   Timeline,
   ThemeIcon,
+  Loader,
 } from '@mantine/core';
 import {
   IconArrowLeft,
@@ -28,6 +29,9 @@ import {
   IconDownload,
   IconClock,
   IconSend,
+  IconAlertTriangle,
+  IconPlayerStop,
+  IconEye,
 } from '@tabler/icons-react';
 import { notifications } from '@mantine/notifications';
 import { useForm } from '@mantine/form';
@@ -36,10 +40,24 @@ import { useForm } from '@mantine/form';
 import AppLayout from '../components/AppLayout';
 import { PreSubmissionValidation } from '../components/PreSubmissionValidation';
 import { DeadlineAlerts } from '../components/DeadlineAlerts';
-import api from '../utils/api';
+import { AiJobProgress, useAiJobs, type AiJob } from '../components/AiJobProgress';
+import { GeneratedDocumentCard, type GeneratedDocument } from '../components/GeneratedDocumentCard';
+import { AppealPacketBuilder, type DisputeAttachment } from '../components/AppealPacketBuilder';
+import { PayerCard, type DisputeDeadlines } from '../components/PayerCard';
+import { AppealRoundsPanel, type AppealRound } from '../components/AppealRoundsPanel';
+import { StatusTransitionMenu } from '../components/StatusTransitionMenu';
+import DocumentViewerModal from '../components/DocumentViewerModal';
+import type { Payer } from '../components/PayerSelect';
+import api, { downloadFile, streamEvents } from '../utils/api';
+import { useAuth } from '../context/AuthContext';
+import { useGroupPermissions } from '../utils/permissions';
+import { useRealtimeEvent } from '../context/RealtimeContext';
 
 interface Dispute {
   _id: string;
+  patientGroup: {
+    _id: string;
+  };
   patient: {
     _id: string;
     firstName: string;
@@ -54,15 +72,31 @@ interface Dispute {
   };
   denial: {
     denialDate: string;
+    receivedDate?: string;
     denialReason: string;
     denialCode?: string;
     denialDocument?: {
       filename: string;
       originalName: string;
+      mimeType?: string;
+      extractedText?: string;
+      extraction?: {
+        status: 'pending' | 'completed' | 'failed' | 'unsupported';
+        method?: string;
+        confidence?: number;
+        pages: Array<{
+          pageNumber: number;
+          method: string;
+          confidence: number;
+        }>;
+        error?: string;
+      };
     };
   };
   analysis?: {
-    analysisDate: string;
+    analysisDate?: string;
+    // 'failed' only on analyses recorded before failures moved to analysisRun
+    status?: 'completed' | 'failed';
     disputeOpportunities: Array<{
       category: string;
       strength: string;
@@ -75,15 +109,22 @@ interface Dispute {
     keyArguments: string[];
     supportingEvidence: string[];
   };
+  // The latest analysis run; a failed one leaves `analysis` with the last good result
+  analysisRun?: {
+    status: 'completed' | 'failed';
+    attemptedAt: string;
+    error?: string;
+    validationErrors?: string[];
+  };
   dispute: {
     status: string;
     submittedDate?: string;
-    generatedDocuments: Array<{
-      type: string;
-      content: string;
-      generatedAt: string;
-    }>;
+    generatedDocuments: GeneratedDocument[];
   };
+  appealRounds: AppealRound[];
+  attachments: DisputeAttachment[];
+  payer?: Payer | null;
+  deadlines: DisputeDeadlines;
   timeline: Array<{
     action: string;
     date: string;
@@ -98,7 +139,11 @@ const DisputePage = () => {
   const [loading, setLoading] = useState(true);
   const [analyzing, setAnalyzing] = useState(false);
   const [generating, setGenerating] = useState(false);
+  const [streamingDocument, setStreamingDocument] = useState<{ type: string; content: string } | null>(null);
+  const generationController = useRef<AbortController | null>(null);
   const [activeTab, setActiveTab] = useState<string | null>('overview');
+  const [denialViewerOpened, setDenialViewerOpened] = useState(false);
+  const { can } = useGroupPermissions(dispute?.patientGroup?._id);
   
   // Add validation state
   const [canSubmit, setCanSubmit] = useState(false);
@@ -115,12 +160,18 @@ const DisputePage = () => {
     }
   }, [disputeId]);
 
-  const fetchDispute = async () => {
+  // Stop any in-flight generation when leaving the page
+  useEffect(() => {
+    return () => generationController.current?.abort();
+  }, []);
+
+  const fetchDispute = async (showLoading = true): Promise<Dispute | null> => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       const response = await api.get(`/disputes/${disputeId}`);
       if (response.data.success) {
         setDispute(response.data.dispute);
+        return response.data.dispute;
       }
     } catch (error) {
       console.error('Failed to fetch dispute:', error);
@@ -132,6 +183,84 @@ const DisputePage = () => {
     } finally {
       setLoading(false);
     }
+    return null;
+  };
+
+  // Analysis and generation run as background jobs; refresh the dispute once they finish
+  const handleJobFinished = (job: AiJob) => {
+    const isAnalysis = job.type === 'dispute_analysis';
+
+    if (job.status === 'succeeded') {
+      notifications.show({
+        title: isAnalysis ? 'Analysis Complete' : 'Document Generated',
+        message: isAnalysis
+          ? 'AI analysis has identified dispute opportunities'
+          : `${job.payload.documentType} has been generated successfully`,
+        color: 'green',
+      });
+    } else if (job.status === 'failed') {
+      notifications.show({
+        title: isAnalysis ? 'Analysis Failed' : 'Generation Failed',
+        message: job.error || (isAnalysis ? 'Failed to analyze denial' : 'Failed to generate document'),
+        color: 'red',
+      });
+    } else {
+      notifications.show({
+        title: 'Cancelled',
+        message: isAnalysis ? 'AI analysis was cancelled' : 'Document generation was cancelled',
+        color: 'gray',
+      });
+    }
+
+    // A failed analysis is saved on the dispute so the error stays visible
+    fetchDispute(false);
+  };
+
+  const { jobs, analysisJob, generationJobs, trackJob, cancelJob } = useAiJobs(disputeId, handleJobFinished);
+
+  // Live updates from other team members; our own changes are already applied by the handlers above.
+  // Events only name the dispute, so the details come from refetching it.
+  const { user } = useAuth();
+
+  useRealtimeEvent('dispute:status', async (event) => {
+    if (event.disputeId !== disputeId || event.changedBy === user?.id) return;
+    const updated = await fetchDispute(false);
+    if (!updated) return;
+    notifications.show({
+      title: 'Status Updated',
+      message: `Status changed to ${updated.dispute.status.replace(/_/g, ' ')}`,
+      color: 'blue',
+    });
+  });
+
+  useRealtimeEvent('dispute:analysis', async (event) => {
+    if (event.disputeId !== disputeId || event.requestedBy === user?.id) return;
+    const updated = await fetchDispute(false);
+    if (!updated) return;
+    const completed = updated.analysisRun?.status !== 'failed';
+    notifications.show({
+      title: completed ? 'Analysis Complete' : 'Analysis Failed',
+      message: completed
+        ? `A team member's AI analysis finished with ${updated.analysis?.successProbability}% success probability`
+        : "A team member's AI analysis could not be completed",
+      color: completed ? 'green' : 'red',
+    });
+  });
+
+  useRealtimeEvent('dispute:deadline_flag', (event) => {
+    if (event.disputeId === disputeId) fetchDispute(false);
+  });
+
+  const handleCancelJob = async (jobId: string) => {
+    try {
+      await cancelJob(jobId);
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to cancel job',
+        color: 'red',
+      });
+    }
   };
 
   // Add validation completion handler
@@ -140,6 +269,23 @@ const DisputePage = () => {
   };
 
   // Add submit dispute function
+  const handleDownloadDenialLetter = async () => {
+    try {
+      await downloadFile(
+        `/disputes/${disputeId}/denial-document/download`,
+        undefined,
+        dispute?.denial.denialDocument?.originalName || 'denial-letter'
+      );
+    } catch (error) {
+      console.error('Failed to download denial letter:', error);
+      notifications.show({
+        title: 'Download Failed',
+        message: 'Failed to download the denial letter',
+        color: 'red',
+      });
+    }
+  };
+
   const handleSubmitDispute = async () => {
     if (!canSubmit) {
       notifications.show({
@@ -157,10 +303,10 @@ const DisputePage = () => {
         message: 'Your dispute has been submitted successfully',
         color: 'green',
       });
-    } catch (error) {
+    } catch (error: any) {
       notifications.show({
         title: 'Submission Failed',
-        message: 'Failed to submit dispute',
+        message: error.response?.data?.message || 'Failed to submit dispute',
         color: 'red',
       });
     }
@@ -180,6 +326,8 @@ const DisputePage = () => {
             status: newStatus,
           },
         } : null);
+        // The current appeal round records the submission too
+        fetchDispute(false);
       }
     } catch (error: any) {
       throw error;
@@ -192,16 +340,7 @@ const DisputePage = () => {
       const response = await api.post(`/disputes/${disputeId}/analyze`);
       
       if (response.data.success) {
-        setDispute(prev => prev ? {
-          ...prev,
-          analysis: response.data.analysis,
-        } : null);
-        
-        notifications.show({
-          title: 'Analysis Complete',
-          message: 'AI analysis has identified dispute opportunities',
-          color: 'green',
-        });
+        trackJob(response.data.job);
       }
     } catch (error: any) {
       notifications.show({
@@ -214,39 +353,73 @@ const DisputePage = () => {
     }
   };
 
+  // Streams the document into the Documents tab as it is written; only completed documents are saved
   const handleGenerate = async (values: { documentType: string }) => {
+    const controller = new AbortController();
+    generationController.current = controller;
+
     try {
       setGenerating(true);
-      const response = await api.post(`/disputes/${disputeId}/generate`, {
-        documentType: values.documentType,
-      });
-      
-      if (response.data.success) {
-        setDispute(prev => prev ? {
-          ...prev,
-          dispute: {
-            ...prev.dispute,
-            generatedDocuments: [...prev.dispute.generatedDocuments, response.data.document],
-          },
-        } : null);
-        
+      setStreamingDocument({ type: values.documentType, content: '' });
+      setActiveTab('documents');
+
+      await streamEvents(`/disputes/${disputeId}/generate`, { documentType: values.documentType }, (event, data) => {
+        if (event === 'token') {
+          setStreamingDocument(prev => prev ? { ...prev, content: prev.content + data.text } : prev);
+        } else if (event === 'done') {
+          // Regenerating adds a version to an existing document, so reload rather than append
+          fetchDispute(false);
+
+          notifications.show({
+            title: 'Document Generated',
+            message: `${values.documentType} has been generated successfully`,
+            color: 'green',
+          });
+        } else if (event === 'error') {
+          throw new Error(data.message);
+        }
+      }, controller.signal);
+    } catch (error: any) {
+      if (controller.signal.aborted) {
         notifications.show({
-          title: 'Document Generated',
-          message: `${values.documentType} has been generated successfully`,
-          color: 'green',
+          title: 'Generation Stopped',
+          message: 'The document was discarded',
+          color: 'gray',
+        });
+      } else {
+        notifications.show({
+          title: 'Generation Failed',
+          message: error.message || 'Failed to generate document',
+          color: 'red',
         });
       }
-    } catch (error: any) {
-      notifications.show({
-        title: 'Generation Failed',
-        message: error.response?.data?.message || 'Failed to generate document',
-        color: 'red',
-      });
     } finally {
+      generationController.current = null;
+      setStreamingDocument(null);
       setGenerating(false);
     }
   };
 
+  const handleDocumentUpdated = (document: GeneratedDocument) => {
+    setDispute(prev => prev ? {
+      ...prev,
+      dispute: {
+        ...prev.dispute,
+        generatedDocuments: prev.dispute.generatedDocuments.map(existing =>
+          existing._id === document._id ? document : existing
+        ),
+      },
+    } : null);
+  };
+
+  const handleStopGeneration = () => {
+    generationController.current?.abort();
+  };
+
+  // Legacy analyses have no status, so any analysis with a date counts unless it is an old failure record
+  const hasAnalysis = () => Boolean(dispute?.analysis?.analysisDate) && dispute?.analysis?.status !== 'failed';
+  const lastRunFailed = () => dispute?.analysisRun?.status === 'failed' || dispute?.analysis?.status === 'failed';
+
   const getStatusColor = (status: string) => {
     const colors = {
       pending: 'gray',
@@ -289,6 +462,43 @@ const DisputePage = () => {
     );
   }
 
+  // A failed re-run keeps the last good analysis, so both can show at once
+  const analysisCompleted = hasAnalysis();
+  const analysisFailed = lastRunFailed();
+  const analysisRunning = analyzing || !!analysisJob;
+  const generationRunning = generating || generationJobs.some(job => job.payload.documentType === generateForm.values.documentType);
+
+  const analysisFailedAlert = (
+    <Alert color="red" icon={<IconAlertTriangle size="1rem" />} title="Analysis Failed">
+      <Text size="sm">{dispute.analysisRun?.error || 'The AI analysis could not be completed.'}</Text>
+      {analysisCompleted && (
+        <Text size="sm" mt="xs">The previous analysis is still available.</Text>
+      )}
+      {dispute.analysisRun?.validationErrors && dispute.analysisRun.validationErrors.length > 0 && (
+        <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.2rem' }}>
+          {dispute.analysisRun.validationErrors.map((validationError, index) => (
+            <li key={index}>
+              <Text size="xs">{validationError}</Text>
+            </li>
+          ))}
+        </ul>
+      )}
+      {can('dispute.analyze') && (
+        <Button
+          mt="sm"
+          size="xs"
+          color="red"
+          variant="light"
+          leftSection={<IconAnalyze size="0.8rem" />}
+          loading={analysisRunning}
+          onClick={handleAnalyze}
+        >
+          Retry Analysis
+        </Button>
+      )}
+    </Alert>
+  );
+
   return (
     <AppLayout>
       <Container size="xl">
@@ -306,9 +516,18 @@ const DisputePage = () => {
                     {dispute.patient.firstName} {dispute.patient.lastName} - {dispute.requestDetails.requestedService}
                   </Text>
                 </div>
-                <Badge color={getStatusColor(dispute.dispute.status)} size="lg">
-                  {dispute.dispute.status.replace('_', ' ').toUpperCase()}
-                </Badge>
+                <Group gap="sm">
+                  <Badge color={getStatusColor(dispute.dispute.status)} size="lg">
+                    {dispute.dispute.status.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                  {(can('dispute.update') || can('dispute.submit')) && (
+                    <StatusTransitionMenu
+                      disputeId={disputeId!}
+                      status={dispute.dispute.status}
+                      onChanged={() => fetchDispute(false)}
+                    />
+                  )}
+                </Group>
               </Group>
             </div>
           </Group>
@@ -319,9 +538,11 @@ const DisputePage = () => {
           <Tabs value={activeTab} onChange={setActiveTab}>
             <Tabs.List>
               <Tabs.Tab value="overview">Overview</Tabs.Tab>
+              <Tabs.Tab value="rounds">Appeal Rounds</Tabs.Tab>
               <Tabs.Tab value="validation">Validation</Tabs.Tab>
               <Tabs.Tab value="analysis">AI Analysis</Tabs.Tab>
               <Tabs.Tab value="documents">Generated Documents</Tabs.Tab>
+              <Tabs.Tab value="packet">Appeal Packet</Tabs.Tab>
               <Tabs.Tab value="timeline">Timeline</Tabs.Tab>
             </Tabs.List>
 
@@ -366,6 +587,12 @@ const DisputePage = () => {
                           <Text size="sm" fw={500}>Denial Date:</Text>
                           <Text>{new Date(dispute.denial.denialDate).toLocaleDateString()}</Text>
                         </Grid.Col>
+                        {dispute.denial.receivedDate && (
+                          <Grid.Col span={6}>
+                            <Text size="sm" fw={500}>Date Received:</Text>
+                            <Text>{new Date(dispute.denial.receivedDate).toLocaleDateString()}</Text>
+                          </Grid.Col>
+                        )}
                         {dispute.denial.denialCode && (
                           <Grid.Col span={6}>
                             <Text size="sm" fw={500}>Denial Code:</Text>
@@ -375,15 +602,46 @@ const DisputePage = () => {
                       </Grid>
                       <Text size="sm" fw={500} mt="md">Denial Reason:</Text>
                       <Text>{dispute.denial.denialReason}</Text>
-                      {dispute.denial.denialDocument && (
+                      {dispute.denial.denialDocument?.extraction?.status === 'completed' && (
+                        <>
+                          <Group justify="space-between" mt="md" mb="xs">
+                            <Text size="sm" fw={500}>Denial Letter Text:</Text>
+                            <Badge
+                              variant="light"
+                              color={(dispute.denial.denialDocument.extraction.confidence ?? 0) >= 80 ? 'green' : 'yellow'}
+                            >
+                              {dispute.denial.denialDocument.extraction.method === 'ocr' ? 'OCR' : 'Text'} · {dispute.denial.denialDocument.extraction.confidence}% confidence
+                            </Badge>
+                          </Group>
+                          <Code block>{dispute.denial.denialDocument.extractedText}</Code>
+                        </>
+                      )}
+                      {dispute.denial.denialDocument?.extraction &&
+                        ['failed', 'unsupported'].includes(dispute.denial.denialDocument.extraction.status) && (
+                        <Alert color="orange" mt="md">
+                          Could not read the denial letter: {dispute.denial.denialDocument.extraction.error}
+                        </Alert>
+                      )}
+                      {dispute.denial.denialDocument?.filename && (
                         <Group mt="md">
                           <Button
                             size="xs"
                             variant="light"
-                            leftSection={<IconDownload size="0.8rem" />}
+                            leftSection={<IconEye size="0.8rem" />}
+                            onClick={() => setDenialViewerOpened(true)}
                           >
-                            Download Denial Letter
+                            View Denial Letter
                           </Button>
+                          {can('patient.export') && (
+                            <Button
+                              size="xs"
+                              variant="light"
+                              leftSection={<IconDownload size="0.8rem" />}
+                              onClick={handleDownloadDenialLetter}
+                            >
+                              Download Denial Letter
+                            </Button>
+                          )}
                         </Group>
                       )}
                     </Paper>
@@ -391,54 +649,81 @@ const DisputePage = () => {
                 </Grid.Col>
 
                 <Grid.Col span={{ base: 12, md: 4 }}>
-                  <Paper p="lg" withBorder>
-                    <Title order={4} mb="md">Quick Actions</Title>
-                    <Stack>
-                      {!dispute.analysis ? (
-                        <Button
-                          fullWidth
-                          leftSection={<IconAnalyze size="1rem" />}
-                          loading={analyzing}
-                          onClick={handleAnalyze}
-                        >
-                          Analyze Denial
-                        </Button>
-                      ) : (
-                        <Alert color="green" icon={<IconCheck size="1rem" />}>
-                          Analysis complete! Check the Analysis tab.
-                        </Alert>
-                      )}
+                  <Stack>
+                    <Paper p="lg" withBorder>
+                      <Title order={4} mb="md">Quick Actions</Title>
+                      <Stack>
+                        {jobs.map(job => (
+                          <AiJobProgress key={job._id} job={job} onCancel={handleCancelJob} />
+                        ))}
+
+                        {!analysisCompleted && !analysisFailed && can('dispute.analyze') && (
+                          <Button
+                            fullWidth
+                            leftSection={<IconAnalyze size="1rem" />}
+                            loading={analysisRunning}
+                            onClick={handleAnalyze}
+                          >
+                            Analyze Denial
+                          </Button>
+                        )}
+                        {analysisFailed && analysisFailedAlert}
+                        {analysisCompleted && !analysisFailed && (
+                          <Alert color="green" icon={<IconCheck size="1rem" />}>
+                            Analysis complete! Check the Analysis tab.
+                          </Alert>
+                        )}
                       
-                      {dispute.analysis && (
-                        <Select
-                          label="Generate Document"
-                          placeholder="Choose document type"
-                          data={[
-                            { value: 'email', label: 'Email to Insurance' },
-                            { value: 'letter', label: 'Formal Appeal Letter' },
-                            { value: 'phone_notes', label: 'Phone Call Script' },
-                            { value: 'peer_review', label: 'Peer Review Notes' },
-                          ]}
-                          {...generateForm.getInputProps('documentType')}
-                        />
-                      )}
+                        {analysisCompleted && can('dispute.analyze') && (
+                          <Select
+                            label="Generate Document"
+                            placeholder="Choose document type"
+                            data={[
+                              { value: 'email', label: 'Email to Insurance' },
+                              { value: 'letter', label: 'Formal Appeal Letter' },
+                              { value: 'phone_notes', label: 'Phone Call Script' },
+                              { value: 'peer_review', label: 'Peer Review Notes' },
+                            ]}
+                            {...generateForm.getInputProps('documentType')}
+                          />
+                        )}
                       
-                      {dispute.analysis && generateForm.values.documentType && (
-                        <Button
-                          fullWidth
-                          leftSection={<IconFileText size="1rem" />}
-                          loading={generating}
-                          onClick={() => handleGenerate(generateForm.values)}
-                        >
-                          Generate Document
-                        </Button>
-                      )}
-                    </Stack>
-                  </Paper>
+                        {analysisCompleted && can('dispute.analyze') && generateForm.values.documentType && (
+                          <Button
+                            fullWidth
+                            leftSection={<IconFileText size="1rem" />}
+                            loading={generationRunning}
+                            onClick={() => handleGenerate(generateForm.values)}
+                          >
+                            Generate Document
+                          </Button>
+                        )}
+                      </Stack>
+                    </Paper>
+
+                    <PayerCard
+                      disputeId={disputeId!}
+                      payer={dispute.payer}
+                      deadlines={dispute.deadlines}
+                      denialCode={dispute.denial.denialCode}
+                      canEdit={can('dispute.update')}
+                      onChanged={() => fetchDispute(false)}
+                    />
+                  </Stack>
                 </Grid.Col>
               </Grid>
             </Tabs.Panel>
 
+            <Tabs.Panel value="rounds" pt="lg">
+              <AppealRoundsPanel
+                disputeId={disputeId!}
+                rounds={dispute.appealRounds || []}
+                documents={dispute.dispute.generatedDocuments}
+                can={can}
+                onChanged={() => fetchDispute(false)}
+              />
+            </Tabs.Panel>
+
             {/* Add Validation Tab */}
             <Tabs.Panel value="validation" pt="lg">
               <Grid>
@@ -461,7 +746,7 @@ const DisputePage = () => {
                           </Badge>
                         </Group>
                         
-                        {canSubmit && dispute.dispute.status !== 'submitted' && (
+                        {canSubmit && dispute.dispute.status !== 'submitted' && can('dispute.submit') && (
                           <Button
                             fullWidth
                             leftSection={<IconSend size="1rem" />}
@@ -489,7 +774,15 @@ const DisputePage = () => {
             </Tabs.Panel>
 
             <Tabs.Panel value="analysis" pt="lg">
-              {!dispute.analysis ? (
+              {analysisJob && (
+                <Stack mb="lg">
+                  <AiJobProgress job={analysisJob} onCancel={handleCancelJob} />
+                </Stack>
+              )}
+              {analysisFailed && (
+                <Stack mb="lg">{analysisFailedAlert}</Stack>
+              )}
+              {analysisFailed && !analysisCompleted ? null : !analysisCompleted || !dispute.analysis ? (
                 <Paper p="xl" withBorder style={{ textAlign: 'center' }}>
                   <ThemeIcon size="xl" variant="light" color="blue" mx="auto" mb="md">
                     <IconAnalyze size="2rem" />
@@ -500,13 +793,15 @@ const DisputePage = () => {
                   <Text c="dimmed" mb="md">
                     Run AI analysis to identify dispute opportunities and get strategic recommendations
                   </Text>
-                  <Button
-                    leftSection={<IconAnalyze size="1rem" />}
-                    loading={analyzing}
-                    onClick={handleAnalyze}
-                  >
-                    Analyze Denial
-                  </Button>
+                  {can('dispute.analyze') && (
+                    <Button
+                      leftSection={<IconAnalyze size="1rem" />}
+                      loading={analysisRunning}
+                      onClick={handleAnalyze}
+                    >
+                      Analyze Denial
+                    </Button>
+                  )}
                 </Paper>
               ) : (
                 <Stack>
@@ -594,7 +889,30 @@ const DisputePage = () => {
             </Tabs.Panel>
 
             <Tabs.Panel value="documents" pt="lg">
-              {dispute.dispute.generatedDocuments.length === 0 ? (
+              {streamingDocument && (
+                <Paper p="lg" withBorder mb="md">
+                  <Group justify="space-between" mb="md">
+                    <Group gap="sm">
+                      <Loader size="sm" />
+                      <Text fw={500} size="lg">
+                        {streamingDocument.type.replace('_', ' ').toUpperCase()}
+                      </Text>
+                      <Text size="sm" c="dimmed">Writing...</Text>
+                    </Group>
+                    <Button
+                      size="xs"
+                      color="red"
+                      variant="light"
+                      leftSection={<IconPlayerStop size="0.8rem" />}
+                      onClick={handleStopGeneration}
+                    >
+                      Stop
+                    </Button>
+                  </Group>
+                  <Code block>{streamingDocument.content}</Code>
+                </Paper>
+              )}
+              {dispute.dispute.generatedDocuments.length === 0 && !streamingDocument ? (
                 <Paper p="xl" withBorder style={{ textAlign: 'center' }}>
                   <ThemeIcon size="xl" variant="light" color="gray" mx="auto" mb="md">
                     <IconFileText size="2rem" />
@@ -608,33 +926,30 @@ const DisputePage = () => {
                 </Paper>
               ) : (
                 <Stack>
-                  {dispute.dispute.generatedDocuments.map((document, index) => (
-                    <Paper key={index} p="lg" withBorder>
-                      <Group justify="space-between" mb="md">
-                        <div>
-                          <Text fw={500} size="lg">
-                            {document.type.replace('_', ' ').toUpperCase()}
-                          </Text>
-                          <Text size="sm" c="dimmed">
-                            Generated on {new Date(document.generatedAt).toLocaleString()}
-                          </Text>
-                        </div>
-                        <Group>
-                          <Button size="xs" variant="light" leftSection={<IconDownload size="0.8rem" />}>
-                            Download
-                          </Button>
-                          <Button size="xs" leftSection={<IconSend size="0.8rem" />}>
-                            Send
-                          </Button>
-                        </Group>
-                      </Group>
-                      <Code block>{document.content}</Code>
-                    </Paper>
+                  {dispute.dispute.generatedDocuments.map((document) => (
+                    <GeneratedDocumentCard
+                      key={document._id}
+                      disputeId={disputeId!}
+                      document={document}
+                      can={can}
+                      onUpdated={handleDocumentUpdated}
+                      onReload={() => fetchDispute(false)}
+                    />
                   ))}
                 </Stack>
               )}
             </Tabs.Panel>
 
+            <Tabs.Panel value="packet" pt="lg">
+              <AppealPacketBuilder
+                disputeId={disputeId!}
+                documents={dispute.dispute.generatedDocuments}
+                attachments={dispute.attachments || []}
+                can={can}
+                onAssembled={() => fetchDispute(false)}
+              />
+            </Tabs.Panel>
+
             <Tabs.Panel value="timeline" pt="lg">
               <Paper p="lg" withBorder>
                 <Title order={3} mb="md">Dispute Timeline</Title>
@@ -657,6 +972,17 @@ const DisputePage = () => {
               </Paper>
             </Tabs.Panel>
           </Tabs>
+
+          {dispute.denial.denialDocument?.filename && (
+            <DocumentViewerModal
+              opened={denialViewerOpened}
+              onClose={() => setDenialViewerOpened(false)}
+              basePath={`/disputes/${disputeId}/denial-document`}
+              filename={dispute.denial.denialDocument.originalName}
+              mimeType={dispute.denial.denialDocument.mimeType}
+              canDownload={can('patient.export')}
+            />
+          )}
         </Stack>
       </Container>
     </AppLayout>
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  Container,
+  Paper,
+  Title,
+  Text,
+  Button,
+  Stack,
+  Center,
+  Loader,
+} from '@mantine/core';
+import { useAuth } from '../context/AuthContext';
+import { usePatientGroup } from '../context/PatientGroupContext';
+import { InvitationSummary, useInvitation } from '../components/InvitationSummary';
+
+// Landing page for the link in an invitation email. Signed-in users accept here; everyone else is sent
+// to sign up (which joins the group as part of registering) or to sign in and come back.
+const JoinGroupPage = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { joinGroup } = usePatientGroup();
+  const { invitation, error, loading } = useInvitation(token);
+  const [joining, setJoining] = useState(false);
+
+  const handleJoin = async () => {
+    try {
+      setJoining(true);
+      const patientGroup = await joinGroup(token!);
+      navigate(patientGroup ? `/group/${patientGroup._id}` : '/dashboard');
+    } catch (error) {
+      // Error is handled in PatientGroupContext
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const wrongAccount = user && invitation && invitation.email !== user.email;
+
+  return (
+    <Container size={420} my={40}>
+      <Title ta="center" style={(theme) => ({ fontFamily: theme.fontFamily, fontWeight: 900 })}>
+        Patient Group Invitation
+      </Title>
+
+      <Paper withBorder shadow="md" p={30} mt={30} radius="md">
+        {loading ? (
+          <Center py="xl">
+            <Loader />
+          </Center>
+        ) : (
+          <Stack>
+            <InvitationSummary invitation={invitation} error={error} />
+
+            {invitation && user && !wrongAccount && (
+              <Button fullWidth loading={joining} onClick={handleJoin}>
+                Join {invitation.groupName}
+              </Button>
+            )}
+
+            {wrongAccount && (
+              <Text size="sm" c="dimmed">
+                You're signed in as {user.email}. Sign in as {invitation.email} to accept this invitation.
+              </Text>
+            )}
+
+            {invitation && !user && (
+              <>
+                <Button fullWidth component={Link} to={`/signup?invite=${token}`}>
+                  Create an account
+                </Button>
+                <Button fullWidth variant="default" component={Link} to={`/login?redirect=/join/${token}`}>
+                  I already have an account
+                </Button>
+              </>
+            )}
+
+            {(error || wrongAccount) && (
+              <Button variant="subtle" component={Link} to={user ? '/dashboard' : '/login'}>
+                {user ? 'Back to dashboard' : 'Go to sign in'}
+              </Button>
+            )}
+          </Stack>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default JoinGroupPage;
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Container,
   Paper,
@@ -16,7 +16,7 @@ import {
   Box,
 } from '@mantine/core';
 import { useForm } from '@mantine/form';
-import { IconAlertCircle, IconMail, IconLock } from '@tabler/icons-react';
+import { IconAlertCircle, IconMail, IconLock, IconShieldLock } from '@tabler/icons-react';
 import { useAuth } from '../context/AuthContext';
 
 interface LoginForm {
@@ -27,8 +27,15 @@ interface LoginForm {
 const LoginPage = () => {
   const [loading, setLoading] = useState(false);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
-  const { login, forgotPassword, error, clearError } = useAuth();
+  // Set once the password is accepted for an account with two-factor authentication
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyMfa, forgotPassword, error, clearError } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Pages such as invitation links send users here and expect them back; only same-site paths are followed
+  const redirect = searchParams.get('redirect');
+  const afterLogin = redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/dashboard';
 
   const form = useForm<LoginForm>({
     initialValues: {
@@ -41,6 +48,15 @@ const LoginPage = () => {
     },
   });
 
+  const mfaForm = useForm({
+    initialValues: {
+      code: '',
+    },
+    validate: {
+      code: (value) => (value.trim() ? null : 'Enter a code'),
+    },
+  });
+
   const forgotPasswordForm = useForm({
     initialValues: {
       email: '',
@@ -54,8 +70,12 @@ const LoginPage = () => {
     try {
       setLoading(true);
       clearError();
-      await login(values.email, values.password);
-      navigate('/dashboard');
+      const pendingMfaToken = await login(values.email, values.password);
+      if (pendingMfaToken) {
+        setMfaToken(pendingMfaToken);
+        return;
+      }
+      navigate(afterLogin);
     } catch (error) {
       // Error is handled in AuthContext
     } finally {
@@ -63,6 +83,31 @@ const LoginPage = () => {
     }
   };
 
+  const handleVerifyMfa = async (values: { code: string }) => {
+    if (!mfaToken) return;
+
+    try {
+      setLoading(true);
+      await verifyMfa(mfaToken, values.code);
+      navigate(afterLogin);
+    } catch (error: any) {
+      // The sign-in itself has expired; start again from the password
+      if (error.response?.status === 401) {
+        setMfaToken(null);
+      }
+      mfaForm.reset();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelMfa = () => {
+    setMfaToken(null);
+    setUseRecoveryCode(false);
+    mfaForm.reset();
+    form.setFieldValue('password', '');
+  };
+
   const handleForgotPassword = async (values: { email: string }) => {
     try {
       setLoading(true);
@@ -122,6 +167,58 @@ const LoginPage = () => {
     );
   }
 
+  if (mfaToken) {
+    return (
+      <Container size={420} my={40}>
+        <Title ta="center" style={(theme) => ({ fontFamily: theme.fontFamily, fontWeight: 900 })}>
+          Two-Factor Authentication
+        </Title>
+        <Text c="dimmed" size="sm" ta="center" mt={5}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </Text>
+
+        <Paper withBorder shadow="md" p={30} mt={30} radius="md">
+          <form onSubmit={mfaForm.onSubmit(handleVerifyMfa)}>
+            <Stack>
+              <TextInput
+                label={useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                leftSection={<IconShieldLock size="1rem" />}
+                {...mfaForm.getInputProps('code')}
+              />
+
+              <Button type="submit" fullWidth loading={loading}>
+                Verify
+              </Button>
+
+              <Group justify="space-between">
+                <Anchor size="sm" onClick={handleCancelMfa} style={{ cursor: 'pointer' }}>
+                  Back to Login
+                </Anchor>
+                <Anchor
+                  size="sm"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    mfaForm.reset();
+                  }}
+                  style={{ cursor: 'pointer' }}
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                </Anchor>
+              </Group>
+            </Stack>
+          </form>
+        </Paper>
+      </Container>
+    );
+  }
+
   return (
     <Container size={420} my={40}>
       <Title ta="center" style={(theme) => ({ fontFamily: theme.fontFamily, fontWeight: 900 })}>
@@ -0,0 +1,452 @@
+import { useState, useEffect } from 'react';
+import {
+  Container,
+  Title,
+  Text,
+  Button,
+  Group,
+  Stack,
+  Paper,
+  Table,
+  Badge,
+  ActionIcon,
+  TextInput,
+  TagsInput,
+  MultiSelect,
+  NumberInput,
+  Select,
+  SegmentedControl,
+  Grid,
+  Skeleton,
+} from '@mantine/core';
+import { useForm } from '@mantine/form';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import { IconBuildingCommunity, IconTrash, IconUserPlus } from '@tabler/icons-react';
+
+// Components
+import AppLayout from '../components/AppLayout';
+import type { DeadlineSettings } from '../components/DeadlineSettingsModal';
+
+// Context
+import { useAuth, type OrganizationRole } from '../context/AuthContext';
+import api from '../utils/api';
+
+interface OrganizationMember {
+  _id: string;
+  user: {
+    _id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+interface Organization {
+  _id: string;
+  name: string;
+  emailDomains: string[];
+  members: OrganizationMember[];
+  settings: {
+    deadlineDefaults: Required<Omit<DeadlineSettings, 'holidays'>>;
+    allowedUploadTypes: string[];
+  };
+}
+
+const ROLE_OPTIONS: Array<{ value: OrganizationRole; label: string }> = [
+  { value: 'org_admin', label: 'Organization Admin' },
+  { value: 'billing_manager', label: 'Billing Manager' },
+  { value: 'auditor', label: 'Auditor' },
+  { value: 'member', label: 'Member' },
+];
+
+const ROLE_COLORS: Record<OrganizationRole, string> = {
+  org_admin: 'red',
+  billing_manager: 'blue',
+  auditor: 'grape',
+  member: 'gray',
+};
+
+const UPLOAD_TYPES = ['pdf', 'doc', 'docx', 'txt', 'csv', 'xlsx', 'xls', 'jpg', 'jpeg', 'png', 'gif'];
+
+const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+const toFormValues = (organization?: Organization | null) => ({
+  name: organization?.name || '',
+  emailDomains: organization?.emailDomains || [],
+  allowedUploadTypes: organization?.settings.allowedUploadTypes || UPLOAD_TYPES,
+  deadlineDefaults: {
+    timeZone: organization?.settings.deadlineDefaults.timeZone || 'UTC',
+    warningDays: organization?.settings.deadlineDefaults.warningDays ?? 7,
+    urgentDays: organization?.settings.deadlineDefaults.urgentDays ?? 3,
+    reminderDayType: organization?.settings.deadlineDefaults.reminderDayType || 'calendar',
+    filingClockStart: organization?.settings.deadlineDefaults.filingClockStart || 'denial_date',
+  },
+});
+
+const OrganizationPage = () => {
+  const { user, refreshUser } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [role, setRole] = useState<OrganizationRole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newMemberEmail, setNewMemberEmail] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<OrganizationRole>('member');
+  const [addingMember, setAddingMember] = useState(false);
+
+  const isOrgAdmin = role === 'org_admin';
+
+  const form = useForm({
+    initialValues: toFormValues(),
+    validate: {
+      name: (value) => (value.trim() ? null : 'Organization name is required'),
+      allowedUploadTypes: (value) => (value.length > 0 ? null : 'Allow at least one file type'),
+      deadlineDefaults: {
+        urgentDays: (value, values) => (
+          value < values.deadlineDefaults.warningDays ? null : 'Must be shorter than the warning threshold'
+        ),
+      },
+    },
+  });
+
+  const applyOrganization = (next: Organization | null, nextRole?: OrganizationRole | null) => {
+    setOrganization(next);
+    if (nextRole !== undefined) setRole(nextRole);
+    form.setValues(toFormValues(next));
+  };
+
+  const fetchOrganization = async () => {
+    try {
+      const response = await api.get('/organizations/current');
+      applyOrganization(response.data.organization, response.data.role);
+    } catch (error) {
+      console.error('Failed to load organization:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to load organization',
+        color: 'red',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrganization();
+  }, []);
+
+  const settingsPayload = (values: ReturnType<typeof toFormValues>) => ({
+    name: values.name,
+    emailDomains: values.emailDomains,
+    settings: {
+      deadlineDefaults: values.deadlineDefaults,
+      allowedUploadTypes: values.allowedUploadTypes,
+    },
+  });
+
+  const showError = (error: any, fallback: string) => {
+    notifications.show({
+      title: 'Error',
+      message: error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || fallback,
+      color: 'red',
+    });
+  };
+
+  const handleSubmit = async (values: ReturnType<typeof toFormValues>) => {
+    setSaving(true);
+    try {
+      if (organization) {
+        const response = await api.put(`/organizations/${organization._id}`, settingsPayload(values));
+        applyOrganization(response.data.organization);
+        notifications.show({
+          title: 'Organization Updated',
+          message: 'Organization settings have been saved',
+          color: 'green',
+        });
+      } else {
+        const response = await api.post('/organizations', settingsPayload(values));
+        applyOrganization(response.data.organization, 'org_admin');
+        await refreshUser();
+        notifications.show({
+          title: 'Organization Created',
+          message: `"${response.data.organization.name}" has been created and your groups moved into it`,
+          color: 'green',
+        });
+      }
+    } catch (error: any) {
+      showError(error, 'Failed to save organization');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!organization || !newMemberEmail.trim()) return;
+
+    setAddingMember(true);
+    try {
+      const response = await api.post(`/organizations/${organization._id}/members`, {
+        email: newMemberEmail.trim(),
+        role: newMemberRole,
+      });
+      applyOrganization(response.data.organization);
+      setNewMemberEmail('');
+      setNewMemberRole('member');
+    } catch (error: any) {
+      showError(error, 'Failed to add member');
+    } finally {
+      setAddingMember(false);
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, nextRole: OrganizationRole) => {
+    if (!organization) return;
+
+    try {
+      const response = await api.put(`/organizations/${organization._id}/members/${member.user._id}`, {
+        role: nextRole,
+      });
+      applyOrganization(response.data.organization);
+      if (member.user._id === user?.id) {
+        setRole(nextRole);
+        refreshUser();
+      }
+    } catch (error: any) {
+      showError(error, 'Failed to change role');
+    }
+  };
+
+  const handleRemoveMember = (member: OrganizationMember) => {
+    if (!organization) return;
+
+    modals.openConfirmModal({
+      title: `Remove ${member.user.firstName} ${member.user.lastName}?`,
+      children: (
+        <Text size="sm">
+          They keep access to groups they are a member of, but lose any access their organization role gave them.
+        </Text>
+      ),
+      labels: { confirm: 'Remove', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await api.delete(`/organizations/${organization._id}/members/${member.user._id}`);
+          applyOrganization({
+            ...organization,
+            members: organization.members.filter(m => m._id !== member._id),
+          });
+        } catch (error: any) {
+          showError(error, 'Failed to remove member');
+        }
+      },
+    });
+  };
+
+  return (
+    <AppLayout>
+      <Container size="xl">
+        <Stack gap="xl">
+          <div>
+            <Title order={1}>{organization?.name || 'Organization'}</Title>
+            <Text c="dimmed" size="lg" mt="xs">
+              {organization
+                ? 'Members, roles and defaults shared by every patient group in the organization'
+                : 'Bring your patient groups under one organization with shared roles and settings'}
+            </Text>
+          </div>
+
+          {loading ? (
+            <Stack>
+              <Skeleton height={200} radius="md" />
+              <Skeleton height={200} radius="md" />
+            </Stack>
+          ) : (
+            <>
+              {organization && (
+                <Paper p="lg" radius="md" withBorder>
+                  <Title order={3} mb="md">Members</Title>
+                  <Table>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Name</Table.Th>
+                        <Table.Th>Email</Table.Th>
+                        <Table.Th>Role</Table.Th>
+                        <Table.Th>Joined</Table.Th>
+                        {isOrgAdmin && <Table.Th />}
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {organization.members.map((member) => (
+                        <Table.Tr key={member._id}>
+                          <Table.Td>{member.user.firstName} {member.user.lastName}</Table.Td>
+                          <Table.Td>{member.user.email}</Table.Td>
+                          <Table.Td>
+                            {isOrgAdmin ? (
+                              <Select
+                                size="xs"
+                                w={180}
+                                data={ROLE_OPTIONS}
+                                value={member.role}
+                                allowDeselect={false}
+                                onChange={(value) => value && handleRoleChange(member, value as OrganizationRole)}
+                              />
+                            ) : (
+                              <Badge color={ROLE_COLORS[member.role]} size="sm">
+                                {ROLE_OPTIONS.find(option => option.value === member.role)?.label}
+                              </Badge>
+                            )}
+                          </Table.Td>
+                          <Table.Td>{new Date(member.joinedAt).toLocaleDateString()}</Table.Td>
+                          {isOrgAdmin && (
+                            <Table.Td>
+                              <ActionIcon
+                                variant="subtle"
+                                color="red"
+                                disabled={member.user._id === user?.id}
+                                onClick={() => handleRemoveMember(member)}
+                              >
+                                <IconTrash size="1rem" />
+                              </ActionIcon>
+                            </Table.Td>
+                          )}
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+
+                  {isOrgAdmin && (
+                    <Group mt="md" align="flex-end">
+                      <TextInput
+                        style={{ flex: 1 }}
+                        label="Add member"
+                        description="They need an account; group invitations also add people to the organization"
+                        placeholder="colleague@example.com"
+                        value={newMemberEmail}
+                        onChange={(event) => setNewMemberEmail(event.currentTarget.value)}
+                      />
+                      <Select
+                        w={180}
+                        data={ROLE_OPTIONS}
+                        value={newMemberRole}
+                        allowDeselect={false}
+                        onChange={(value) => value && setNewMemberRole(value as OrganizationRole)}
+                      />
+                      <Button
+                        leftSection={<IconUserPlus size="1rem" />}
+                        loading={addingMember}
+                        disabled={!newMemberEmail.trim()}
+                        onClick={handleAddMember}
+                      >
+                        Add
+                      </Button>
+                    </Group>
+                  )}
+                </Paper>
+              )}
+
+              <Paper p="lg" radius="md" withBorder>
+                <form onSubmit={form.onSubmit(handleSubmit)}>
+                  <Stack>
+                    <Title order={3}>{organization ? 'Settings' : 'Create Organization'}</Title>
+                    {!organization && (
+                      <Text size="sm" c="dimmed">
+                        You become the organization admin and the patient groups you own move into it.
+                      </Text>
+                    )}
+
+                    <TextInput
+                      label="Organization name"
+                      required
+                      disabled={!!organization && !isOrgAdmin}
+                      {...form.getInputProps('name')}
+                    />
+                    <TagsInput
+                      label="Email domains"
+                      description="Only addresses at these domains can be invited. Leave empty to allow any."
+                      placeholder="clinic.org"
+                      disabled={!!organization && !isOrgAdmin}
+                      {...form.getInputProps('emailDomains')}
+                    />
+                    <MultiSelect
+                      label="Allowed upload types"
+                      description="File types accepted for patient documents and denial letters"
+                      data={UPLOAD_TYPES}
+                      disabled={!!organization && !isOrgAdmin}
+                      {...form.getInputProps('allowedUploadTypes')}
+                    />
+
+                    <Text fw={500} mt="sm">Deadline defaults for new groups</Text>
+                    <Grid>
+                      <Grid.Col span={{ base: 12, md: 4 }}>
+                        <Select
+                          label="Time zone"
+                          data={TIMEZONES}
+                          searchable
+                          allowDeselect={false}
+                          disabled={!!organization && !isOrgAdmin}
+                          {...form.getInputProps('deadlineDefaults.timeZone')}
+                        />
+                      </Grid.Col>
+                      <Grid.Col span={{ base: 6, md: 4 }}>
+                        <NumberInput
+                          label="Warning threshold (days)"
+                          min={1}
+                          max={90}
+                          disabled={!!organization && !isOrgAdmin}
+                          {...form.getInputProps('deadlineDefaults.warningDays')}
+                        />
+                      </Grid.Col>
+                      <Grid.Col span={{ base: 6, md: 4 }}>
+                        <NumberInput
+                          label="Urgent threshold (days)"
+                          min={0}
+                          max={30}
+                          disabled={!!organization && !isOrgAdmin}
+                          {...form.getInputProps('deadlineDefaults.urgentDays')}
+                        />
+                      </Grid.Col>
+                    </Grid>
+                    <Group>
+                      <SegmentedControl
+                        disabled={!!organization && !isOrgAdmin}
+                        data={[
+                          { value: 'calendar', label: 'Calendar days' },
+                          { value: 'business', label: 'Business days' },
+                        ]}
+                        {...form.getInputProps('deadlineDefaults.reminderDayType')}
+                      />
+                      <SegmentedControl
+                        disabled={!!organization && !isOrgAdmin}
+                        data={[
+                          { value: 'denial_date', label: 'Clock starts at denial date' },
+                          { value: 'received_date', label: 'Clock starts when received' },
+                        ]}
+                        {...form.getInputProps('deadlineDefaults.filingClockStart')}
+                      />
+                    </Group>
+
+                    {(!organization || isOrgAdmin) && (
+                      <Group justify="flex-end">
+                        <Button
+                          type="submit"
+                          loading={saving}
+                          leftSection={!organization && <IconBuildingCommunity size="1rem" />}
+                        >
+                          {organization ? 'Save Settings' : 'Create Organization'}
+                        </Button>
+                      </Group>
+                    )}
+                  </Stack>
+                </form>
+              </Paper>
+            </>
+          )}
+        </Stack>
+      </Container>
+    </AppLayout>
+  );
+};
+
+export default OrganizationPage;
@@ -38,6 +38,7 @@ import {
   IconDownload,
   IconUpload,
   IconFileUpload,
+  IconEye,
 
 } from '@tabler/icons-react';
 import { useDisclosure } from '@mantine/hooks';
@@ -47,9 +48,10 @@ import { notifications } from '@mantine/notifications';
 // Components
 import AppLayout from '../components/AppLayout';
 import CreateDisputeModal from '../components/CreateDisputeModal.tsx';
+import DocumentViewerModal from '../components/DocumentViewerModal';
 
 // Utils
-import api from '../utils/api';
+import api, { downloadFile } from '../utils/api';
 
 interface Patient {
   _id: string;
@@ -149,6 +151,7 @@ const PatientDetailsPage = () => {
   const [createDisputeOpened, { open: openCreateDispute, close: closeCreateDispute }] = useDisclosure(false);
   const [addNoteOpened, { open: openAddNote, close: closeAddNote }] = useDisclosure(false);
   const [uploadDocOpened, { open: openUploadDoc, close: closeUploadDoc }] = useDisclosure(false);
+  const [viewingDocument, setViewingDocument] = useState<Patient['documents'][number] | null>(null);
 
   // Forms
   const noteForm = useForm({
@@ -179,11 +182,12 @@ const PatientDetailsPage = () => {
       if (response.data.success) {
         setPatient(response.data.patient);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to fetch patient:', error);
       notifications.show({
         title: 'Error',
-        message: 'Failed to load patient details',
+        // Groups that require two-factor authentication explain what to do
+        message: error.response?.data?.mfaRequired ? error.response.data.message : 'Failed to load patient details',
         color: 'red',
       });
     } finally {
@@ -216,6 +220,19 @@ const PatientDetailsPage = () => {
     }
   };
 
+  const handleDownloadDocument = async (document: Patient['documents'][number]) => {
+    try {
+      await downloadFile(`/patients/${patientId}/documents/${document._id}/download`, undefined, document.originalName);
+    } catch (error) {
+      console.error('Failed to download document:', error);
+      notifications.show({
+        title: 'Download Failed',
+        message: 'Failed to download document',
+        color: 'red',
+      });
+    }
+  };
+
   const handleUploadDocument = async (values: { document: File | null; documentType: string; description: string }) => {
     if (!values.document) return;
 
@@ -614,9 +631,24 @@ const PatientDetailsPage = () => {
                       <Text size="xs" c="dimmed" mb="md">
                         Uploaded by {document.uploadedBy.firstName} {document.uploadedBy.lastName}
                       </Text>
-                      <Button size="xs" variant="light" leftSection={<IconDownload size="0.8rem" />} fullWidth>
-                        Download
-                      </Button>
+                      <Group grow gap="xs">
+                        <Button
+                          size="xs"
+                          variant="light"
+                          leftSection={<IconEye size="0.8rem" />}
+                          onClick={() => setViewingDocument(document)}
+                        >
+                          View
+                        </Button>
+                        <Button
+                          size="xs"
+                          variant="light"
+                          leftSection={<IconDownload size="0.8rem" />}
+                          onClick={() => handleDownloadDocument(document)}
+                        >
+                          Download
+                        </Button>
+                      </Group>
                     </Card>
                   ))}
                 </SimpleGrid>
@@ -742,6 +774,16 @@ const PatientDetailsPage = () => {
               fetchPatient();
             }}
           />
+
+          {viewingDocument && (
+            <DocumentViewerModal
+              opened
+              onClose={() => setViewingDocument(null)}
+              basePath={`/patients/${patientId}/documents/${viewingDocument._id}`}
+              filename={viewingDocument.originalName}
+              mimeType={viewingDocument.mimeType}
+            />
+          )}
         </Stack>
       </Container>
     </AppLayout>
@@ -19,6 +19,8 @@ import {
   Modal,
   TextInput,
   Select,
+  Switch,
+  Alert,
 } from '@mantine/core';
 import {
   IconPlus,
@@ -30,6 +32,13 @@ import {
   IconFileText,
   IconArrowLeft,
   IconMail,
+  IconLetterCase,
+  IconCalendarTime,
+  IconShieldLock,
+  IconUserShield,
+  IconUserMinus,
+  IconRefresh,
+  IconX,
 } from '@tabler/icons-react';
 import { useDisclosure } from '@mantine/hooks';
 import { useForm } from '@mantine/form';
@@ -38,10 +47,15 @@ import { notifications } from '@mantine/notifications';
 // Components
 import AppLayout from '../components/AppLayout';
 import CreatePatientModal from '../pages/CreatePatientModal';
+import LetterheadSettingsModal from '../components/LetterheadSettingsModal';
+import DeadlineSettingsModal from '../components/DeadlineSettingsModal';
+import GroupRolesModal from '../components/GroupRolesModal';
 
 // Context
 import { usePatientGroup } from '../context/PatientGroupContext';
+import { useAuth } from '../context/AuthContext';
 import api from '../utils/api';
+import { useGroupPermissions } from '../utils/permissions';
 
 interface Patient {
   _id: string;
@@ -56,20 +70,39 @@ interface Patient {
   createdAt: string;
 }
 
+interface PendingInvitation {
+  _id: string;
+  email: string;
+  permission: 'view' | 'edit';
+  role: string | null;
+  invitedBy?: { firstName: string; lastName: string };
+  invitedAt: string;
+  lastSentAt?: string;
+  expiresAt: string;
+  expired: boolean;
+}
+
 const PatientGroupPage = () => {
   const { groupId } = useParams<{ groupId: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const { currentGroup, loading, fetchPatientGroup } = usePatientGroup();
+  const { access, can, refresh: refreshPermissions } = useGroupPermissions(groupId);
   
   const [patients, setPatients] = useState<Patient[]>([]);
   const [patientsLoading, setPatientsLoading] = useState(true);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
   const [createPatientOpened, { open: openCreatePatient, close: closeCreatePatient }] = useDisclosure(false);
   const [inviteModalOpened, { open: openInviteModal, close: closeInviteModal }] = useDisclosure(false);
+  const [letterheadOpened, { open: openLetterhead, close: closeLetterhead }] = useDisclosure(false);
+  const [deadlineSettingsOpened, { open: openDeadlineSettings, close: closeDeadlineSettings }] = useDisclosure(false);
+  const [rolesOpened, { open: openRoles, close: closeRoles }] = useDisclosure(false);
 
   const inviteForm = useForm({
     initialValues: {
       email: '',
       permission: 'view',
+      role: null as string | null,
     },
     validate: {
       email: (value) => (/^\S+@\S+$/.test(value) ? null : 'Invalid email'),
@@ -83,6 +116,14 @@ const PatientGroupPage = () => {
     }
   }, [groupId]);
 
+  const canInvite = can('member.invite');
+
+  useEffect(() => {
+    if (groupId && canInvite) {
+      fetchInvitations();
+    }
+  }, [groupId, canInvite]);
+
   const fetchPatients = async () => {
     try {
       setPatientsLoading(true);
@@ -97,16 +138,30 @@ const PatientGroupPage = () => {
     }
   };
 
-  const handleInviteMember = async (values: { email: string; permission: string }) => {
+  const fetchInvitations = async () => {
     try {
-      await api.post(`/patient-groups/${groupId}/invite`, values);
+      const response = await api.get(`/patient-groups/${groupId}/invitations`);
+      setInvitations(response.data.invitations);
+    } catch (error) {
+      console.error('Failed to fetch invitations:', error);
+    }
+  };
+
+  const handleInviteMember = async (values: { email: string; permission: string; role: string | null }) => {
+    try {
+      const response = await api.post(`/patient-groups/${groupId}/invite`, values);
       notifications.show({
-        title: 'Invitation Sent',
-        message: `Invitation sent to ${values.email}`,
-        color: 'green',
+        title: response.data.emailSent ? 'Invitation Sent' : 'Invitation Created',
+        message: response.data.emailSent
+          ? `Invitation sent to ${values.email}`
+          : response.data.emailStatus === 'not_configured'
+            ? `Email is not set up on this server, so nothing was sent to ${values.email}`
+            : `The email to ${values.email} could not be sent. Try resending it.`,
+        color: response.data.emailSent ? 'green' : 'orange',
       });
       inviteForm.reset();
       closeInviteModal();
+      fetchInvitations();
     } catch (error: any) {
       notifications.show({
         title: 'Error',
@@ -116,6 +171,109 @@ const PatientGroupPage = () => {
     }
   };
 
+  // A built-in level clears any custom role; a custom role keeps the member's level as the fallback
+  const handleChangeMemberRole = async (userId: string, change: { permission?: string; role?: string | null }) => {
+    try {
+      await api.put(`/patient-groups/${groupId}/members/${userId}`, change);
+      notifications.show({
+        title: 'Role Updated',
+        message: 'Member role updated',
+        color: 'green',
+      });
+      fetchPatientGroup(groupId!);
+      if (userId === user?.id) refreshPermissions();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update member role',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleRequireMfaChange = async (requireMfa: boolean) => {
+    try {
+      await api.put(`/patient-groups/${groupId}`, { settings: { requireMfa } });
+      notifications.show({
+        title: 'Security Updated',
+        message: requireMfa
+          ? 'Members now need two-factor authentication to open patients'
+          : 'Two-factor authentication is no longer required',
+        color: 'green',
+      });
+      fetchPatientGroup(groupId!);
+      refreshPermissions();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update security settings',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleRemoveMember = async (userId: string, name: string) => {
+    if (!window.confirm(`Remove ${name} from this group?`)) return;
+
+    try {
+      await api.delete(`/patient-groups/${groupId}/members/${userId}`);
+      notifications.show({
+        title: 'Member Removed',
+        message: `${name} no longer has access to this group`,
+        color: 'green',
+      });
+      fetchPatientGroup(groupId!);
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to remove member',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleResendInvitation = async (invitation: PendingInvitation) => {
+    try {
+      const response = await api.post(`/patient-groups/${groupId}/invitations/${invitation._id}/resend`);
+      notifications.show({
+        title: response.data.emailSent ? 'Invitation Resent' : 'Invitation Renewed',
+        message: response.data.emailSent
+          ? `A new link was sent to ${invitation.email}`
+          : response.data.emailStatus === 'not_configured'
+            ? `Email is not set up on this server, so nothing was sent to ${invitation.email}`
+            : `The email to ${invitation.email} could not be sent`,
+        color: response.data.emailSent ? 'green' : 'orange',
+      });
+      fetchInvitations();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to resend invitation',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: PendingInvitation) => {
+    if (!window.confirm(`Revoke the invitation to ${invitation.email}?`)) return;
+
+    try {
+      await api.delete(`/patient-groups/${groupId}/invitations/${invitation._id}`);
+      notifications.show({
+        title: 'Invitation Revoked',
+        message: `The link sent to ${invitation.email} no longer works`,
+        color: 'green',
+      });
+      fetchInvitations();
+    } catch (error: any) {
+      notifications.show({
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to revoke invitation',
+        color: 'red',
+      });
+    }
+  };
+
   const handleCreatePatient = () => {
     fetchPatients();
     closeCreatePatient();
@@ -148,9 +306,8 @@ const PatientGroupPage = () => {
     );
   }
 
-  const userPermission = currentGroup.members?.find(
-    member => member.user._id === 'current-user-id' // This should come from auth context
-  )?.permission || 'view';
+  const customRoles = currentGroup.roles || [];
+  const roleName = (roleId?: string) => customRoles.find(role => role._id === roleId)?.name;
 
   return (
     <AppLayout>
@@ -170,22 +327,56 @@ const PatientGroupPage = () => {
                   </Text>
                 </div>
                 <Group>
-                  {['edit', 'admin'].includes(userPermission) && (
-                    <>
-                      <Button 
-                        leftSection={<IconUserPlus size="1rem" />}
-                        variant="light"
-                        onClick={openInviteModal}
-                      >
-                        Invite Member
-                      </Button>
-                      <Button 
-                        leftSection={<IconPlus size="1rem" />}
-                        onClick={openCreatePatient}
-                      >
-                        Add Patient
-                      </Button>
-                    </>
+                  {can('group.update') && (
+                    <Button
+                      leftSection={<IconLetterCase size="1rem" />}
+                      variant="subtle"
+                      onClick={openLetterhead}
+                    >
+                      Letterhead
+                    </Button>
+                  )}
+                  <Button
+                    leftSection={<IconCalendarTime size="1rem" />}
+                    variant="subtle"
+                    onClick={openDeadlineSettings}
+                  >
+                    Deadlines
+                  </Button>
+                  {can('role.manage') && (
+                    <Button
+                      leftSection={<IconUserShield size="1rem" />}
+                      variant="subtle"
+                      onClick={openRoles}
+                    >
+                      Roles
+                    </Button>
+                  )}
+                  {can('audit.view') && (
+                    <Button
+                      leftSection={<IconShieldLock size="1rem" />}
+                      variant="subtle"
+                      onClick={() => navigate(`/group/${groupId}/audit-log`)}
+                    >
+                      Audit Log
+                    </Button>
+                  )}
+                  {can('member.invite') && (
+                    <Button 
+                      leftSection={<IconUserPlus size="1rem" />}
+                      variant="light"
+                      onClick={openInviteModal}
+                    >
+                      Invite Member
+                    </Button>
+                  )}
+                  {can('patient.create') && (
+                    <Button 
+                      leftSection={<IconPlus size="1rem" />}
+                      onClick={openCreatePatient}
+                    >
+                      Add Patient
+                    </Button>
                   )}
                 </Group>
               </Group>
@@ -198,10 +389,19 @@ const PatientGroupPage = () => {
               <Paper p="md" withBorder>
                 <Group justify="space-between" mb="md">
                   <Title order={3}>Patients ({patients.length})</Title>
-                  <Badge color="blue">{userPermission} access</Badge>
+                  {access && (
+                    <Badge color="blue">{access.role || access.organizationRole?.replace('_', ' ')} access</Badge>
+                  )}
                 </Group>
 
-                {patientsLoading ? (
+                {access?.mfaRequired ? (
+                  <Alert icon={<IconShieldLock size="1rem" />} title="Two-factor authentication required" color="orange">
+                    This group requires two-factor authentication to open patients.
+                    {user?.mfaEnabled
+                      ? ' Sign out and sign in again with a code from your authenticator app.'
+                      : ' Turn it on under Profile Settings in the account menu.'}
+                  </Alert>
+                ) : patientsLoading ? (
                   <SimpleGrid cols={{ base: 1, md: 2 }} spacing="md">
                     {Array.from({ length: 4 }).map((_, index) => (
                       <Skeleton key={index} height={120} />
@@ -248,7 +448,7 @@ const PatientGroupPage = () => {
                               <Menu.Item leftSection={<IconFileText size="0.9rem" />}>
                                 New Dispute
                               </Menu.Item>
-                              {userPermission === 'admin' && (
+                              {can('patient.delete') && (
                                 <>
                                   <Menu.Divider />
                                   <Menu.Item
@@ -288,7 +488,7 @@ const PatientGroupPage = () => {
                     <Text c="dimmed" mb="md">
                       Add your first patient to start managing prior authorization disputes
                     </Text>
-                    {['edit', 'admin'].includes(userPermission) && (
+                    {can('patient.create') && (
                       <Button leftSection={<IconPlus size="1rem" />} onClick={openCreatePatient}>
                         Add First Patient
                       </Button>
@@ -321,17 +521,118 @@ const PatientGroupPage = () => {
                             </Text>
                           </div>
                         </Group>
-                        <Badge size="xs" color={
-                          member.permission === 'admin' ? 'red' : 
-                          member.permission === 'edit' ? 'blue' : 'gray'
-                        }>
-                          {member.permission}
-                        </Badge>
+                        <Group gap={4} wrap="nowrap">
+                          <Badge size="xs" color={
+                            roleName(member.role) ? 'violet' :
+                            member.permission === 'admin' ? 'red' : 
+                            member.permission === 'edit' ? 'blue' : 'gray'
+                          }>
+                            {roleName(member.role) || member.permission}
+                          </Badge>
+                          {can('member.manage') && member.user._id !== currentGroup.owner._id && (
+                            <Menu shadow="md" width={200} position="bottom-end">
+                              <Menu.Target>
+                                <ActionIcon size="sm" variant="subtle">
+                                  <IconDots size="0.8rem" />
+                                </ActionIcon>
+                              </Menu.Target>
+                              <Menu.Dropdown>
+                                <Menu.Label>Permission level</Menu.Label>
+                                {(['view', 'edit', 'admin'] as const).map(level => (
+                                  <Menu.Item
+                                    key={level}
+                                    disabled={!member.role && member.permission === level}
+                                    onClick={() => handleChangeMemberRole(member.user._id, { permission: level, role: null })}
+                                  >
+                                    {level}
+                                  </Menu.Item>
+                                ))}
+                                {customRoles.length > 0 && <Menu.Label>Custom roles</Menu.Label>}
+                                {customRoles.map(role => (
+                                  <Menu.Item
+                                    key={role._id}
+                                    disabled={member.role === role._id}
+                                    onClick={() => handleChangeMemberRole(member.user._id, { role: role._id })}
+                                  >
+                                    {role.name}
+                                  </Menu.Item>
+                                ))}
+                                <Menu.Divider />
+                                <Menu.Item
+                                  color="red"
+                                  leftSection={<IconUserMinus size="0.9rem" />}
+                                  onClick={() => handleRemoveMember(member.user._id, `${member.user.firstName} ${member.user.lastName}`)}
+                                >
+                                  Remove from group
+                                </Menu.Item>
+                              </Menu.Dropdown>
+                            </Menu>
+                          )}
+                        </Group>
                       </Group>
                     ))}
                   </Stack>
                 </Paper>
 
+                {/* Pending Invitations */}
+                {canInvite && invitations.length > 0 && (
+                  <Paper p="md" withBorder>
+                    <Title order={4} mb="md">
+                      Pending Invitations ({invitations.length})
+                    </Title>
+                    <Stack gap="xs">
+                      {invitations.map((invitation) => (
+                        <Group key={invitation._id} justify="space-between" wrap="nowrap">
+                          <div style={{ minWidth: 0 }}>
+                            <Text size="sm" fw={500} truncate>
+                              {invitation.email}
+                            </Text>
+                            <Text size="xs" c={invitation.expired ? 'red' : 'dimmed'}>
+                              {invitation.role || invitation.permission}
+                              {' · '}
+                              {invitation.expired
+                                ? `Expired ${new Date(invitation.expiresAt).toLocaleDateString()}`
+                                : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                            </Text>
+                          </div>
+                          <Group gap={4} wrap="nowrap">
+                            <ActionIcon
+                              size="sm"
+                              variant="subtle"
+                              title="Resend"
+                              onClick={() => handleResendInvitation(invitation)}
+                            >
+                              <IconRefresh size="0.8rem" />
+                            </ActionIcon>
+                            <ActionIcon
+                              size="sm"
+                              variant="subtle"
+                              color="red"
+                              title="Revoke"
+                              onClick={() => handleRevokeInvitation(invitation)}
+                            >
+                              <IconX size="0.8rem" />
+                            </ActionIcon>
+                          </Group>
+                        </Group>
+                      ))}
+                    </Stack>
+                  </Paper>
+                )}
+
+                {/* Security */}
+                {can('member.manage') && (
+                  <Paper p="md" withBorder>
+                    <Title order={4} mb="md">Security</Title>
+                    <Switch
+                      label="Require two-factor authentication"
+                      description="Members can only open patients and disputes after signing in with a code from an authenticator app"
+                      checked={Boolean(currentGroup.settings?.requireMfa)}
+                      onChange={(event) => handleRequireMfaChange(event.currentTarget.checked)}
+                    />
+                  </Paper>
+                )}
+
                 {/* Group Stats */}
                 <Paper p="md" withBorder>
                   <Title order={4} mb="md">Group Stats</Title>
@@ -384,6 +685,16 @@ const PatientGroupPage = () => {
                   ]}
                   {...inviteForm.getInputProps('permission')}
                 />
+                {customRoles.length > 0 && can('member.manage') && (
+                  <Select
+                    label="Custom Role"
+                    description="Overrides the permission level with the role's permissions"
+                    placeholder="None"
+                    clearable
+                    data={customRoles.map(role => ({ value: role._id, label: role.name }))}
+                    {...inviteForm.getInputProps('role')}
+                  />
+                )}
                 <Group justify="flex-end" mt="md">
                   <Button variant="subtle" onClick={closeInviteModal}>
                     Cancel
@@ -394,6 +705,36 @@ const PatientGroupPage = () => {
             </form>
           </Modal>
 
+          {/* Letterhead Settings Modal */}
+          <LetterheadSettingsModal
+            opened={letterheadOpened}
+            onClose={closeLetterhead}
+            groupId={groupId!}
+            letterhead={currentGroup.letterhead}
+            onSaved={() => fetchPatientGroup(groupId!)}
+          />
+
+          {/* Deadline Settings Modal */}
+          <DeadlineSettingsModal
+            opened={deadlineSettingsOpened}
+            onClose={closeDeadlineSettings}
+            groupId={groupId!}
+            deadlineSettings={currentGroup.deadlineSettings}
+            canEdit={can('group.update')}
+            onSaved={() => fetchPatientGroup(groupId!)}
+          />
+
+          {/* Custom Roles Modal */}
+          <GroupRolesModal
+            opened={rolesOpened}
+            onClose={closeRoles}
+            groupId={groupId!}
+            onChanged={() => {
+              fetchPatientGroup(groupId!);
+              refreshPermissions();
+            }}
+          />
+
           {/* Create Patient Modal */}
           <CreatePatientModal
             opened={createPatientOpened}
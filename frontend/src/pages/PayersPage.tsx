@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import {
+  Container,
+  Title,
+  Text,
+  Button,
+  Group,
+  Stack,
+  Paper,
+  Table,
+  Badge,
+  ActionIcon,
+  TextInput,
+  Skeleton,
+} from '@mantine/core';
+import { useDisclosure } from '@mantine/hooks';
+import { modals } from '@mantine/modals';
+import { notifications } from '@mantine/notifications';
+import { IconPlus, IconEdit, IconTrash, IconSearch } from '@tabler/icons-react';
+
+// Components
+import AppLayout from '../components/AppLayout';
+import PayerFormModal from '../components/PayerFormModal';
+import { usePayers, type Payer } from '../components/PayerSelect';
+
+// Context
+import { useAuth } from '../context/AuthContext';
+import api from '../utils/api';
+
+const PLAN_TYPE_LABELS: Record<Payer['planType'], string> = {
+  commercial: 'Commercial',
+  medicare_advantage: 'Medicare Advantage',
+  medicaid: 'Medicaid',
+  other: 'Other',
+};
+
+const PayersPage = () => {
+  const { user } = useAuth();
+  const { payers, loading, refresh } = usePayers();
+  const [search, setSearch] = useState('');
+  const [editingPayer, setEditingPayer] = useState<Payer | null>(null);
+  const [formOpened, { open: openForm, close: closeForm }] = useDisclosure(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  const filteredPayers = payers.filter(payer => {
+    const term = search.trim().toLowerCase();
+    if (!term) return true;
+    return [payer.name, payer.payerId, ...payer.aliases].some(value => value?.toLowerCase().includes(term));
+  });
+
+  const handleAdd = () => {
+    setEditingPayer(null);
+    openForm();
+  };
+
+  // The list only has summary fields, so load the full profile before editing
+  const handleEdit = async (payerId: string) => {
+    try {
+      const response = await api.get(`/payers/${payerId}`);
+      setEditingPayer(response.data.payer);
+      openForm();
+    } catch (error) {
+      console.error('Failed to load payer:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to load payer profile',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleDelete = (payer: Payer) => {
+    modals.openConfirmModal({
+      title: `Deactivate ${payer.name}?`,
+      children: (
+        <Text size="sm">
+          New disputes will no longer use this payer's rules. Existing disputes keep their deadlines.
+        </Text>
+      ),
+      labels: { confirm: 'Deactivate', cancel: 'Cancel' },
+      confirmProps: { color: 'red' },
+      onConfirm: async () => {
+        try {
+          await api.delete(`/payers/${payer._id}`);
+          refresh();
+        } catch (error: any) {
+          notifications.show({
+            title: 'Error',
+            message: error.response?.data?.message || 'Failed to deactivate payer',
+            color: 'red',
+          });
+        }
+      },
+    });
+  };
+
+  return (
+    <AppLayout>
+      <Container size="xl">
+        <Stack gap="xl">
+          <Group justify="space-between">
+            <div>
+              <Title order={1}>Payers</Title>
+              <Text c="dimmed" size="lg" mt="xs">
+                Appeal filing windows, submission details and denial codes for each payer
+              </Text>
+            </div>
+            {isAdmin && (
+              <Button leftSection={<IconPlus size="1rem" />} onClick={handleAdd}>
+                Add Payer
+              </Button>
+            )}
+          </Group>
+
+          <TextInput
+            placeholder="Search by name, alias or payer ID"
+            leftSection={<IconSearch size="1rem" />}
+            value={search}
+            onChange={(event) => setSearch(event.currentTarget.value)}
+          />
+
+          <Paper withBorder>
+            {loading ? (
+              <Stack p="md">
+                {Array.from({ length: 4 }).map((_, index) => (
+                  <Skeleton key={index} height={32} />
+                ))}
+              </Stack>
+            ) : filteredPayers.length === 0 ? (
+              <Text c="dimmed" ta="center" p="xl">
+                {payers.length === 0 ? 'No payer profiles yet' : 'No payers match your search'}
+              </Text>
+            ) : (
+              <Table highlightOnHover>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Payer</Table.Th>
+                    <Table.Th>Plan Type</Table.Th>
+                    <Table.Th>Filing Window</Table.Th>
+                    <Table.Th>Expedited</Table.Th>
+                    <Table.Th>Submit Via</Table.Th>
+                    {isAdmin && <Table.Th />}
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {filteredPayers.map(payer => {
+                    const firstLevel = payer.appealLevels.find(level => level.level === 1);
+                    return (
+                      <Table.Tr key={payer._id}>
+                        <Table.Td>
+                          <Text fw={500}>{payer.name}</Text>
+                          {payer.aliases.length > 0 && (
+                            <Text size="xs" c="dimmed">{payer.aliases.join(', ')}</Text>
+                          )}
+                        </Table.Td>
+                        <Table.Td>{PLAN_TYPE_LABELS[payer.planType]}</Table.Td>
+                        <Table.Td>
+                          {firstLevel ? `${firstLevel.filingWindowDays} ${firstLevel.filingDayType === 'business' ? 'business ' : ''}days` : '—'}
+                          {payer.appealLevels.length > 1 && (
+                            <Text size="xs" c="dimmed">{payer.appealLevels.length} appeal levels</Text>
+                          )}
+                        </Table.Td>
+                        <Table.Td>
+                          {payer.expeditedReview.available ? (
+                            <Badge variant="light" color="green">{payer.expeditedReview.turnaroundHours}h</Badge>
+                          ) : (
+                            <Badge variant="light" color="gray">No</Badge>
+                          )}
+                        </Table.Td>
+                        <Table.Td tt="capitalize">{payer.submission.preferredChannel}</Table.Td>
+                        {isAdmin && (
+                          <Table.Td>
+                            <Group gap={4} justify="flex-end">
+                              <ActionIcon variant="subtle" onClick={() => handleEdit(payer._id)} aria-label="Edit payer">
+                                <IconEdit size="1rem" />
+                              </ActionIcon>
+                              <ActionIcon variant="subtle" color="red" onClick={() => handleDelete(payer)} aria-label="Deactivate payer">
+                                <IconTrash size="1rem" />
+                              </ActionIcon>
+                            </Group>
+                          </Table.Td>
+                        )}
+                      </Table.Tr>
+                    );
+                  })}
+                </Table.Tbody>
+              </Table>
+            )}
+          </Paper>
+        </Stack>
+      </Container>
+
+      <PayerFormModal
+        opened={formOpened}
+        onClose={closeForm}
+        payer={editingPayer}
+        onSaved={() => refresh()}
+      />
+    </AppLayout>
+  );
+};
+
+export default PayersPage;
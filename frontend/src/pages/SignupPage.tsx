@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Container,
   Paper,
@@ -19,6 +19,7 @@ import {
 import { useForm } from '@mantine/form';
 import { IconAlertCircle, IconMail, IconLock, IconUser } from '@tabler/icons-react';
 import { useAuth } from '../context/AuthContext';
+import { InvitationSummary, useInvitation } from '../components/InvitationSummary';
 
 interface SignupForm {
   firstName: string;
@@ -47,6 +48,9 @@ const SignupPage = () => {
   const [loading, setLoading] = useState(false);
   const { register, error, clearError } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const { invitation, error: invitationError } = useInvitation(inviteToken);
 
   const form = useForm<SignupForm>({
     initialValues: {
@@ -71,6 +75,13 @@ const SignupPage = () => {
     },
   });
 
+  // The invitation is tied to the address it was sent to
+  useEffect(() => {
+    if (invitation) {
+      form.setFieldValue('email', invitation.email);
+    }
+  }, [invitation]);
+
   const passwordStrength = getPasswordStrength(form.values.password);
   const passwordColor = getPasswordColor(passwordStrength);
 
@@ -78,13 +89,14 @@ const SignupPage = () => {
     try {
       setLoading(true);
       clearError();
-      await register({
+      const joinedGroup = await register({
         firstName: values.firstName.trim(),
         lastName: values.lastName.trim(),
         email: values.email,
         password: values.password,
+        ...(invitation && inviteToken && { inviteToken }),
       });
-      navigate('/dashboard');
+      navigate(joinedGroup ? `/group/${joinedGroup}` : '/dashboard');
     } catch (error) {
       // Error is handled in AuthContext
     } finally {
@@ -101,6 +113,12 @@ const SignupPage = () => {
         Join the Prior Authorization Dispute System
       </Text>
 
+      {inviteToken && (
+        <Box mt={30}>
+          <InvitationSummary invitation={invitation} error={invitationError} />
+        </Box>
+      )}
+
       <Paper withBorder shadow="md" p={30} mt={30} radius="md">
         <form onSubmit={form.onSubmit(handleSignup)}>
           <Stack>
@@ -132,6 +150,7 @@ const SignupPage = () => {
               placeholder="your@email.com"
               required
               leftSection={<IconMail size="1rem" />}
+              readOnly={Boolean(invitation)}
               {...form.getInputProps('email')}
             />
 
@@ -173,7 +192,7 @@ const SignupPage = () => {
 
         <Group justify="center">
           <Text size="sm">
-            <Anchor component={Link} to="/login" size="sm">
+            <Anchor component={Link} to={inviteToken ? `/login?redirect=/join/${inviteToken}` : '/login'} size="sm">
               Sign in instead
             </Anchor>
           </Text>
@@ -5,17 +5,67 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api'
 const api = axios.create({
   baseURL: API_BASE_URL,
   timeout: 30000,
+  // Sends the refresh token cookie to /auth endpoints
+  withCredentials: true,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// The access token lives only in memory; after a reload it is fetched again with the refresh cookie
+let accessToken: string | null = null;
+let refreshing: Promise<string | null> | null = null;
+
+export const getAccessToken = () => accessToken;
+
+export const setAccessToken = (token: string | null) => {
+  accessToken = token;
+};
+
+// Trades the refresh cookie for a new access token. Concurrent callers share one request, since the
+// server rotates the cookie on every refresh. Resolves to null when there is no session.
+export const refreshAccessToken = () => {
+  if (!refreshing) {
+    refreshing = api
+      .post('/auth/refresh')
+      .then(response => {
+        setAccessToken(response.data.token);
+        return response.data.token as string;
+      })
+      .catch(() => {
+        setAccessToken(null);
+        return null;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+};
+
+// A 401 from these means wrong credentials or no session, not an expired access token
+const SIGN_IN_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+  '/auth/mfa/verify',
+];
+
+const redirectToLogin = () => {
+  setAccessToken(null);
+  if (window.location.pathname !== '/login') {
+    window.location.href = '/login';
+  }
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
     }
     return config;
   },
@@ -24,21 +74,108 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle auth errors
+// Response interceptor to handle auth errors: an expired access token is refreshed and the request
+// retried once; if that fails the session is over
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // Token expired or invalid
-      localStorage.removeItem('token');
-      delete api.defaults.headers.common['Authorization'];
-      // Redirect to login page
-      window.location.href = '/login';
+  async (error) => {
+    const config = error.config;
+
+    if (error.response?.status === 401 && config && !SIGN_IN_ENDPOINTS.includes(config.url)) {
+      if (!config.retriedAfterRefresh && await refreshAccessToken()) {
+        config.retriedAfterRefresh = true;
+        return api(config);
+      }
+      redirectToLogin();
     }
     return Promise.reject(error);
   }
 );
 
+// Downloads a file from an authenticated endpoint, using the server's filename when it sends one
+export const downloadFile = async (url: string, params?: Record<string, unknown>, fallbackName = 'download') => {
+  const response = await api.get(url, { params, responseType: 'blob' });
+  const disposition = response.headers['content-disposition'] as string | undefined;
+  const filename = disposition?.match(/filename="?([^"]+)"?/)?.[1] || fallbackName;
+
+  const objectUrl = URL.createObjectURL(response.data);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(objectUrl);
+};
+
+// POSTs to an endpoint that answers with server-sent events and calls onEvent for each one.
+// axios can't read a streaming body in the browser, so this uses fetch. Abort `signal` to stop.
+export const streamEvents = async (
+  url: string,
+  body: unknown,
+  onEvent: (event: string, data: any) => void,
+  signal?: AbortSignal
+) => {
+  const send = () => fetch(`${API_BASE_URL}${url}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  let response = await send();
+  if (response.status === 401) {
+    if (await refreshAccessToken()) {
+      response = await send();
+    }
+    if (response.status === 401) {
+      redirectToLogin();
+    }
+  }
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      rawEvent.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data += line.slice(5).trim();
+      });
+
+      onEvent(event, data ? JSON.parse(data) : null);
+    }
+  }
+};
+
+// The API's WebSocket endpoint lives on the same host, outside /api
+export const getWebSocketUrl = (path: string) => {
+  const base = new URL(API_BASE_URL, window.location.origin);
+  base.protocol = base.protocol === 'https:' ? 'wss:' : 'ws:';
+  base.pathname = base.pathname.replace(/\/api\/?$/, '') + path;
+  return base.toString();
+};
+
 export default api;
\ No newline at end of file
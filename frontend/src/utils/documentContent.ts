@@ -0,0 +1,31 @@
+// AI output is stored as plain text; edits made in the rich-text editor are stored as HTML.
+
+export type DocumentFormat = 'text' | 'html';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Converts stored content into HTML the editor can load
+export const toEditorHtml = (content: string, format: DocumentFormat = 'text') => {
+  if (format === 'html') return content;
+
+  return content
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+};
+
+// Converts stored content into plain text, keeping paragraph breaks, for diffs and previews
+export const toPlainText = (content: string, format: DocumentFormat = 'text') => {
+  if (format === 'text') return content;
+
+  const withBreaks = content
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote)>/gi, '$&\n\n');
+  const parsed = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (parsed.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import api from './api';
+
+// Named permissions a patient group role can grant; mirrors backend/services/permissionService.js
+export type Permission =
+  | 'group.update'
+  | 'member.invite'
+  | 'member.manage'
+  | 'role.manage'
+  | 'audit.view'
+  | 'patient.view'
+  | 'patient.create'
+  | 'patient.update'
+  | 'patient.delete'
+  | 'patient.export'
+  | 'document.upload'
+  | 'document.delete'
+  | 'dispute.create'
+  | 'dispute.update'
+  | 'dispute.analyze'
+  | 'document.approve'
+  | 'dispute.submit';
+
+export type PermissionCheck = (permission: Permission) => boolean;
+
+// Permissions that reach patient records, which groups requiring MFA withhold from sessions without it
+const PATIENT_DATA_PREFIXES = ['patient.', 'document.', 'dispute.'];
+
+export interface GroupAccess {
+  role: string | null;
+  organizationRole: string | null;
+  permissions: Permission[];
+  // The group requires two-factor authentication and this session hasn't passed it
+  mfaRequired: boolean;
+}
+
+// The current user's effective permissions in a patient group. `can` answers false until they load,
+// so actions stay hidden rather than flashing up and then disappearing.
+export const useGroupPermissions = (groupId?: string | null) => {
+  const [access, setAccess] = useState<GroupAccess | null>(null);
+  const [loading, setLoading] = useState(Boolean(groupId));
+
+  const refresh = useCallback(async () => {
+    if (!groupId) return;
+
+    setLoading(true);
+    try {
+      const response = await api.get(`/patient-groups/${groupId}/permissions`);
+      setAccess({
+        role: response.data.role,
+        organizationRole: response.data.organizationRole,
+        permissions: response.data.permissions,
+        mfaRequired: Boolean(response.data.mfaRequired),
+      });
+    } catch (error) {
+      console.error('Failed to load permissions:', error);
+      setAccess(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const can: PermissionCheck = useCallback(
+    (permission) => Boolean(
+      access?.permissions.includes(permission)
+        && !(access.mfaRequired && PATIENT_DATA_PREFIXES.some(prefix => permission.startsWith(prefix)))
+    ),
+    [access]
+  );
+
+  return { access, loading, can, refresh };
+};
@@ -0,0 +1,54 @@
+import api from './api';
+
+// Web push opt-in for this browser: registers /sw.js and sends the subscription to the API
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (value: string) => {
+  const padding = '='.repeat((4 - (value.length % 4)) % 4);
+  const raw = window.atob((value + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const getRegistration = () => navigator.serviceWorker.register('/sw.js');
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await getRegistration();
+  return registration.pushManager.getSubscription();
+};
+
+export const subscribeToPush = async () => {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const keyResponse = await api.get('/users/push/public-key');
+  if (!keyResponse.data.enabled) {
+    throw new Error('Push notifications are not configured on the server');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notification permission was not granted');
+  }
+
+  const registration = await getRegistration();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(keyResponse.data.publicKey),
+  });
+
+  await api.post('/users/push/subscriptions', subscription.toJSON());
+  return subscription;
+};
+
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await api.delete('/users/push/subscriptions', { data: { endpoint: subscription.endpoint } });
+  await subscription.unsubscribe();
+};
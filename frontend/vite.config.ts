@@ -16,6 +16,10 @@ export default defineConfig({
         target: 'http://localhost:5000',
         changeOrigin: true,
       },
+      '/ws': {
+        target: 'ws://localhost:5000',
+        ws: true,
+      },
     },
   },
   build: {